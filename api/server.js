@@ -8,6 +8,7 @@ const express = require('express');
 const { Pool } = require('pg');
 const cors = require('cors');
 const SunCalc = require('suncalc'); // --- ADDED: For sun position calculations ---
+const crypto = require('crypto');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -89,6 +90,24 @@ async function queryWithRetry(queryText, params = [], retries = 3, delay = 1000)
   }
 }
 
+// --- Transaction Helper ---
+// Runs fn(client) between BEGIN and COMMIT on one pooled connection; rolls back if fn throws.
+// Safe with PgBouncer transaction mode since every statement stays inside the transaction.
+async function withTransaction(fn) {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 // --- Health Check Endpoint ---
 app.get('/api/health', async (req, res) => {
   const startTime = Date.now();
@@ -134,10 +153,398 @@ app.get('/api/health', async (req, res) => {
 });
 
 
+
+// =====================================================
+// AUTHENTICATION & ROLES
+// =====================================================
+// Users live in app_users (data/create-users.sql); passwords are hashed by pgcrypto.
+// Sessions are stateless HS256 JWTs signed with AUTH_JWT_SECRET, sent as "Authorization: Bearer".
+// Reading the dashboard stays public; write routes are guarded with requirePermission().
+
+const AUTH_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const USER_ROLES = ['viewer', 'surveyor', 'analyst', 'admin'];
+
+// Keep in sync with ROLE_PERMISSIONS in src/types/auth.ts
+const ROLE_PERMISSIONS = {
+  viewer: [],
+  surveyor: ['observations:write', 'edits:propose'],
+  analyst: ['observations:write', 'edits:propose', 'edits:review', 'presets:write'],
+  admin: ['observations:write', 'observations:delete', 'edits:propose', 'edits:review', 'presets:write', 'users:manage']
+};
+
+const hasPermission = (role, permission) => (ROLE_PERMISSIONS[role] || []).includes(permission);
+
+function signAuthToken(user) {
+  const now = Math.floor(Date.now() / 1000);
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({
+    sub: String(user.id),
+    role: user.role,
+    iat: now,
+    exp: now + AUTH_TOKEN_TTL_SECONDS
+  })).toString('base64url');
+  const signature = crypto
+    .createHmac('sha256', process.env.AUTH_JWT_SECRET)
+    .update(`${header}.${payload}`)
+    .digest('base64url');
+  return { token: `${header}.${payload}.${signature}`, expiresAt: new Date((now + AUTH_TOKEN_TTL_SECONDS) * 1000) };
+}
+
+// Returns the token payload, or null if the token is malformed, forged or expired
+function verifyAuthToken(token) {
+  const secret = process.env.AUTH_JWT_SECRET;
+  const parts = token.split('.');
+  if (!secret || parts.length !== 3) return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${parts[0]}.${parts[1]}`).digest();
+  const actual = Buffer.from(parts[2], 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+function formatUser(row) {
+  return {
+    id: String(row.id),
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    active: row.active,
+    permissions: ROLE_PERMISSIONS[row.role] || [],
+    last_login_at: row.last_login_at || null,
+    created_at: row.created_at
+  };
+}
+
+function handleAuthError(res, err, route) {
+  console.error(`Error executing query for ${route}`, err.message);
+  if (err.message.includes('does not exist')) {
+    return res.status(503).json({ error: 'User accounts not yet set up. Run data/create-users.sql first.' });
+  }
+  res.status(500).json({ error: 'Internal server error', details: err.message });
+}
+
+// Attaches req.auth = { userId, role } when a valid bearer token is sent; never rejects
+app.use((req, res, next) => {
+  req.auth = null;
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Bearer ')) {
+    const payload = verifyAuthToken(header.slice(7));
+    if (payload) req.auth = { userId: payload.sub, role: payload.role };
+  }
+  next();
+});
+
+/**
+ * Route guard: 401 without a valid session, 403 without the permission.
+ * The role is re-read from the database so deactivations and role changes apply immediately.
+ */
+function requirePermission(permission) {
+  return async (req, res, next) => {
+    if (!req.auth) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    try {
+      const result = await queryWithRetry(
+        'SELECT id, name, role, active FROM app_users WHERE id = $1;',
+        [req.auth.userId]
+      );
+      const user = result.rows[0];
+      if (!user || !user.active) {
+        return res.status(401).json({ error: 'Account is no longer active' });
+      }
+      if (!hasPermission(user.role, permission)) {
+        return res.status(403).json({ error: 'Your role does not allow this action' });
+      }
+      req.user = { id: String(user.id), name: user.name, role: user.role };
+      next();
+    } catch (err) {
+      handleAuthError(res, err, `${req.method} ${req.path} (auth)`);
+    }
+  };
+}
+
+/**
+ * POST /api/auth/login
+ * Body: { email, password } -> { token, expires_at, user }
+ */
+app.post('/api/auth/login', async (req, res) => {
+  const { email, password } = req.body || {};
+  if (!process.env.AUTH_JWT_SECRET) {
+    return res.status(503).json({ error: 'Sign-in is not configured on this server (AUTH_JWT_SECRET is missing).' });
+  }
+  if (typeof email !== 'string' || typeof password !== 'string' || !email.trim() || !password) {
+    return res.status(400).json({ error: 'email and password are required' });
+  }
+
+  try {
+    const result = await queryWithRetry(`
+      SELECT id, email, name, role, active, last_login_at, created_at
+      FROM app_users
+      WHERE LOWER(email) = LOWER($1) AND password_hash = crypt($2, password_hash);
+    `, [email.trim(), password]);
+
+    const user = result.rows[0];
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+    if (!user.active) {
+      return res.status(403).json({ error: 'This account has been deactivated' });
+    }
+
+    await queryWithRetry('UPDATE app_users SET last_login_at = NOW() WHERE id = $1;', [user.id]);
+    const { token, expiresAt } = signAuthToken(user);
+    res.json({ token, expires_at: expiresAt, user: formatUser(user) });
+  } catch (err) {
+    handleAuthError(res, err, 'POST /api/auth/login');
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Current user for a stored token (used to restore sessions and pick up role changes)
+ */
+app.get('/api/auth/me', async (req, res) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+  try {
+    const result = await queryWithRetry(`
+      SELECT id, email, name, role, active, last_login_at, created_at
+      FROM app_users WHERE id = $1;
+    `, [req.auth.userId]);
+    const user = result.rows[0];
+    if (!user || !user.active) {
+      return res.status(401).json({ error: 'Account is no longer active' });
+    }
+    res.json(formatUser(user));
+  } catch (err) {
+    handleAuthError(res, err, 'GET /api/auth/me');
+  }
+});
+
+function validateUserInput({ email, name, role, password, active }, { partial = false } = {}) {
+  if (!partial || email !== undefined) {
+    if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) return 'A valid email is required';
+  }
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) return 'name is required (at most 100 characters)';
+  }
+  if (!partial || role !== undefined) {
+    if (!USER_ROLES.includes(role)) return `role must be one of: ${USER_ROLES.join(', ')}`;
+  }
+  if (!partial || password !== undefined) {
+    if (typeof password !== 'string' || password.length < 8) return 'password must be at least 8 characters';
+  }
+  if (active !== undefined && typeof active !== 'boolean') return 'active must be true or false';
+  return null;
+}
+
+/**
+ * GET /api/users
+ * All accounts, for the admin user manager
+ */
+app.get('/api/users', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const result = await queryWithRetry(`
+      SELECT id, email, name, role, active, last_login_at, created_at
+      FROM app_users
+      ORDER BY active DESC, name;
+    `);
+    res.json({ data: result.rows.map(formatUser) });
+  } catch (err) {
+    handleAuthError(res, err, 'GET /api/users');
+  }
+});
+
+/**
+ * POST /api/users
+ * Body: { email, name, role, password }
+ */
+app.post('/api/users', requirePermission('users:manage'), async (req, res) => {
+  const { email, name, role, password } = req.body || {};
+  const validationError = validateUserInput({ email, name, role, password });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const result = await queryWithRetry(`
+      INSERT INTO app_users (email, name, role, password_hash)
+      VALUES (LOWER($1), $2, $3, crypt($4, gen_salt('bf')))
+      RETURNING id, email, name, role, active, last_login_at, created_at;
+    `, [email.trim(), name.trim(), role, password]);
+    res.status(201).json(formatUser(result.rows[0]));
+  } catch (err) {
+    if (err.code === '23505') {
+      return res.status(409).json({ error: 'An account with this email already exists' });
+    }
+    handleAuthError(res, err, 'POST /api/users');
+  }
+});
+
+/**
+ * PATCH /api/users/:id
+ * Body: any of { name, role, active, password }
+ */
+app.patch('/api/users/:id', requirePermission('users:manage'), async (req, res) => {
+  const { id } = req.params;
+  const { name, role, active, password } = req.body || {};
+  if (!/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Invalid user id' });
+  }
+  const validationError = validateUserInput({ name, role, active, password }, { partial: true });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  // Admins can't lock themselves out
+  if (id === req.user.id && ((role !== undefined && role !== 'admin') || active === false)) {
+    return res.status(400).json({ error: 'You cannot remove your own admin access' });
+  }
+
+  try {
+    const result = await queryWithRetry(`
+      UPDATE app_users
+      SET
+        name = COALESCE($2, name),
+        role = COALESCE($3, role),
+        active = COALESCE($4, active),
+        password_hash = CASE WHEN $5::text IS NULL THEN password_hash ELSE crypt($5, gen_salt('bf')) END
+      WHERE id = $1
+      RETURNING id, email, name, role, active, last_login_at, created_at;
+    `, [id, name !== undefined ? name.trim() : null, role ?? null, active ?? null, password ?? null]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    res.json(formatUser(result.rows[0]));
+  } catch (err) {
+    handleAuthError(res, err, 'PATCH /api/users/:id');
+  }
+});
+
+
 // --- API Endpoints ---
 
 // NO CHANGES to existing, working endpoints. They remain untouched.
 
+// --- NEW API ENDPOINT FOR TREE SEARCH ---
+// Fuzzy lookup by tree id, common name, botanical name and ward.
+// Must be registered before /api/trees/:id so "search" is not treated as an id.
+// Uses pg_trgm similarity when the extension is installed (see data/create-tree-search-index.sql),
+// otherwise falls back to plain ILIKE matching.
+app.get('/api/trees/search', async (req, res) => {
+  const rawQuery = String(req.query.q || '').trim();
+  const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+
+  if (rawQuery.length < 2) {
+    return res.status(400).json({ error: 'Query parameter q must be at least 2 characters.' });
+  }
+
+  // "ward 12", "w12" or "ward:12" narrows the search to a ward; the rest of the text is the name/id term
+  let ward = null;
+  let term = rawQuery;
+  const wardMatch = rawQuery.match(/\b(?:ward|w)\s*[:#]?\s*(\d+)\b/i);
+  if (wardMatch) {
+    ward = wardMatch[1];
+    term = rawQuery.replace(wardMatch[0], '').trim();
+  }
+
+  // Parameters are built in order: search term (if any), ward (if any), limit
+  const params = [];
+  const termParam = term ? `$${params.push(term)}` : null;
+  const wardParam = ward ? `$${params.push(ward)}` : null;
+  const limitParam = `$${params.push(limit)}`;
+  const wardCondition = wardParam
+    ? `(ward = ${wardParam} OR (ward ~ '^[0-9.]+$' AND FLOOR(ward::numeric)::text = ${wardParam}))`
+    : null;
+
+  const buildQuery = (useTrigram) => {
+    if (!termParam) {
+      // Ward-only search: return the largest trees in the ward
+      return `
+        SELECT id, common_name, botanical_name, ward, height_m, girth_cm,
+          ST_X(geom) AS lon, ST_Y(geom) AS lat,
+          1 AS score
+        FROM public.trees
+        WHERE ${wardCondition}
+        ORDER BY girth_cm DESC NULLS LAST
+        LIMIT ${limitParam};
+      `;
+    }
+
+    const scoreExpr = useTrigram
+      ? `GREATEST(
+          similarity(COALESCE(common_name, ''), ${termParam}),
+          similarity(COALESCE(botanical_name, ''), ${termParam}),
+          similarity(id::text, ${termParam})
+        )`
+      : `CASE
+          WHEN LOWER(common_name) = LOWER(${termParam}) OR LOWER(botanical_name) = LOWER(${termParam}) THEN 1
+          WHEN common_name ILIKE ${termParam} || '%' OR botanical_name ILIKE ${termParam} || '%' THEN 0.8
+          ELSE 0.5
+        END`;
+
+    const fuzzyMatch = useTrigram
+      ? `OR common_name % ${termParam} OR botanical_name % ${termParam}`
+      : '';
+
+    return `
+      SELECT id, common_name, botanical_name, ward, height_m, girth_cm,
+        ST_X(geom) AS lon, ST_Y(geom) AS lat,
+        CASE WHEN id::text = ${termParam} THEN 2 ELSE ${scoreExpr} END AS score
+      FROM public.trees
+      WHERE (
+        id::text = ${termParam}
+        OR id::text ILIKE ${termParam} || '%'
+        OR common_name ILIKE '%' || ${termParam} || '%'
+        OR botanical_name ILIKE '%' || ${termParam} || '%'
+        ${fuzzyMatch}
+      )
+      ${wardCondition ? `AND ${wardCondition}` : ''}
+      ORDER BY score DESC, girth_cm DESC NULLS LAST
+      LIMIT ${limitParam};
+    `;
+  };
+
+  try {
+    let result;
+    try {
+      result = await queryWithRetry(buildQuery(true), params);
+    } catch (err) {
+      // 42883 = undefined_function / undefined_operator: pg_trgm is not installed
+      if (err.code !== '42883') throw err;
+      console.warn('[trees/search] pg_trgm not available, falling back to ILIKE matching');
+      result = await queryWithRetry(buildQuery(false), params);
+    }
+
+    res.json({
+      query: rawQuery,
+      ward,
+      results: result.rows.map(row => ({
+        id: String(row.id),
+        common_name: row.common_name,
+        botanical_name: row.botanical_name,
+        ward: row.ward !== null && !isNaN(parseFloat(row.ward)) ? String(Math.floor(parseFloat(row.ward))) : row.ward,
+        height_m: row.height_m !== null ? parseFloat(row.height_m) : null,
+        girth_cm: row.girth_cm !== null ? parseFloat(row.girth_cm) : null,
+        lon: parseFloat(row.lon),
+        lat: parseFloat(row.lat),
+        score: parseFloat(row.score) || 0
+      }))
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/trees/search', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
 app.get('/api/trees/:id', async (req, res) => {
   const { id } = req.params;
   try {
@@ -162,6 +569,105 @@ app.get('/api/trees/:id', async (req, res) => {
   }
 });
 
+// --- NEW API ENDPOINT FOR TREE CONTEXT ---
+// Location, nearest neighbours and how the tree's size ranks within its ward and species.
+// Percentiles are the share of trees with a smaller measurement (null when unmeasured).
+// The ward peer group matches wards stored in either format ("12" or "12.0").
+app.get('/api/trees/:id/context', async (req, res) => {
+  const { id } = req.params;
+  const neighbours = Math.min(Math.max(parseInt(req.query.neighbours) || 5, 1), 20);
+
+  const percentile = (column, group) => `
+    CASE WHEN t.${column} IS NULL THEN NULL
+      ELSE 100.0 * COUNT(*) FILTER (WHERE o.${column} < t.${column}) / NULLIF(COUNT(o.${column}), 0)
+    END AS ${group}_${column.replace(/_(cm|m)$/, '')}_pct`;
+
+  try {
+    const rankQuery = `
+      WITH target AS (
+        SELECT
+          id, geom, ward, botanical_name, girth_cm, height_m, canopy_dia_m, distance_to_road_m,
+          ARRAY[ward, CASE WHEN ward ~ '^[0-9.]+$' THEN FLOOR(ward::numeric)::text END] AS ward_keys
+        FROM public.trees
+        WHERE id = $1
+      )
+      SELECT
+        ST_X(t.geom) AS lon,
+        ST_Y(t.geom) AS lat,
+        t.distance_to_road_m,
+        ward_rank.*,
+        species_rank.*
+      FROM target t
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) AS ward_tree_count,
+          ${percentile('girth_cm', 'ward')},
+          ${percentile('height_m', 'ward')},
+          ${percentile('canopy_dia_m', 'ward')}
+        FROM public.trees o
+        WHERE ${wardMatchSql('t.ward_keys')} -- unqualified ward is o.ward
+      ) ward_rank ON t.ward IS NOT NULL
+      LEFT JOIN LATERAL (
+        SELECT
+          COUNT(*) AS species_tree_count,
+          ${percentile('girth_cm', 'species')},
+          ${percentile('height_m', 'species')}
+        FROM public.trees o
+        WHERE o.botanical_name = t.botanical_name
+      ) species_rank ON t.botanical_name IS NOT NULL;
+    `;
+    const nearestQuery = `
+      SELECT
+        n.id, n.common_name, n.botanical_name, n.height_m, n.girth_cm,
+        ST_Distance(n.geom::geography, t.geom::geography) AS distance_m
+      FROM public.trees n, (SELECT geom FROM public.trees WHERE id = $1) t
+      WHERE n.id <> $1
+      ORDER BY n.geom <-> t.geom
+      LIMIT $2;
+    `;
+
+    const [rankResult, nearestResult] = await Promise.all([
+      queryWithRetry(rankQuery, [id]),
+      queryWithRetry(nearestQuery, [id, neighbours]),
+    ]);
+
+    if (rankResult.rows.length === 0) {
+      return res.status(404).json({ error: 'Tree not found' });
+    }
+
+    const row = rankResult.rows[0];
+    const toNumber = (value) => (value === null || value === undefined ? null : parseFloat(value));
+
+    res.json({
+      lon: toNumber(row.lon),
+      lat: toNumber(row.lat),
+      distance_to_road_m: toNumber(row.distance_to_road_m),
+      ward_rank: {
+        tree_count: parseInt(row.ward_tree_count, 10) || 0,
+        girth_pct: toNumber(row.ward_girth_pct),
+        height_pct: toNumber(row.ward_height_pct),
+        canopy_pct: toNumber(row.ward_canopy_dia_pct),
+      },
+      species_rank: {
+        tree_count: parseInt(row.species_tree_count, 10) || 0,
+        girth_pct: toNumber(row.species_girth_pct),
+        height_pct: toNumber(row.species_height_pct),
+      },
+      nearest: nearestResult.rows.map((n) => ({
+        id: n.id,
+        common_name: n.common_name,
+        botanical_name: n.botanical_name,
+        height_m: toNumber(n.height_m),
+        girth_cm: toNumber(n.girth_cm),
+        distance_m: toNumber(n.distance_m),
+      })),
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/trees/:id/context', err.stack);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 app.get('/api/city-stats', async (req, res) => {
     try {
         const query = `
@@ -198,6 +704,36 @@ app.get('/api/ward-data', async (req, res) => {
     }
 });
 
+// Girth classes for the drawn-area size distribution (cm)
+const POLYGON_GIRTH_CLASS_SQL = `CASE
+    WHEN girth_cm IS NULL THEN 'Unknown'
+    WHEN girth_cm < 30 THEN '1. Sapling (<30cm)'
+    WHEN girth_cm < 60 THEN '2. Young (30-60cm)'
+    WHEN girth_cm < 120 THEN '3. Mature (60-120cm)'
+    WHEN girth_cm < 200 THEN '4. Large (120-200cm)'
+    ELSE '5. Heritage (>200cm)'
+  END`;
+
+const POLYGON_TOP_SPECIES = 10;
+
+// Shannon H' and Gini-Simpson indices from per-species tree counts
+// (same definitions as the shannon_diversity / simpson_diversity chart metrics)
+function diversityIndices(counts) {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return { shannon: 0, simpson: 0, evenness: 0 };
+  const shannon = -counts.reduce((sum, n) => sum + (n / total) * Math.log(n / total), 0);
+  const simpson = total > 1
+    ? 1 - counts.reduce((sum, n) => sum + n * (n - 1), 0) / (total * (total - 1))
+    : 0;
+  // Pielou's evenness J = H' / ln(S)
+  const evenness = counts.length > 1 ? shannon / Math.log(counts.length) : 0;
+  return {
+    shannon: Number(shannon.toFixed(3)),
+    simpson: Number(simpson.toFixed(3)),
+    evenness: Number(evenness.toFixed(3)),
+  };
+}
+
 app.post('/api/stats-in-polygon', async (req, res) => {
     const { polygon } = req.body;
     if (!polygon || !polygon.coordinates) {
@@ -206,15 +742,126 @@ app.post('/api/stats-in-polygon', async (req, res) => {
 
     try {
         const polygonGeoJSON = JSON.stringify(polygon);
-        const query = `
-            SELECT
-                COUNT(*) as tree_count,
-                COALESCE(SUM("CO2_sequestered_kg"), 0) as co2_kg
+        const areaGeom = 'ST_SetSRID(ST_GeomFromGeoJSON($1), 4326)';
+        const whereClause = `WHERE ST_Contains(${areaGeom}, geom)`;
+        const sizeClassQuery = (expr) => queryWithRetry(`
+            SELECT ${expr} AS class, COUNT(*) AS tree_count
             FROM public.trees
-            WHERE ST_Contains(ST_GeomFromGeoJSON($1), geom);
-        `;
-        const result = await queryWithRetry(query, [polygonGeoJSON]);
-        res.json(result.rows[0]);
+            ${whereClause}
+            GROUP BY 1
+            ORDER BY 1;
+        `, [polygonGeoJSON]);
+
+        const [summaryResult, speciesResult, heightResult, girthResult, canopyResult, treeWardsResult] = await Promise.all([
+            queryWithRetry(`
+                SELECT
+                    COUNT(*) as tree_count,
+                    COALESCE(SUM("CO2_sequestered_kg"), 0) as co2_kg,
+                    COALESCE(SUM(PI() * POWER(canopy_dia_m / 2.0, 2)), 0) as canopy_area_m2,
+                    COUNT(*) FILTER (WHERE distance_to_road_m <= 15) as street_count,
+                    COUNT(*) FILTER (WHERE distance_to_road_m > 15) as non_street_count,
+                    COUNT(*) FILTER (WHERE distance_to_road_m IS NULL) as location_unknown_count,
+                    ROUND(AVG(height_m)::numeric, 2) as avg_height_m,
+                    ROUND(AVG(girth_cm)::numeric, 2) as avg_girth_cm,
+                    ROUND(AVG(canopy_dia_m)::numeric, 2) as avg_canopy_m,
+                    (SELECT ST_Area(${areaGeom}::geography)) as area_m2
+                FROM public.trees
+                ${whereClause};
+            `, [polygonGeoJSON]),
+            queryWithRetry(`
+                SELECT common_name as name, COUNT(*) as tree_count
+                FROM public.trees
+                ${whereClause} AND common_name IS NOT NULL AND common_name <> ''
+                GROUP BY common_name
+                ORDER BY tree_count DESC, common_name;
+            `, [polygonGeoJSON]),
+            sizeClassQuery(CHART_GROUP_BY_EXPRESSIONS.height_category),
+            sizeClassQuery(POLYGON_GIRTH_CLASS_SQL),
+            sizeClassQuery(CHART_GROUP_BY_EXPRESSIONS.canopy_category),
+            queryWithRetry(`
+                SELECT ROUND(ward::numeric)::integer as ward_number, COUNT(*) as tree_count
+                FROM public.trees
+                ${whereClause} AND ward IS NOT NULL
+                GROUP BY 1;
+            `, [polygonGeoJSON]),
+        ]);
+
+        // Ward boundaries give the share of the drawn area in each ward; without
+        // them we fall back to the wards recorded on the trees inside it
+        let wardOverlap = [];
+        try {
+            const overlapResult = await queryWithRetry(`
+                SELECT
+                    ward_number,
+                    ST_Area(ST_Intersection(geometry, ${areaGeom})::geography) as overlap_m2
+                FROM ward_polygons
+                WHERE ST_Intersects(geometry, ${areaGeom})
+                ORDER BY ward_number;
+            `, [polygonGeoJSON]);
+            wardOverlap = overlapResult.rows;
+        } catch (err) {
+            if (!err.message.includes('does not exist')) throw err;
+        }
+
+        const summary = summaryResult.rows[0];
+        const treeCount = parseInt(summary.tree_count, 10) || 0;
+        const areaM2 = parseFloat(summary.area_m2) || 0;
+        const canopyAreaM2 = parseFloat(summary.canopy_area_m2) || 0;
+
+        const speciesCounts = speciesResult.rows.map(row => ({ name: row.name, tree_count: parseInt(row.tree_count, 10) }));
+        const recordedSpeciesTrees = speciesCounts.reduce((sum, row) => sum + row.tree_count, 0);
+        const topSpecies = speciesCounts.slice(0, POLYGON_TOP_SPECIES);
+        const otherSpeciesCount = recordedSpeciesTrees - topSpecies.reduce((sum, row) => sum + row.tree_count, 0);
+
+        const toClasses = (result) => result.rows.map(row => ({
+            label: row.class,
+            tree_count: parseInt(row.tree_count, 10),
+        }));
+
+        const treesByWard = new Map(treeWardsResult.rows.map(row => [row.ward_number, parseInt(row.tree_count, 10)]));
+        const wards = wardOverlap.length > 0
+            ? wardOverlap.map(row => ({
+                ward_number: row.ward_number,
+                tree_count: treesByWard.get(row.ward_number) || 0,
+                area_share_pct: areaM2 > 0 ? Number(((parseFloat(row.overlap_m2) / areaM2) * 100).toFixed(1)) : null,
+            }))
+            : [...treesByWard.entries()]
+                .sort(([a], [b]) => a - b)
+                .map(([wardNumber, count]) => ({ ward_number: wardNumber, tree_count: count, area_share_pct: null }));
+
+        res.json({
+            tree_count: treeCount,
+            co2_kg: parseFloat(summary.co2_kg) || 0,
+            area_m2: areaM2,
+            canopy_area_m2: canopyAreaM2,
+            // Crown projections can overlap, so this is an upper bound on true canopy cover
+            canopy_cover_pct: areaM2 > 0 ? Number(Math.min(100, (canopyAreaM2 / areaM2) * 100).toFixed(2)) : 0,
+            tree_density_per_ha: areaM2 > 0 ? Number((treeCount / (areaM2 / 10000)).toFixed(1)) : 0,
+            averages: {
+                height_m: parseFloat(summary.avg_height_m) || 0,
+                girth_cm: parseFloat(summary.avg_girth_cm) || 0,
+                canopy_dia_m: parseFloat(summary.avg_canopy_m) || 0,
+            },
+            location: {
+                street: parseInt(summary.street_count, 10) || 0,
+                non_street: parseInt(summary.non_street_count, 10) || 0,
+                unknown: parseInt(summary.location_unknown_count, 10) || 0,
+            },
+            species: {
+                richness: speciesCounts.length,
+                recorded_trees: recordedSpeciesTrees,
+                top: topSpecies,
+                other_count: otherSpeciesCount,
+                unrecorded_count: Math.max(0, treeCount - recordedSpeciesTrees),
+                ...diversityIndices(speciesCounts.map(row => row.tree_count)),
+            },
+            size_classes: {
+                height: toClasses(heightResult),
+                girth: toClasses(girthResult),
+                canopy: toClasses(canopyResult),
+            },
+            wards,
+        });
     } catch (err)        {
         console.error('Error executing query for /api/stats-in-polygon', err.stack);
         res.status(500).json({ error: 'Internal server error' });
@@ -278,6 +925,351 @@ app.get('/api/tree-archetypes', async (req, res) => {
 });
 
 
+// --- NEW API ENDPOINT FOR SPECIES INDEX ---
+// Species recorded in the census with their tree counts, most common first.
+// Optional ?q= matches common or botanical names.
+app.get('/api/species', async (req, res) => {
+  const q = typeof req.query.q === 'string' && req.query.q.trim() ? req.query.q.trim() : null;
+  const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 500);
+  if (!q) {
+    res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate=86400');
+  }
+
+  try {
+    const result = await queryWithRetry(`
+      SELECT
+        common_name,
+        MODE() WITHIN GROUP (ORDER BY botanical_name) AS botanical_name,
+        COUNT(*) AS tree_count
+      FROM public.trees
+      WHERE common_name IS NOT NULL AND common_name != ''
+        AND ($1::text IS NULL OR common_name ILIKE '%' || $1 || '%' OR botanical_name ILIKE '%' || $1 || '%')
+      GROUP BY common_name
+      ORDER BY tree_count DESC, common_name
+      LIMIT $2;
+    `, [q, limit]);
+
+    res.json({
+      data: result.rows.map(row => ({
+        common_name: row.common_name,
+        botanical_name: row.botanical_name,
+        tree_count: parseInt(row.tree_count, 10)
+      }))
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/species', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
+// Fixed-width histogram bins per measurement; the last bin is open-ended
+const SPECIES_HISTOGRAM_BINS = {
+  height_m: { width: 2, count: 15 },
+  girth_cm: { width: 25, count: 16 },
+  canopy_dia_m: { width: 2, count: 12 }
+};
+// ~1.1 km cells for the distribution map
+const SPECIES_GRID_DEGREES = 0.01;
+
+// --- NEW API ENDPOINT FOR SPECIES PROFILE ---
+// Everything the species panel shows for one common name: size summary and histograms,
+// ward counts, flowering/economic-importance breakdowns and a gridded distribution.
+app.get('/api/species/:name/profile', async (req, res) => {
+  const { name } = req.params;
+  res.setHeader('Cache-Control', 's-maxage=3600, stale-while-revalidate=86400');
+
+  try {
+    const summaryResult = await queryWithRetry(`
+      SELECT
+        COUNT(*) AS tree_count,
+        (SELECT COUNT(*) FROM public.trees) AS city_tree_count,
+        MODE() WITHIN GROUP (ORDER BY botanical_name) AS botanical_name,
+        COALESCE(SUM("CO2_sequestered_kg"), 0) AS total_co2_kg,
+        SUM(CASE WHEN distance_to_road_m IS NOT NULL AND distance_to_road_m <= 15 THEN 1 ELSE 0 END) AS street_count,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY height_m) AS height_median,
+        PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY height_m) AS height_p90,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY girth_cm) AS girth_median,
+        PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY girth_cm) AS girth_p90,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY canopy_dia_m) AS canopy_median,
+        PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY canopy_dia_m) AS canopy_p90
+      FROM public.trees
+      WHERE common_name = $1;
+    `, [name]);
+
+    const summary = summaryResult.rows[0];
+    const treeCount = parseInt(summary.tree_count, 10) || 0;
+    if (treeCount === 0) {
+      return res.status(404).json({ error: 'No trees of this species in the census' });
+    }
+
+    const histogramSql = Object.entries(SPECIES_HISTOGRAM_BINS).map(([column, { width, count }]) => `
+      SELECT '${column}' AS metric, LEAST(FLOOR(${column} / ${width}), ${count - 1})::int AS bin, COUNT(*) AS tree_count
+      FROM public.trees
+      WHERE common_name = $1 AND ${column} IS NOT NULL AND ${column} >= 0
+      GROUP BY 2`).join('\n      UNION ALL');
+
+    const [wardResult, histogramResult, attributeResult, gridResult] = await Promise.all([
+      queryWithRetry(`
+        SELECT ward, COUNT(*) AS tree_count
+        FROM public.trees
+        WHERE common_name = $1 AND ward IS NOT NULL AND ward != ''
+        GROUP BY ward;
+      `, [name]),
+      queryWithRetry(`${histogramSql};`, [name]),
+      queryWithRetry(`
+        SELECT 'flowering' AS attribute, COALESCE(NULLIF(flowering, ''), 'Not recorded') AS value, COUNT(*) AS tree_count
+        FROM public.trees WHERE common_name = $1 GROUP BY 2
+        UNION ALL
+        SELECT 'economic_importance', COALESCE(NULLIF(economic_i, ''), 'Not recorded'), COUNT(*)
+        FROM public.trees WHERE common_name = $1 GROUP BY 2
+        ORDER BY attribute, tree_count DESC;
+      `, [name]),
+      queryWithRetry(`
+        SELECT
+          ROUND(ST_X(geom) / $2) * $2 AS lon,
+          ROUND(ST_Y(geom) / $2) * $2 AS lat,
+          COUNT(*) AS tree_count
+        FROM public.trees
+        WHERE common_name = $1 AND geom IS NOT NULL
+        GROUP BY 1, 2;
+      `, [name, SPECIES_GRID_DEGREES])
+    ]);
+
+    // Wards are stored as "12" or "12.0"; merge them the way /api/filter-metadata displays them
+    const wardCounts = new Map();
+    wardResult.rows.forEach(row => {
+      const num = parseFloat(row.ward);
+      const ward = !isNaN(num) ? String(Math.floor(num)) : row.ward;
+      wardCounts.set(ward, (wardCounts.get(ward) || 0) + parseInt(row.tree_count, 10));
+    });
+
+    const histograms = {};
+    Object.entries(SPECIES_HISTOGRAM_BINS).forEach(([column, { width, count }]) => {
+      histograms[column] = Array.from({ length: count }, (_, bin) => ({
+        min: bin * width,
+        max: bin === count - 1 ? null : (bin + 1) * width,
+        tree_count: 0
+      }));
+    });
+    histogramResult.rows.forEach(row => {
+      histograms[row.metric][row.bin].tree_count = parseInt(row.tree_count, 10);
+    });
+
+    const breakdown = (attribute) => attributeResult.rows
+      .filter(row => row.attribute === attribute)
+      .map(row => ({ value: row.value, tree_count: parseInt(row.tree_count, 10) }));
+
+    const toNumber = (value) => (value == null ? null : parseFloat(value));
+
+    res.json({
+      common_name: name,
+      botanical_name: summary.botanical_name,
+      tree_count: treeCount,
+      city_share_pct: (treeCount / (parseInt(summary.city_tree_count, 10) || treeCount)) * 100,
+      street_tree_count: parseInt(summary.street_count, 10) || 0,
+      total_co2_kg: parseFloat(summary.total_co2_kg) || 0,
+      size: {
+        height_m: { median: toNumber(summary.height_median), p90: toNumber(summary.height_p90) },
+        girth_cm: { median: toNumber(summary.girth_median), p90: toNumber(summary.girth_p90) },
+        canopy_dia_m: { median: toNumber(summary.canopy_median), p90: toNumber(summary.canopy_p90) }
+      },
+      histograms,
+      wards: [...wardCounts.entries()]
+        .map(([ward, tree_count]) => ({ ward, tree_count }))
+        .sort((a, b) => b.tree_count - a.tree_count),
+      flowering: breakdown('flowering'),
+      economic_importance: breakdown('economic_importance'),
+      distribution: {
+        cell_degrees: SPECIES_GRID_DEGREES,
+        cells: gridResult.rows.map(row => ({
+          lon: parseFloat(row.lon),
+          lat: parseFloat(row.lat),
+          tree_count: parseInt(row.tree_count, 10)
+        }))
+      }
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/species/:name/profile', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
+
+// Growth model for /api/projections. Girth approaches the species' mature girth (95th percentile
+// in the census) on a monomolecular curve, starting from a sapling's yearly increment; lighter-
+// wooded species grow faster. Height, canopy and yearly CO₂ sequestration follow log-log fits
+// against girth over the species' census trees, so CO₂ uses the same allometry as the census
+// "CO2_sequestered_kg" (kg per year). CO₂ absorbed is the yearly figure summed year by year from
+// the start of the projection. Species with too few measured trees fall back to the city-wide fit.
+const GROWTH_MODEL = {
+  saplingGirthCm: 10,
+  saplingGirthIncrementCm: 3, // per year, ~1 cm of trunk diameter
+  referenceWoodDensity: 0.6,  // g/cm³ at which the sapling increment applies unscaled
+  minFitTrees: 30,
+  maxYears: 50,
+  maxTrees: 50
+};
+
+// Per-group fit columns; logs of unmeasured values are null, which the regressions skip
+const logOf = (column) => `LN(CASE WHEN ${column} > 0 THEN ${column} END)`;
+const GROWTH_FIT_COLUMNS = `
+    COUNT(*) AS tree_count,
+    PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY girth_cm) AS mature_girth_cm,
+    AVG(CASE WHEN wood_density > 0 THEN wood_density END) AS wood_density,
+    REGR_INTERCEPT(${logOf('height_m')}, LN(girth_cm)) AS height_a,
+    REGR_SLOPE(${logOf('height_m')}, LN(girth_cm)) AS height_b,
+    REGR_INTERCEPT(${logOf('canopy_dia_m')}, LN(girth_cm)) AS canopy_a,
+    REGR_SLOPE(${logOf('canopy_dia_m')}, LN(girth_cm)) AS canopy_b,
+    REGR_INTERCEPT(${logOf('"CO2_sequestered_kg"')}, LN(girth_cm)) AS co2_a,
+    REGR_SLOPE(${logOf('"CO2_sequestered_kg"')}, LN(girth_cm)) AS co2_b`;
+
+function toGrowthFit(row) {
+  const num = (value) => (value == null ? null : parseFloat(value));
+  const curve = (a, b) => (num(a) == null || num(b) == null ? null : { a: num(a), b: num(b) });
+  const fit = {
+    treeCount: parseInt(row.tree_count, 10) || 0,
+    matureGirthCm: num(row.mature_girth_cm),
+    woodDensity: num(row.wood_density),
+    height: curve(row.height_a, row.height_b),
+    canopy: curve(row.canopy_a, row.canopy_b),
+    co2: curve(row.co2_a, row.co2_b)
+  };
+  const usable = fit.treeCount >= GROWTH_MODEL.minFitTrees && fit.matureGirthCm > GROWTH_MODEL.saplingGirthCm
+    && fit.height && fit.canopy && fit.co2;
+  return usable ? fit : null;
+}
+
+// The city-wide fit scans every tree, so it is computed once per server instance
+let cityGrowthFitPromise = null;
+function getCityGrowthFit() {
+  if (!cityGrowthFitPromise) {
+    cityGrowthFitPromise = queryWithRetry(`SELECT ${GROWTH_FIT_COLUMNS} FROM public.trees WHERE girth_cm > 0;`)
+      .then(({ rows }) => toGrowthFit(rows[0]));
+    cityGrowthFitPromise.catch(() => { cityGrowthFitPromise = null; });
+  }
+  return cityGrowthFitPromise;
+}
+
+function projectTreeGrowth(fit, tree, years) {
+  const { saplingGirthCm, saplingGirthIncrementCm, referenceWoodDensity } = GROWTH_MODEL;
+  const allometry = (curve, girth) => Math.exp(curve.a + curve.b * Math.log(girth));
+
+  // Trees already past the species' mature girth still put on a little more
+  const startGirth = tree.girth_cm > 0 ? tree.girth_cm : saplingGirthCm;
+  const matureGirth = Math.max(fit.matureGirthCm, startGirth * 1.1);
+  const densityScale = fit.woodDensity ? Math.min(1.6, Math.max(0.6, referenceWoodDensity / fit.woodDensity)) : 1;
+  const increment = saplingGirthIncrementCm * densityScale;
+  const rate = increment / (matureGirth - saplingGirthCm);
+  // Years a sapling would take to reach the starting girth
+  const startAge = startGirth > saplingGirthCm
+    ? -Math.log((matureGirth - startGirth) / (matureGirth - saplingGirthCm)) / rate
+    : 0;
+  const girthAt = (age) => matureGirth - (matureGirth - saplingGirthCm) * Math.exp(-rate * age);
+
+  // Measured trees keep their offset from the species curve
+  const anchor = (measured, curve) => (measured > 0 ? measured / allometry(curve, startGirth) : 1);
+  const scale = {
+    height: anchor(tree.height_m, fit.height),
+    canopy: anchor(tree.canopy_dia_m, fit.canopy),
+    co2: anchor(tree.co2_annual_kg, fit.co2)
+  };
+  const round = (value) => Math.round(value * 10) / 10;
+  const girthAtYear = (year) => (year === 0 ? startGirth : girthAt(startAge + year));
+  const annualCo2At = (girth) => allometry(fit.co2, girth) * scale.co2;
+
+  // Running total of each year's sequestration, indexed by year
+  const absorbed = [0];
+  for (let year = 1; year <= years[years.length - 1]; year++) {
+    absorbed.push(absorbed[year - 1] + annualCo2At(girthAtYear(year)));
+  }
+
+  return {
+    girthIncrementCm: round(increment),
+    series: years.map((year) => {
+      const girth = girthAtYear(year);
+      return {
+        year,
+        girth_cm: round(girth),
+        height_m: round(allometry(fit.height, girth) * scale.height),
+        canopy_dia_m: round(allometry(fit.canopy, girth) * scale.canopy),
+        co2_annual_kg: round(annualCo2At(girth)),
+        co2_absorbed_kg: round(absorbed[year])
+      };
+    })
+  };
+}
+
+// --- NEW API ENDPOINT FOR GROWTH AND CO₂ PROJECTIONS ---
+// Body: { trees: [{ common_name, count?, girth_cm?, height_m?, canopy_dia_m?, co2_annual_kg? }], years?, step? }
+// Trees without a girth are projected from a newly planted sapling; measured trees from their
+// current size. Returns each tree's girth, height, canopy, yearly CO₂ sequestration and CO₂
+// absorbed so far every `step` years, and the same CO₂ figures for all of them (times their counts).
+app.post('/api/projections', async (req, res) => {
+  const { trees } = req.body;
+  const horizon = Math.min(Math.max(parseInt(req.body.years, 10) || GROWTH_MODEL.maxYears, 5), GROWTH_MODEL.maxYears);
+  const step = Math.min(Math.max(parseInt(req.body.step, 10) || 5, 1), 10);
+
+  if (!Array.isArray(trees) || trees.length === 0 || trees.length > GROWTH_MODEL.maxTrees
+      || trees.some(tree => !tree || typeof tree.common_name !== 'string' || !tree.common_name.trim())) {
+    return res.status(400).json({ error: `Provide 1 to ${GROWTH_MODEL.maxTrees} trees, each with a common_name.` });
+  }
+
+  const years = [];
+  for (let year = 0; year <= horizon; year += step) years.push(year);
+  if (years[years.length - 1] !== horizon) years.push(horizon);
+
+  try {
+    const speciesKeys = [...new Set(trees.map(tree => tree.common_name.trim().toLowerCase()))];
+    const { rows } = await queryWithRetry(`
+      SELECT LOWER(common_name) AS species_key, ${GROWTH_FIT_COLUMNS}
+      FROM public.trees
+      WHERE girth_cm > 0 AND LOWER(common_name) = ANY($1)
+      GROUP BY 1;
+    `, [speciesKeys]);
+    const speciesFits = new Map(rows.map(row => [row.species_key, toGrowthFit(row)]));
+    const cityFit = speciesKeys.some(key => !speciesFits.get(key)) ? await getCityGrowthFit() : null;
+
+    const projections = [];
+    for (const tree of trees) {
+      const speciesFit = speciesFits.get(tree.common_name.trim().toLowerCase());
+      const fit = speciesFit || cityFit;
+      if (!fit) {
+        return res.status(503).json({ error: 'Not enough measured trees in the census to fit a growth model.' });
+      }
+      const count = Math.max(parseInt(tree.count, 10) || 1, 1);
+      const { girthIncrementCm, series } = projectTreeGrowth(fit, {
+        girth_cm: parseFloat(tree.girth_cm) || 0,
+        height_m: parseFloat(tree.height_m) || 0,
+        canopy_dia_m: parseFloat(tree.canopy_dia_m) || 0,
+        co2_annual_kg: parseFloat(tree.co2_annual_kg) || 0
+      }, years);
+      projections.push({
+        common_name: tree.common_name,
+        count,
+        model: {
+          basis: speciesFit ? 'species' : 'city',
+          fit_tree_count: fit.treeCount,
+          mature_girth_cm: Math.round(fit.matureGirthCm),
+          sapling_girth_increment_cm: girthIncrementCm
+        },
+        series
+      });
+    }
+
+    res.json({
+      years,
+      projections,
+      total_co2_annual_kg: years.map((_, i) => projections.reduce((sum, p) => sum + p.series[i].co2_annual_kg * p.count, 0)),
+      total_co2_absorbed_kg: years.map((_, i) => projections.reduce((sum, p) => sum + p.series[i].co2_absorbed_kg * p.count, 0)),
+      sapling_girth_cm: GROWTH_MODEL.saplingGirthCm
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/projections', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
+
 // --- NEW API ENDPOINT FOR 3D TREE DATA ---
 app.post('/api/trees-in-bounds', async (req, res) => {
   const { bounds, limit } = req.body;
@@ -327,6 +1319,44 @@ app.post('/api/trees-in-bounds', async (req, res) => {
   }
 });
 
+// --- NEW API ENDPOINT FOR ROAD CENTRELINES (PLANTING SITE EXCLUSION) ---
+// Roads come from scripts/import-pune-roads.mjs
+app.post('/api/roads-in-bounds', async (req, res) => {
+  const { bounds, limit } = req.body;
+
+  if (!bounds || !bounds.sw || !bounds.ne) {
+    return res.status(400).json({ error: 'Invalid bounds provided.' });
+  }
+
+  const [swLon, swLat] = bounds.sw;
+  const [neLon, neLat] = bounds.ne;
+  const MAX_ROADS_RETURN = Math.min(parseInt(limit, 10) || 5000, 20000);
+
+  try {
+    const query = `
+      SELECT json_build_object(
+        'type', 'FeatureCollection',
+        'features', COALESCE(json_agg(ST_AsGeoJSON(r.*)::json), '[]'::json)
+      ) AS collection
+      FROM (
+        SELECT osm_id, name, highway, geom
+        FROM public.roads
+        WHERE geom && ST_MakeEnvelope($1, $2, $3, $4, 4326)
+        LIMIT $5
+      ) AS r;
+    `;
+
+    const result = await queryWithRetry(query, [swLon, swLat, neLon, neLat, MAX_ROADS_RETURN]);
+    res.json(result.rows[0].collection);
+  } catch (err) {
+    if (err.message.includes('does not exist')) {
+      return res.status(503).json({ error: 'Road data is not set up. Run scripts/import-pune-roads.mjs first.' });
+    }
+    console.error('Error executing query for /api/roads-in-bounds', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
 // --- NEW API ENDPOINT FOR SUN PATH ANIMATION ---
 app.get('/api/sun-path', (req, res) => {
     const { date, lat, lon } = req.query;
@@ -503,230 +1533,1163 @@ app.get('/api/filter-metadata', async (req, res) => {
     console.log(`[filter-metadata] Success in ${Date.now() - startTime}ms - Species: ${responseData.species.length}, Wards: ${responseData.wards.length}`);
     res.json(responseData);
   } catch (err) {
-    console.error(`[filter-metadata] Error after ${Date.now() - startTime}ms:`, err.message);
-    res.status(500).json({ error: 'Internal server error', details: err.message });
+    console.error(`[filter-metadata] Error after ${Date.now() - startTime}ms:`, err.message);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
+
+// --- Filter Helpers ---
+// Numeric range filters: TreeFilters key -> column
+const FILTER_RANGE_COLUMNS = [
+  ['height', 'height_m'],
+  ['canopyDiameter', 'canopy_dia_m'],
+  ['girth', 'girth_cm'],
+  ['co2Sequestered', '"CO2_sequestered_kg"'],
+];
+
+// Matches wards given as integers (from the UI) against the stored format (e.g. "12.0")
+function wardMatchSql(placeholder) {
+  return `(ward = ANY(${placeholder}) OR (ward ~ '^[0-9.]+$' AND FLOOR(ward::numeric)::text = ANY(${placeholder})))`;
+}
+
+// Range condition; range.unknown decides how rows with a NULL value are treated
+// ('exclude' by default, 'include' alongside the range, or 'only' NULLs)
+function rangeConditionSql(column, range, params) {
+  if (range.unknown === 'only') return `${column} IS NULL`;
+  
+  const bounds = [];
+  if (range.min !== null && range.min !== undefined) {
+    params.push(range.min);
+    bounds.push(`${column} >= $${params.length}`);
+  }
+  if (range.max !== null && range.max !== undefined) {
+    params.push(range.max);
+    bounds.push(`${column} <= $${params.length}`);
+  }
+  if (bounds.length === 0) return null;
+  
+  const inRange = bounds.join(' AND ');
+  return range.unknown === 'include' ? `(${column} IS NULL OR (${inRange}))` : inRange;
+}
+
+// Conditions for one set of criteria - the top-level filters or a single OR clause
+function buildCriteriaConditions(filters, params) {
+  const conditions = [];
+  
+  // Location type filter
+  if (filters.locationType && filters.locationType !== 'all') {
+    if (filters.locationType === 'street') {
+      conditions.push(`distance_to_road_m IS NOT NULL AND distance_to_road_m <= 15`);
+    } else if (filters.locationType === 'non-street') {
+      conditions.push(`(distance_to_road_m > 15 OR distance_to_road_m IS NULL)`);
+    }
+  }
+  
+  // Species filter
+  if (Array.isArray(filters.species) && filters.species.length > 0) {
+    params.push(filters.species);
+    conditions.push(`common_name = ANY($${params.length})`);
+  }
+  
+  // Species exclusion - trees without a recorded species are kept
+  if (Array.isArray(filters.excludeSpecies) && filters.excludeSpecies.length > 0) {
+    params.push(filters.excludeSpecies);
+    conditions.push(`(common_name IS NULL OR common_name <> ALL($${params.length}))`);
+  }
+  
+  // Ward filter - handle both integer format (from UI) and original format (in DB)
+  if (Array.isArray(filters.wards) && filters.wards.length > 0) {
+    params.push(filters.wards);
+    conditions.push(wardMatchSql(`$${params.length}`));
+  }
+  
+  // Ward exclusion
+  if (Array.isArray(filters.excludeWards) && filters.excludeWards.length > 0) {
+    params.push(filters.excludeWards);
+    conditions.push(`NOT COALESCE(${wardMatchSql(`$${params.length}`)}, false)`);
+  }
+  
+  // Numeric range filters (open-ended when min or max is null)
+  for (const [key, column] of FILTER_RANGE_COLUMNS) {
+    const range = filters[key];
+    if (!range) continue;
+    const condition = rangeConditionSql(column, range, params);
+    if (condition) conditions.push(condition);
+  }
+  
+  // Flowering filter
+  if (filters.flowering !== null && filters.flowering !== undefined) {
+    if (filters.flowering === true) {
+      conditions.push(`flowering IS NOT NULL AND flowering != '' AND LOWER(flowering) != 'no'`);
+    } else {
+      conditions.push(`(flowering IS NULL OR flowering = '' OR LOWER(flowering) = 'no')`);
+    }
+  }
+  
+  // Economic importance filter
+  if (filters.economicImportance) {
+    params.push(filters.economicImportance);
+    conditions.push(`economic_i = $${params.length}`);
+  }
+  
+  return conditions;
+}
+
+// Translates the frontend TreeFilters payload (src/types/filters.ts) into a SQL WHERE clause.
+// Shared by every endpoint that must agree with the filtered map.
+// Pass `params` to append to an existing parameter list; placeholders continue from its length.
+function buildTreeFilterWhere(filters = {}, polygon = null, params = []) {
+  const conditions = buildCriteriaConditions(filters, params);
+  
+  // OR groups - a tree must match at least one clause of every group.
+  // A clause with no conditions matches everything, which makes its group a no-op.
+  if (Array.isArray(filters.orGroups)) {
+    for (const group of filters.orGroups) {
+      if (!Array.isArray(group) || group.length === 0) continue;
+      const clauses = group.map((clause) => {
+        const clauseConditions = clause && typeof clause === 'object' ? buildCriteriaConditions(clause, params) : [];
+        return clauseConditions.length > 0 ? `(${clauseConditions.join(' AND ')})` : 'TRUE';
+      });
+      conditions.push(`(${clauses.join(' OR ')})`);
+    }
+  }
+  
+  // Optional drawn polygon (GeoJSON geometry)
+  if (polygon && polygon.coordinates) {
+    params.push(JSON.stringify(polygon));
+    conditions.push(`ST_Contains(ST_GeomFromGeoJSON($${params.length}), geom)`);
+  }
+  
+  return {
+    whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+
+// --- NEW API ENDPOINT FOR FILTERED STATS ---
+// Returns aggregated stats based on applied filters
+app.post('/api/filtered-stats', async (req, res) => {
+  const { filters = {} } = req.body || {};
+  
+  try {
+    const { whereClause, params } = buildTreeFilterWhere(filters);
+    
+    const query = `
+      SELECT
+        COUNT(*) AS total_trees,
+        COALESCE(SUM("CO2_sequestered_kg"), 0) AS total_co2_kg
+      FROM public.trees
+      ${whereClause};
+    `;
+    
+    const result = await queryWithRetry(query, params);
+    res.json({
+      total_trees: parseInt(result.rows[0]?.total_trees) || 0,
+      total_co2_kg: parseFloat(result.rows[0]?.total_co2_kg) || 0
+    });
+  } catch (err) {
+    console.error('Error executing query for /api/filtered-stats', err.stack);
+    res.status(500).json({ error: 'Internal server error', details: err.message });
+  }
+});
+
+
+// --- NEW API ENDPOINT FOR TREE EXPORT ---
+// Streams every tree matching the active filters (and optional drawn polygon) as
+// CSV, GeoJSON or GeoJSONSeq (RFC 8142, readable by GDAL/QGIS and convertible to GeoPackage).
+// Rows are fetched in keyset-paginated batches so large exports never sit in memory.
+const EXPORT_BATCH_SIZE = 5000;
+
+const EXPORT_COLUMNS = [
+  'id', 'common_name', 'botanical_name', 'ward', 'height_m', 'girth_cm', 'canopy_dia_m',
+  'co2_sequestered_kg', 'economic_i', 'flowering', 'wood_density', 'distance_to_road_m',
+  'longitude', 'latitude'
+];
+
+const EXPORT_FORMATS = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  geojson: { contentType: 'application/geo+json', extension: 'geojson' },
+  geojsonseq: { contentType: 'application/geo+json-seq', extension: 'geojsonl' },
+};
+
+function toCsvValue(value) {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function toExportFeature(row) {
+  const { longitude, latitude, ...properties } = row;
+  return {
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [longitude, latitude] },
+    properties,
+  };
+}
+
+app.post('/api/trees/export', async (req, res) => {
+  const { filters = {}, polygon = null, format = 'csv' } = req.body || {};
+  const formatConfig = EXPORT_FORMATS[format];
+  
+  if (!formatConfig) {
+    return res.status(400).json({ error: `Invalid format: ${format}. Use one of ${Object.keys(EXPORT_FORMATS).join(', ')}.` });
+  }
+  
+  // req 'close' fires once the body has been read (Node 16+), so watch the response instead:
+  // it closes before end() only when the client goes away
+  let clientClosed = false;
+  res.on('close', () => { if (!res.writableEnded) clientClosed = true; });
+  
+  const startTime = Date.now();
+  let rowCount = 0;
+  let headersSent = false;
+  
+  try {
+    const { whereClause, params } = buildTreeFilterWhere(filters, polygon);
+    
+    // First batch has no cursor; later batches continue after the last id seen
+    const buildBatchQuery = (hasCursor) => {
+      const cursorCondition = hasCursor ? `id > $${params.length + 1}` : null;
+      const where = cursorCondition
+        ? (whereClause ? `${whereClause} AND ${cursorCondition}` : `WHERE ${cursorCondition}`)
+        : whereClause;
+      return `
+        SELECT
+          id, common_name, botanical_name, ward, height_m, girth_cm, canopy_dia_m,
+          "CO2_sequestered_kg" AS co2_sequestered_kg,
+          economic_i, flowering, wood_density, distance_to_road_m,
+          ST_X(geom) AS longitude, ST_Y(geom) AS latitude
+        FROM public.trees
+        ${where}
+        ORDER BY id
+        LIMIT ${EXPORT_BATCH_SIZE};
+      `;
+    };
+    
+    let lastId = null;
+    
+    while (!clientClosed && !res.destroyed) {
+      const result = lastId === null
+        ? await queryWithRetry(buildBatchQuery(false), params)
+        : await queryWithRetry(buildBatchQuery(true), [...params, lastId]);
+      const rows = result.rows;
+      
+      if (!headersSent) {
+        const filename = `pune-trees-${new Date().toISOString().slice(0, 10)}.${formatConfig.extension}`;
+        res.setHeader('Content-Type', formatConfig.contentType);
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+        res.setHeader('Cache-Control', 'no-store');
+        if (format === 'csv') res.write(EXPORT_COLUMNS.join(',') + '\n');
+        if (format === 'geojson') res.write('{"type":"FeatureCollection","features":[');
+        headersSent = true;
+      }
+      
+      if (clientClosed || res.destroyed) break;
+      
+      let chunk = '';
+      for (const row of rows) {
+        if (format === 'csv') {
+          chunk += EXPORT_COLUMNS.map(col => toCsvValue(row[col])).join(',') + '\n';
+        } else if (format === 'geojson') {
+          chunk += (rowCount > 0 ? ',' : '') + JSON.stringify(toExportFeature(row));
+        } else {
+          chunk += '\x1e' + JSON.stringify(toExportFeature(row)) + '\n';
+        }
+        rowCount++;
+      }
+      if (chunk) res.write(chunk);
+      
+      if (rows.length < EXPORT_BATCH_SIZE) break;
+      lastId = rows[rows.length - 1].id;
+    }
+    
+    if (!clientClosed && !res.destroyed) {
+      if (format === 'geojson' && headersSent) res.write(']}');
+      res.end();
+    }
+    console.log(`[trees/export] ${rowCount} trees as ${format} in ${Date.now() - startTime}ms${clientClosed ? ' (client disconnected)' : ''}`);
+  } catch (err) {
+    console.error('Error executing query for /api/trees/export', err.stack);
+    if (!headersSent) {
+      res.status(500).json({ error: 'Internal server error', details: err.message });
+    } else {
+      // Headers are already on the wire - terminate so the client sees a truncated download
+      res.destroy(err);
+    }
+  }
+});
+
+
+// =====================================================
+// FILTER PRESET ENDPOINTS (shared named TreeFilters)
+// =====================================================
+// Table is created by data/create-filter-presets.sql
+
+const PRESET_NAME_MAX_LENGTH = 100;
+
+function formatPreset(row) {
+  return {
+    id: String(row.id),
+    name: row.name,
+    description: row.description,
+    filters: row.filters,
+    author: row.author,
+    created_by: row.created_by == null ? null : String(row.created_by),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+const PRESET_COLUMNS = 'id, name, description, filters, author, created_by, created_at, updated_at';
+
+// Shared presets can be changed by the user who shared them or by an admin
+const canManageAnyPreset = (user) => user.role === 'admin';
+
+function validatePresetInput({ name, filters }, { partial = false } = {}) {
+  if (!partial || name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) return 'name is required';
+    if (name.trim().length > PRESET_NAME_MAX_LENGTH) return `name must be at most ${PRESET_NAME_MAX_LENGTH} characters`;
+  }
+  if (!partial || filters !== undefined) {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) return 'filters must be an object';
+  }
+  return null;
+}
+
+function handlePresetError(res, err, route) {
+  console.error(`Error executing query for ${route}`, err.message);
+  if (err.message.includes('does not exist')) {
+    return res.status(503).json({
+      error: 'Filter presets not yet set up. Run data/create-filter-presets.sql first.'
+    });
+  }
+  res.status(500).json({ error: 'Internal server error', details: err.message });
+}
+
+/**
+ * GET /api/filter-presets
+ * Lists shared presets, most recently updated first
+ */
+app.get('/api/filter-presets', async (req, res) => {
+  try {
+    const result = await queryWithRetry(`
+      SELECT ${PRESET_COLUMNS}
+      FROM filter_presets
+      ORDER BY updated_at DESC;
+    `);
+    res.json({ data: result.rows.map(formatPreset) });
+  } catch (err) {
+    handlePresetError(res, err, 'GET /api/filter-presets');
+  }
+});
+
+/**
+ * POST /api/filter-presets
+ * Body: { name, filters, description?, author? }
+ */
+app.post('/api/filter-presets', requirePermission('presets:write'), async (req, res) => {
+  const { name, filters, description = null, author = req.user.name } = req.body || {};
+  const validationError = validatePresetInput({ name, filters });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  try {
+    const result = await queryWithRetry(`
+      INSERT INTO filter_presets (name, description, filters, author, created_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${PRESET_COLUMNS};
+    `, [name.trim(), description, JSON.stringify(filters), author, req.user.id]);
+    res.status(201).json(formatPreset(result.rows[0]));
+  } catch (err) {
+    handlePresetError(res, err, 'POST /api/filter-presets');
+  }
+});
+
+/**
+ * PUT /api/filter-presets/:id
+ * Body: any of { name, filters, description } - used for rename and overwrite
+ * Only the preset's author or an admin can change it
+ */
+app.put('/api/filter-presets/:id', requirePermission('presets:write'), async (req, res) => {
+  const { id } = req.params;
+  const { name, filters, description } = req.body || {};
+  if (!/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Invalid preset id' });
+  }
+  const validationError = validatePresetInput({ name, filters }, { partial: true });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  const canManageAny = canManageAnyPreset(req.user);
+
+  try {
+    const result = await queryWithRetry(`
+      UPDATE filter_presets
+      SET
+        name = COALESCE($2, name),
+        filters = COALESCE($3::jsonb, filters),
+        description = CASE WHEN $4::boolean THEN $5 ELSE description END,
+        updated_at = NOW()
+      WHERE id = $1 AND ($6::boolean OR created_by = $7)
+      RETURNING ${PRESET_COLUMNS};
+    `, [
+      id,
+      name !== undefined ? name.trim() : null,
+      filters !== undefined ? JSON.stringify(filters) : null,
+      description !== undefined,
+      description ?? null,
+      canManageAny,
+      req.user.id
+    ]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: canManageAny ? 'Preset not found' : 'Preset not found or not yours to change' });
+    }
+    res.json(formatPreset(result.rows[0]));
+  } catch (err) {
+    handlePresetError(res, err, 'PUT /api/filter-presets/:id');
+  }
+});
+
+/**
+ * DELETE /api/filter-presets/:id
+ * Only the preset's author or an admin can delete it
+ */
+app.delete('/api/filter-presets/:id', requirePermission('presets:write'), async (req, res) => {
+  const { id } = req.params;
+  if (!/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Invalid preset id' });
+  }
+  const canManageAny = canManageAnyPreset(req.user);
+  try {
+    const result = await queryWithRetry(`
+      DELETE FROM filter_presets
+      WHERE id = $1 AND ($2::boolean OR created_by = $3)
+      RETURNING id;
+    `, [id, canManageAny, req.user.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: canManageAny ? 'Preset not found' : 'Preset not found or not yours to delete' });
+    }
+    res.status(204).end();
+  } catch (err) {
+    handlePresetError(res, err, 'DELETE /api/filter-presets/:id');
+  }
+});
+
+
+// =====================================================
+// TREE OBSERVATION ENDPOINTS (condition log per tree)
+// =====================================================
+// Table is created by data/create-tree-observations.sql
+
+const OBSERVATION_STATUSES = ['healthy', 'diseased', 'fallen', 'felled'];
+const OBSERVATION_CONDITIONS = [
+  'pest', 'fungal', 'bark_damage', 'dead_branches', 'leaning', 'root_damage',
+  'concreted_base', 'lopped', 'nails_or_ads', 'wires'
+];
+const OBSERVATION_NOTES_MAX_LENGTH = 2000;
+const OBSERVATION_MAX_PHOTOS = 5;
+
+function formatObservation(row) {
+  return {
+    id: String(row.id),
+    tree_id: row.tree_id,
+    status: row.status,
+    condition: row.condition || [],
+    notes: row.notes,
+    photos: row.photos || [],
+    observer: row.observer,
+    observed_at: row.observed_at,
+    created_by: row.created_by != null ? String(row.created_by) : null,
+    created_at: row.created_at
+  };
+}
+
+function validateObservationInput({ status, condition, notes, photos, observer, observed_at }) {
+  if (!OBSERVATION_STATUSES.includes(status)) {
+    return `status must be one of: ${OBSERVATION_STATUSES.join(', ')}`;
+  }
+  if (condition !== undefined) {
+    if (!Array.isArray(condition)) return 'condition must be an array';
+    const unknown = condition.find((c) => !OBSERVATION_CONDITIONS.includes(c));
+    if (unknown !== undefined) return `Unknown condition: ${unknown}`;
+  }
+  if (notes != null && (typeof notes !== 'string' || notes.length > OBSERVATION_NOTES_MAX_LENGTH)) {
+    return `notes must be text of at most ${OBSERVATION_NOTES_MAX_LENGTH} characters`;
+  }
+  if (photos !== undefined) {
+    if (!Array.isArray(photos) || photos.length > OBSERVATION_MAX_PHOTOS) {
+      return `photos must be an array of at most ${OBSERVATION_MAX_PHOTOS} items`;
+    }
+    const invalid = photos.find((p) => !p || typeof p.url !== 'string' || !/^https?:\/\//i.test(p.url));
+    if (invalid !== undefined) return 'Each photo needs an http(s) url';
+  }
+  if (observer != null && (typeof observer !== 'string' || observer.length > 100)) {
+    return 'observer must be at most 100 characters';
+  }
+  if (observed_at != null) {
+    const date = new Date(observed_at);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(observed_at) || Number.isNaN(date.getTime())) {
+      return 'observed_at must be a YYYY-MM-DD date';
+    }
+    if (date.getTime() > Date.now() + 24 * 60 * 60 * 1000) return 'observed_at cannot be in the future';
+  }
+  return null;
+}
+
+function handleObservationError(res, err, route) {
+  console.error(`Error executing query for ${route}`, err.message);
+  if (err.message.includes('does not exist')) {
+    return res.status(503).json({
+      error: 'Tree observations not yet set up. Run data/create-tree-observations.sql first.'
+    });
+  }
+  res.status(500).json({ error: 'Internal server error', details: err.message });
+}
+
+/**
+ * GET /api/trees/:id/observations
+ * Condition log for one tree, most recent first
+ */
+app.get('/api/trees/:id/observations', async (req, res) => {
+  const { id } = req.params;
+  try {
+    const result = await queryWithRetry(`
+      SELECT id, tree_id, status, condition, notes, photos, observer,
+        TO_CHAR(observed_at, 'YYYY-MM-DD') AS observed_at, created_by, created_at
+      FROM tree_observations
+      WHERE tree_id = $1
+      ORDER BY observed_at DESC, id DESC;
+    `, [id]);
+    res.json({ data: result.rows.map(formatObservation) });
+  } catch (err) {
+    handleObservationError(res, err, 'GET /api/trees/:id/observations');
   }
 });
 
+/**
+ * POST /api/trees/:id/observations
+ * Body: { status, condition?, notes?, photos?, observer?, observed_at? }
+ * observer defaults to the signed-in user's name
+ */
+app.post('/api/trees/:id/observations', requirePermission('observations:write'), async (req, res) => {
+  const { id } = req.params;
+  const { status, condition = [], notes = null, photos = [], observer = req.user.name, observed_at = null } = req.body || {};
+  const validationError = validateObservationInput({ status, condition, notes, photos, observer, observed_at });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
 
-// --- NEW API ENDPOINT FOR FILTERED STATS ---
-// Returns aggregated stats based on applied filters
-app.post('/api/filtered-stats', async (req, res) => {
-  const { filters = {} } = req.body || {};
-  
   try {
-    // Build WHERE clauses based on filters
-    const conditions = [];
-    const params = [];
-    let paramIndex = 1;
-    
-    // Location type filter
-    if (filters.locationType && filters.locationType !== 'all') {
-      if (filters.locationType === 'street') {
-        conditions.push(`distance_to_road_m IS NOT NULL AND distance_to_road_m <= 15`);
-      } else if (filters.locationType === 'non-street') {
-        conditions.push(`(distance_to_road_m > 15 OR distance_to_road_m IS NULL)`);
-      }
+    const tree = await queryWithRetry('SELECT 1 FROM public.trees WHERE id::text = $1 LIMIT 1;', [id]);
+    if (tree.rows.length === 0) {
+      return res.status(404).json({ error: 'Tree not found' });
     }
-    
-    // Species filter
-    if (filters.species && filters.species.length > 0) {
-      conditions.push(`common_name = ANY($${paramIndex})`);
-      params.push(filters.species);
-      paramIndex++;
+
+    const cleanPhotos = photos.map((p) => ({
+      url: p.url,
+      caption: typeof p.caption === 'string' ? p.caption.slice(0, 200) : null,
+      taken_at: typeof p.taken_at === 'string' ? p.taken_at : null
+    }));
+    const result = await queryWithRetry(`
+      INSERT INTO tree_observations (tree_id, status, condition, notes, photos, observer, observed_at, created_by)
+      VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7::date, CURRENT_DATE), $8)
+      RETURNING id, tree_id, status, condition, notes, photos, observer,
+        TO_CHAR(observed_at, 'YYYY-MM-DD') AS observed_at, created_by, created_at;
+    `, [
+      id,
+      status,
+      JSON.stringify([...new Set(condition)]),
+      notes?.trim() || null,
+      JSON.stringify(cleanPhotos),
+      observer?.trim() || null,
+      observed_at,
+      req.user.id
+    ]);
+    res.status(201).json(formatObservation(result.rows[0]));
+  } catch (err) {
+    handleObservationError(res, err, 'POST /api/trees/:id/observations');
+  }
+});
+
+/**
+ * DELETE /api/trees/:id/observations/:observationId
+ * Surveyors can remove their own reports; admins can remove any
+ */
+app.delete('/api/trees/:id/observations/:observationId', requirePermission('observations:write'), async (req, res) => {
+  const { id, observationId } = req.params;
+  if (!/^\d+$/.test(observationId)) {
+    return res.status(400).json({ error: 'Invalid observation id' });
+  }
+  const canDeleteAny = hasPermission(req.user.role, 'observations:delete');
+  try {
+    const result = await queryWithRetry(`
+      DELETE FROM tree_observations
+      WHERE id = $1 AND tree_id = $2 AND ($3::boolean OR created_by = $4)
+      RETURNING id;
+    `, [observationId, id, canDeleteAny, req.user.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: canDeleteAny ? 'Observation not found' : 'Observation not found or not yours to delete' });
     }
-    
-    // Ward filter - handle both integer format (from UI) and original format (in DB)
-    if (filters.wards && filters.wards.length > 0) {
-      // Match wards that when truncated to integer equal the selected ward
-      conditions.push(`(
-        ward = ANY($${paramIndex}) OR 
-        (ward ~ '^[0-9.]+$' AND FLOOR(ward::numeric)::text = ANY($${paramIndex}))
-      )`);
-      params.push(filters.wards);
-      paramIndex++;
+    res.status(204).end();
+  } catch (err) {
+    handleObservationError(res, err, 'DELETE /api/trees/:id/observations/:observationId');
+  }
+});
+
+/**
+ * GET /api/tree-observations/latest?status=diseased,fallen&since=2025-01-01
+ * Latest observation per tree as a GeoJSON FeatureCollection for the map layer
+ */
+app.get('/api/tree-observations/latest', async (req, res) => {
+  const statuses = String(req.query.status || '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => OBSERVATION_STATUSES.includes(s));
+  const since = /^\d{4}-\d{2}-\d{2}$/.test(String(req.query.since || '')) ? req.query.since : null;
+
+  try {
+    const result = await queryWithRetry(`
+      WITH latest AS (
+        SELECT DISTINCT ON (tree_id) id, tree_id, status, condition, observed_at
+        FROM tree_observations
+        ORDER BY tree_id, observed_at DESC, id DESC
+      )
+      SELECT
+        l.id, l.tree_id, l.status, l.condition, TO_CHAR(l.observed_at, 'YYYY-MM-DD') AS observed_at,
+        t.common_name, ST_X(t.geom) AS lon, ST_Y(t.geom) AS lat
+      FROM latest l
+      JOIN public.trees t ON t.id::text = l.tree_id
+      WHERE ($1::text[] IS NULL OR l.status = ANY($1))
+        AND ($2::date IS NULL OR l.observed_at >= $2::date);
+    `, [statuses.length > 0 ? statuses : null, since]);
+
+    res.json({
+      type: 'FeatureCollection',
+      features: result.rows.map((row) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [parseFloat(row.lon), parseFloat(row.lat)] },
+        properties: {
+          observation_id: String(row.id),
+          tree_id: row.tree_id,
+          status: row.status,
+          condition_count: (row.condition || []).length,
+          observed_at: row.observed_at,
+          common_name: row.common_name
+        }
+      }))
+    });
+  } catch (err) {
+    handleObservationError(res, err, 'GET /api/tree-observations/latest');
+  }
+});
+
+
+// =====================================================
+// TREE CENSUS CORRECTIONS (proposals, review queue, audit log)
+// =====================================================
+// Tables are created by data/create-tree-edits.sql. Surveyors propose corrections,
+// reviewers approve or reject them, and only approval writes to public.trees.
+// Derived columns (CO2_sequestered_kg, ward) are not recomputed when a correction is applied.
+
+const TREE_EDIT_FIELDS = {
+  common_name: { type: 'text', maxLength: 200 },
+  botanical_name: { type: 'text', maxLength: 200 },
+  height_m: { type: 'number', min: 0.1, max: 80 },
+  girth_cm: { type: 'number', min: 1, max: 2000 },
+  canopy_dia_m: { type: 'number', min: 0.1, max: 60 },
+  location: { type: 'point' }
+};
+// Generous box around the PMC area; catches swapped or mis-typed coordinates
+const TREE_EDIT_LOCATION_BOUNDS = { minLon: 73.6, maxLon: 74.2, minLat: 18.3, maxLat: 18.8 };
+const TREE_EDIT_REASON_MAX_LENGTH = 1000;
+const TREE_EDIT_STATUSES = ['pending', 'approved', 'rejected'];
+
+const TREE_EDIT_CURRENT_COLUMNS = `
+  common_name, botanical_name, height_m, girth_cm, canopy_dia_m,
+  ST_X(geom) AS lon, ST_Y(geom) AS lat`;
+
+const toNumberOrNull = (value) => (value == null ? null : parseFloat(value));
+
+// Current census values in the same shape as proposal changes
+function treeEditValues(row) {
+  return {
+    common_name: row.common_name ?? null,
+    botanical_name: row.botanical_name ?? null,
+    height_m: toNumberOrNull(row.height_m),
+    girth_cm: toNumberOrNull(row.girth_cm),
+    canopy_dia_m: toNumberOrNull(row.canopy_dia_m),
+    location: row.lon != null && row.lat != null
+      ? { lon: parseFloat(row.lon), lat: parseFloat(row.lat) }
+      : null
+  };
+}
+
+function treeEditValuesEqual(field, a, b) {
+  if (a == null || b == null) return a == null && b == null;
+  if (field === 'location') return Math.abs(a.lon - b.lon) < 1e-7 && Math.abs(a.lat - b.lat) < 1e-7;
+  if (TREE_EDIT_FIELDS[field].type === 'number') return Math.abs(a - b) < 0.005;
+  return a === b;
+}
+
+// Returns { error } or { changes } with values trimmed and rounded
+function validateTreeEdit(changes) {
+  if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+    return { error: 'changes must be an object of field: value' };
+  }
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return { error: 'No changes proposed' };
+
+  const clean = {};
+  for (const field of fields) {
+    const spec = TREE_EDIT_FIELDS[field];
+    const value = changes[field];
+    if (!spec) {
+      return { error: `${field} cannot be edited. Editable fields: ${Object.keys(TREE_EDIT_FIELDS).join(', ')}` };
     }
-    
-    // Height range filter
-    if (filters.height) {
-      if (filters.height.min !== null) {
-        conditions.push(`height_m >= $${paramIndex}`);
-        params.push(filters.height.min);
-        paramIndex++;
+    if (spec.type === 'text') {
+      if (typeof value !== 'string' || !value.trim() || value.trim().length > spec.maxLength) {
+        return { error: `${field} must be text of at most ${spec.maxLength} characters` };
       }
-      if (filters.height.max !== null) {
-        conditions.push(`height_m <= $${paramIndex}`);
-        params.push(filters.height.max);
-        paramIndex++;
+      clean[field] = value.trim();
+    } else if (spec.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < spec.min || value > spec.max) {
+        return { error: `${field} must be a number between ${spec.min} and ${spec.max}` };
       }
-    }
-    
-    // Canopy diameter range filter
-    if (filters.canopyDiameter) {
-      if (filters.canopyDiameter.min !== null) {
-        conditions.push(`canopy_dia_m >= $${paramIndex}`);
-        params.push(filters.canopyDiameter.min);
-        paramIndex++;
-      }
-      if (filters.canopyDiameter.max !== null) {
-        conditions.push(`canopy_dia_m <= $${paramIndex}`);
-        params.push(filters.canopyDiameter.max);
-        paramIndex++;
+      clean[field] = Math.round(value * 100) / 100;
+    } else {
+      const { lon, lat } = value || {};
+      const b = TREE_EDIT_LOCATION_BOUNDS;
+      if (typeof lon !== 'number' || typeof lat !== 'number' ||
+          lon < b.minLon || lon > b.maxLon || lat < b.minLat || lat > b.maxLat) {
+        return { error: `location must be { lon, lat } within Pune (${b.minLon}–${b.maxLon}, ${b.minLat}–${b.maxLat})` };
       }
+      clean[field] = { lon: Math.round(lon * 1e7) / 1e7, lat: Math.round(lat * 1e7) / 1e7 };
     }
-    
-    // Girth range filter
-    if (filters.girth) {
-      if (filters.girth.min !== null) {
-        conditions.push(`girth_cm >= $${paramIndex}`);
-        params.push(filters.girth.min);
-        paramIndex++;
-      }
-      if (filters.girth.max !== null) {
-        conditions.push(`girth_cm <= $${paramIndex}`);
-        params.push(filters.girth.max);
-        paramIndex++;
-      }
+  }
+  return { changes: clean };
+}
+
+function formatTreeEdit(row) {
+  const proposal = {
+    id: String(row.id),
+    tree_id: row.tree_id,
+    changes: row.changes,
+    previous: row.previous,
+    reason: row.reason,
+    status: row.status,
+    submitted_by: String(row.submitted_by),
+    submitted_by_name: row.submitted_by_name || null,
+    submitted_at: row.submitted_at,
+    reviewed_by: row.reviewed_by != null ? String(row.reviewed_by) : null,
+    reviewed_by_name: row.reviewed_by_name || null,
+    reviewed_at: row.reviewed_at || null,
+    review_note: row.review_note || null
+  };
+  // Review queue rows carry the live record so reviewers see conflicting edits
+  if (row.tree_exists !== undefined) {
+    const current = row.tree_exists ? treeEditValues(row) : null;
+    proposal.tree_common_name = row.common_name || null;
+    proposal.current = current;
+    proposal.stale = !current || Object.keys(row.changes).some(
+      (field) => !treeEditValuesEqual(field, row.previous[field], current[field])
+    );
+  }
+  return proposal;
+}
+
+const TREE_EDIT_SELECT = `
+  SELECT p.*, su.name AS submitted_by_name, ru.name AS reviewed_by_name
+  FROM tree_edit_proposals p
+  LEFT JOIN app_users su ON su.id = p.submitted_by
+  LEFT JOIN app_users ru ON ru.id = p.reviewed_by`;
+
+function handleTreeEditError(res, err, route) {
+  console.error(`Error executing query for ${route}`, err.message);
+  if (err.message.includes('does not exist')) {
+    return res.status(503).json({
+      error: err.message.includes('app_users')
+        ? 'User accounts not yet set up. Run data/create-users.sql first.'
+        : 'Census corrections not yet set up. Run data/create-tree-edits.sql first.'
+    });
+  }
+  res.status(500).json({ error: 'Internal server error', details: err.message });
+}
+
+/**
+ * GET /api/trees/:id/edits
+ * Proposed corrections for one tree (any status), newest first
+ */
+app.get('/api/trees/:id/edits', async (req, res) => {
+  const { id } = req.params;
+  try {
+    const result = await queryWithRetry(`
+      ${TREE_EDIT_SELECT}
+      WHERE p.tree_id = $1
+      ORDER BY p.submitted_at DESC, p.id DESC;
+    `, [id]);
+    res.json({ data: result.rows.map(formatTreeEdit) });
+  } catch (err) {
+    handleTreeEditError(res, err, 'GET /api/trees/:id/edits');
+  }
+});
+
+/**
+ * POST /api/trees/:id/edits
+ * Body: { changes: { height_m?, girth_cm?, canopy_dia_m?, common_name?, botanical_name?, location?: { lon, lat } }, reason }
+ * Fields that already match the record are dropped; the rest are queued for review.
+ */
+app.post('/api/trees/:id/edits', requirePermission('edits:propose'), async (req, res) => {
+  const { id } = req.params;
+  const { changes, reason } = req.body || {};
+  const validation = validateTreeEdit(changes);
+  if (validation.error) {
+    return res.status(400).json({ error: validation.error });
+  }
+  if (typeof reason !== 'string' || !reason.trim() || reason.length > TREE_EDIT_REASON_MAX_LENGTH) {
+    return res.status(400).json({ error: `A reason of at most ${TREE_EDIT_REASON_MAX_LENGTH} characters is required` });
+  }
+
+  try {
+    const tree = await queryWithRetry(`
+      SELECT ${TREE_EDIT_CURRENT_COLUMNS} FROM public.trees WHERE id::text = $1 LIMIT 1;
+    `, [id]);
+    if (tree.rows.length === 0) {
+      return res.status(404).json({ error: 'Tree not found' });
     }
-    
-    // CO2 sequestered range filter
-    if (filters.co2Sequestered) {
-      if (filters.co2Sequestered.min !== null) {
-        conditions.push(`"CO2_sequestered_kg" >= $${paramIndex}`);
-        params.push(filters.co2Sequestered.min);
-        paramIndex++;
-      }
-      if (filters.co2Sequestered.max !== null) {
-        conditions.push(`"CO2_sequestered_kg" <= $${paramIndex}`);
-        params.push(filters.co2Sequestered.max);
-        paramIndex++;
+
+    const current = treeEditValues(tree.rows[0]);
+    const proposed = {};
+    const previous = {};
+    for (const [field, value] of Object.entries(validation.changes)) {
+      if (!treeEditValuesEqual(field, current[field], value)) {
+        proposed[field] = value;
+        previous[field] = current[field];
       }
     }
-    
-    // Flowering filter
-    if (filters.flowering !== null && filters.flowering !== undefined) {
-      if (filters.flowering === true) {
-        conditions.push(`flowering IS NOT NULL AND flowering != '' AND LOWER(flowering) != 'no'`);
-      } else {
-        conditions.push(`(flowering IS NULL OR flowering = '' OR LOWER(flowering) = 'no')`);
-      }
+    if (Object.keys(proposed).length === 0) {
+      return res.status(400).json({ error: 'The proposed values match the current record' });
     }
-    
-    // Economic importance filter
-    if (filters.economicImportance) {
-      conditions.push(`economic_i = $${paramIndex}`);
-      params.push(filters.economicImportance);
-      paramIndex++;
+
+    const inserted = await queryWithRetry(`
+      INSERT INTO tree_edit_proposals (tree_id, changes, previous, reason, submitted_by)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id;
+    `, [id, JSON.stringify(proposed), JSON.stringify(previous), reason.trim(), req.user.id]);
+
+    const result = await queryWithRetry(`${TREE_EDIT_SELECT} WHERE p.id = $1;`, [inserted.rows[0].id]);
+    res.status(201).json(formatTreeEdit(result.rows[0]));
+  } catch (err) {
+    handleTreeEditError(res, err, 'POST /api/trees/:id/edits');
+  }
+});
+
+/**
+ * GET /api/tree-edits?status=pending&limit=50
+ * Review queue. Pending proposals are oldest first; reviewed ones newest first.
+ */
+app.get('/api/tree-edits', requirePermission('edits:review'), async (req, res) => {
+  const status = TREE_EDIT_STATUSES.includes(req.query.status) ? req.query.status : 'pending';
+  const limit = Math.min(Math.max(parseInt(req.query.limit) || 50, 1), 200);
+  try {
+    const result = await queryWithRetry(`
+      SELECT
+        p.*, su.name AS submitted_by_name, ru.name AS reviewed_by_name,
+        t.tree_exists, t.common_name, t.botanical_name, t.height_m, t.girth_cm, t.canopy_dia_m, t.lon, t.lat,
+        COUNT(*) OVER () AS total_count
+      FROM tree_edit_proposals p
+      LEFT JOIN app_users su ON su.id = p.submitted_by
+      LEFT JOIN app_users ru ON ru.id = p.reviewed_by
+      LEFT JOIN LATERAL (
+        SELECT TRUE AS tree_exists, ${TREE_EDIT_CURRENT_COLUMNS}
+        FROM public.trees WHERE id::text = p.tree_id LIMIT 1
+      ) t ON TRUE
+      WHERE p.status = $1
+      ORDER BY
+        CASE WHEN $1 = 'pending' THEN p.submitted_at END ASC,
+        CASE WHEN $1 <> 'pending' THEN p.reviewed_at END DESC,
+        p.id
+      LIMIT $2;
+    `, [status, limit]);
+
+    res.json({
+      data: result.rows.map((row) => formatTreeEdit({ ...row, tree_exists: !!row.tree_exists })),
+      total: result.rows.length > 0 ? parseInt(result.rows[0].total_count, 10) : 0
+    });
+  } catch (err) {
+    handleTreeEditError(res, err, 'GET /api/tree-edits');
+  }
+});
+
+/**
+ * POST /api/tree-edits/:id/review
+ * Body: { decision: 'approve' | 'reject', note? }
+ * Approval applies the changes to public.trees and appends one audit row per field, in one transaction.
+ * Reviewers can't approve their own proposals unless they are an admin.
+ */
+app.post('/api/tree-edits/:id/review', requirePermission('edits:review'), async (req, res) => {
+  const { id } = req.params;
+  const { decision, note = null } = req.body || {};
+  if (!/^\d+$/.test(id)) {
+    return res.status(400).json({ error: 'Invalid proposal id' });
+  }
+  if (decision !== 'approve' && decision !== 'reject') {
+    return res.status(400).json({ error: "decision must be 'approve' or 'reject'" });
+  }
+  if (note != null && (typeof note !== 'string' || note.length > TREE_EDIT_REASON_MAX_LENGTH)) {
+    return res.status(400).json({ error: `note must be text of at most ${TREE_EDIT_REASON_MAX_LENGTH} characters` });
+  }
+
+  try {
+    const outcome = await withTransaction(async (client) => {
+      const found = await client.query('SELECT * FROM tree_edit_proposals WHERE id = $1 FOR UPDATE;', [id]);
+      const proposal = found.rows[0];
+      if (!proposal) return { status: 404, error: 'Proposal not found' };
+      if (proposal.status !== 'pending') return { status: 409, error: `This proposal was already ${proposal.status}` };
+      if (String(proposal.submitted_by) === req.user.id && req.user.role !== 'admin') {
+        return { status: 403, error: 'Another reviewer needs to check your own proposals' };
+      }
+
+      if (decision === 'approve') {
+        const tree = await client.query(`
+          SELECT ${TREE_EDIT_CURRENT_COLUMNS} FROM public.trees WHERE id::text = $1 LIMIT 1 FOR UPDATE;
+        `, [proposal.tree_id]);
+        if (tree.rows.length === 0) return { status: 409, error: 'This tree is no longer in the census' };
+
+        // Compare against the live record, not the snapshot, so the audit log shows what really changed
+        const current = treeEditValues(tree.rows[0]);
+        const applied = Object.keys(proposal.changes).filter(
+          (field) => !treeEditValuesEqual(field, current[field], proposal.changes[field])
+        );
+
+        if (applied.length > 0) {
+          const params = [proposal.tree_id];
+          const assignments = applied.map((field) => {
+            const value = proposal.changes[field];
+            if (field === 'location') {
+              params.push(value.lon, value.lat);
+              return `geom = ST_SetSRID(ST_MakePoint($${params.length - 1}, $${params.length}), ST_SRID(geom))`;
+            }
+            params.push(value);
+            return `${field} = $${params.length}`;
+          });
+          await client.query(`UPDATE public.trees SET ${assignments.join(', ')} WHERE id::text = $1;`, params);
+
+          for (const field of applied) {
+            await client.query(`
+              INSERT INTO tree_audit_log (tree_id, field, old_value, new_value, proposal_id, proposed_by, approved_by)
+              VALUES ($1, $2, $3, $4, $5, $6, $7);
+            `, [
+              proposal.tree_id,
+              field,
+              JSON.stringify(current[field]),
+              JSON.stringify(proposal.changes[field]),
+              proposal.id,
+              proposal.submitted_by,
+              req.user.id
+            ]);
+          }
+        }
+      }
+
+      await client.query(`
+        UPDATE tree_edit_proposals
+        SET status = $2, reviewed_by = $3, reviewed_at = NOW(), review_note = $4
+        WHERE id = $1;
+      `, [id, decision === 'approve' ? 'approved' : 'rejected', req.user.id, note?.trim() || null]);
+      return { status: 200 };
+    });
+
+    if (outcome.error) {
+      return res.status(outcome.status).json({ error: outcome.error });
     }
-    
-    // Build the final query
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-    
-    const query = `
+    const result = await queryWithRetry(`${TREE_EDIT_SELECT} WHERE p.id = $1;`, [id]);
+    res.json(formatTreeEdit(result.rows[0]));
+  } catch (err) {
+    handleTreeEditError(res, err, 'POST /api/tree-edits/:id/review');
+  }
+});
+
+/**
+ * GET /api/trees/:id/history
+ * Applied corrections for one tree from the append-only audit log, newest first
+ */
+app.get('/api/trees/:id/history', async (req, res) => {
+  const { id } = req.params;
+  try {
+    const result = await queryWithRetry(`
       SELECT
-        COUNT(*) AS total_trees,
-        COALESCE(SUM("CO2_sequestered_kg"), 0) AS total_co2_kg
-      FROM public.trees
-      ${whereClause};
-    `;
-    
-    const result = await queryWithRetry(query, params);
+        a.id, a.tree_id, a.field, a.old_value, a.new_value, a.proposal_id, a.changed_at,
+        pu.name AS proposed_by_name, au.name AS approved_by_name, p.reason
+      FROM tree_audit_log a
+      LEFT JOIN app_users pu ON pu.id = a.proposed_by
+      LEFT JOIN app_users au ON au.id = a.approved_by
+      LEFT JOIN tree_edit_proposals p ON p.id = a.proposal_id
+      WHERE a.tree_id = $1
+      ORDER BY a.changed_at DESC, a.id DESC;
+    `, [id]);
     res.json({
-      total_trees: parseInt(result.rows[0]?.total_trees) || 0,
-      total_co2_kg: parseFloat(result.rows[0]?.total_co2_kg) || 0
+      data: result.rows.map((row) => ({
+        id: String(row.id),
+        tree_id: row.tree_id,
+        field: row.field,
+        old_value: row.old_value,
+        new_value: row.new_value,
+        proposal_id: row.proposal_id != null ? String(row.proposal_id) : null,
+        reason: row.reason || null,
+        proposed_by_name: row.proposed_by_name || null,
+        approved_by_name: row.approved_by_name || null,
+        changed_at: row.changed_at
+      }))
     });
   } catch (err) {
-    console.error('Error executing query for /api/filtered-stats', err.stack);
-    res.status(500).json({ error: 'Internal server error', details: err.message });
+    handleTreeEditError(res, err, 'GET /api/trees/:id/history');
   }
 });
 
 
 // --- NEW API ENDPOINT FOR DYNAMIC CHART DATA ---
 // Flexible aggregation endpoint for the chart builder
+
+// Chart dimensions: groupBy field -> SQL expression for the category label
+const CHART_GROUP_BY_EXPRESSIONS = {
+  ward: `COALESCE(FLOOR(ward::numeric)::text, 'Unknown')`,
+  species: `COALESCE(NULLIF(common_name, ''), 'Unknown')`,
+  economic_importance: `COALESCE(NULLIF(economic_i, ''), 'Not Specified')`,
+  flowering: `CASE
+    WHEN flowering IS NULL OR flowering = '' THEN 'Unknown'
+    WHEN LOWER(flowering) = 'no' THEN 'Non-Flowering'
+    ELSE 'Flowering'
+  END`,
+  location_type: `CASE
+    WHEN distance_to_road_m IS NULL THEN 'Unknown'
+    WHEN distance_to_road_m <= 15 THEN 'Street Trees'
+    ELSE 'Non-Street Trees'
+  END`,
+  height_category: `CASE
+    WHEN height_m IS NULL THEN 'Unknown'
+    WHEN height_m < 5 THEN '1. Short (<5m)'
+    WHEN height_m >= 5 AND height_m < 10 THEN '2. Medium (5-10m)'
+    WHEN height_m >= 10 AND height_m < 15 THEN '3. Tall (10-15m)'
+    ELSE '4. Very Tall (>15m)'
+  END`,
+  canopy_category: `CASE
+    WHEN canopy_dia_m IS NULL THEN 'Unknown'
+    WHEN canopy_dia_m < 3 THEN '1. Small (<3m)'
+    WHEN canopy_dia_m >= 3 AND canopy_dia_m < 6 THEN '2. Medium (3-6m)'
+    WHEN canopy_dia_m >= 6 AND canopy_dia_m < 10 THEN '3. Large (6-10m)'
+    ELSE '4. Very Large (>10m)'
+  END`,
+};
+
+// Percentile of a measurement column (NULLs ignored)
+const percentileSql = (fraction, column) =>
+  `COALESCE(ROUND(PERCENTILE_CONT(${fraction}) WITHIN GROUP (ORDER BY ${column})::numeric, 2), 0)`;
+
+// Chart metrics: metric field -> SQL aggregate.
+// `perSpecies` metrics aggregate per-species tree counts (column `n`) instead of tree rows;
+// trees without a recorded species are left out of those.
+const CHART_METRICS = {
+  count: { expr: 'COUNT(*)' },
+  sum_co2: { expr: 'COALESCE(SUM("CO2_sequestered_kg") / 1000, 0)' }, // Convert to tons
+  avg_height: { expr: 'COALESCE(ROUND(AVG(height_m)::numeric, 2), 0)' },
+  avg_canopy: { expr: 'COALESCE(ROUND(AVG(canopy_dia_m)::numeric, 2), 0)' },
+  avg_girth: { expr: 'COALESCE(ROUND(AVG(girth_cm)::numeric, 2), 0)' },
+  median_height: { expr: percentileSql(0.5, 'height_m') },
+  p10_height: { expr: percentileSql(0.1, 'height_m') },
+  p90_height: { expr: percentileSql(0.9, 'height_m') },
+  median_girth: { expr: percentileSql(0.5, 'girth_cm') },
+  p10_girth: { expr: percentileSql(0.1, 'girth_cm') },
+  p90_girth: { expr: percentileSql(0.9, 'girth_cm') },
+  median_canopy: { expr: percentileSql(0.5, 'canopy_dia_m') },
+  p10_canopy: { expr: percentileSql(0.1, 'canopy_dia_m') },
+  p90_canopy: { expr: percentileSql(0.9, 'canopy_dia_m') },
+  // Crown projection area, treating each canopy as a circle (m²)
+  canopy_area: { expr: 'COALESCE(ROUND(SUM(PI() * POWER(canopy_dia_m / 2.0, 2))::numeric, 0), 0)' },
+  species_richness: { expr: `COUNT(DISTINCT NULLIF(common_name, ''))` },
+  // Shannon index H' = -Σ p·ln(p), written as ln(N) - Σ n·ln(n) / N
+  shannon_diversity: {
+    perSpecies: true,
+    expr: 'COALESCE(ROUND((LN(SUM(n)::float8) - SUM(n::float8 * LN(n::float8)) / SUM(n)::float8)::numeric, 3), 0)',
+  },
+  // Gini-Simpson index 1 - Σ n(n-1) / N(N-1): chance two random trees are different species
+  simpson_diversity: {
+    perSpecies: true,
+    expr: `CASE WHEN SUM(n) > 1
+      THEN ROUND((1 - SUM(n::float8 * (n - 1)) / (SUM(n)::float8 * (SUM(n) - 1)))::numeric, 3)
+      ELSE 0 END`,
+  },
+};
+
+// Aggregate SELECT for a chart metric over the given dimensions ([expression, alias] pairs).
+// Callers append ORDER BY / LIMIT using the dimension aliases and `value`.
+function buildChartAggregateSql(metric, dims, whereClause) {
+  const { expr, perSpecies } = CHART_METRICS[metric];
+  const dimSelect = dims.map(([dimExpr, alias]) => `${dimExpr} AS ${alias}`).join(', ');
+  const dimPositions = dims.map((_, i) => i + 1).join(', ');
+  
+  if (perSpecies) {
+    const dimAliases = dims.map(([, alias]) => alias).join(', ');
+    return `
+      SELECT ${dimAliases}, ${expr} AS value
+      FROM (
+        SELECT ${dimSelect}, common_name, COUNT(*) AS n
+        FROM public.trees
+        ${whereClause ? `${whereClause} AND` : 'WHERE'} NULLIF(common_name, '') IS NOT NULL
+        GROUP BY ${dimPositions}, common_name
+      ) species_counts
+      GROUP BY ${dimAliases}`;
+  }
+  
+  return `
+      SELECT ${dimSelect}, ${expr} AS value
+      FROM public.trees
+      ${whereClause}
+      GROUP BY ${dimPositions}`;
+}
+
+// Bucketed dimensions whose labels sort in their natural order ("1. Short", "2. Medium", ...)
+const CHART_ORDERED_GROUPS = new Set(['height_category', 'canopy_category']);
+
+// Cross-tab charts keep the largest secondary categories and fold the rest into "Other"
+const CHART_MAX_SERIES = 12;
+
+// Aggregates only the trees matching the active TreeFilters (and optional drawn polygon),
+// so charts always agree with the filtered map and the FilteredStats banner.
+// With `secondaryGroupBy`, each category also carries a `breakdown` by the second dimension.
 app.post('/api/chart-data', async (req, res) => {
-  const { groupBy, metric, sortBy, sortOrder, limit } = req.body;
+  const { groupBy, secondaryGroupBy, metric, sortBy, sortOrder, limit, filters = {}, polygon = null } = req.body;
   
   // Validate required fields
   if (!groupBy || !metric) {
     return res.status(400).json({ error: 'groupBy and metric are required' });
   }
   
+  // Build the GROUP BY expression based on field
+  const groupByExpr = CHART_GROUP_BY_EXPRESSIONS[groupBy];
+  const groupByAlias = 'name';
+  if (!groupByExpr) {
+    return res.status(400).json({ error: `Invalid groupBy field: ${groupBy}` });
+  }
+  
+  const secondaryExpr = secondaryGroupBy ? CHART_GROUP_BY_EXPRESSIONS[secondaryGroupBy] : null;
+  if (secondaryGroupBy && !secondaryExpr) {
+    return res.status(400).json({ error: `Invalid secondaryGroupBy field: ${secondaryGroupBy}` });
+  }
+  if (secondaryGroupBy && secondaryGroupBy === groupBy) {
+    return res.status(400).json({ error: 'secondaryGroupBy must differ from groupBy' });
+  }
+  
+  // Validate the metric
+  const metricAlias = 'value';
+  if (!Object.prototype.hasOwnProperty.call(CHART_METRICS, metric)) {
+    return res.status(400).json({ error: `Invalid metric field: ${metric}` });
+  }
+  
   try {
-    // Build the GROUP BY expression based on field
-    let groupByExpr;
-    let groupByAlias = 'name';
-    
-    switch (groupBy) {
-      case 'ward':
-        groupByExpr = `COALESCE(FLOOR(ward::numeric)::text, 'Unknown')`;
-        break;
-      case 'species':
-        groupByExpr = `COALESCE(NULLIF(common_name, ''), 'Unknown')`;
-        break;
-      case 'economic_importance':
-        groupByExpr = `COALESCE(NULLIF(economic_i, ''), 'Not Specified')`;
-        break;
-      case 'flowering':
-        groupByExpr = `CASE 
-          WHEN flowering IS NULL OR flowering = '' THEN 'Unknown'
-          WHEN LOWER(flowering) = 'no' THEN 'Non-Flowering'
-          ELSE 'Flowering'
-        END`;
-        break;
-      case 'location_type':
-        groupByExpr = `CASE 
-          WHEN distance_to_road_m IS NULL THEN 'Unknown'
-          WHEN distance_to_road_m <= 15 THEN 'Street Trees'
-          ELSE 'Non-Street Trees'
-        END`;
-        break;
-      case 'height_category':
-        groupByExpr = `CASE 
-          WHEN height_m IS NULL THEN 'Unknown'
-          WHEN height_m < 5 THEN '1. Short (<5m)'
-          WHEN height_m >= 5 AND height_m < 10 THEN '2. Medium (5-10m)'
-          WHEN height_m >= 10 AND height_m < 15 THEN '3. Tall (10-15m)'
-          ELSE '4. Very Tall (>15m)'
-        END`;
-        break;
-      case 'canopy_category':
-        groupByExpr = `CASE 
-          WHEN canopy_dia_m IS NULL THEN 'Unknown'
-          WHEN canopy_dia_m < 3 THEN '1. Small (<3m)'
-          WHEN canopy_dia_m >= 3 AND canopy_dia_m < 6 THEN '2. Medium (3-6m)'
-          WHEN canopy_dia_m >= 6 AND canopy_dia_m < 10 THEN '3. Large (6-10m)'
-          ELSE '4. Very Large (>10m)'
-        END`;
-        break;
-      default:
-        return res.status(400).json({ error: `Invalid groupBy field: ${groupBy}` });
-    }
-    
-    // Build the metric expression
-    let metricExpr;
-    let metricAlias = 'value';
-    
-    switch (metric) {
-      case 'count':
-        metricExpr = 'COUNT(*)';
-        break;
-      case 'sum_co2':
-        metricExpr = 'COALESCE(SUM("CO2_sequestered_kg") / 1000, 0)'; // Convert to tons
-        break;
-      case 'avg_height':
-        metricExpr = 'COALESCE(ROUND(AVG(height_m)::numeric, 2), 0)';
-        break;
-      case 'avg_canopy':
-        metricExpr = 'COALESCE(ROUND(AVG(canopy_dia_m)::numeric, 2), 0)';
-        break;
-      case 'avg_girth':
-        metricExpr = 'COALESCE(ROUND(AVG(girth_cm)::numeric, 2), 0)';
-        break;
-      default:
-        return res.status(400).json({ error: `Invalid metric field: ${metric}` });
-    }
-    
     // Build ORDER BY clause
     const orderByField = sortBy === 'label' ? groupByAlias : metricAlias;
     const orderDirection = sortOrder === 'asc' ? 'ASC' : 'DESC';
@@ -734,32 +2697,76 @@ app.post('/api/chart-data', async (req, res) => {
     // Build LIMIT clause
     const limitClause = limit && limit > 0 ? `LIMIT ${parseInt(limit)}` : '';
     
+    // Same WHERE clause as /api/filtered-stats
+    const { whereClause, params } = buildTreeFilterWhere(filters || {}, polygon);
+    
     // Build and execute the query
     const query = `
-      SELECT 
-        ${groupByExpr} AS ${groupByAlias},
-        ${metricExpr} AS ${metricAlias}
-      FROM public.trees
-      GROUP BY ${groupByExpr}
-      HAVING ${groupByExpr} IS NOT NULL
+      ${buildChartAggregateSql(metric, [[groupByExpr, groupByAlias]], whereClause)}
       ORDER BY ${orderByField} ${orderDirection}
       ${limitClause};
     `;
     
-    const result = await queryWithRetry(query);
+    const result = await queryWithRetry(query, params);
     
-    // Also get total for context
-    const totalQuery = `SELECT COUNT(*) as total FROM public.trees;`;
-    const totalResult = await queryWithRetry(totalQuery);
+    // Also get total for context (of the filtered set)
+    const totalQuery = `SELECT COUNT(*) as total FROM public.trees ${whereClause};`;
+    const totalResult = await queryWithRetry(totalQuery, params);
+    
+    const data = result.rows.map(row => ({
+      name: String(row.name),
+      value: parseFloat(row.value) || 0
+    }));
+    
+    let series;
+    if (secondaryExpr && data.length > 0) {
+      // Restrict the breakdown to the categories being charted (respects the limit)
+      const crossParams = [...params, data.map(d => d.name)];
+      const categoryParam = `$${crossParams.length}`;
+      const crossWhere = `${whereClause ? `${whereClause} AND` : 'WHERE'} ${groupByExpr} = ANY(${categoryParam})`;
+      
+      // Largest secondary categories by tree count
+      const seriesResult = await queryWithRetry(`
+        SELECT ${secondaryExpr} AS series, COUNT(*) AS tree_count
+        FROM public.trees
+        ${crossWhere}
+        GROUP BY ${secondaryExpr}
+        ORDER BY tree_count DESC
+        LIMIT ${CHART_MAX_SERIES + 1};
+      `, crossParams);
+      
+      let seriesExpr = secondaryExpr;
+      series = seriesResult.rows.map(row => String(row.series));
+      if (series.length > CHART_MAX_SERIES) {
+        // Fold the long tail into "Other" so averages are still computed correctly
+        series = series.slice(0, CHART_MAX_SERIES);
+        crossParams.push(series);
+        seriesExpr = `CASE WHEN ${secondaryExpr} = ANY($${crossParams.length}) THEN ${secondaryExpr} ELSE 'Other' END`;
+      }
+      
+      const crossResult = await queryWithRetry(
+        buildChartAggregateSql(metric, [[groupByExpr, groupByAlias], [seriesExpr, 'series']], crossWhere),
+        crossParams
+      );
+      
+      const breakdowns = new Map(data.map(d => [d.name, {}]));
+      crossResult.rows.forEach(row => {
+        const breakdown = breakdowns.get(String(row.name));
+        if (breakdown) breakdown[String(row.series)] = parseFloat(row.value) || 0;
+      });
+      data.forEach(d => { d.breakdown = breakdowns.get(d.name); });
+      
+      if (crossResult.rows.some(row => row.series === 'Other')) series.push('Other');
+      if (CHART_ORDERED_GROUPS.has(secondaryGroupBy)) series.sort();
+    }
     
     res.json({
-      data: result.rows.map(row => ({
-        name: String(row.name),
-        value: parseFloat(row.value) || 0
-      })),
+      data,
       total: parseInt(totalResult.rows[0]?.total) || 0,
       groupBy,
-      metric
+      metric,
+      filtered: whereClause !== '',
+      ...(secondaryExpr ? { secondaryGroupBy, series: series || [] } : {})
     });
     
   } catch (err) {
@@ -1148,6 +3155,152 @@ app.get('/api/census-validation', async (req, res) => {
   }
 });
 
+const WARD_DETAIL_TOP_SPECIES = 10;
+
+/**
+ * GET /api/wards/:wardNumber
+ * Everything the ward drill-down panel shows in one call: boundary details and the wards it borders,
+ * census statistics and top species, the land-cover timeline, every recorded change period, and the
+ * census-vs-satellite check once land_cover_points has been imported. Sections whose table is not
+ * imported yet come back empty (null or []).
+ */
+app.get('/api/wards/:wardNumber', async (req, res) => {
+  const wardNumber = parseInt(req.params.wardNumber, 10);
+  if (!Number.isInteger(wardNumber)) {
+    return res.status(400).json({ error: 'Invalid ward number' });
+  }
+
+  const toNumber = (value) => (value === null || value === undefined ? null : parseFloat(value));
+  const numericRow = (row) => Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key, typeof value === 'string' && key !== 'period' ? toNumber(value) : value])
+  );
+
+  try {
+    const tablesResult = await queryWithRetry(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public'
+      AND table_name = ANY($1);
+    `, [['ward_polygons', 'land_cover_stats', 'land_cover_change', 'land_cover_points']]);
+    const tables = new Set(tablesResult.rows.map(row => row.table_name));
+
+    const boundaryQuery = tables.has('ward_polygons')
+      ? queryWithRetry(`
+          SELECT
+            w.ward_office,
+            w.prabhag_name,
+            w.zone,
+            ROUND((ST_Area(w.geometry::geography) / 10000)::numeric, 2) AS area_ha,
+            ARRAY(
+              SELECT n.ward_number FROM ward_polygons n
+              WHERE n.ward_number <> w.ward_number
+              AND ST_DWithin(w.geometry, n.geometry, 0.0001)
+              ORDER BY n.ward_number
+            ) AS neighbours
+          FROM ward_polygons w
+          WHERE w.ward_number = $1;
+        `, [wardNumber])
+      : Promise.resolve({ rows: [] });
+
+    const censusQuery = queryWithRetry(`
+      SELECT
+        COUNT(*) AS tree_count,
+        COUNT(DISTINCT common_name) AS species_count,
+        ROUND(AVG(canopy_dia_m)::numeric, 2) AS avg_canopy_m,
+        ROUND(AVG(girth_cm)::numeric, 2) AS avg_girth_cm,
+        ROUND(AVG(height_m)::numeric, 2) AS avg_height_m,
+        ROUND(SUM(canopy_dia_m * canopy_dia_m * 0.785)::numeric, 2) AS total_canopy_area_m2,
+        ROUND(SUM("CO2_sequestered_kg")::numeric, 2) AS co2_kg
+      FROM trees
+      WHERE ward IS NOT NULL AND ROUND(ward::numeric)::integer = $1;
+    `, [wardNumber]);
+
+    const speciesQuery = queryWithRetry(`
+      SELECT common_name, MIN(botanical_name) AS botanical_name, COUNT(*) AS tree_count
+      FROM trees
+      WHERE ward IS NOT NULL AND ROUND(ward::numeric)::integer = $1 AND common_name IS NOT NULL AND common_name <> ''
+      GROUP BY common_name
+      ORDER BY tree_count DESC
+      LIMIT $2;
+    `, [wardNumber, WARD_DETAIL_TOP_SPECIES]);
+
+    const landCoverQuery = tables.has('land_cover_stats')
+      ? queryWithRetry(`
+          SELECT year, total_area_m2, trees_area_m2, built_area_m2, grass_area_m2, bare_area_m2,
+                 trees_pct, built_pct, grass_pct, bare_pct
+          FROM land_cover_stats
+          WHERE ward_number = $1
+          ORDER BY year;
+        `, [wardNumber])
+      : Promise.resolve({ rows: [] });
+
+    const changeQuery = tables.has('land_cover_change')
+      ? queryWithRetry(`
+          SELECT from_year, to_year, period, trees_lost_m2, trees_gained_m2,
+                 net_tree_change_m2, built_gained_m2, trees_to_built_m2
+          FROM land_cover_change
+          WHERE ward_number = $1
+          ORDER BY from_year, to_year;
+        `, [wardNumber])
+      : Promise.resolve({ rows: [] });
+
+    // Same comparison as /api/census-validation, for this ward only
+    const validationQuery = tables.has('land_cover_points')
+      ? queryWithRetry(`
+          SELECT
+            COUNT(*) AS total_trees,
+            SUM(CASE WHEN lc.land_class = 'trees' THEN 1 ELSE 0 END) AS confirmed_trees,
+            SUM(CASE WHEN lc.land_class = 'built' THEN 1 ELSE 0 END) AS now_built,
+            SUM(CASE WHEN lc.land_class = 'bare' THEN 1 ELSE 0 END) AS now_bare,
+            SUM(CASE WHEN lc.land_class IS NULL THEN 1 ELSE 0 END) AS unclassified
+          FROM trees t
+          LEFT JOIN land_cover_points lc
+            ON ST_DWithin(t.geom, lc.geom, 0.0001)
+          WHERE t.ward IS NOT NULL AND ROUND(t.ward::numeric)::integer = $1;
+        `, [wardNumber])
+      : Promise.resolve({ rows: [] });
+
+    const [boundary, census, species, landCover, changes, validation] = await Promise.all([
+      boundaryQuery, censusQuery, speciesQuery, landCoverQuery, changeQuery, validationQuery,
+    ]);
+
+    const censusRow = numericRow(census.rows[0]);
+    if (boundary.rows.length === 0 && censusRow.tree_count === 0 && landCover.rows.length === 0) {
+      return res.status(404).json({ error: `Ward ${wardNumber} not found` });
+    }
+
+    const boundaryRow = boundary.rows[0];
+    const changeRows = changes.rows.map(numericRow);
+    const isOverall = (row) => row.from_year === 2019 && row.to_year === 2025;
+
+    res.json({
+      ward_number: wardNumber,
+      boundary: boundaryRow ? {
+        ward_office: boundaryRow.ward_office,
+        prabhag_name: boundaryRow.prabhag_name,
+        zone: boundaryRow.zone,
+        area_ha: toNumber(boundaryRow.area_ha),
+      } : null,
+      neighbours: boundaryRow ? boundaryRow.neighbours : [],
+      census: censusRow,
+      top_species: species.rows.map(row => ({
+        common_name: row.common_name,
+        botanical_name: row.botanical_name,
+        tree_count: parseInt(row.tree_count, 10),
+        share_pct: censusRow.tree_count > 0 ? (parseInt(row.tree_count, 10) / censusRow.tree_count) * 100 : 0,
+      })),
+      land_cover: landCover.rows.map(numericRow),
+      year_over_year_changes: changeRows.filter(row => !isOverall(row)),
+      overall_2019_2025: changeRows.find(isOverall) ?? null,
+      validation: validation.rows[0] && toNumber(validation.rows[0].total_trees) > 0
+        ? numericRow(validation.rows[0])
+        : null,
+    });
+  } catch (err) {
+    console.error('Error fetching ward detail:', err.message);
+    res.status(500).json({ error: 'Failed to fetch ward detail', details: err.message });
+  }
+});
+
 /**
  * Helper: Generate sample land cover data for UI development
  * This will be replaced with real GEE data
@@ -0,0 +1,20 @@
+-- Pune Tree Filter Presets
+-- Run this in your PostgreSQL database to enable shared presets (/api/filter-presets)
+
+CREATE TABLE IF NOT EXISTS public.filter_presets (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  -- TreeFilters object as sent by the dashboard (src/types/filters.ts)
+  filters JSONB NOT NULL,
+  author VARCHAR(100),
+  -- app_users.id of the signed-in user who shared it (data/create-users.sql); only they and admins can change it
+  created_by INTEGER,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tables created before sign-in was added
+ALTER TABLE public.filter_presets ADD COLUMN IF NOT EXISTS created_by INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_filter_presets_updated_at ON public.filter_presets(updated_at DESC);
@@ -0,0 +1,60 @@
+-- Pune Tree Census Corrections
+-- Run this in your PostgreSQL database to enable suggested edits (/api/trees/:id/edits),
+-- the review queue (/api/tree-edits) and per-tree edit history (/api/trees/:id/history).
+-- public.trees is only changed when a reviewer approves a proposal; every applied change is
+-- recorded in tree_audit_log, which cannot be updated or deleted.
+
+-- Suggested corrections waiting for (or after) review
+CREATE TABLE IF NOT EXISTS public.tree_edit_proposals (
+  id SERIAL PRIMARY KEY,
+  -- public.trees.id, stored as text like tree_observations.tree_id
+  tree_id TEXT NOT NULL,
+  -- Proposed values keyed by field, e.g. { "height_m": 8.5, "location": { "lon": 73.85, "lat": 18.52 } }
+  changes JSONB NOT NULL,
+  -- The same fields as they were when the proposal was made, so reviewers can spot conflicting edits
+  previous JSONB NOT NULL,
+  reason TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  -- app_users.id (data/create-users.sql)
+  submitted_by INTEGER NOT NULL,
+  submitted_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  reviewed_by INTEGER,
+  reviewed_at TIMESTAMP,
+  review_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_tree_edit_proposals_tree ON public.tree_edit_proposals(tree_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tree_edit_proposals_pending ON public.tree_edit_proposals(submitted_at) WHERE status = 'pending';
+
+-- One row per field changed on a census record
+CREATE TABLE IF NOT EXISTS public.tree_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  tree_id TEXT NOT NULL,
+  field VARCHAR(50) NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  proposal_id INTEGER REFERENCES public.tree_edit_proposals(id),
+  -- Who suggested the change and who approved it (app_users.id)
+  proposed_by INTEGER,
+  approved_by INTEGER,
+  changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tree_audit_log_tree ON public.tree_audit_log(tree_id, changed_at DESC, id DESC);
+
+-- Append-only: reject any attempt to rewrite history
+CREATE OR REPLACE FUNCTION public.tree_audit_log_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'tree_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tree_audit_log_no_update ON public.tree_audit_log;
+CREATE TRIGGER tree_audit_log_no_update
+  BEFORE UPDATE OR DELETE ON public.tree_audit_log
+  FOR EACH ROW EXECUTE FUNCTION public.tree_audit_log_immutable();
+
+DROP TRIGGER IF EXISTS tree_audit_log_no_truncate ON public.tree_audit_log;
+CREATE TRIGGER tree_audit_log_no_truncate
+  BEFORE TRUNCATE ON public.tree_audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION public.tree_audit_log_immutable();
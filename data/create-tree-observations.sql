@@ -0,0 +1,26 @@
+-- Pune Tree Observations
+-- Run this in your PostgreSQL database to enable the condition log (/api/trees/:id/observations)
+-- The census table (public.trees) stays read-only; field and citizen reports live here.
+
+CREATE TABLE IF NOT EXISTS public.tree_observations (
+  id SERIAL PRIMARY KEY,
+  -- public.trees.id, stored as text so the log does not depend on the census id type
+  tree_id TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('healthy', 'diseased', 'fallen', 'felled')),
+  -- Issue codes seen on the tree, e.g. ["pest", "bark_damage"] (src/types/observations.ts)
+  condition JSONB NOT NULL DEFAULT '[]'::jsonb,
+  notes TEXT,
+  -- Photo metadata only: [{ "url": "...", "caption": "...", "taken_at": "..." }]
+  photos JSONB NOT NULL DEFAULT '[]'::jsonb,
+  observer VARCHAR(100),
+  observed_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- app_users.id of the signed-in reporter (data/create-users.sql)
+  created_by INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tables created before sign-in was added
+ALTER TABLE public.tree_observations ADD COLUMN IF NOT EXISTS created_by INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_tree_observations_tree ON public.tree_observations(tree_id, observed_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tree_observations_status ON public.tree_observations(status);
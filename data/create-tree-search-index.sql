@@ -0,0 +1,17 @@
+-- Pune Tree Search Indexes
+-- Run this in your PostgreSQL database to enable fuzzy matching for /api/trees/search
+-- (the endpoint falls back to plain ILIKE matching when pg_trgm is not installed)
+
+-- Trigram extension for similarity() and the % operator
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Trigram indexes for species name lookups
+CREATE INDEX IF NOT EXISTS idx_trees_common_name_trgm
+  ON public.trees USING GIN (common_name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_trees_botanical_name_trgm
+  ON public.trees USING GIN (botanical_name gin_trgm_ops);
+
+-- Prefix lookups on tree ids (ids from complaints are often typed partially)
+CREATE INDEX IF NOT EXISTS idx_trees_id_text_pattern
+  ON public.trees ((id::text) text_pattern_ops);
@@ -0,0 +1,24 @@
+-- Pune Tree Dashboard Users
+-- Run this in your PostgreSQL database to enable sign-in (/api/auth/login) and role-based write access.
+-- The API also needs AUTH_JWT_SECRET set to a long random string in .env / Vercel settings.
+
+-- Password hashing uses pgcrypto's bcrypt (crypt + gen_salt('bf'))
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+CREATE TABLE IF NOT EXISTS public.app_users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  -- viewer: read only | surveyor: field reports, census corrections | analyst: + correction review, shared presets | admin: + user management
+  role VARCHAR(20) NOT NULL DEFAULT 'viewer' CHECK (role IN ('viewer', 'surveyor', 'analyst', 'admin')),
+  password_hash TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_app_users_email ON public.app_users(LOWER(email));
+
+-- Bootstrap the first admin (change the email and password, then manage other users from the dashboard):
+-- INSERT INTO public.app_users (email, name, role, password_hash)
+-- VALUES ('admin@example.org', 'Admin', 'admin', crypt('change-this-password', gen_salt('bf')));
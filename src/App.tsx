@@ -3,26 +3,41 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import Header from './components/Header';
 import MapView from './components/map/MapView';
 import Sidebar from './components/sidebar/Sidebar';
-import TemperaturePredictionChart from './components/common/TemperaturePredictionChart';
+import CoolingPredictionPanel from './components/common/CoolingPredictionPanel';
 import ProgressiveLoadingOverlay from './components/common/ProgressiveLoadingOverlay';
-import { ArchetypeData, useTreeStore } from './store/TreeStore';
+import { ArchetypeData, SimulatedTreeCooling, useTreeStore } from './store/TreeStore';
 import { LightConfig } from './components/sidebar/tabs/LightAndShadowControl';
 import { ShadowQuality } from './components/sidebar/tabs/MapLayers';
 import TourGuide, { TourControlAction } from './components/tour/TourGuide';
 import { getStepRequirements, getTourSteps } from './components/tour/tourConfig';
-import { useGreenCoverInit } from './store/GreenCoverStore';
+import { useGreenCoverInit, useGreenCoverStore } from './store/GreenCoverStore';
+import { useUrlStateSync } from './hooks/useUrlStateSync';
+import { getInitialUrlState, hasInitialUrlState } from './utils/urlState';
+import type { MapSnapshotFn } from './utils/mapSnapshot';
+import type { BuildingFootprintFn } from './utils/plantingLayout';
+import { LST_MAX_C, LST_MIN_C } from './utils/lstRaster';
+import { toTreeCooling } from './utils/coolingSurface';
 
 function App() {
   // Prefetch Green Cover data on app load (like TreeStore does)
   useGreenCoverInit();
   
-  const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [selectedTreeId, setSelectedTreeId] = useState<string | null>(null);
-  const [activeTabIndex, setActiveTabIndex] = useState(0);
-  const [baseMap, setBaseMap] = useState('light');
+  // View state restored from a shared link (empty when opened normally)
+  const initialUrlState = getInitialUrlState();
+  
+  const [sidebarOpen, setSidebarOpen] = useState(
+    initialUrlState.activeTabIndex !== undefined || !!initialUrlState.selectedTreeId
+  );
+  const [selectedTreeId, setSelectedTreeId] = useState<string | null>(initialUrlState.selectedTreeId ?? null);
+  const [selectedSpecies, setSelectedSpecies] = useState<string | null>(initialUrlState.selectedSpecies ?? null);
+  const [activeTabIndex, setActiveTabIndex] = useState(
+    initialUrlState.activeTabIndex ?? (initialUrlState.selectedTreeId ? 1 : 0)
+  );
+  // 3D view is designed for the streets basemap (see MapView handleToggle3D)
+  const [baseMap, setBaseMap] = useState(initialUrlState.is3D ? 'streets' : 'light');
   const [showLSTOverlay, setShowLSTOverlay] = useState(false);
 
-  const [is3D, setIs3D] = useState(false);
+  const [is3D, setIs3D] = useState(initialUrlState.is3D ?? false);
   const [lightConfig, setLightConfig] = useState<LightConfig | null>(null);
   // Shadow system disabled - requires MapTiler Buildings tileset (paid feature)
   const [shadowsEnabled, setShadowsEnabled] = useState(false);
@@ -32,7 +47,7 @@ function App() {
   
   // Green Cover Monitor state - shared between sidebar and map
   const [showWardBoundaries, setShowWardBoundaries] = useState(false);
-  const [greenCoverYear, setGreenCoverYear] = useState(2025);
+  const [greenCoverYear, setGreenCoverYear] = useState(initialUrlState.greenCoverYear ?? 2025);
   const [wardColorBy, setWardColorBy] = useState<'green_score' | 'trees_pct' | 'change'>('green_score');
   
   // Deforestation Hotspots Layer state
@@ -75,12 +90,22 @@ function App() {
     visible: boolean;
     layer: 'tree_probability_2025' | 'tree_probability_2019' | 'tree_change' | 'tree_loss_gain' | 'ndvi' | 'landcover';
     opacity: number;
-  }>({
+  }>(initialUrlState.rasterConfig ?? {
     visible: false,
     layer: 'tree_probability_2025',
     opacity: 0.7,
   });
 
+  // Mirror the shareable view state into the URL
+  const { updateCamera, getShareUrl } = useUrlStateSync({
+    is3D,
+    activeTabIndex,
+    selectedTreeId,
+    selectedSpecies,
+    rasterConfig,
+    greenCoverYear,
+  });
+
   // Get data from TreeStore for loading overlay
   const { cityStats, wardCO2Data } = useTreeStore();
   const [isLoading, setIsLoading] = useState(true);
@@ -89,6 +114,8 @@ function App() {
   const [isPreparingStep, setIsPreparingStep] = useState(false);
   const sidebarRef = useRef<HTMLDivElement>(null);
   const mapReadyRef = useRef(false);
+  const mapSnapshotRef = useRef<MapSnapshotFn | null>(null);
+  const buildingFootprintsRef = useRef<BuildingFootprintFn | null>(null);
 
   // Compute whether the current tour step targets the sidebar (needs z-index boost)
   const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
@@ -103,7 +130,8 @@ function App() {
     if (cityStats) {
       setIsLoading(false);
       // Delay tour start to ensure map and controls are mounted
-      if (!hasCompletedTour) {
+      // (skipped for shared links - the tour would rearrange the view being shared)
+      if (!hasCompletedTour && !hasInitialUrlState()) {
         setTimeout(() => {
           mapReadyRef.current = true;
           setRunTour(true);
@@ -243,13 +271,8 @@ function App() {
     setIs3D(prev => !prev);
   }, []);
 
-  const LST_MIN_VALUE_FOR_LEGEND_AND_CHART = 22.5;
-  const LST_MAX_VALUE_FOR_LEGEND_AND_CHART = 43.0;
-  const LST_80TH_PERCENTILE_APPROX = LST_MIN_VALUE_FOR_LEGEND_AND_CHART + 0.8 * (LST_MAX_VALUE_FOR_LEGEND_AND_CHART - LST_MIN_VALUE_FOR_LEGEND_AND_CHART);
-  const LST_60TH_PERCENTILE_APPROX = LST_MIN_VALUE_FOR_LEGEND_AND_CHART + 0.6 * (LST_MAX_VALUE_FOR_LEGEND_AND_CHART - LST_MIN_VALUE_FOR_LEGEND_AND_CHART);
-
   const [showTemperatureChart, setShowTemperatureChart] = useState(false);
-  const [activeSpeciesCooling, setActiveSpeciesCooling] = useState<{ p90: number; p10: number; commonName: string } | null>(null);
+  const [activeSpeciesCooling, setActiveSpeciesCooling] = useState<(SimulatedTreeCooling & { commonName: string }) | null>(null);
 
   const toggleSidebar = useCallback(() => setSidebarOpen(prevOpen => !prevOpen), []);
 
@@ -259,17 +282,40 @@ function App() {
     setSidebarOpen(true);
   }, []);
 
+  const handleWardSelect = useCallback((wardNumber: number) => {
+    useGreenCoverStore.getState().openWardDetail(wardNumber);
+    setActiveTabIndex(2);
+    setSidebarOpen(true);
+  }, []);
+
+  const handleSpeciesSelect = useCallback((commonName: string | null) => {
+    setSelectedSpecies(commonName);
+    if (commonName) {
+      setActiveTabIndex(5);
+      setSidebarOpen(true);
+    }
+  }, []);
+
   const handleChangeBaseMap = useCallback((mapType: string) => {
     setBaseMap(mapType);
   }, []);
 
+  const captureMapSnapshot = useCallback<MapSnapshotFn>(
+    async (bounds) => (mapSnapshotRef.current ? mapSnapshotRef.current(bounds) : null),
+    []
+  );
+
+  const queryBuildingFootprints = useCallback<BuildingFootprintFn>(
+    (bbox) => (buildingFootprintsRef.current ? buildingFootprintsRef.current(bbox) : null),
+    []
+  );
+
   const handleToggleLSTOverlay = useCallback(() => setShowLSTOverlay(prev => !prev), []);
 
   const handleActiveSpeciesChangeForChart = useCallback((archetypeDetails: ArchetypeData | null) => {
     if (archetypeDetails) {
       setActiveSpeciesCooling({
-        p90: archetypeDetails.p90_cooling_effect_celsius,
-        p10: archetypeDetails.p10_cooling_effect_celsius,
+        ...toTreeCooling(archetypeDetails),
         commonName: archetypeDetails.common_name
       });
     } else {
@@ -294,10 +340,11 @@ function App() {
         isPreparingStep={isPreparingStep}
       />
 
-      <Header onStartTour={startTour} />
+      <Header onStartTour={startTour} getShareUrl={getShareUrl} />
       <div className="dashboard-content">
         <MapView
           onTreeSelect={handleTreeSelect}
+          onWardSelect={handleWardSelect}
           sidebarOpen={sidebarOpen}
           toggleSidebar={toggleSidebar}
           baseMap={baseMap}
@@ -318,6 +365,10 @@ function App() {
           hotspotConfig={hotspotConfig}
           landCoverConfig={landCoverConfig}
           rasterConfig={rasterConfig}
+          initialCamera={initialUrlState.camera}
+          onCameraChange={updateCamera}
+          snapshotRef={mapSnapshotRef}
+          buildingFootprintsRef={buildingFootprintsRef}
         />
 
         {sidebarOpen && (
@@ -333,14 +384,17 @@ function App() {
           isOpen={sidebarOpen}
           toggleSidebar={toggleSidebar}
           selectedTreeId={selectedTreeId}
+          onTreeSelect={handleTreeSelect}
+          selectedSpecies={selectedSpecies}
+          onSpeciesSelect={handleSpeciesSelect}
           activeTabIndex={activeTabIndex}
           setActiveTabIndex={setActiveTabIndex}
           baseMap={baseMap}
           changeBaseMap={handleChangeBaseMap}
           showLSTOverlay={showLSTOverlay}
           toggleLSTOverlay={handleToggleLSTOverlay}
-          lstMinValue={LST_MIN_VALUE_FOR_LEGEND_AND_CHART}
-          lstMaxValue={LST_MAX_VALUE_FOR_LEGEND_AND_CHART}
+          lstMinValue={LST_MIN_C}
+          lstMaxValue={LST_MAX_C}
           setShowTemperatureChart={setShowTemperatureChart}
           onActiveSpeciesChangeForChart={handleActiveSpeciesChangeForChart}
           onLightChange={handleLightChange}
@@ -368,21 +422,17 @@ function App() {
           onLandCoverConfigChange={setLandCoverConfig}
           rasterConfig={rasterConfig}
           onRasterConfigChange={setRasterConfig}
+          captureMapSnapshot={captureMapSnapshot}
+          queryBuildingFootprints={queryBuildingFootprints}
         />
       </div>
-      {showTemperatureChart && activeSpeciesCooling && (
+      {showTemperatureChart && (
         <div
           className={`chart-container ${sidebarOpen ? 'chart-container-sidebar-open' : ''}`}
         >
-          <TemperaturePredictionChart
-            showChart={showTemperatureChart}
+          <CoolingPredictionPanel
             onClose={() => setShowTemperatureChart(false)}
-            baselineLSTMax={LST_MAX_VALUE_FOR_LEGEND_AND_CHART}
-            baselineLST80thPercentile={LST_80TH_PERCENTILE_APPROX}
-            baselineLST60thPercentile={LST_60TH_PERCENTILE_APPROX}
-            speciesCoolingP90={activeSpeciesCooling.p90}
-            speciesCoolingP10={activeSpeciesCooling.p10}
-            speciesName={activeSpeciesCooling.commonName}
+            singleSpecies={activeSpeciesCooling}
           />
         </div>
       )}
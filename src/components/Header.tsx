@@ -1,13 +1,32 @@
 // src/components/Header.tsx
-import React from 'react';
-import { Leaf, PlayCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Leaf, PlayCircle, Link2, Check } from 'lucide-react';
 import InfoPopover from './common/InfoPopover';
+import { AccountMenu } from './auth';
 
 interface HeaderProps {
   onStartTour?: () => void;
+  /** Returns a link that reproduces the current view */
+  getShareUrl?: () => string;
 }
 
-const Header: React.FC<HeaderProps> = ({ onStartTour }) => {
+const Header: React.FC<HeaderProps> = ({ onStartTour, getShareUrl }) => {
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const handleCopyLink = async () => {
+    if (!getShareUrl) return;
+    const url = getShareUrl();
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      // Clipboard API unavailable (e.g. insecure context) - fall back to a prompt the user can copy from
+      console.warn('Clipboard write failed:', error);
+      window.prompt('Copy this link to share the current view:', url);
+    }
+  };
+
   const headerInfoContent = (
     <>
       <p>This dashboard visualizes urban tree data for Pune, including:</p>
@@ -39,6 +58,21 @@ const Header: React.FC<HeaderProps> = ({ onStartTour }) => {
             </button>
           )}
 
+          {/* Share View Button */}
+          {getShareUrl && (
+            <button
+              onClick={handleCopyLink}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 sm:px-3 sm:py-1.5 bg-white/15 hover:bg-white/25 rounded-md transition-all text-sm font-medium"
+              title="Copy a link to this exact view (map, filters and selection)"
+            >
+              {linkCopied ? <Check size={16} /> : <Link2 size={16} />}
+              <span className="hidden sm:inline">{linkCopied ? 'Copied' : 'Share'}</span>
+            </button>
+          )}
+
+          {/* Account */}
+          <AccountMenu />
+
           {/* Info Popover */}
           <InfoPopover
             titleContent="About This Dashboard"
@@ -0,0 +1,116 @@
+// src/components/auth/AccountMenu.tsx
+// Header sign-in button, or the signed-in user's menu
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CircleUser, ClipboardCheck, LogIn, LogOut, Users } from 'lucide-react';
+import { useAuthStore } from '../../store/AuthStore';
+import { useTreeEditStore } from '../../store/TreeEditStore';
+import { getRoleLabel, hasPermission } from '../../types/auth';
+import LoginDialog from './LoginDialog';
+import UserManagementDialog from './UserManagementDialog';
+import { EditReviewDialog } from '../review';
+
+const AccountMenu: React.FC = () => {
+  const { user, sessionMessage, logout, refreshUser } = useAuthStore();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [showLogin, setShowLogin] = useState(false);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showReview, setShowReview] = useState(false);
+  const { pendingCount, fetchPendingCount } = useTreeEditStore();
+  const canReview = hasPermission(user, 'edits:review');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Pick up role changes and drop revoked sessions on load
+  useEffect(() => {
+    refreshUser();
+  }, [refreshUser]);
+
+  useEffect(() => {
+    if (canReview) fetchPendingCount();
+  }, [canReview, fetchPendingCount]);
+
+  useEffect(() => {
+    if (!menuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [menuOpen]);
+
+  if (!user) {
+    return (
+      <>
+        <button
+          onClick={() => setShowLogin(true)}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 sm:px-3 sm:py-1.5 bg-white/15 hover:bg-white/25 rounded-md transition-all text-sm font-medium"
+          title={sessionMessage ?? 'Sign in to log field reports and share presets'}
+        >
+          <LogIn size={16} />
+          <span className="hidden sm:inline">Sign in</span>
+        </button>
+        {showLogin && <LoginDialog onClose={() => setShowLogin(false)} />}
+      </>
+    );
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setMenuOpen(!menuOpen)}
+        className="flex items-center gap-1.5 px-2.5 py-1.5 sm:px-3 sm:py-1.5 bg-white/15 hover:bg-white/25 rounded-md transition-all text-sm font-medium"
+        title={`Signed in as ${user.name}`}
+      >
+        <CircleUser size={16} />
+        <span className="hidden sm:inline max-w-[120px] truncate">{user.name}</span>
+        {canReview && !!pendingCount && (
+          <span className="min-w-[18px] px-1 rounded-full bg-amber-400 text-amber-950 text-[11px] leading-[18px] text-center">
+            {pendingCount}
+          </span>
+        )}
+      </button>
+
+      {menuOpen && (
+        <div className="absolute right-0 mt-2 w-56 bg-white rounded-md shadow-lg border border-gray-100 z-50 text-gray-800">
+          <div className="px-4 py-3 border-b border-gray-100">
+            <div className="text-sm font-medium truncate">{user.name}</div>
+            <div className="text-xs text-gray-500 truncate">{user.email}</div>
+            <span className="inline-block mt-1.5 text-xs font-medium px-2 py-0.5 rounded-full bg-primary-50 text-primary-700">
+              {getRoleLabel(user.role)}
+            </span>
+          </div>
+          {canReview && (
+            <button
+              onClick={() => { setShowReview(true); setMenuOpen(false); }}
+              className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              <ClipboardCheck size={14} className="mr-2 text-gray-500" /> Review corrections
+              {!!pendingCount && <span className="ml-auto text-xs text-amber-700">{pendingCount}</span>}
+            </button>
+          )}
+          {hasPermission(user, 'users:manage') && (
+            <button
+              onClick={() => { setShowUsers(true); setMenuOpen(false); }}
+              className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+            >
+              <Users size={14} className="mr-2 text-gray-500" /> Manage users
+            </button>
+          )}
+          <button
+            onClick={() => { logout(); setMenuOpen(false); }}
+            className="w-full flex items-center px-4 py-2 text-sm hover:bg-gray-50"
+          >
+            <LogOut size={14} className="mr-2 text-gray-500" /> Sign out
+          </button>
+        </div>
+      )}
+
+      {showUsers && <UserManagementDialog onClose={() => setShowUsers(false)} />}
+      {showReview && <EditReviewDialog onClose={() => setShowReview(false)} />}
+    </div>
+  );
+};
+
+export default AccountMenu;
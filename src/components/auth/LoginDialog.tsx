@@ -0,0 +1,84 @@
+// src/components/auth/LoginDialog.tsx
+// Sign-in form for surveyors, analysts and admins
+
+import React, { useState } from 'react';
+import { Loader2, LogIn, X } from 'lucide-react';
+import { describeAuthError, useAuthStore } from '../../store/AuthStore';
+
+interface LoginDialogProps {
+  onClose: () => void;
+}
+
+const LoginDialog: React.FC<LoginDialogProps> = ({ onClose }) => {
+  const login = useAuthStore((state) => state.login);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(email.trim(), password);
+      onClose();
+    } catch (err) {
+      setError(describeAuthError(err, 'Could not sign in. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-sm text-gray-800" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+          <h2 className="text-lg font-semibold flex items-center">
+            <LogIn size={18} className="mr-2 text-primary-600" /> Sign in
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="px-5 py-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            Accounts are for field surveyors and analysts. The dashboard itself is open to everyone.
+          </p>
+          <div>
+            <label htmlFor="login-email" className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <input
+              id="login-email"
+              type="email"
+              autoComplete="username"
+              autoFocus
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="input w-full"
+            />
+          </div>
+          <div>
+            <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              required
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="input w-full"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button type="submit" disabled={isSubmitting} className="btn btn-primary w-full justify-center disabled:opacity-50">
+            {isSubmitting && <Loader2 size={16} className="animate-spin mr-2" />}
+            Sign in
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LoginDialog;
@@ -0,0 +1,201 @@
+// src/components/auth/UserManagementDialog.tsx
+// Admin view for creating accounts, changing roles and deactivating users
+
+import React, { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Plus, Users, X } from 'lucide-react';
+import { describeAuthError, useAuthStore, UserInput } from '../../store/AuthStore';
+import { AuthUser, ROLE_OPTIONS, UserRole } from '../../types/auth';
+
+interface UserManagementDialogProps {
+  onClose: () => void;
+}
+
+const EMPTY_USER: UserInput = { email: '', name: '', role: 'surveyor', password: '' };
+
+const UserManagementDialog: React.FC<UserManagementDialogProps> = ({ onClose }) => {
+  const { user: currentUser, fetchUsers, createUser, updateUser } = useAuthStore();
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<UserInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUsers()
+      .then(setUsers)
+      .catch((err) => setError(describeAuthError(err, 'Could not load users')))
+      .finally(() => setLoading(false));
+  }, [fetchUsers]);
+
+  const replaceUser = (updated: AuthUser) =>
+    setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+
+  const handleUpdate = async (user: AuthUser, update: Parameters<typeof updateUser>[1]) => {
+    setError(null);
+    try {
+      replaceUser(await updateUser(user.id, update));
+    } catch (err) {
+      setError(describeAuthError(err, `Could not update ${user.name}`));
+    }
+  };
+
+  const handleResetPassword = (user: AuthUser) => {
+    const password = window.prompt(`New password for ${user.name} (at least 8 characters):`);
+    if (password) handleUpdate(user, { password });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await createUser({ ...draft, email: draft.email.trim(), name: draft.name.trim() });
+      setUsers((prev) => [...prev, created]);
+      setDraft(null);
+    } catch (err) {
+      setError(describeAuthError(err, 'Could not create the account'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col text-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+          <h2 className="text-lg font-semibold flex items-center">
+            <Users size={18} className="mr-2 text-primary-600" /> Manage Users
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-5 py-4 overflow-y-auto space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {loading ? (
+            <div className="flex justify-center py-6"><Loader2 size={20} className="animate-spin text-gray-400" /></div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-2 font-medium">User</th>
+                  <th className="py-2 pr-2 font-medium">Role</th>
+                  <th className="py-2 pr-2 font-medium">Status</th>
+                  <th className="py-2 font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <tr key={user.id} className={`border-b border-gray-50 ${user.active ? '' : 'text-gray-400'}`}>
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">{user.name}{isSelf && <span className="text-xs text-gray-400"> (you)</span>}</div>
+                        <div className="text-xs text-gray-500">{user.email}</div>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <select
+                          value={user.role}
+                          disabled={isSelf}
+                          onChange={(e) => handleUpdate(user, { role: e.target.value as UserRole })}
+                          className="text-sm border border-gray-300 rounded px-1.5 py-1 disabled:bg-gray-50"
+                        >
+                          {ROLE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="py-2 pr-2">
+                        <label className="flex items-center gap-1.5 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={user.active}
+                            disabled={isSelf}
+                            onChange={(e) => handleUpdate(user, { active: e.target.checked })}
+                            className="rounded text-primary-600"
+                          />
+                          {user.active ? 'Active' : 'Deactivated'}
+                        </label>
+                      </td>
+                      <td className="py-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleResetPassword(user)}
+                          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                          title="Set a new password"
+                        >
+                          <KeyRound size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {draft ? (
+            <form onSubmit={handleCreate} className="border border-gray-200 rounded-md p-3 bg-gray-50 space-y-2">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  placeholder="Name"
+                  required
+                  maxLength={100}
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="input text-sm w-full"
+                />
+                <input
+                  type="email"
+                  placeholder="Email"
+                  required
+                  value={draft.email}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                  className="input text-sm w-full"
+                />
+                <select
+                  value={draft.role}
+                  onChange={(e) => setDraft({ ...draft, role: e.target.value as UserRole })}
+                  className="input text-sm w-full"
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label} – {option.description}</option>
+                  ))}
+                </select>
+                <input
+                  type="password"
+                  placeholder="Initial password (8+ characters)"
+                  required
+                  minLength={8}
+                  autoComplete="new-password"
+                  value={draft.password}
+                  onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                  className="input text-sm w-full"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button type="submit" disabled={isSaving} className="btn btn-primary py-1.5 px-3 text-sm disabled:opacity-50">
+                  {isSaving && <Loader2 size={14} className="animate-spin mr-1" />} Create account
+                </button>
+                <button type="button" onClick={() => setDraft(null)} className="btn btn-outline py-1.5 px-3 text-sm">Cancel</button>
+              </div>
+            </form>
+          ) : (
+            <button type="button" onClick={() => setDraft(EMPTY_USER)} className="btn btn-outline py-1.5 px-3 text-sm">
+              <Plus size={14} className="mr-1" /> Add user
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserManagementDialog;
@@ -0,0 +1,6 @@
+// src/components/auth/index.ts
+// Sign-in and user management
+
+export { default as AccountMenu } from './AccountMenu';
+export { default as LoginDialog } from './LoginDialog';
+export { default as UserManagementDialog } from './UserManagementDialog';
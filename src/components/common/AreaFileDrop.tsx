@@ -0,0 +1,183 @@
+// src/components/common/AreaFileDrop.tsx
+// Drop a boundary file and pick which of its polygons become the selected area
+
+import React, { useMemo, useRef, useState } from 'react';
+import { FileUp, Loader2, X } from 'lucide-react';
+import { useTreeStore } from '../../store/TreeStore';
+import {
+  AREA_FILE_ACCEPT,
+  ImportedAreaFeature,
+  combineAreaFeatures,
+  parseAreaFile,
+} from '../../utils/areaFileImport';
+
+const AreaFileDrop: React.FC = () => {
+  const { setSelectedArea } = useTreeStore();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [features, setFeatures] = useState<ImportedAreaFeature[]>([]);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const [search, setSearch] = useState('');
+  const [isParsing, setIsParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleIndices = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return features
+      .map((f, index) => ({ label: f.label, index }))
+      .filter((f) => !query || f.label.toLowerCase().includes(query))
+      .map((f) => f.index);
+  }, [features, search]);
+
+  const applySelection = (items: ImportedAreaFeature[]) => {
+    setSelectedArea({ type: 'geojson', geojsonData: combineAreaFeatures(items.map((i) => i.feature)) });
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setFeatures([]);
+    setPicked(new Set());
+    setSearch('');
+  };
+
+  const handleFile = async (file: File) => {
+    setIsParsing(true);
+    setError(null);
+    try {
+      const parsed = await parseAreaFile(file);
+      if (parsed.length === 1) {
+        applySelection(parsed);
+        reset();
+      } else {
+        setFileName(file.name);
+        setFeatures(parsed);
+        setPicked(new Set());
+      }
+    } catch (err) {
+      console.error('Error reading boundary file:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file');
+      reset();
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  const togglePicked = (index: number) => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const allVisiblePicked = visibleIndices.length > 0 && visibleIndices.every((i) => picked.has(i));
+
+  const toggleAllVisible = () => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      visibleIndices.forEach((i) => (allVisiblePicked ? next.delete(i) : next.add(i)));
+      return next;
+    });
+  };
+
+  if (features.length > 0) {
+    return (
+      <div className="border border-gray-200 rounded-md">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 bg-gray-50">
+          <span className="text-xs text-gray-600 truncate" title={fileName ?? undefined}>
+            {fileName} · {features.length} polygons
+          </span>
+          <button type="button" onClick={reset} className="p-0.5 text-gray-400 hover:text-gray-600 rounded" title="Discard file">
+            <X size={14} />
+          </button>
+        </div>
+        {features.length > 8 && (
+          <div className="px-3 pt-2">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter by name"
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+          </div>
+        )}
+        <label className="flex items-center gap-2 px-3 pt-2 text-xs text-gray-500 cursor-pointer">
+          <input type="checkbox" checked={allVisiblePicked} onChange={toggleAllVisible} className="rounded text-primary-600" />
+          Select all{search ? ' matching' : ''}
+        </label>
+        <ul className="max-h-48 overflow-y-auto px-3 py-1">
+          {visibleIndices.map((index) => (
+            <li key={index}>
+              <label className="flex items-center gap-2 py-0.5 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={picked.has(index)}
+                  onChange={() => togglePicked(index)}
+                  className="rounded text-primary-600"
+                />
+                <span className="truncate">{features[index].label}</span>
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className="px-3 py-2 border-t border-gray-100">
+          <button
+            type="button"
+            onClick={() => {
+              applySelection(features.filter((_, i) => picked.has(i)));
+              reset();
+            }}
+            disabled={picked.size === 0}
+            className="btn btn-primary w-full justify-center py-1.5 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Use {picked.size > 0 ? picked.size : ''} selected as area
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => fileInputRef.current?.click()}
+        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && fileInputRef.current?.click()}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex items-center justify-center gap-2 px-3 py-3 border-2 border-dashed rounded-md text-sm cursor-pointer transition-colors ${
+          isDragging ? 'border-primary-400 bg-primary-50 text-primary-700' : 'border-gray-200 text-gray-500 hover:border-gray-300'
+        }`}
+      >
+        {isParsing ? <Loader2 size={16} className="animate-spin" /> : <FileUp size={16} />}
+        <span>{isParsing ? 'Reading file...' : 'Or drop a GeoJSON, KML or zipped Shapefile'}</span>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={AREA_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // Allow re-selecting the same file
+          if (file) handleFile(file);
+        }}
+      />
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default AreaFileDrop;
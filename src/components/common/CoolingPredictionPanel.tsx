@@ -0,0 +1,198 @@
+// src/components/common/CoolingPredictionPanel.tsx
+// Predicted before/after land surface temperature for the simulated planting
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, X as CloseIcon } from 'lucide-react';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { SimulatedTreeCooling, useTreeStore } from '../../store/TreeStore';
+import { LstRaster, loadLstRaster } from '../../utils/lstRaster';
+import {
+  COOLING_SCENARIO_LABELS,
+  CoolingScenario,
+  CoolingSource,
+  SurfaceView,
+  computeCoolingSurface,
+  getSurfaceLegendGradient,
+  getSurfaceRange,
+  renderSurface,
+} from '../../utils/coolingSurface';
+
+type MapView = 'off' | 'after' | 'cooling';
+
+const MAP_VIEW_OPTIONS: { value: MapView; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'after', label: 'After' },
+  { value: 'cooling', label: 'Cooling' },
+];
+
+const formatTemp = (value: number) => `${value.toFixed(1)}°C`;
+
+interface SurfaceImageProps {
+  title: string;
+  url: string;
+  view: SurfaceView;
+  range: [number, number];
+}
+
+const SurfaceImage: React.FC<SurfaceImageProps> = ({ title, url, view, range }) => (
+  <div className="min-w-0">
+    <p className="text-xs font-medium text-gray-600 mb-1">{title}</p>
+    <div className="h-32 bg-gray-100 rounded-md flex items-center justify-center overflow-hidden">
+      <img src={url} alt={title} className="max-h-full max-w-full object-contain" />
+    </div>
+    <div className="h-2 rounded-sm mt-1" style={{ background: getSurfaceLegendGradient(view) }} />
+    <div className="flex justify-between text-[10px] text-gray-500">
+      <span>{view === 'cooling' ? '0' : range[0].toFixed(1)}</span>
+      <span>{view === 'cooling' ? `−${range[1].toFixed(1)}°C` : `${range[1].toFixed(1)}°C`}</span>
+    </div>
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: string; highlight?: boolean }> = ({ label, value, highlight }) => (
+  <div className="flex justify-between gap-2 text-xs">
+    <span className="text-gray-500">{label}</span>
+    <span className={`font-semibold ${highlight ? 'text-blue-600' : 'text-gray-800'}`}>{value}</span>
+  </div>
+);
+
+interface CoolingPredictionPanelProps {
+  onClose: () => void;
+  /** Cooling for the single-species simulation points; mixed plantings carry their own */
+  singleSpecies: (SimulatedTreeCooling & { commonName: string }) | null;
+}
+
+const CoolingPredictionPanel: React.FC<CoolingPredictionPanelProps> = ({ onClose, singleSpecies }) => {
+  const { selectedArea, simulatedPlantingPoints, simulatedPlantingGroups, setCoolingOverlay } = useTreeStore();
+  const [raster, setRaster] = useState<LstRaster | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [scenario, setScenario] = useState<CoolingScenario>('p90');
+  const [mapView, setMapView] = useState<MapView>('off');
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLstRaster()
+      .then((loaded) => { if (!cancelled) setRaster(loaded); })
+      .catch((err) => {
+        console.error('[CoolingPredictionPanel] Error loading LST image:', err);
+        if (!cancelled) setLoadError('Could not load the land surface temperature image.');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const sources = useMemo<CoolingSource[]>(() => {
+    const fromPoints = singleSpecies
+      ? simulatedPlantingPoints.map((position) => ({ position, cooling: singleSpecies }))
+      : [];
+    const fromGroups = simulatedPlantingGroups.flatMap((group) =>
+      group.points.map((position) => ({ position, cooling: group.cooling }))
+    );
+    return [...fromPoints, ...fromGroups];
+  }, [singleSpecies, simulatedPlantingPoints, simulatedPlantingGroups]);
+
+  const area = selectedArea?.geojsonData as Feature<Polygon | MultiPolygon> | null | undefined;
+
+  const surface = useMemo(
+    () => (raster && area && sources.length > 0 ? computeCoolingSurface(area, sources, raster, scenario) : null),
+    [raster, area, sources, scenario]
+  );
+
+  const images = useMemo(() => {
+    if (!surface) return null;
+    const temperatureRange = getSurfaceRange(surface, 'before');
+    const coolingRange = getSurfaceRange(surface, 'cooling');
+    return {
+      temperatureRange,
+      coolingRange,
+      before: renderSurface(surface, 'before', temperatureRange, true),
+      after: renderSurface(surface, 'after', temperatureRange, true),
+      cooling: renderSurface(surface, 'cooling', coolingRange, true),
+    };
+  }, [surface]);
+
+  // Draw the chosen view over the area on the map
+  useEffect(() => {
+    if (!surface || !images || mapView === 'off') {
+      setCoolingOverlay(null);
+      return;
+    }
+    const [west, south, east, north] = surface.bbox;
+    setCoolingOverlay({
+      url: mapView === 'after'
+        ? renderSurface(surface, 'after', images.temperatureRange)
+        : renderSurface(surface, 'cooling', images.coolingRange),
+      coordinates: [[west, north], [east, north], [east, south], [west, south]],
+    });
+  }, [surface, images, mapView, setCoolingOverlay]);
+
+  useEffect(() => () => setCoolingOverlay(null), [setCoolingOverlay]);
+
+  if (sources.length === 0) return null;
+
+  const speciesLabel = simulatedPlantingGroups.length > 0
+    ? `${simulatedPlantingGroups.length}-species mix`
+    : singleSpecies?.commonName ?? 'Selected species';
+
+  return (
+    <div className="p-3 bg-white rounded-t-lg">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-700 pl-1">
+          Predicted Surface Temperature <span className="font-normal text-gray-500">· {sources.length} trees, {speciesLabel}</span>
+        </h4>
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1">
+            {(Object.keys(COOLING_SCENARIO_LABELS) as CoolingScenario[]).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setScenario(value)}
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  scenario === value ? 'bg-primary-100 text-primary-700' : 'text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {COOLING_SCENARIO_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            On map
+            <select value={mapView} onChange={(e) => setMapView(e.target.value as MapView)} className="input text-xs py-0.5">
+              {MAP_VIEW_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded-md hover:bg-gray-100 focus:outline-none focus:ring-1 focus:ring-gray-400" aria-label="Close temperature prediction" title="Close">
+            <CloseIcon size={20} />
+          </button>
+        </div>
+      </div>
+
+      {loadError ? (
+        <p className="text-sm text-red-600 p-2">{loadError}</p>
+      ) : !raster ? (
+        <div className="flex justify-center py-8"><Loader2 size={20} className="animate-spin text-gray-400" /></div>
+      ) : !surface || !images ? (
+        <p className="text-sm text-gray-500 p-2">The planting area is outside the land surface temperature image, so no prediction can be made.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <SurfaceImage title="Before" url={images.before} view="before" range={images.temperatureRange} />
+          <SurfaceImage title="After planting" url={images.after} view="after" range={images.temperatureRange} />
+          <SurfaceImage title="Cooling" url={images.cooling} view="cooling" range={images.coolingRange} />
+          <div className="space-y-1">
+            <Stat label="Mean LST before" value={formatTemp(surface.stats.meanBefore)} />
+            <Stat label="Mean LST after" value={formatTemp(surface.stats.meanAfter)} />
+            <Stat label="Mean cooling" value={`−${surface.stats.meanCooling.toFixed(2)}°C`} highlight />
+            <Stat label="Peak cooling" value={`−${surface.stats.maxCooling.toFixed(1)}°C`} highlight />
+            <Stat label="Hot spots (P90)" value={`${formatTemp(surface.stats.hotSpotBefore)} → ${formatTemp(surface.stats.hotSpotAfter)}`} />
+            <Stat label="Area cooled ≥ 1°C" value={`${(surface.stats.shareCooled1C * 100).toFixed(0)}%`} />
+            <p className="text-[10px] text-gray-400 pt-1 leading-snug">
+              Baseline from the ~30 m LST image; cooling from each profile's measured {scenario === 'mean' ? 'mean' : scenario.toUpperCase()} effect, fading beyond the mature canopy. Grid {surface.stats.cellSizeM.toFixed(0)} m. Indicative, not a measurement.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoolingPredictionPanel;
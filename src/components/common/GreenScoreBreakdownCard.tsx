@@ -0,0 +1,89 @@
+// src/components/common/GreenScoreBreakdownCard.tsx
+// How a Green Score is built up: each factor's value, its 0-100 sub-score, weight and the points it adds
+
+import React from 'react';
+import { X as CloseIcon } from 'lucide-react';
+import {
+  GREEN_SCORE_FACTOR_LABELS,
+  GreenScoreBreakdown,
+  formatFactorValue,
+  getScoreColor,
+  getScoreLabel,
+} from '../../utils/greenScore';
+
+interface GreenScoreBreakdownCardProps {
+  title: string;
+  breakdown: GreenScoreBreakdown;
+  onClose?: () => void;
+}
+
+const GreenScoreBreakdownCard: React.FC<GreenScoreBreakdownCardProps> = ({ title, breakdown, onClose }) => {
+  const { score, profileName, components } = breakdown;
+  const hasMissing = components.some((c) => c.subScore == null);
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50/40 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-semibold text-gray-800">{title}</p>
+          <p className="text-[11px] text-gray-500">Methodology: {profileName}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-lg font-bold" style={{ color: getScoreColor(score) }}>{score}</span>
+          {onClose && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-1 text-gray-400 hover:text-gray-700 rounded-md hover:bg-white"
+              aria-label="Close score breakdown"
+              title="Close"
+            >
+              <CloseIcon size={14} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ul className="space-y-1.5">
+        {components.map((component) => (
+          <li key={component.factor} className={component.subScore == null || component.weight === 0 ? 'opacity-60' : ''}>
+            <div className="flex justify-between gap-2 text-xs">
+              <span className="text-gray-700">
+                {GREEN_SCORE_FACTOR_LABELS[component.factor]}
+                <span className="text-gray-400">
+                  {' · '}{component.value != null ? formatFactorValue(component.factor, component.value) : 'no data'}
+                </span>
+              </span>
+              <span className="font-semibold text-gray-800">+{component.points.toFixed(1)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-1.5 bg-gray-200 rounded-full">
+                <div
+                  className="h-full rounded-full bg-green-500"
+                  style={{ width: `${component.subScore ?? 0}%` }}
+                />
+              </div>
+              <span className="text-[10px] text-gray-500 w-24 text-right">
+                {component.subScore != null
+                  ? `${Math.round(component.subScore)} × ${Math.round(component.weight * 100)}%`
+                  : 'left out'}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-between border-t border-blue-100 pt-1.5 text-xs">
+        <span className="text-gray-600">Green Score ({getScoreLabel(score)})</span>
+        <span className="font-bold text-gray-800">{score} / 100</span>
+      </div>
+      {hasMissing && (
+        <p className="text-[11px] text-gray-400">
+          Factors without data are left out and the remaining weights scaled up to 100%.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GreenScoreBreakdownCard;
@@ -0,0 +1,127 @@
+// src/components/common/GrowthProjection.tsx
+// Projected girth, height, canopy and CO₂ uptake over the coming decades, with key-year figures
+
+import React, { useEffect, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { GROWTH_METRICS, GrowthMetric, ProjectionPoint, ProjectionTreeInput, TreeProjection } from '../../types/projections';
+import { fetchGrowthProjections, formatCo2 } from '../../utils/growthProjection';
+
+const KEY_YEARS = [10, 20, 30, 50];
+
+const isCo2Metric = (metric: GrowthMetric) => metric === 'co2_absorbed_kg' || metric === 'co2_annual_kg';
+
+const formatValue = (metric: GrowthMetric, value: number) =>
+  metric === 'co2_absorbed_kg'
+    ? formatCo2(value)
+    : metric === 'co2_annual_kg'
+      ? `${formatCo2(value)}/yr`
+      : `${value.toLocaleString('en-IN', { maximumFractionDigits: 1 })} ${GROWTH_METRICS.find((m) => m.metric === metric)?.unit}`;
+
+interface GrowthProjectionChartProps {
+  series: ProjectionPoint[];
+  /** Measurements the user can switch between; CO₂ only by default */
+  metrics?: GrowthMetric[];
+  color?: string;
+}
+
+const GrowthProjectionChart: React.FC<GrowthProjectionChartProps> = ({ series, metrics = ['co2_absorbed_kg'], color = '#0d9488' }) => {
+  const [metric, setMetric] = useState<GrowthMetric>(metrics[0]);
+  const options = GROWTH_METRICS.filter((m) => metrics.includes(m.metric));
+  const keyPoints = series.filter((point) => KEY_YEARS.includes(point.year));
+
+  return (
+    <div className="space-y-2">
+      {options.length > 1 && (
+        <div className="flex flex-wrap gap-1">
+          {options.map((m) => (
+            <button
+              key={m.metric}
+              type="button"
+              onClick={() => setMetric(m.metric)}
+              className={`px-2 py-0.5 rounded-full text-xs border ${
+                metric === m.metric ? 'bg-primary-100 border-primary-300 text-primary-700' : 'bg-white border-gray-200 text-gray-600'
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <ResponsiveContainer width="100%" height={160}>
+        <LineChart data={series} margin={{ top: 4, right: 8, bottom: 0, left: -8 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+          <XAxis dataKey="year" tick={{ fontSize: 10 }} tickFormatter={(year) => `${year}y`} />
+          <YAxis
+            tick={{ fontSize: 10 }}
+            tickFormatter={(value: number) => (isCo2Metric(metric) && value >= 1000 ? `${value / 1000}t` : String(value))}
+          />
+          <Tooltip
+            formatter={(value) => [formatValue(metric, Number(value)), GROWTH_METRICS.find((m) => m.metric === metric)?.label]}
+            labelFormatter={(year) => `After ${year} years`}
+          />
+          <Line type="monotone" dataKey={metric} stroke={color} strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+      {keyPoints.length > 0 && (
+        <div className="grid grid-cols-4 gap-1 text-center">
+          {keyPoints.map((point) => (
+            <div key={point.year} className="bg-gray-50 rounded p-1">
+              <div className="text-xs font-semibold text-gray-800">{formatValue(metric, point[metric])}</div>
+              <div className="text-[10px] text-gray-500">{point.year} years</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface GrowthProjectionProps {
+  tree: ProjectionTreeInput;
+  metrics?: GrowthMetric[];
+}
+
+/** Loads and charts the projection for one tree, or for a sapling when no girth is given */
+const GrowthProjection: React.FC<GrowthProjectionProps> = ({ tree, metrics }) => {
+  const [projection, setProjection] = useState<TreeProjection | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const { common_name, girth_cm, height_m, canopy_dia_m, co2_annual_kg } = tree;
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    fetchGrowthProjections([{ common_name, girth_cm, height_m, canopy_dia_m, co2_annual_kg }])
+      .then((data) => {
+        if (cancelled) return;
+        setProjection(data.projections[0] ?? null);
+        setStatus('ready');
+      })
+      .catch((error) => {
+        console.error(`Error loading growth projection for ${common_name}:`, error);
+        if (!cancelled) setStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [common_name, girth_cm, height_m, canopy_dia_m, co2_annual_kg]);
+
+  if (status === 'loading') {
+    return <div className="flex justify-center py-6"><Loader2 size={20} className="animate-spin text-gray-400" /></div>;
+  }
+  if (status === 'error' || !projection) {
+    return <p className="text-sm text-gray-500">The growth projection is not available right now.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <GrowthProjectionChart series={projection.series} metrics={metrics} />
+      <p className="text-xs text-gray-400">
+        {projection.model.basis === 'species'
+          ? `Growth curves fitted to ${projection.model.fit_tree_count.toLocaleString('en-IN')} measured ${common_name} trees`
+          : `Too few ${common_name} trees are measured, so city-wide growth curves are used`}
+        {' '}· mature girth ~{projection.model.mature_girth_cm} cm.
+      </p>
+    </div>
+  );
+};
+
+export default GrowthProjection;
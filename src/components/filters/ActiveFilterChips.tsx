@@ -27,6 +27,7 @@ const ActiveFilterChips: React.FC<ActiveFilterChipsProps> = ({
       {chips.map((chip) => (
         <span
           key={chip.id}
+          title={chip.label}
           className={`inline-flex items-center gap-1 px-2.5 py-1 bg-primary-50 text-primary-700 rounded-full border border-primary-200 transition-colors hover:bg-primary-100 ${
             compact ? 'text-xs' : 'text-sm'
           }`}
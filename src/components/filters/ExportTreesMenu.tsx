@@ -0,0 +1,127 @@
+// src/components/filters/ExportTreesMenu.tsx
+// Download menu for the trees matching the active filters (optionally clipped to the drawn area)
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, FileJson, Loader2 } from 'lucide-react';
+import { useFilters } from '../../store/FilterStore';
+import { useTreeStore } from '../../store/TreeStore';
+import { TreeExportFormat } from '../../types/filters';
+
+interface ExportOption {
+  format: TreeExportFormat;
+  label: string;
+  description: string;
+  icon: React.ReactNode;
+}
+
+const exportOptions: ExportOption[] = [
+  {
+    format: 'csv',
+    label: 'CSV',
+    description: 'Spreadsheet with coordinates',
+    icon: <FileSpreadsheet size={16} className="text-green-600" />,
+  },
+  {
+    format: 'geojson',
+    label: 'GeoJSON',
+    description: 'Single FeatureCollection',
+    icon: <FileJson size={16} className="text-blue-600" />,
+  },
+  {
+    format: 'geojsonseq',
+    label: 'GeoJSONSeq',
+    description: 'Line-delimited, for QGIS / GeoPackage',
+    icon: <FileJson size={16} className="text-purple-600" />,
+  },
+];
+
+const ExportTreesMenu: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [clipToArea, setClipToArea] = useState(true);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { exportTrees, isExporting, exportError, filteredStats } = useFilters();
+  const { selectedArea } = useTreeStore();
+
+  const drawnGeometry = selectedArea?.geojsonData?.geometry ?? null;
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: TreeExportFormat) => {
+    setIsOpen(false);
+    await exportTrees(format, clipToArea ? drawnGeometry : null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isExporting}
+        className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:cursor-wait"
+        title={exportError || 'Export matching trees'}
+        aria-label="Export matching trees"
+      >
+        {isExporting ? (
+          <Loader2 size={14} className="animate-spin text-primary-600" />
+        ) : (
+          <Download size={14} className={exportError ? 'text-red-500' : ''} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200 z-[60] animate-fade-in">
+          <div className="px-3 py-2 border-b border-gray-100">
+            <div className="text-sm font-medium text-gray-700">Export trees</div>
+            {filteredStats && (
+              <div className="text-xs text-gray-500">
+                {filteredStats.totalTrees.toLocaleString()} trees match {filteredStats.isFiltered ? 'the active filters' : '(no filters)'}
+              </div>
+            )}
+          </div>
+
+          {drawnGeometry && (
+            <label className="flex items-center gap-2 px-3 py-2 text-xs text-gray-600 border-b border-gray-100 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={clipToArea}
+                onChange={(e) => setClipToArea(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Only trees inside the drawn area
+            </label>
+          )}
+
+          <ul className="py-1">
+            {exportOptions.map((option) => (
+              <li key={option.format}>
+                <button
+                  type="button"
+                  onClick={() => handleExport(option.format)}
+                  className="w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-50 transition-colors"
+                >
+                  <span className="mt-0.5">{option.icon}</span>
+                  <span>
+                    <span className="block text-sm text-gray-800">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportTreesMenu;
@@ -0,0 +1,310 @@
+// src/components/filters/FilterPresets.tsx
+// Saved filter presets: save, apply, rename, overwrite, delete, import/export and server sharing
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Bookmark,
+  BookmarkPlus,
+  Check,
+  Cloud,
+  UploadCloud,
+  Download,
+  Pencil,
+  RefreshCw,
+  Save,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import { useFilters } from '../../store/FilterStore';
+import { useFilterPresetStore } from '../../store/FilterPresetStore';
+import { useAuthStore } from '../../store/AuthStore';
+import { hasPermission } from '../../types/auth';
+import { FilterPreset, TreeFilters, countActiveFilters } from '../../types/filters';
+
+const filtersEqual = (a: TreeFilters, b: TreeFilters) => JSON.stringify(a) === JSON.stringify(b);
+
+interface PresetRowProps {
+  preset: FilterPreset;
+  isActive: boolean;
+  onApply: () => void;
+  onRename?: (name: string) => void;
+  onOverwrite?: () => void;
+  onShare?: () => void;
+  onDelete?: () => void;
+}
+
+const PresetRow: React.FC<PresetRowProps> = ({
+  preset,
+  isActive,
+  onApply,
+  onRename,
+  onOverwrite,
+  onShare,
+  onDelete,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(preset.name);
+
+  const commitRename = () => {
+    if (draftName.trim() && onRename) {
+      onRename(draftName);
+    }
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="flex items-center gap-1 py-1">
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          maxLength={100}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <button type="button" onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded" title="Save name">
+          <Check size={14} />
+        </button>
+        <button type="button" onClick={() => setIsEditing(false)} className="p-1 text-gray-400 hover:bg-gray-100 rounded" title="Cancel">
+          <X size={14} />
+        </button>
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center gap-1 py-1">
+      <button
+        type="button"
+        onClick={onApply}
+        className={`flex-1 min-w-0 text-left px-2 py-1 rounded text-sm transition-colors ${
+          isActive ? 'bg-primary-50 text-primary-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+        }`}
+        title={preset.description || `Apply "${preset.name}"`}
+      >
+        <span className="block truncate">{preset.name}</span>
+        <span className="block text-xs text-gray-400">
+          {countActiveFilters(preset.filters)} filters
+          {preset.author ? ` · ${preset.author}` : ''}
+          {preset.serverId && onOverwrite ? ' · shared' : ''}
+        </span>
+      </button>
+      <div className="flex items-center opacity-60 group-hover:opacity-100 transition-opacity">
+        {onRename && (
+          <button type="button" onClick={() => { setDraftName(preset.name); setIsEditing(true); }} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Rename">
+            <Pencil size={13} />
+          </button>
+        )}
+        {onOverwrite && (
+          <button type="button" onClick={onOverwrite} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Overwrite with current filters">
+            <Save size={13} />
+          </button>
+        )}
+        {onShare && !preset.serverId && (
+          <button type="button" onClick={onShare} className="p-1 text-gray-400 hover:text-blue-600 rounded" title="Share with the team">
+            <UploadCloud size={13} />
+          </button>
+        )}
+        {onDelete && (
+          <button type="button" onClick={onDelete} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Delete">
+            <Trash2 size={13} />
+          </button>
+        )}
+      </div>
+    </li>
+  );
+};
+
+const FilterPresets: React.FC = () => {
+  const { filters, setFilters, hasActiveFilters } = useFilters();
+  // Team presets are read-only unless signed in as an analyst or admin
+  const canSharePresets = useAuthStore((state) => hasPermission(state.user, 'presets:write'));
+  // Shared presets can only be changed by whoever shared them, or by an admin
+  const currentUser = useAuthStore((state) => state.user);
+  const canManageShared = (preset: FilterPreset) =>
+    canSharePresets && (currentUser?.role === 'admin' || preset.createdBy === currentUser?.id);
+  const {
+    presets,
+    sharedPresets,
+    isLoadingShared,
+    sharedError,
+    savePreset,
+    renamePreset,
+    updatePresetFilters,
+    deletePreset,
+    exportPresets,
+    importPresets,
+    fetchSharedPresets,
+    sharePreset,
+    renameSharedPreset,
+    deleteSharedPreset,
+  } = useFilterPresetStore();
+
+  const [newPresetName, setNewPresetName] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [showShared, setShowShared] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Load shared presets the first time the section is opened
+  useEffect(() => {
+    if (showShared) {
+      fetchSharedPresets();
+    }
+  }, [showShared, fetchSharedPresets]);
+
+  const handleSave = () => {
+    if (!newPresetName.trim()) return;
+    savePreset(newPresetName, filters);
+    setNewPresetName('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pune-tree-filter-presets-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      const count = importPresets(await file.text());
+      setImportMessage(`Imported ${count} preset${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error importing presets:', error);
+      setImportMessage('Could not read presets from this file');
+    }
+    setTimeout(() => setImportMessage(null), 3000);
+  };
+
+  const confirmDelete = (name: string) => window.confirm(`Delete preset "${name}"?`);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide flex items-center gap-1.5">
+          <Bookmark size={12} />
+          Saved Presets
+        </p>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            title="Import presets from JSON"
+          >
+            <Upload size={14} />
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={presets.length === 0}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Export presets as JSON"
+          >
+            <Download size={14} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+
+      {/* Save current filters */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newPresetName}
+          onChange={(e) => setNewPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder={hasActiveFilters ? 'Name these filters...' : 'Set some filters to save a preset'}
+          disabled={!hasActiveFilters}
+          maxLength={100}
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50"
+        />
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!hasActiveFilters || !newPresetName.trim()}
+          className="inline-flex items-center gap-1 px-3 py-1.5 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <BookmarkPlus size={14} />
+          Save
+        </button>
+      </div>
+
+      {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+
+      {presets.length > 0 && (
+        <ul className="divide-y divide-gray-50">
+          {presets.map((preset) => (
+            <PresetRow
+              key={preset.id}
+              preset={preset}
+              isActive={filtersEqual(preset.filters, filters)}
+              onApply={() => setFilters(preset.filters)}
+              onRename={(name) => renamePreset(preset.id, name)}
+              onOverwrite={() => updatePresetFilters(preset.id, filters)}
+              onShare={canSharePresets ? () => sharePreset(preset.id) : undefined}
+              onDelete={() => confirmDelete(preset.name) && deletePreset(preset.id)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Team presets stored on the server */}
+      <div className="pt-1">
+        <button
+          type="button"
+          onClick={() => setShowShared(!showShared)}
+          className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-700"
+        >
+          <Cloud size={12} />
+          {showShared ? 'Hide team presets' : 'Show team presets'}
+        </button>
+
+        {showShared && (
+          <div className="mt-2 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-400">
+                {isLoadingShared ? 'Loading...' : `${sharedPresets.length} shared`}
+              </span>
+              <button
+                type="button"
+                onClick={() => fetchSharedPresets()}
+                disabled={isLoadingShared}
+                className="p-1 text-gray-400 hover:text-gray-600 rounded"
+                title="Refresh team presets"
+              >
+                <RefreshCw size={12} className={isLoadingShared ? 'animate-spin' : ''} />
+              </button>
+            </div>
+            {sharedError && <p className="text-xs text-red-600">{sharedError}</p>}
+            <ul className="divide-y divide-gray-50">
+              {sharedPresets.map((preset) => (
+                <PresetRow
+                  key={preset.id}
+                  preset={preset}
+                  isActive={filtersEqual(preset.filters, filters)}
+                  onApply={() => setFilters(preset.filters)}
+                  onRename={canManageShared(preset) ? (name) => preset.serverId && renameSharedPreset(preset.serverId, name) : undefined}
+                  onDelete={canManageShared(preset) ? () => preset.serverId && confirmDelete(preset.name) && deleteSharedPreset(preset.serverId) : undefined}
+                />
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilterPresets;
@@ -0,0 +1,65 @@
+// src/components/filters/IncludeExcludeSelect.tsx
+// Multi-select that can either keep or leave out the chosen species/wards
+
+import React, { useState } from 'react';
+import { useFilters } from '../../store/FilterStore';
+import MultiSelect from './MultiSelect';
+
+type ListField = 'species' | 'wards';
+
+const EXCLUDE_FIELDS: Record<ListField, 'excludeSpecies' | 'excludeWards'> = {
+  species: 'excludeSpecies',
+  wards: 'excludeWards',
+};
+
+interface IncludeExcludeSelectProps extends Omit<React.ComponentProps<typeof MultiSelect>, 'selected' | 'onChange'> {
+  field: ListField;
+}
+
+const IncludeExcludeSelect: React.FC<IncludeExcludeSelectProps> = ({ field, ...selectProps }) => {
+  const { filters, setFilters, updateFilter } = useFilters();
+  const excludeField = EXCLUDE_FIELDS[field];
+
+  // Start in exclude mode when only an exclusion list is set (e.g. from a shared link)
+  const [isExcluding, setIsExcluding] = useState(
+    filters[field].length === 0 && filters[excludeField].length > 0
+  );
+
+  // Switching mode carries the current selection over to the other list
+  const handleModeChange = (exclude: boolean) => {
+    if (exclude === isExcluding) return;
+    setIsExcluding(exclude);
+    const [from, to] = exclude ? [field, excludeField] : [excludeField, field];
+    if (filters[from].length > 0) {
+      setFilters({ ...filters, [from]: [], [to]: [...new Set([...filters[to], ...filters[from]])] });
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="absolute right-0 top-0 z-10 flex rounded border border-gray-200 overflow-hidden text-xs">
+        {[false, true].map((exclude) => (
+          <button
+            key={String(exclude)}
+            type="button"
+            onClick={() => handleModeChange(exclude)}
+            className={`px-2 py-0.5 transition-colors ${
+              isExcluding === exclude
+                ? exclude ? 'bg-red-50 text-red-700' : 'bg-primary-50 text-primary-700'
+                : 'text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            {exclude ? 'Exclude' : 'Include'}
+          </button>
+        ))}
+      </div>
+      <MultiSelect
+        {...selectProps}
+        selected={isExcluding ? filters[excludeField] : filters[field]}
+        onChange={(selected) => updateFilter(isExcluding ? excludeField : field, selected)}
+      />
+    </div>
+  );
+};
+
+export default IncludeExcludeSelect;
@@ -5,12 +5,14 @@ import React, { useEffect, useState } from 'react';
 import { X, Filter, RotateCcw, Trees, MapPin, Layers, ChevronDown, ChevronUp, Settings2 } from 'lucide-react';
 import { useFilters } from '../../store/FilterStore';
 import RangeSlider from './RangeSlider';
-import MultiSelect from './MultiSelect';
+import IncludeExcludeSelect from './IncludeExcludeSelect';
 import ToggleGroup from './ToggleGroup';
 import ActiveFilterChips from './ActiveFilterChips';
 import FilterLoadingState from './FilterLoadingState';
 import QuickFilterChips from './QuickFilterChips';
-import { LocationFilterType } from '../../types/filters';
+import FilterPresets from './FilterPresets';
+import OrGroupsEditor from './OrGroupsEditor';
+import { LocationFilterType, isRangeActive } from '../../types/filters';
 
 interface MobileFilterSheetProps {
   isOpen: boolean;
@@ -148,6 +150,9 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
               {/* Quick Filter Chips - Purpose & Size presets */}
               <QuickFilterChips compact />
 
+              {/* Saved Presets - named filter combinations */}
+              <FilterPresets />
+
               {/* Flowering Status */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-700">Flowering Status</label>
@@ -181,22 +186,20 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
               <div className="space-y-4 pt-2 border-t border-gray-100">
                 {/* Species */}
                 <div className="relative">
-                  <MultiSelect
+                  <IncludeExcludeSelect
+                    field="species"
                     label="Species"
                     options={metadata.species}
-                    selected={filters.species}
-                    onChange={(selected) => updateFilter('species', selected)}
                     placeholder="Search all 397+ species..."
                   />
                 </div>
 
                 {/* Ward */}
                 <div className="relative">
-                  <MultiSelect
+                  <IncludeExcludeSelect
+                    field="wards"
                     label="Ward"
                     options={metadata.wards}
-                    selected={filters.wards}
-                    onChange={(selected) => updateFilter('wards', selected)}
                     placeholder="Select wards..."
                     sortType="natural"
                     itemPrefix="Ward"
@@ -231,10 +234,8 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
                   <div className="flex items-center gap-2">
                     <Settings2 size={16} className="text-gray-500" />
                     <span>Advanced Filters</span>
-                    {(filters.height.min !== null || filters.height.max !== null ||
-                      filters.canopyDiameter.min !== null || filters.canopyDiameter.max !== null ||
-                      filters.girth.min !== null || filters.girth.max !== null ||
-                      filters.co2Sequestered.min !== null || filters.co2Sequestered.max !== null) && (
+                    {(isRangeActive(filters.height) || isRangeActive(filters.canopyDiameter) ||
+                      isRangeActive(filters.girth) || isRangeActive(filters.co2Sequestered)) && (
                       <span className="px-1.5 py-0.5 text-xs bg-primary-100 text-primary-700 rounded">
                         Active
                       </span>
@@ -259,6 +260,7 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
                       step={0.5}
                       value={filters.height}
                       onChange={(range) => updateFilter('height', range)}
+                      allowUnknown
                     />
 
                     <RangeSlider
@@ -269,6 +271,7 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
                       step={0.5}
                       value={filters.canopyDiameter}
                       onChange={(range) => updateFilter('canopyDiameter', range)}
+                      allowUnknown
                     />
 
                     <RangeSlider
@@ -279,6 +282,7 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
                       step={10}
                       value={filters.girth}
                       onChange={(range) => updateFilter('girth', range)}
+                      allowUnknown
                     />
 
                     <RangeSlider
@@ -289,12 +293,18 @@ const MobileFilterSheet: React.FC<MobileFilterSheetProps> = ({ isOpen, onClose }
                       step={100}
                       value={filters.co2Sequestered}
                       onChange={(range) => updateFilter('co2Sequestered', range)}
+                      allowUnknown
                       formatValue={(v) => v >= 1000 ? `${(v / 1000).toFixed(1)}k` : v.toString()}
                     />
                   </div>
                 )}
               </div>
 
+              {/* OR groups - alternatives across fields */}
+              <div className="border-t border-gray-200 pt-3">
+                <OrGroupsEditor compact />
+              </div>
+
               {/* Active Filters */}
               {hasActiveFilters && (
                 <div className="pt-4 border-t border-gray-200">
@@ -0,0 +1,99 @@
+// src/components/filters/OrGroupsEditor.tsx
+// Builds OR groups ("non-street OR over 15 m") from the filters currently set above
+
+import React from 'react';
+import { GitBranch, Plus, X } from 'lucide-react';
+import { useFilters } from '../../store/FilterStore';
+import {
+  DEFAULT_FILTERS,
+  FilterClause,
+  countActiveFilters,
+  describeFilterClause,
+  toFilterClause,
+} from '../../types/filters';
+
+interface OrGroupsEditorProps {
+  compact?: boolean;
+}
+
+const OrGroupsEditor: React.FC<OrGroupsEditorProps> = ({ compact = false }) => {
+  const { filters, setFilters } = useFilters();
+  const { orGroups } = filters;
+
+  // Only the top-level filters can be moved into a group
+  const hasCurrentCriteria = countActiveFilters({ ...filters, orGroups: [] }) > 0;
+
+  // Move the current filters into a group as a new alternative and clear them,
+  // so the next alternative can be set up from scratch
+  const addCurrentAsAlternative = (groupIndex: number | null) => {
+    const clause = toFilterClause(filters);
+    const groups: FilterClause[][] =
+      groupIndex === null
+        ? [...orGroups, [clause]]
+        : orGroups.map((group, index) => (index === groupIndex ? [...group, clause] : group));
+    setFilters({ ...DEFAULT_FILTERS, orGroups: groups });
+  };
+
+  const removeClause = (groupIndex: number, clauseIndex: number) => {
+    const groups = orGroups
+      .map((group, index) => (index === groupIndex ? group.filter((_, i) => i !== clauseIndex) : group))
+      .filter((group) => group.length > 0);
+    setFilters({ ...filters, orGroups: groups });
+  };
+
+  const textSize = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <GitBranch size={14} className="text-gray-500" />
+        <span className="text-sm font-medium text-gray-700">Either / Or</span>
+      </div>
+      <p className="text-xs text-gray-500">
+        Set filters above, then add them as an alternative. Trees must match at least one alternative in each group.
+      </p>
+
+      {orGroups.map((group, groupIndex) => (
+        <div key={groupIndex} className="rounded-md border border-gray-200 bg-gray-50 p-2 space-y-1">
+          {group.map((clause, clauseIndex) => (
+            <div key={clauseIndex} className={`flex items-start gap-2 ${textSize}`}>
+              <span className="w-6 flex-shrink-0 text-xs font-medium text-gray-400 pt-0.5">
+                {clauseIndex === 0 ? '' : 'or'}
+              </span>
+              <span className="flex-1 text-gray-700">{describeFilterClause(clause)}</span>
+              <button
+                type="button"
+                onClick={() => removeClause(groupIndex, clauseIndex)}
+                className="p-0.5 text-gray-400 hover:text-red-600 rounded"
+                aria-label="Remove alternative"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => addCurrentAsAlternative(groupIndex)}
+            disabled={!hasCurrentCriteria}
+            className="ml-8 inline-flex items-center gap-1 text-xs text-primary-600 hover:text-primary-800 disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            <Plus size={12} />
+            Add current filters as alternative
+          </button>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => addCurrentAsAlternative(null)}
+        disabled={!hasCurrentCriteria}
+        className={`w-full inline-flex items-center justify-center gap-1 px-3 py-1.5 ${textSize} border border-dashed border-gray-300 rounded-md text-gray-600 hover:border-primary-400 hover:text-primary-700 disabled:opacity-40 disabled:cursor-not-allowed`}
+      >
+        <Plus size={14} />
+        New OR group from current filters
+      </button>
+    </div>
+  );
+};
+
+export default OrGroupsEditor;
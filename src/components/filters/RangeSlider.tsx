@@ -2,7 +2,7 @@
 // A dual-handle range slider for numeric filtering with smooth dragging
 
 import React, { useCallback, useState, useEffect } from 'react';
-import { RangeFilter } from '../../types/filters';
+import { RangeFilter, UnknownValueMode } from '../../types/filters';
 
 interface RangeSliderProps {
   label: string;
@@ -13,6 +13,8 @@ interface RangeSliderProps {
   value: RangeFilter;
   onChange: (range: RangeFilter) => void;
   formatValue?: (value: number) => string;
+  // Show the "missing values" selector (trees with no recorded value)
+  allowUnknown?: boolean;
 }
 
 const RangeSlider: React.FC<RangeSliderProps> = ({
@@ -24,6 +26,7 @@ const RangeSlider: React.FC<RangeSliderProps> = ({
   value,
   onChange,
   formatValue = (v) => v.toLocaleString(),
+  allowUnknown = false,
 }) => {
   // Local state for smooth dragging (doesn't trigger API until release)
   const [localMin, setLocalMin] = useState<number>(value.min ?? min);
@@ -73,9 +76,19 @@ const RangeSlider: React.FC<RangeSliderProps> = ({
     const newMax = localMax >= max ? null : localMax;
     
     if (newMin !== value.min || newMax !== value.max) {
-      onChange({ min: newMin, max: newMax });
+      // Moving a handle leaves "only unknown" mode, since its bounds would be ignored
+      const unknown = value.unknown === 'only' ? undefined : value.unknown;
+      onChange({ min: newMin, max: newMax, ...(unknown ? { unknown } : {}) });
     }
-  }, [localMin, localMax, min, max, value.min, value.max, onChange]);
+  }, [localMin, localMax, min, max, value.min, value.max, value.unknown, onChange]);
+
+  const handleUnknownChange = useCallback(
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const mode = e.target.value as UnknownValueMode;
+      onChange({ min: value.min, max: value.max, ...(mode !== 'exclude' ? { unknown: mode } : {}) });
+    },
+    [value.min, value.max, onChange]
+  );
 
   const handleReset = useCallback(() => {
     setLocalMin(min);
@@ -83,7 +96,8 @@ const RangeSlider: React.FC<RangeSliderProps> = ({
     onChange({ min: null, max: null });
   }, [min, max, onChange]);
 
-  const isModified = value.min !== null || value.max !== null;
+  const isModified = value.min !== null || value.max !== null || value.unknown !== undefined;
+  const isOnlyUnknown = value.unknown === 'only';
 
   return (
     <div className="space-y-2">
@@ -110,7 +124,7 @@ const RangeSlider: React.FC<RangeSliderProps> = ({
       </div>
 
       {/* Slider container */}
-      <div className="relative h-6">
+      <div className={`relative h-6 ${isOnlyUnknown ? 'opacity-40' : ''}`}>
         {/* Track background */}
         <div className="absolute top-1/2 -translate-y-1/2 w-full h-1.5 bg-gray-200 rounded-full" />
 
@@ -159,6 +173,21 @@ const RangeSlider: React.FC<RangeSliderProps> = ({
         <span>{formatValue(min)}</span>
         <span>{formatValue(max)}</span>
       </div>
+
+      {allowUnknown && (
+        <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+          <span>Missing {label.toLowerCase()}</span>
+          <select
+            value={value.unknown ?? 'exclude'}
+            onChange={handleUnknownChange}
+            className="px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            <option value="exclude">Excluded when filtering</option>
+            <option value="include">Included</option>
+            <option value="only">Only trees missing it</option>
+          </select>
+        </div>
+      )}
     </div>
   );
 };
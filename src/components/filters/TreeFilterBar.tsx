@@ -5,13 +5,16 @@ import React, { useState } from 'react';
 import { ChevronDown, ChevronUp, Filter, RotateCcw, Trees, MapPin, Layers, Settings2 } from 'lucide-react';
 import { useFilters } from '../../store/FilterStore';
 import RangeSlider from './RangeSlider';
-import MultiSelect from './MultiSelect';
+import IncludeExcludeSelect from './IncludeExcludeSelect';
 import ToggleGroup from './ToggleGroup';
 import ActiveFilterChips from './ActiveFilterChips';
 import MobileFilterSheet from './MobileFilterSheet';
 import FilterLoadingState from './FilterLoadingState';
 import QuickFilterChips from './QuickFilterChips';
-import { LocationFilterType } from '../../types/filters';
+import FilterPresets from './FilterPresets';
+import OrGroupsEditor from './OrGroupsEditor';
+import ExportTreesMenu from './ExportTreesMenu';
+import { LocationFilterType, isRangeActive } from '../../types/filters';
 
 interface TreeFilterBarProps {
   className?: string;
@@ -73,7 +76,10 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
           )}
         </div>
 
-        <ChevronDown size={18} className="text-gray-400" />
+        <div className="flex items-center gap-2">
+          <ExportTreesMenu />
+          <ChevronDown size={18} className="text-gray-400" />
+        </div>
       </div>
 
       {/* Active filter chips - visible when has filters */}
@@ -117,6 +123,7 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
         </div>
 
         <div className="flex items-center gap-2">
+          <ExportTreesMenu />
           {hasActiveFilters && (
             <button
               onClick={(e) => {
@@ -166,6 +173,9 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
               {/* Quick Filter Chips - Purpose & Size presets */}
               <QuickFilterChips />
 
+              {/* Saved Presets - named filter combinations */}
+              <FilterPresets />
+
               {/* Flowering Status */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-gray-700">Flowering Status</label>
@@ -199,22 +209,20 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
               <div className="space-y-4 pt-2 border-t border-gray-100">
                 {/* Species Multi-select */}
                 <div className="relative">
-                  <MultiSelect
+                  <IncludeExcludeSelect
+                    field="species"
                     label="Species"
                     options={metadata.species}
-                    selected={filters.species}
-                    onChange={(selected) => updateFilter('species', selected)}
                     placeholder="Search all 397+ species..."
                   />
                 </div>
 
                 {/* Ward Multi-select */}
                 <div className="relative">
-                  <MultiSelect
+                  <IncludeExcludeSelect
+                    field="wards"
                     label="Ward"
                     options={metadata.wards}
-                    selected={filters.wards}
-                    onChange={(selected) => updateFilter('wards', selected)}
                     placeholder="Select wards..."
                     sortType="natural"
                     itemPrefix="Ward"
@@ -249,10 +257,8 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                   <div className="flex items-center gap-2">
                     <Settings2 size={16} className="text-gray-500" />
                     <span>Advanced Filters</span>
-                    {(filters.height.min !== null || filters.height.max !== null ||
-                      filters.canopyDiameter.min !== null || filters.canopyDiameter.max !== null ||
-                      filters.girth.min !== null || filters.girth.max !== null ||
-                      filters.co2Sequestered.min !== null || filters.co2Sequestered.max !== null) && (
+                    {(isRangeActive(filters.height) || isRangeActive(filters.canopyDiameter) ||
+                      isRangeActive(filters.girth) || isRangeActive(filters.co2Sequestered)) && (
                       <span className="px-1.5 py-0.5 text-xs bg-primary-100 text-primary-700 rounded">
                         Active
                       </span>
@@ -280,6 +286,7 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                         step={0.5}
                         value={filters.height}
                         onChange={(range) => updateFilter('height', range)}
+                        allowUnknown
                       />
 
                       {/* Canopy Diameter Range */}
@@ -291,6 +298,7 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                         step={0.5}
                         value={filters.canopyDiameter}
                         onChange={(range) => updateFilter('canopyDiameter', range)}
+                        allowUnknown
                       />
 
                       {/* Girth Range */}
@@ -302,6 +310,7 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                         step={10}
                         value={filters.girth}
                         onChange={(range) => updateFilter('girth', range)}
+                        allowUnknown
                       />
 
                       {/* CO2 Sequestered Range */}
@@ -313,6 +322,7 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                         step={100}
                         value={filters.co2Sequestered}
                         onChange={(range) => updateFilter('co2Sequestered', range)}
+                        allowUnknown
                         formatValue={(v) => v >= 1000 ? `${(v / 1000).toFixed(1)}k` : v.toString()}
                       />
                     </div>
@@ -320,6 +330,11 @@ const TreeFilterBar: React.FC<TreeFilterBarProps> = ({ className = '' }) => {
                 )}
               </div>
 
+              {/* OR groups - alternatives across fields */}
+              <div className="border-t border-gray-100 pt-3">
+                <OrGroupsEditor />
+              </div>
+
               {/* Active filters display */}
               {hasActiveFilters && (
                 <div className="pt-4 border-t border-gray-100">
@@ -8,3 +8,7 @@ export { default as ToggleGroup } from './ToggleGroup';
 export { default as ActiveFilterChips } from './ActiveFilterChips';
 export { default as MobileFilterSheet } from './MobileFilterSheet';
 export { default as QuickFilterChips } from './QuickFilterChips';
+export { default as ExportTreesMenu } from './ExportTreesMenu';
+export { default as FilterPresets } from './FilterPresets';
+export { default as IncludeExcludeSelect } from './IncludeExcludeSelect';
+export { default as OrGroupsEditor } from './OrGroupsEditor';
@@ -16,7 +16,7 @@
 import { useEffect, useState, useMemo, useCallback } from 'react';
 import { Source, Layer, Popup } from 'react-map-gl/maplibre';
 import type { MapRef } from 'react-map-gl/maplibre';
-import { useGreenCoverStore } from '../../store/GreenCoverStore';
+import { useGreenCoverStore, getSeverityLevel } from '../../store/GreenCoverStore';
 import { useLayerLoadingStore } from '../../store/LayerLoadingStore';
 
 // API base URL - empty string in production uses relative URLs
@@ -94,14 +94,6 @@ function getSeverityColor(netChangePct: number, scheme: string): string {
   return '#fca5a5'; // Pale red - Minor
 }
 
-// Get severity level
-function getSeverityLevel(netChangePct: number): 'severe' | 'moderate' | 'minor' {
-  const severity = Math.abs(netChangePct);
-  if (severity >= 0.25) return 'severe';
-  if (severity >= 0.15) return 'moderate';
-  return 'minor';
-}
-
 interface DeforestationHotspotsLayerProps {
   mapRef: React.RefObject<MapRef>;
   visible: boolean;
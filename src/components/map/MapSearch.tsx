@@ -1,7 +1,8 @@
 // src/components/map/MapSearch.tsx
-import React, { useState } from 'react';
-import { useMap } from 'react-leaflet';
-import { Search } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useMap } from 'react-map-gl/maplibre';
+import { Search, MapPin, TreeDeciduous, Loader2 } from 'lucide-react';
+import { useTreeStore, TreeSearchResult } from '../../store/TreeStore';
 
 interface Location {
   id: string;
@@ -18,67 +19,149 @@ const mockLocations: Location[] = [
   { id: '5', name: 'Hadapsar, Pune', latitude: 18.5089, longitude: 73.9260 }
 ];
 
-const MapSearch: React.FC = () => {
+// Zoom level used when flying to a single tree (close enough to see neighbouring trees)
+const TREE_FLY_TO_ZOOM = 18;
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface MapSearchProps {
+  onTreeSelect: (treeId: string) => void;
+}
+
+const MapSearch: React.FC<MapSearchProps> = ({ onTreeSelect }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [showResults, setShowResults] = useState(false);
-  const [results, setResults] = useState<Location[]>([]);
-  const map = useMap(); // This hook means MapSearch MUST be a child of MapContainer
+  const [locationResults, setLocationResults] = useState<Location[]>([]);
+  const [treeResults, setTreeResults] = useState<TreeSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { current: map } = useMap(); // This hook means MapSearch MUST be a child of <Map>
+  const { searchTrees } = useTreeStore();
+  const latestQueryRef = useRef('');
+  // Text put in the box by picking a result; it should not start a new search
+  const selectedTermRef = useRef<string | null>(null);
+
+  // Debounced tree search against the API
+  useEffect(() => {
+    const query = searchTerm.trim();
+    latestQueryRef.current = query;
+
+    if (searchTerm === selectedTermRef.current) {
+      setIsSearching(false);
+      return;
+    }
+
+    if (query.length < 2) {
+      setTreeResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      const results = await searchTrees(query);
+      // Ignore responses for queries the user has already typed past
+      if (latestQueryRef.current === query) {
+        setTreeResults(results);
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm, searchTrees]);
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
+    selectedTermRef.current = null;
     setSearchTerm(value);
-    
+
     if (value.length > 2) {
-      const filtered = mockLocations.filter(location => 
+      const filtered = mockLocations.filter(location =>
         location.name.toLowerCase().includes(value.toLowerCase())
       );
-      setResults(filtered);
-      setShowResults(true);
+      setLocationResults(filtered);
     } else {
-      setShowResults(false);
+      setLocationResults([]);
     }
+    setShowResults(value.trim().length >= 2);
   };
 
   const handleLocationSelect = (location: Location) => {
-    map.setView([location.latitude, location.longitude], 15);
+    map?.flyTo({ center: [location.longitude, location.latitude], zoom: 15, essential: true });
+    selectedTermRef.current = location.name;
     setSearchTerm(location.name);
     setShowResults(false);
   };
 
+  const handleTreeResultSelect = (tree: TreeSearchResult) => {
+    map?.flyTo({ center: [tree.lon, tree.lat], zoom: TREE_FLY_TO_ZOOM, essential: true });
+    onTreeSelect(tree.id);
+    const label = tree.common_name ? `${tree.common_name} (#${tree.id})` : `Tree #${tree.id}`;
+    selectedTermRef.current = label;
+    setSearchTerm(label);
+    setShowResults(false);
+  };
+
+  const hasResults = treeResults.length > 0 || locationResults.length > 0;
+
   return (
-    // MODIFIED LINE: Added absolute positioning, z-index, top, left, transform for centering, and width
-    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-[1001] w-96"> 
-      <div className="relative"> {/* This inner relative div is good for the icon positioning */}
-        <Search className="search-icon" size={18} /> {/* Adjusted icon size slightly */}
+    <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10 w-[calc(100%-8rem)] max-w-sm md:w-96">
+      <div className="relative">
+        <Search className="search-icon" size={18} />
         <input
           type="text"
-          placeholder="Search locations or coordinates..." // Updated placeholder
+          placeholder="Search tree ID, species, ward or place..."
           value={searchTerm}
           onChange={handleSearch}
-          className="search-input" // Existing class handles bg, shadow, padding etc.
-          onFocus={() => searchTerm.length > 2 && setShowResults(true)}
-          onBlur={() => setTimeout(() => setShowResults(false), 200)} // Keep the blur handler
+          className="search-input"
+          aria-label="Search trees and places"
+          onFocus={() => searchTerm !== selectedTermRef.current && searchTerm.trim().length >= 2 && setShowResults(true)}
+          onBlur={() => setTimeout(() => setShowResults(false), 200)}
         />
+        {isSearching && (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 animate-spin" size={16} />
+        )}
       </div>
-      
-      {showResults && results.length > 0 && (
-        // This dropdown should position correctly relative to the input now
+
+      {showResults && (hasResults || !isSearching) && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white rounded-md shadow-lg z-20 animate-fade-in">
-          <ul className="py-1 max-h-60 overflow-y-auto"> {/* Added max-h and overflow for long lists */}
-            {results.map(location => (
-              <li 
-                key={location.id}
-                className="px-4 py-2 hover:bg-gray-100 cursor-pointer text-sm"
-                onMouseDown={() => handleLocationSelect(location)} // use onMouseDown to fire before onBlur
-              >
-                {location.name}
-              </li>
-            ))}
-          </ul>
+          {!hasResults ? (
+            <div className="px-4 py-3 text-sm text-gray-500">No trees or places found</div>
+          ) : (
+            <ul className="py-1 max-h-72 overflow-y-auto">
+              {treeResults.map(tree => (
+                <li
+                  key={`tree-${tree.id}`}
+                  className="px-4 py-2 hover:bg-gray-100 cursor-pointer text-sm flex items-start gap-2"
+                  onMouseDown={() => handleTreeResultSelect(tree)} // use onMouseDown to fire before onBlur
+                >
+                  <TreeDeciduous size={16} className="text-primary-600 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 truncate">
+                      {tree.common_name || 'Unknown species'}
+                      <span className="ml-2 text-xs text-gray-400">#{tree.id}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {tree.botanical_name && <span className="italic">{tree.botanical_name}</span>}
+                      {tree.ward && <span>{tree.botanical_name ? ' · ' : ''}Ward {tree.ward}</span>}
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {locationResults.map(location => (
+                <li
+                  key={`place-${location.id}`}
+                  className="px-4 py-2 hover:bg-gray-100 cursor-pointer text-sm flex items-center gap-2"
+                  onMouseDown={() => handleLocationSelect(location)}
+                >
+                  <MapPin size={16} className="text-gray-400 flex-shrink-0" />
+                  {location.name}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
     </div>
   );
 };
 
-export default MapSearch;
\ No newline at end of file
+export default MapSearch;
@@ -8,16 +8,20 @@ import Map, {
   NavigationControl,
   MapLayerMouseEvent,
   MapLayerTouchEvent,
+  ViewStateChangeEvent,
 } from 'react-map-gl/maplibre';
 import type { LayerProps } from 'react-map-gl/maplibre';
 import type { ExpressionSpecification } from 'maplibre-gl';
 import maplibregl from 'maplibre-gl';
 import { Protocol } from 'pmtiles';
+import * as turf from '@turf/turf';
 import { ChevronLeft, ChevronRight, LayoutDashboard } from 'lucide-react';
 import { useTreeStore } from '../../store/TreeStore';
 import { useFilterStore } from '../../store/FilterStore';
-import { TreeFilters, hasActiveFilters } from '../../types/filters';
+import { FilterClause, RangeFilter, TreeFilters, hasActiveFilters, isOrGroupActive } from '../../types/filters';
 import SimulatedTreesLayer from './SimulatedTreesLayer';
+import SavedAreasLayer from './SavedAreasLayer';
+import TreeObservationsLayer, { OBSERVATION_LAYER_ID } from './TreeObservationsLayer';
 import WardBoundaryLayer from './WardBoundaryLayer';
 import DeforestationHotspotsLayer, { HotspotConfig } from './DeforestationHotspotsLayer';
 import LandCoverOverlay from './LandCoverOverlay';
@@ -27,10 +31,15 @@ import { useRasterPixelValue } from '../../hooks/useRasterPixelValue';
 import DrawControl, { DrawEvent, DrawActionEvent } from './DrawControl';
 import MapboxDraw from 'maplibre-gl-draw';
 import ViewModeToggle from './ViewModeToggle';
+import MapSearch from './MapSearch';
 import ThreeDTreesLayer from './ThreeDTreesLayer';
 import { RealisticShadowsLayer } from './RealisticShadowsLayer';
 import { LightConfig } from '../sidebar/tabs/LightAndShadowControl';
 import { ShadowQuality } from '../sidebar/tabs/MapLayers';
+import type { MapCamera } from '../../utils/urlState';
+import { captureMapSnapshot, MapSnapshotFn } from '../../utils/mapSnapshot';
+import { queryBuildingFootprints, BuildingFootprintFn } from '../../utils/plantingLayout';
+import { LST_IMAGE_COORDINATES, LST_IMAGE_URL } from '../../utils/lstRaster';
 
 // Initialize PMTiles protocol (only once)
 let pmtilesProtocolAdded = false;
@@ -39,78 +48,103 @@ let pmtilesProtocolAdded = false;
 const PMTILES_URL = import.meta.env.VITE_PMTILES_URL || 
   'https://pub-6a88122430ec4e08bc70cf4abd6d1f58.r2.dev/pune-trees-complete.pmtiles';
 
+// Default camera: central Pune
+const DEFAULT_CAMERA: MapCamera = { longitude: 73.8567, latitude: 18.5204, zoom: 11.5, pitch: 0, bearing: 0 };
+
+// Tileset property for each numeric range filter
+const RANGE_PROPERTIES: [keyof Pick<FilterClause, 'height' | 'canopyDiameter' | 'girth' | 'co2Sequestered'>, string][] = [
+  ['height', 'Height_m'],
+  ['canopyDiameter', 'Canopy_Diameter_m'],
+  ['girth', 'Girth_cm'],
+  ['co2Sequestered', 'CO2_Sequestration_kg_yr'],
+];
+
+// Convert ward numbers to the format in the tileset (e.g., "1" -> "1.0")
+function toTilesetWards(wards: string[]): string[] {
+  return wards.map(w => {
+    const num = parseFloat(w);
+    return isNaN(num) ? w : `${num}.0`;
+  });
+}
+
 /**
- * Build MapLibre filter expression from TreeFilters
- * Returns null if no filters are active (show all trees)
+ * Range condition with explicit handling of trees that have no value for the property
  */
-function buildFilterExpression(filters: TreeFilters): ExpressionSpecification | null {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const conditions: any[] = ['all'];
+function buildRangeCondition(property: string, range: RangeFilter): ExpressionSpecification | null {
+  const isUnknown: ExpressionSpecification = ['!=', ['typeof', ['get', property]], 'number'];
+  if (range.unknown === 'only') return isUnknown;
+  if (range.min === null && range.max === null) return null;
+  
+  // Type guard first so comparisons never see a missing value
+  const bounds: ExpressionSpecification[] = [['==', ['typeof', ['get', property]], 'number']];
+  if (range.min !== null) bounds.push(['>=', ['get', property], range.min]);
+  if (range.max !== null) bounds.push(['<=', ['get', property], range.max]);
+  const inRange: ExpressionSpecification = ['all', ...bounds];
+  
+  return range.unknown === 'include' ? ['any', isUnknown, inRange] : inRange;
+}
+
+/**
+ * Conditions for one set of criteria - the top-level filters or a single OR clause
+ */
+function buildCriteriaConditions(criteria: FilterClause): ExpressionSpecification[] {
+  const conditions: ExpressionSpecification[] = [];
   
   // Location type filter (street trees vs non-street trees)
   // Uses is_street_tree boolean attribute in tileset
-  if (filters.locationType === 'street') {
+  if (criteria.locationType === 'street') {
     conditions.push(['==', ['get', 'is_street_tree'], true]);
-  } else if (filters.locationType === 'non-street') {
+  } else if (criteria.locationType === 'non-street') {
     conditions.push(['==', ['get', 'is_street_tree'], false]);
   }
   // 'all' means no location filter applied
   
   // Ward filter - using 'in' operator for multiple wards
   // Note: GeoJSON has ward as "1.0", "2.0" etc.
-  if (filters.wards && filters.wards.length > 0) {
-    // Convert ward numbers to the format in the tileset (e.g., "1" -> "1.0")
-    const wardValues = filters.wards.map(w => {
-      const num = parseFloat(w);
-      return isNaN(num) ? w : `${num}.0`;
-    });
-    conditions.push(['in', ['get', 'ward'], ['literal', wardValues]]);
+  if (criteria.wards && criteria.wards.length > 0) {
+    conditions.push(['in', ['get', 'ward'], ['literal', toTilesetWards(criteria.wards)]]);
   }
-  
-  // Species filter (Common_Name in tileset)
-  if (filters.species && filters.species.length > 0) {
-    conditions.push(['in', ['get', 'Common_Name'], ['literal', filters.species]]);
+  if (criteria.excludeWards && criteria.excludeWards.length > 0) {
+    conditions.push(['!', ['in', ['get', 'ward'], ['literal', toTilesetWards(criteria.excludeWards)]]]);
   }
   
-  // Height range filter (Height_m in tileset)
-  if (filters.height.min !== null) {
-    conditions.push(['>=', ['get', 'Height_m'], filters.height.min]);
+  // Species filter (Common_Name in tileset)
+  if (criteria.species && criteria.species.length > 0) {
+    conditions.push(['in', ['get', 'Common_Name'], ['literal', criteria.species]]);
   }
-  if (filters.height.max !== null) {
-    conditions.push(['<=', ['get', 'Height_m'], filters.height.max]);
+  if (criteria.excludeSpecies && criteria.excludeSpecies.length > 0) {
+    conditions.push(['!', ['in', ['get', 'Common_Name'], ['literal', criteria.excludeSpecies]]]);
   }
   
-  // Canopy diameter filter (Canopy_Diameter_m in tileset)
-  if (filters.canopyDiameter.min !== null) {
-    conditions.push(['>=', ['get', 'Canopy_Diameter_m'], filters.canopyDiameter.min]);
-  }
-  if (filters.canopyDiameter.max !== null) {
-    conditions.push(['<=', ['get', 'Canopy_Diameter_m'], filters.canopyDiameter.max]);
-  }
+  // Numeric range filters (open-ended when min or max is null)
+  RANGE_PROPERTIES.forEach(([key, property]) => {
+    const range = criteria[key];
+    const condition = range ? buildRangeCondition(property, range) : null;
+    if (condition) conditions.push(condition);
+  });
   
-  // Girth filter (Girth_cm in tileset)
-  if (filters.girth.min !== null) {
-    conditions.push(['>=', ['get', 'Girth_cm'], filters.girth.min]);
-  }
-  if (filters.girth.max !== null) {
-    conditions.push(['<=', ['get', 'Girth_cm'], filters.girth.max]);
+  // Economic importance filter (economic_i in tileset)
+  if (criteria.economicImportance) {
+    conditions.push(['==', ['get', 'economic_i'], criteria.economicImportance]);
   }
   
-  // CO2 Sequestered filter (CO2_Sequestration_kg_yr in tileset)
-  if (filters.co2Sequestered.min !== null) {
-    conditions.push(['>=', ['get', 'CO2_Sequestration_kg_yr'], filters.co2Sequestered.min]);
-  }
-  if (filters.co2Sequestered.max !== null) {
-    conditions.push(['<=', ['get', 'CO2_Sequestration_kg_yr'], filters.co2Sequestered.max]);
-  }
+  return conditions;
+}
+
+/**
+ * Build MapLibre filter expression from TreeFilters
+ * Returns null if no filters are active (show all trees)
+ */
+function buildFilterExpression(filters: TreeFilters): ExpressionSpecification | null {
+  const conditions = buildCriteriaConditions(filters);
   
-  // Economic importance filter (economic_i in tileset)
-  if (filters.economicImportance) {
-    conditions.push(['==', ['get', 'economic_i'], filters.economicImportance]);
-  }
+  // OR groups - each must be satisfied by at least one of its clauses
+  filters.orGroups.filter(isOrGroupActive).forEach((group) => {
+    conditions.push(['any', ...group.map((clause): ExpressionSpecification => ['all', ...buildCriteriaConditions(clause)])]);
+  });
   
-  // Return null if no filters (just the 'all' operator), otherwise return the expression
-  return conditions.length > 1 ? conditions as ExpressionSpecification : null;
+  // Return null if no filters, otherwise all conditions must hold
+  return conditions.length > 0 ? ['all', ...conditions] : null;
 }
 
 // Main tree layer - shows matching trees with full opacity
@@ -167,6 +201,7 @@ const buildings3DLayerStyle: LayerProps = {
 
 interface MapViewProps {
   onTreeSelect: (treeId: string) => void;
+  onWardSelect?: (wardNumber: number) => void;
   sidebarOpen: boolean;
   toggleSidebar: () => void;
   baseMap: string;
@@ -199,10 +234,18 @@ interface MapViewProps {
   };
   // Raster Overlay props (continuous heatmap)
   rasterConfig?: RasterOverlayConfig;
+  // Camera restored from a shared link, and reported back after every move
+  initialCamera?: MapCamera;
+  onCameraChange?: (camera: MapCamera) => void;
+  // Filled with a capture function so reports can snapshot the map
+  snapshotRef?: React.MutableRefObject<MapSnapshotFn | null>;
+  // Filled with a building lookup so the Planting Advisor can avoid footprints
+  buildingFootprintsRef?: React.MutableRefObject<BuildingFootprintFn | null>;
 }
 
 const MapView: React.FC<MapViewProps> = ({
   onTreeSelect,
+  onWardSelect,
   sidebarOpen,
   toggleSidebar,
   baseMap,
@@ -223,13 +266,17 @@ const MapView: React.FC<MapViewProps> = ({
   hotspotConfig,
   landCoverConfig,
   rasterConfig,
+  initialCamera = DEFAULT_CAMERA,
+  onCameraChange,
+  snapshotRef,
+  buildingFootprintsRef,
 }) => {
   const mapRef = useRef<MapRef | null>(null);
-  const { setSelectedArea } = useTreeStore();
+  const { selectedArea, setSelectedArea, coolingOverlay } = useTreeStore();
   const filters = useFilterStore((state) => state.filters);
   const drawControlRef = useRef<{ draw: MapboxDraw } | null>(null);
   const shadowLayerRef = useRef<RealisticShadowsLayer | null>(null);
-  const [zoom, setZoom] = useState(11.5);
+  const [zoom, setZoom] = useState(initialCamera.zoom);
   const [viewBounds, setViewBounds] = useState(null);
   const isDraggingRef = useRef(false);
   const [isLoading3DTrees, setIsLoading3DTrees] = useState(false);
@@ -264,6 +311,30 @@ const MapView: React.FC<MapViewProps> = ({
     };
   }, []);
 
+  // Expose a snapshot function for the area report
+  useEffect(() => {
+    if (!snapshotRef) return;
+    snapshotRef.current = async (bounds) => {
+      const map = mapRef.current?.getMap();
+      return map ? captureMapSnapshot(map, bounds) : null;
+    };
+    return () => {
+      snapshotRef.current = null;
+    };
+  }, [snapshotRef]);
+
+  // Expose building footprints from the vector tiles for planting site exclusion
+  useEffect(() => {
+    if (!buildingFootprintsRef) return;
+    buildingFootprintsRef.current = (bbox) => {
+      const map = mapRef.current?.getMap();
+      return map ? queryBuildingFootprints(map, bbox) : null;
+    };
+    return () => {
+      buildingFootprintsRef.current = null;
+    };
+  }, [buildingFootprintsRef]);
+
   // Build filter expression from current filters
   const filterExpression = useMemo(() => {
     return buildFilterExpression(filters);
@@ -550,7 +621,9 @@ const MapView: React.FC<MapViewProps> = ({
       } as any);
     };
 
-    // Update bounds when map finishes moving
+    // Capture the current view immediately (e.g. 3D restored from a shared link),
+    // then update bounds when map finishes moving
+    updateBounds();
     map.on('moveend', updateBounds);
     
     return () => {
@@ -606,11 +679,23 @@ const MapView: React.FC<MapViewProps> = ({
 
   const onDrawDelete = useCallback(() => { setSelectedArea(null); }, [setSelectedArea]);
 
-  const lstImageBounds: [[number, number], [number, number], [number, number], [number, number]] = [
-    [73.7606651, 18.62786903], [73.96308303, 18.62786903],
-    [73.96308303, 18.41668612], [73.7606651, 18.41668612],
-  ];
-  const lstImageUrl = './lst_pune.png';
+  // Mirror areas selected outside the draw tool (file upload, saved areas) into
+  // the draw control so they show on the map and can be edited or deleted.
+  useEffect(() => {
+    const draw = drawControlRef.current?.draw;
+    if (!draw) return;
+    const feature = selectedArea?.geojsonData;
+    if (!feature) {
+      draw.deleteAll();
+      return;
+    }
+    if (feature.id != null && draw.get(String(feature.id))) return; // Drawn on the map
+    draw.deleteAll();
+    draw.add(feature);
+    const [minX, minY, maxX, maxY] = turf.bbox(feature);
+    mapRef.current?.fitBounds([[minX, minY], [maxX, maxY]], { padding: 60, duration: 800 });
+  }, [selectedArea]);
+
 
   // PMTiles source URL (uses pmtiles:// protocol)
   // Falls back to MapTiler for compatibility if PMTiles fails
@@ -632,8 +717,11 @@ const MapView: React.FC<MapViewProps> = ({
       }
     } else {
       const treeFeature = features.find(f => f.layer.id === treeLayerStyle.id);
+      const observationFeature = features.find(f => f.layer.id === OBSERVATION_LAYER_ID);
       if (treeFeature) {
         onTreeSelect(treeFeature.properties.Tree_ID);
+      } else if (observationFeature) {
+        onTreeSelect(observationFeature.properties.tree_id);
       }
     }
   }, [onTreeSelect, is3D]);
@@ -645,7 +733,8 @@ const MapView: React.FC<MapViewProps> = ({
     // Handle tree hover (2D mode only)
     if (!is3D) {
       const treeFeature = event.features?.find(f => f.layer.id === treeLayerStyle.id);
-      map.getCanvas().style.cursor = treeFeature ? 'pointer' : '';
+      const observationFeature = event.features?.find(f => f.layer.id === OBSERVATION_LAYER_ID);
+      map.getCanvas().style.cursor = treeFeature || observationFeature ? 'pointer' : '';
       map.setFilter('trees-point-highlight', ['==', 'Tree_ID', treeFeature ? treeFeature.properties.Tree_ID : '']);
     }
     
@@ -679,10 +768,18 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [handleMapClick]);
 
+  const handleMoveEnd = useCallback((event: ViewStateChangeEvent) => {
+    if (!onCameraChange) return;
+    const { longitude, latitude, zoom: currentZoom, pitch, bearing } = event.viewState;
+    onCameraChange({ longitude, latitude, zoom: currentZoom, pitch, bearing });
+  }, [onCameraChange]);
+
   const interactiveLayers = useMemo(() => {
     const layers = [treeLayerStyle.id];
     if (is3D) {
       layers.push('tree-trunks-3d', 'tree-canopies-3d');
+    } else {
+      layers.push(OBSERVATION_LAYER_ID);
     }
     return layers.filter(Boolean) as string[];
   }, [is3D]);
@@ -691,7 +788,7 @@ const MapView: React.FC<MapViewProps> = ({
     <div className="map-container">
       <Map
         ref={mapRef}
-        initialViewState={{ longitude: 73.8567, latitude: 18.5204, zoom: 11.5 }}
+        initialViewState={initialCamera}
         style={{ width: '100%', height: '100%' }}
         mapStyle={mapStyleUrl}
         interactiveLayerIds={interactiveLayers}
@@ -699,6 +796,7 @@ const MapView: React.FC<MapViewProps> = ({
         onMouseMove={handleMouseMove}
         onMouseLeave={handleMouseLeave}
         onZoom={(e) => setZoom(e.viewState.zoom)}
+        onMoveEnd={handleMoveEnd}
         onDragStart={handleDragStart}
         onDragEnd={handleDragEnd}
         onTouchEnd={handleTouchEnd}
@@ -715,10 +813,15 @@ const MapView: React.FC<MapViewProps> = ({
           </Source>
         )}
         {showLSTOverlay && (
-          <Source id="lst-image-source" type="image" url={lstImageUrl} coordinates={lstImageBounds}>
+          <Source id="lst-image-source" type="image" url={LST_IMAGE_URL} coordinates={LST_IMAGE_COORDINATES}>
             <Layer id="lst-image-layer" type="raster" source="lst-image-source" paint={{ 'raster-opacity': 0.65 }} />
           </Source>
         )}
+        {coolingOverlay && (
+          <Source id="cooling-surface-source" type="image" url={coolingOverlay.url} coordinates={coolingOverlay.coordinates}>
+            <Layer id="cooling-surface-layer" type="raster" source="cooling-surface-source" paint={{ 'raster-opacity': 0.8 }} />
+          </Source>
+        )}
         {is3D && <Layer {...buildings3DLayerStyle} />}
         
         {/* ALWAYS render MapLibre native 3D trees when in 3D mode - these are VISIBLE */}
@@ -744,6 +847,11 @@ const MapView: React.FC<MapViewProps> = ({
           onDelete={onDrawDelete}
         />
         <SimulatedTreesLayer />
+        <SavedAreasLayer />
+        {!is3D && <TreeObservationsLayer />}
+        
+        {/* Tree / place search box */}
+        <MapSearch onTreeSelect={onTreeSelect} />
         
         {/* Ward Boundary Layer for Green Cover Monitor */}
         <WardBoundaryLayer
@@ -752,6 +860,8 @@ const MapView: React.FC<MapViewProps> = ({
           selectedYear={greenCoverYear}
           colorBy={wardColorBy}
           opacity={0.5}
+          onWardClick={onWardSelect}
+          yieldToLayerIds={interactiveLayers}
         />
         
         {/* Deforestation Hotspots Layer */}
@@ -0,0 +1,63 @@
+// src/components/map/SavedAreasLayer.tsx
+// Outlines of the areas saved in the comparison workspace
+
+import React, { useMemo } from 'react';
+import { Source, Layer } from 'react-map-gl/maplibre';
+import type { FeatureCollection } from 'geojson';
+import { AreaGeometry, useAreaWorkspaceStore } from '../../store/AreaWorkspaceStore';
+
+const SavedAreasLayer: React.FC = () => {
+  const areas = useAreaWorkspaceStore((state) => state.areas);
+
+  const geojson: FeatureCollection<AreaGeometry> = useMemo(() => ({
+    type: 'FeatureCollection',
+    features: areas.map((area) => ({
+      type: 'Feature',
+      properties: { id: area.id, name: area.name, color: area.color },
+      geometry: area.geometry,
+    })),
+  }), [areas]);
+
+  if (areas.length === 0) {
+    return null;
+  }
+
+  return (
+    <Source id="saved-areas-source" type="geojson" data={geojson}>
+      <Layer
+        id="saved-areas-fill"
+        type="fill"
+        paint={{
+          'fill-color': ['get', 'color'],
+          'fill-opacity': 0.08,
+        }}
+      />
+      <Layer
+        id="saved-areas-outline"
+        type="line"
+        paint={{
+          'line-color': ['get', 'color'],
+          'line-width': 2,
+          'line-dasharray': [3, 2],
+        }}
+      />
+      <Layer
+        id="saved-areas-labels"
+        type="symbol"
+        layout={{
+          'text-field': ['get', 'name'],
+          'text-size': 12,
+          'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+          'text-anchor': 'center',
+        }}
+        paint={{
+          'text-color': ['get', 'color'],
+          'text-halo-color': '#ffffff',
+          'text-halo-width': 1.5,
+        }}
+      />
+    </Source>
+  );
+};
+
+export default SavedAreasLayer;
@@ -1,8 +1,10 @@
-import React, { useMemo } from 'react';
-import { Source, Layer } from 'react-map-gl/maplibre';
+import React, { useEffect, useMemo } from 'react';
+import { Source, Layer, useMap } from 'react-map-gl/maplibre';
 import type { LayerProps } from 'react-map-gl/maplibre';
+import type { MapStyleImageMissingEvent } from 'maplibre-gl';
 import { useTreeStore } from '../../store/TreeStore';
 import { FeatureCollection, Point } from 'geojson';
+import { MIX_MARKER_PATHS, MixMarkerStyle, parseMixMarkerIconId } from '../../utils/speciesMix';
 
 const simulatedTreesLayerStyle: LayerProps = {
   id: 'simulated-trees',
@@ -16,8 +18,60 @@ const simulatedTreesLayerStyle: LayerProps = {
   },
 };
 
+// Mixed plantings: one marker shape and colour per species
+const simulatedMixLayerStyle: LayerProps = {
+  id: 'simulated-trees-mix',
+  type: 'symbol',
+  layout: {
+    'icon-image': ['get', 'icon'],
+    'icon-size': ['interpolate', ['linear'], ['zoom'], 14, 0.5, 17, 0.8, 19, 1],
+    'icon-allow-overlap': true,
+    'icon-ignore-placement': true,
+  },
+};
+
+const MARKER_SIZE = 20;
+const MARKER_PIXEL_RATIO = 2;
+
+// Draws the marker on a canvas so it can be registered as a map image
+function drawMixMarker({ shape, color }: MixMarkerStyle): ImageData | null {
+  const size = MARKER_SIZE * MARKER_PIXEL_RATIO;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.scale(MARKER_PIXEL_RATIO, MARKER_PIXEL_RATIO);
+  const path = new Path2D(MIX_MARKER_PATHS[shape]);
+  ctx.fillStyle = color;
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+  ctx.fill(path);
+  ctx.stroke(path);
+  return ctx.getImageData(0, 0, size, size);
+}
+
 const SimulatedTreesLayer: React.FC = () => {
-  const { simulatedPlantingPoints } = useTreeStore();
+  const { current: mapRef } = useMap();
+  const { simulatedPlantingPoints, simulatedPlantingGroups } = useTreeStore();
+
+  // Marker images are drawn on demand, whenever the mix layer asks for one the map doesn't have
+  useEffect(() => {
+    if (!mapRef) return;
+    const map = mapRef.getMap();
+    const handleMissingImage = (e: MapStyleImageMissingEvent) => {
+      const style = parseMixMarkerIconId(e.id);
+      if (!style || map.hasImage(e.id)) return;
+      const image = drawMixMarker(style);
+      if (image) map.addImage(e.id, image, { pixelRatio: MARKER_PIXEL_RATIO });
+    };
+    map.on('styleimagemissing', handleMissingImage);
+    return () => {
+      map.off('styleimagemissing', handleMissingImage);
+    };
+  }, [mapRef]);
 
   const geojson: FeatureCollection<Point> = useMemo(() => {
     return {
@@ -36,15 +90,40 @@ const SimulatedTreesLayer: React.FC = () => {
     };
   }, [simulatedPlantingPoints]);
 
-  if (!simulatedPlantingPoints || simulatedPlantingPoints.length === 0) {
-    return null;
-  }
+  const mixGeojson: FeatureCollection<Point> = useMemo(() => {
+    return {
+      type: 'FeatureCollection',
+      features: simulatedPlantingGroups.flatMap((group, groupIndex) =>
+        group.points.map((point, index) => ({
+          type: 'Feature' as const,
+          properties: {
+            id: `sim-mix-${groupIndex}-${index}`,
+            label: group.label,
+            icon: group.icon,
+          },
+          geometry: {
+            type: 'Point' as const,
+            coordinates: point,
+          },
+        }))
+      ),
+    };
+  }, [simulatedPlantingGroups]);
 
   return (
-    <Source id="simulated-trees-source" type="geojson" data={geojson}>
-      <Layer {...simulatedTreesLayerStyle} />
-    </Source>
+    <>
+      {simulatedPlantingPoints.length > 0 && (
+        <Source id="simulated-trees-source" type="geojson" data={geojson}>
+          <Layer {...simulatedTreesLayerStyle} />
+        </Source>
+      )}
+      {simulatedPlantingGroups.length > 0 && (
+        <Source id="simulated-trees-mix-source" type="geojson" data={mixGeojson}>
+          <Layer {...simulatedMixLayerStyle} />
+        </Source>
+      )}
+    </>
   );
 };
 
-export default SimulatedTreesLayer;
\ No newline at end of file
+export default SimulatedTreesLayer;
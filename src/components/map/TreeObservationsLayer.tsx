@@ -0,0 +1,49 @@
+// src/components/map/TreeObservationsLayer.tsx
+// Latest field-reported status per tree, drawn as rings over the census points
+
+import React, { useEffect } from 'react';
+import { Source, Layer } from 'react-map-gl/maplibre';
+import type { ExpressionSpecification } from 'maplibre-gl';
+import { useTreeObservationStore } from '../../store/TreeObservationStore';
+import { TREE_STATUS_OPTIONS } from '../../types/observations';
+
+export const OBSERVATION_LAYER_ID = 'tree-observations-points';
+
+// Spread match arms don't satisfy maplibre's tuple type, hence the cast
+const statusColor = [
+  'match',
+  ['get', 'status'],
+  ...TREE_STATUS_OPTIONS.flatMap((option) => [option.value, option.color]),
+  '#6b7280',
+] as unknown as ExpressionSpecification;
+
+const TreeObservationsLayer: React.FC = () => {
+  const { showLayer, points, isLoadingPoints, pointsError, fetchPoints } = useTreeObservationStore();
+
+  // Visibility is persisted, so the first render after a reload may need data
+  useEffect(() => {
+    if (showLayer && !points && !isLoadingPoints && !pointsError) fetchPoints();
+  }, [showLayer, points, isLoadingPoints, pointsError, fetchPoints]);
+
+  if (!showLayer || !points) {
+    return null;
+  }
+
+  return (
+    <Source id="tree-observations-source" type="geojson" data={points}>
+      <Layer
+        id={OBSERVATION_LAYER_ID}
+        type="circle"
+        paint={{
+          'circle-radius': ['interpolate', ['linear'], ['zoom'], 11, 3, 16, 8, 19, 14],
+          'circle-color': statusColor,
+          'circle-opacity': 0.25,
+          'circle-stroke-color': statusColor,
+          'circle-stroke-width': ['interpolate', ['linear'], ['zoom'], 11, 1, 16, 2.5],
+        }}
+      />
+    </Source>
+  );
+};
+
+export default TreeObservationsLayer;
@@ -13,6 +13,8 @@ import type { LayerProps, MapLayerMouseEvent, MapLayerTouchEvent } from 'react-m
 import type { MapRef } from 'react-map-gl/maplibre';
 import * as turf from '@turf/turf';
 import { useGreenCoverStore } from '../../store/GreenCoverStore';
+import { useActiveGreenScoreProfile } from '../../store/GreenScoreProfileStore';
+import { calculateGreenScore, getScoreColor, wardGreenScoreInputs } from '../../utils/greenScore';
 
 // API base URL - empty string in production uses relative URLs
 const API_BASE = import.meta.env.DEV ? 'http://localhost:3001' : '';
@@ -45,6 +47,7 @@ interface WardLandCover {
   year: number;
   trees_pct: string | number;
   built_pct: string | number;
+  total_area_m2: string | number;
 }
 
 interface WardComparison {
@@ -60,22 +63,8 @@ interface WardBoundaryLayerProps {
   opacity?: number;
   onWardClick?: (wardNumber: number) => void;
   onWardHover?: (wardNumber: number | null) => void;
-}
-
-// Calculate Green Score (simplified version)
-function calculateGreenScore(treesPct: number, builtPct: number): number {
-  const treeScore = Math.min(100, (treesPct / 25) * 100);
-  const builtScore = Math.max(0, 100 - (builtPct / 90) * 100);
-  const score = treeScore * 0.6 + builtScore * 0.4;
-  return Math.round(Math.max(0, Math.min(100, score)));
-}
-
-// Get color for score (Green-Yellow-Red scale)
-function getScoreColor(score: number): string {
-  if (score >= 70) return '#22c55e'; // Green - Good
-  if (score >= 50) return '#eab308'; // Yellow - Moderate
-  if (score >= 30) return '#f97316'; // Orange - Poor
-  return '#ef4444'; // Red - Critical
+  // Clicks on features of these layers (e.g. trees) are left to them rather than opening the ward
+  yieldToLayerIds?: string[];
 }
 
 // Get color for tree percentage
@@ -104,6 +93,7 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
   opacity = 0.6,
   onWardClick,
   onWardHover,
+  yieldToLayerIds,
 }) => {
   const [wardBoundaries, setWardBoundaries] = useState<WardBoundaryGeoJSON | null>(null);
   const [landCoverData, setLandCoverData] = useState<WardLandCover[]>([]);
@@ -117,7 +107,22 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
   const [loading, setLoading] = useState(true);
 
   // Subscribe to fly-to-ward requests from the store
-  const { selectedWardNumber, flyToWardTrigger } = useGreenCoverStore();
+  const { selectedWardNumber, flyToWardTrigger, wardStats } = useGreenCoverStore();
+  const greenScoreProfile = useActiveGreenScoreProfile();
+
+  // Same inputs and profile as the Green Cover Monitor leaderboard, so the map and table agree
+  const scoreWard = useCallback((wardNumber: number, landCover?: WardLandCover, comparison?: WardComparison) => {
+    const statsArray = Array.isArray(wardStats) ? wardStats : [];
+    const censusTreeCount = statsArray.length > 0
+      ? statsArray.find(s => s.ward_number === wardNumber)?.tree_count ?? 0
+      : null;
+    const inputs = wardGreenScoreInputs(
+      landCover ?? { trees_pct: 0, built_pct: 0, total_area_m2: 0 },
+      comparison,
+      censusTreeCount
+    );
+    return calculateGreenScore(inputs, greenScoreProfile);
+  }, [wardStats, greenScoreProfile]);
 
   // Fly to selected ward when triggered
   useEffect(() => {
@@ -171,7 +176,7 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
           latitude: center.geometry.coordinates[1],
           ward: {
             ...wardFeature.properties,
-            green_score: calculateGreenScore(treesPct, builtPct),
+            green_score: scoreWard(selectedWardNumber, landCover, comparison),
             trees_pct: treesPct,
             built_pct: builtPct,
             net_change_ha: netChangeHa,
@@ -185,7 +190,7 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
     } catch (err) {
       console.error('Error flying to ward:', err);
     }
-  }, [selectedWardNumber, flyToWardTrigger, wardBoundaries, mapRef, landCoverData, comparisonData, selectedYear]);
+  }, [selectedWardNumber, flyToWardTrigger, wardBoundaries, mapRef, landCoverData, comparisonData, selectedYear, scoreWard]);
 
   // Fetch ward boundaries and land cover data
   useEffect(() => {
@@ -240,7 +245,7 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
           ? parseFloat(comparison.net_tree_change_m2) / 10000 
           : 0;
 
-        const greenScore = calculateGreenScore(treesPct, builtPct);
+        const greenScore = scoreWard(wardNum, landCover, comparison);
 
         // Determine fill color based on colorBy mode
         let fillColor: string;
@@ -268,7 +273,7 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
         };
       })
     };
-  }, [wardBoundaries, landCoverData, comparisonData, selectedYear, colorBy]);
+  }, [wardBoundaries, landCoverData, comparisonData, selectedYear, colorBy, scoreWard]);
 
   // Handle mouse events - use mousemove for smoother tracking
   const handleMouseMove = (e: MapLayerMouseEvent) => {
@@ -299,7 +304,14 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
     onWardHover?.(null);
   };
 
+  const isOverYieldedFeature = useCallback((point: MapLayerMouseEvent['point']) => {
+    const map = mapRef.current?.getMap();
+    const layers = (yieldToLayerIds ?? []).filter(id => map?.getLayer(id));
+    return !!map && layers.length > 0 && map.queryRenderedFeatures(point, { layers }).length > 0;
+  }, [mapRef, yieldToLayerIds]);
+
   const handleClick = (e: MapLayerMouseEvent) => {
+    if (isOverYieldedFeature(e.point)) return;
     if (e.features && e.features.length > 0) {
       const feature = e.features[0];
       const wardNum = feature.properties?.ward_number;
@@ -327,12 +339,13 @@ const WardBoundaryLayer: React.FC<WardBoundaryLayerProps> = ({
   }, [onWardHover]);
 
   const handleTouchEnd = useCallback((e: MapLayerTouchEvent) => {
+    if (isOverYieldedFeature(e.point)) return;
     if (e.features && e.features.length > 0) {
       const feature = e.features[0];
       const wardNum = feature.properties?.ward_number;
       onWardClick?.(wardNum);
     }
-  }, [onWardClick]);
+  }, [onWardClick, isOverYieldedFeature]);
 
   // Set up event listeners on map
   useEffect(() => {
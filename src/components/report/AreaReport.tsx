@@ -0,0 +1,333 @@
+// src/components/report/AreaReport.tsx
+// Print-ready, multi-page report for a ward or drawn area (saved as PDF via the browser print dialog)
+
+import React from 'react';
+import { AreaReportData } from '../../utils/areaReport';
+import { GREEN_SCORE_FACTOR_LABELS, formatFactorValue, getScoreColor, getScoreLabel } from '../../utils/greenScore';
+import { CHART_DATA_DATE, CHART_DATA_SOURCE } from '../../types/charts';
+
+interface AreaReportProps {
+  report: AreaReportData;
+}
+
+const TOTAL_PAGES = 3;
+
+const SEVERITY_LABELS: Record<'severe' | 'moderate' | 'minor', string> = {
+  severe: 'Severe',
+  moderate: 'Moderate',
+  minor: 'Minor',
+};
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const formatSigned = (value: number, digits = 1) =>
+  `${value > 0 ? '+' : ''}${formatNumber(value, digits)}`;
+
+const ReportPage: React.FC<{
+  report: AreaReportData;
+  page: number;
+  title: string;
+  children: React.ReactNode;
+}> = ({ report, page, title, children }) => (
+  <section className="report-page bg-white shadow-lg mx-auto mb-6 p-10 flex flex-col" style={{ width: '210mm', minHeight: '297mm' }}>
+    <header className="flex items-baseline justify-between border-b-2 border-primary-600 pb-2 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      <span className="text-xs text-gray-500">{report.subject.label}</span>
+    </header>
+    <div className="flex-1 space-y-6">{children}</div>
+    <footer className="mt-8 pt-2 border-t border-gray-200 flex justify-between text-[10px] text-gray-500">
+      <span>
+        Source: {CHART_DATA_SOURCE} ({CHART_DATA_DATE}); land cover from Dynamic World satellite classification
+      </span>
+      <span>
+        Generated {report.generatedAt.toLocaleDateString('en-IN', { dateStyle: 'medium' })} · Page {page} of {TOTAL_PAGES}
+      </span>
+    </footer>
+  </section>
+);
+
+const KeyFigure: React.FC<{ label: string; value: string; note?: string }> = ({ label, value, note }) => (
+  <div className="border border-gray-200 rounded-md p-3">
+    <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+    <div className="text-2xl font-bold text-gray-900 mt-1">{value}</div>
+    {note && <div className="text-xs text-gray-500 mt-0.5">{note}</div>}
+  </div>
+);
+
+const AreaReport: React.FC<AreaReportProps> = ({ report }) => {
+  const {
+    subject,
+    areaHa,
+    mapImage,
+    treeCount,
+    co2Kg,
+    cityTreeCount,
+    species,
+    otherSpeciesCount,
+    landCoverWards,
+    landCover,
+    change,
+    greenScore,
+    hotspots,
+    hotspotLossThreshold,
+  } = report;
+
+  const treesPerHa = treeCount != null && areaHa > 0 ? treeCount / areaHa : null;
+  const cityShare = treeCount != null && cityTreeCount ? (treeCount / cityTreeCount) * 100 : null;
+  const maxSpeciesShare = Math.max(0, ...species.map((row) => row.share));
+  const activeHotspots = hotspots.filter((row) => row.isHotspot);
+  const landCoverScope = subject.kind === 'ward'
+    ? `Ward ${subject.wardNumber}`
+    : landCoverWards.length > 0
+      ? `the ${landCoverWards.length} ward${landCoverWards.length === 1 ? '' : 's'} this area overlaps (${landCoverWards.join(', ')})`
+      : null;
+
+  return (
+    <div className="area-report text-gray-800">
+      {/* Page 1: overview */}
+      <ReportPage report={report} page={1} title="Tree & Green Cover Report">
+        <div>
+          <h1 className="text-2xl font-bold text-primary-700">{subject.label}</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {subject.kind === 'ward' ? 'Ward boundary' : 'Area drawn on the dashboard map'} · {formatNumber(areaHa, 1)} ha ·
+            Prepared {report.generatedAt.toLocaleString('en-IN', { dateStyle: 'long', timeStyle: 'short' })}
+          </p>
+        </div>
+
+        {mapImage ? (
+          <figure>
+            <img src={mapImage} alt={`Map of ${subject.label}`} className="w-full border border-gray-200 rounded" />
+            <figcaption className="text-xs text-gray-500 mt-1">Map view fitted to the report area at the time of generation.</figcaption>
+          </figure>
+        ) : (
+          <div className="border border-dashed border-gray-300 rounded p-6 text-center text-sm text-gray-500">
+            Map snapshot unavailable.
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <KeyFigure
+            label="Trees"
+            value={treeCount != null ? formatNumber(treeCount) : '—'}
+            note={cityShare != null ? `${formatNumber(cityShare, 2)}% of the city's census trees` : undefined}
+          />
+          <KeyFigure
+            label="CO₂ sequestered"
+            value={co2Kg != null ? `${formatNumber(co2Kg / 1000)} t` : '—'}
+            note="Lifetime, census estimate"
+          />
+          <KeyFigure
+            label="Tree density"
+            value={treesPerHa != null ? `${formatNumber(treesPerHa, 1)} /ha` : '—'}
+          />
+          <KeyFigure
+            label="Green score"
+            value={greenScore != null ? `${greenScore.score} / 100` : '—'}
+            note={greenScore != null ? getScoreLabel(greenScore.score) : 'Land-cover data not available'}
+          />
+        </div>
+      </ReportPage>
+
+      {/* Page 2: species mix */}
+      <ReportPage report={report} page={2} title="Species Mix">
+        {species.length === 0 ? (
+          <p className="text-sm text-gray-500">No census trees were found in this area.</p>
+        ) : (
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-300">
+                <th className="py-2 pr-2 w-8">#</th>
+                <th className="py-2 pr-2">Species</th>
+                <th className="py-2 pr-2 text-right">Trees</th>
+                <th className="py-2 pr-2 text-right">Share</th>
+                <th className="py-2 w-1/3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {species.map((row, index) => (
+                <tr key={row.name} className="border-b border-gray-100">
+                  <td className="py-1.5 pr-2 text-gray-400">{index + 1}</td>
+                  <td className="py-1.5 pr-2 font-medium">{row.name}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.count)}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.share, 1)}%</td>
+                  <td className="py-1.5">
+                    <div className="h-2.5 bg-gray-100 rounded">
+                      <div
+                        className="h-2.5 bg-primary-600 rounded"
+                        style={{ width: `${maxSpeciesShare > 0 ? (row.share / maxSpeciesShare) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {otherSpeciesCount > 0 && (
+                <tr className="text-gray-500">
+                  <td className="py-1.5 pr-2"></td>
+                  <td className="py-1.5 pr-2 italic">All other species</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(otherSpeciesCount)}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">
+                    {treeCount ? `${formatNumber((otherSpeciesCount / treeCount) * 100, 1)}%` : ''}
+                  </td>
+                  <td></td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        )}
+        {species.length > 0 && species[0].share > 30 && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+            {species[0].name} makes up {formatNumber(species[0].share, 0)}% of the trees here. A mix this dominated by one
+            species is more exposed to pests and disease.
+          </p>
+        )}
+      </ReportPage>
+
+      {/* Page 3: land cover, green score and hotspots */}
+      <ReportPage report={report} page={3} title="Land Cover & Green Health">
+        {!landCoverScope || landCover.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Satellite land-cover data is not available for this area yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Land-cover figures are area-weighted across {landCoverScope}.
+            </p>
+
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-300">
+                  <th className="py-2 pr-2">Year</th>
+                  <th className="py-2 pr-2 text-right">Trees</th>
+                  <th className="py-2 pr-2 text-right">Built-up</th>
+                  <th className="py-2 pr-2 text-right">Grass</th>
+                  <th className="py-2 pr-2 text-right">Bare</th>
+                  <th className="py-2 w-1/3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {landCover.map((row) => (
+                  <tr key={row.year} className="border-b border-gray-100">
+                    <td className="py-1.5 pr-2 font-medium">{row.year}</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.treesPct, 1)}%</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.builtPct, 1)}%</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.grassPct, 1)}%</td>
+                    <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(row.barePct, 1)}%</td>
+                    <td className="py-1.5">
+                      <div className="flex h-2.5 rounded overflow-hidden bg-gray-100">
+                        <div className="bg-green-600" style={{ width: `${row.treesPct}%` }} />
+                        <div className="bg-lime-300" style={{ width: `${row.grassPct}%` }} />
+                        <div className="bg-gray-500" style={{ width: `${row.builtPct}%` }} />
+                        <div className="bg-amber-200" style={{ width: `${row.barePct}%` }} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {change && (
+              <div className="grid grid-cols-2 gap-3">
+                <KeyFigure label="Tree cover lost" value={`${formatNumber(change.treesLostHa, 1)} ha`} note="2019 → 2025" />
+                <KeyFigure label="Tree cover gained" value={`${formatNumber(change.treesGainedHa, 1)} ha`} note="2019 → 2025" />
+                <KeyFigure
+                  label="Net change"
+                  value={`${formatSigned(change.netChangeHa)} ha`}
+                  note={`${formatSigned(change.netChangePct, 2)}% of land area`}
+                />
+                <KeyFigure label="Built-up gained" value={`${formatNumber(change.builtGainedHa, 1)} ha`} note="2019 → 2025" />
+              </div>
+            )}
+
+            {greenScore != null && (
+              <div className="border border-gray-200 rounded-md p-4 space-y-3">
+                <div className="flex items-center gap-4">
+                  <div
+                    className="w-16 h-16 rounded-full flex items-center justify-center text-xl font-bold text-white"
+                    style={{ backgroundColor: getScoreColor(greenScore.score) }}
+                  >
+                    {greenScore.score}
+                  </div>
+                  <div className="text-sm">
+                    <div className="font-semibold text-gray-900">Green score: {getScoreLabel(greenScore.score)}</div>
+                    <div className="text-gray-600">
+                      Computed with the “{greenScore.profileName}” methodology: each factor is scored 0–100 and weighted as below.
+                    </div>
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-1 font-medium">Factor</th>
+                      <th className="py-1 font-medium text-right">Value</th>
+                      <th className="py-1 font-medium text-right">Sub-score</th>
+                      <th className="py-1 font-medium text-right">Weight</th>
+                      <th className="py-1 font-medium text-right">Points</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {greenScore.components.map((component) => (
+                      <tr key={component.factor} className="border-b border-gray-100">
+                        <td className="py-1 text-gray-900">{GREEN_SCORE_FACTOR_LABELS[component.factor]}</td>
+                        <td className="py-1 text-right text-gray-700">
+                          {component.value != null ? formatFactorValue(component.factor, component.value) : 'No data'}
+                        </td>
+                        <td className="py-1 text-right text-gray-700">
+                          {component.subScore != null ? Math.round(component.subScore) : '—'}
+                        </td>
+                        <td className="py-1 text-right text-gray-700">{Math.round(component.weight * 100)}%</td>
+                        <td className="py-1 text-right font-medium text-gray-900">{component.points.toFixed(1)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Deforestation hotspot status</h3>
+              {hotspots.length === 0 ? (
+                <p className="text-sm text-gray-500">No change data for this area.</p>
+              ) : activeHotspots.length === 0 ? (
+                <p className="text-sm text-green-700">
+                  Not a hotspot: net tree-cover loss stays under the {formatNumber(hotspotLossThreshold, 2)}% threshold
+                  {hotspots.length > 1 ? ` in all ${hotspots.length} wards` : ''}.
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-red-700 mb-2">
+                    {activeHotspots.length === hotspots.length && hotspots.length === 1
+                      ? 'This ward is a deforestation hotspot'
+                      : `${activeHotspots.length} of ${hotspots.length} wards are deforestation hotspots`}{' '}
+                    (net loss of at least {formatNumber(hotspotLossThreshold, 2)}% of ward area since 2019).
+                  </p>
+                  <table className="w-full text-sm border-collapse">
+                    <thead>
+                      <tr className="text-left text-xs uppercase tracking-wide text-gray-500 border-b border-gray-300">
+                        <th className="py-1.5 pr-2">Ward</th>
+                        <th className="py-1.5 pr-2 text-right">Net change</th>
+                        <th className="py-1.5">Severity</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {activeHotspots.map((row) => (
+                        <tr key={row.wardNumber} className="border-b border-gray-100">
+                          <td className="py-1.5 pr-2">Ward {row.wardNumber}</td>
+                          <td className="py-1.5 pr-2 text-right tabular-nums">{formatSigned(row.netChangePct, 2)}%</td>
+                          <td className="py-1.5">{SEVERITY_LABELS[row.severity]}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </ReportPage>
+    </div>
+  );
+};
+
+export default AreaReport;
@@ -0,0 +1,218 @@
+// src/components/report/ReportGenerator.tsx
+// "Generate report" card: pick a ward or the drawn area, then preview and print the report
+
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText, Printer, X, Loader2 } from 'lucide-react';
+import { useTreeStore } from '../../store/TreeStore';
+import { useGreenCoverStore } from '../../store/GreenCoverStore';
+import { useActiveGreenScoreProfile } from '../../store/GreenScoreProfileStore';
+import { DEFAULT_HOTSPOT_CONFIG } from '../map/DeforestationHotspotsLayer';
+import InfoPopover from '../common/InfoPopover';
+import AreaReport from './AreaReport';
+import {
+  AreaReportData,
+  ReportSubject,
+  WardBoundaryCollection,
+  buildAreaReport,
+  fetchWardBoundaries,
+  getWardLabel,
+} from '../../utils/areaReport';
+import type { MapSnapshotFn } from '../../utils/mapSnapshot';
+
+interface ReportGeneratorProps {
+  captureMapSnapshot?: MapSnapshotFn;
+  hotspotLossThreshold?: number;
+}
+
+type SubjectKind = 'ward' | 'area';
+
+const ReportGenerator: React.FC<ReportGeneratorProps> = ({
+  captureMapSnapshot,
+  hotspotLossThreshold = DEFAULT_HOTSPOT_CONFIG.lossThreshold,
+}) => {
+  const { selectedArea, cityStats } = useTreeStore();
+  const selectedWardNumber = useGreenCoverStore((state) => state.selectedWardNumber);
+  const greenScoreProfile = useActiveGreenScoreProfile();
+  const drawnGeometry = selectedArea?.geojsonData?.geometry ?? null;
+
+  const [subjectKind, setSubjectKind] = useState<SubjectKind>(drawnGeometry ? 'area' : 'ward');
+  const [wardNumber, setWardNumber] = useState<number | null>(selectedWardNumber);
+  const [boundaries, setBoundaries] = useState<WardBoundaryCollection | null>(null);
+  const [boundariesError, setBoundariesError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<AreaReportData | null>(null);
+
+  // Follow the map: a newly drawn area or ward picked in Green Cover becomes the default subject
+  useEffect(() => {
+    if (drawnGeometry) setSubjectKind('area');
+  }, [drawnGeometry]);
+
+  useEffect(() => {
+    if (selectedWardNumber != null) setWardNumber(selectedWardNumber);
+  }, [selectedWardNumber]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchWardBoundaries()
+      .then((data) => {
+        if (cancelled) return;
+        setBoundaries(data);
+        if (data.features.length === 0) setBoundariesError('Ward boundaries are not available yet.');
+      })
+      .catch((err) => {
+        console.error('Error fetching ward boundaries for report:', err);
+        if (!cancelled) setBoundariesError('Could not load ward boundaries.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Only the report itself is printed while the preview is open
+  useEffect(() => {
+    if (!report) return;
+    document.body.classList.add('report-open');
+    return () => document.body.classList.remove('report-open');
+  }, [report]);
+
+  const wardOptions = boundaries?.features
+    .map((feature) => feature.properties)
+    .sort((a, b) => a.ward_number - b.ward_number) ?? [];
+
+  const resolveSubject = (): ReportSubject | null => {
+    if (subjectKind === 'area') {
+      return drawnGeometry ? { kind: 'area', label: 'Custom area', geometry: drawnGeometry } : null;
+    }
+    const ward = boundaries?.features.find((feature) => feature.properties.ward_number === wardNumber);
+    return ward
+      ? { kind: 'ward', wardNumber: ward.properties.ward_number, label: getWardLabel(ward.properties), geometry: ward.geometry }
+      : null;
+  };
+
+  const subject = resolveSubject();
+
+  const handleGenerate = async () => {
+    if (!subject) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      // Land-cover figures come from the Green Cover cache; make sure it is loaded
+      await useGreenCoverStore.getState().fetchAllData();
+      const { wardData, comparisonData, wardStats } = useGreenCoverStore.getState();
+      const data = await buildAreaReport({
+        subject,
+        boundaries,
+        greenCover: {
+          wardData: Array.isArray(wardData) ? wardData : [],
+          comparisonData: Array.isArray(comparisonData) ? comparisonData : [],
+          wardStats: Array.isArray(wardStats) ? wardStats : [],
+        },
+        cityTreeCount: cityStats?.total_trees ?? null,
+        hotspotLossThreshold,
+        greenScoreProfile,
+        captureMap: captureMapSnapshot,
+      });
+      setReport(data);
+    } catch (err) {
+      console.error('Error generating report:', err);
+      setError('Could not generate the report. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="text-lg font-medium">Area Report</h3>
+        <InfoPopover titleContent="Printable Report">
+          <p>Builds a printable report for a ward or the area you drew on the map: map snapshot, tree count and CO₂, species mix, land-cover timeline, green score and deforestation hotspot status.</p>
+          <p className="mt-2">Use your browser&apos;s print dialog to save it as a PDF.</p>
+        </InfoPopover>
+      </div>
+      <div className="card-body space-y-3">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['ward', 'area'] as SubjectKind[]).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => setSubjectKind(kind)}
+              className={`flex-1 px-3 py-1.5 font-medium transition-colors ${
+                subjectKind === kind ? 'bg-primary-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+              }`}
+            >
+              {kind === 'ward' ? 'Ward' : 'Drawn area'}
+            </button>
+          ))}
+        </div>
+
+        {subjectKind === 'ward' ? (
+          boundariesError ? (
+            <p className="text-xs text-gray-500">{boundariesError}</p>
+          ) : (
+            <select
+              value={wardNumber ?? ''}
+              onChange={(e) => setWardNumber(e.target.value ? parseInt(e.target.value, 10) : null)}
+              disabled={!boundaries}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 bg-white"
+            >
+              <option value="">{boundaries ? 'Select a ward…' : 'Loading wards…'}</option>
+              {wardOptions.map((ward) => (
+                <option key={ward.ward_number} value={ward.ward_number}>
+                  {getWardLabel(ward)}
+                </option>
+              ))}
+            </select>
+          )
+        ) : !drawnGeometry ? (
+          <p className="text-xs text-gray-500">Use the drawing tools on the map to outline an area first.</p>
+        ) : null}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <button
+          onClick={handleGenerate}
+          disabled={!subject || isGenerating}
+          className="btn btn-primary w-full justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isGenerating ? (
+            <>
+              <Loader2 size={16} className="mr-2 animate-spin" /> Generating report…
+            </>
+          ) : (
+            <>
+              <FileText size={16} className="mr-2" /> Generate report
+            </>
+          )}
+        </button>
+      </div>
+
+      {report && createPortal(
+        <div className="area-report-root fixed inset-0 z-[20001] bg-gray-200 overflow-y-auto">
+          <div className="area-report-toolbar sticky top-0 z-10 flex items-center justify-between gap-2 bg-white border-b border-gray-200 px-4 py-2 shadow-sm">
+            <span className="text-sm font-medium text-gray-700 truncate">Report preview · {report.subject.label}</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => window.print()} className="btn btn-primary py-1.5">
+                <Printer size={16} className="mr-2" /> Print / Save as PDF
+              </button>
+              <button
+                onClick={() => setReport(null)}
+                className="p-1.5 text-gray-500 rounded-full hover:bg-gray-100 hover:text-gray-800"
+                aria-label="Close report"
+              >
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+          <div className="py-6">
+            <AreaReport report={report} />
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default ReportGenerator;
@@ -0,0 +1,5 @@
+// src/components/report/index.ts
+// Printable area report
+
+export { default as ReportGenerator } from './ReportGenerator';
+export { default as AreaReport } from './AreaReport';
@@ -0,0 +1,236 @@
+// src/components/review/EditReviewDialog.tsx
+// Reviewer queue for suggested census corrections
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ArrowRight, Check, ClipboardCheck, Loader2, X } from 'lucide-react';
+import { describeTreeEditError, useTreeEditStore } from '../../store/TreeEditStore';
+import { useAuthStore } from '../../store/AuthStore';
+import {
+  TreeEditField,
+  TreeEditProposal,
+  TreeEditStatus,
+  formatTreeEditValue,
+  getTreeEditLabel,
+} from '../../types/treeEdits';
+
+const STATUS_TABS: { value: TreeEditStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+const formatDateTime = (date: string) =>
+  new Date(date).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface ProposalCardProps {
+  proposal: TreeEditProposal;
+  canReview: boolean;
+  onReview: (decision: 'approve' | 'reject', note: string) => Promise<void>;
+}
+
+const ProposalCard: React.FC<ProposalCardProps> = ({ proposal, canReview, onReview }) => {
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState<'approve' | 'reject' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async (decision: 'approve' | 'reject') => {
+    setBusy(decision);
+    setError(null);
+    try {
+      await onReview(decision, note);
+    } catch (err) {
+      setError(describeTreeEditError(err, 'Could not save the review'));
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-sm font-medium text-gray-800">
+            {proposal.tree_common_name || 'Unknown species'} <span className="text-gray-400 font-normal">· ID {proposal.tree_id}</span>
+          </div>
+          <div className="text-xs text-gray-500">
+            {proposal.submitted_by_name ?? 'Unknown user'} · {formatDateTime(proposal.submitted_at)}
+          </div>
+        </div>
+        {proposal.status !== 'pending' && (
+          <div className="text-xs text-gray-500 text-right">
+            {proposal.status === 'approved' ? 'Approved' : 'Rejected'} by {proposal.reviewed_by_name ?? 'reviewer'}
+            {proposal.reviewed_at && <div>{formatDateTime(proposal.reviewed_at)}</div>}
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-400">
+            <th className="font-medium pr-2">Field</th>
+            <th className="font-medium pr-2">Was</th>
+            <th className="font-medium pr-2"></th>
+            <th className="font-medium">Proposed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(proposal.changes) as TreeEditField[]).map((field) => {
+            const changedSince =
+              proposal.status === 'pending' && proposal.current &&
+              formatTreeEditValue(field, proposal.current[field]) !== formatTreeEditValue(field, proposal.previous[field]);
+            return (
+              <tr key={field} className="align-top">
+                <td className="pr-2 py-0.5 text-gray-500">{getTreeEditLabel(field)}</td>
+                <td className="pr-2 py-0.5 text-gray-600">
+                  {formatTreeEditValue(field, proposal.previous[field])}
+                  {changedSince && proposal.current && (
+                    <div className="text-amber-700">now {formatTreeEditValue(field, proposal.current[field])}</div>
+                  )}
+                </td>
+                <td className="pr-2 py-0.5"><ArrowRight size={10} className="text-gray-400 mt-0.5" /></td>
+                <td className="py-0.5 font-medium text-gray-800">{formatTreeEditValue(field, proposal.changes[field])}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-600 italic">“{proposal.reason}”</p>
+      {proposal.review_note && <p className="text-xs text-gray-500">Reviewer note: {proposal.review_note}</p>}
+
+      {proposal.status === 'pending' && proposal.stale && (
+        <p className="flex items-center text-xs text-amber-700">
+          <AlertTriangle size={12} className="mr-1 flex-shrink-0" />
+          {proposal.current ? 'The record changed after this was suggested.' : 'This tree is no longer in the census.'}
+        </p>
+      )}
+
+      {proposal.status === 'pending' && (
+        canReview ? (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              placeholder="Note for the surveyor (optional)"
+              className="input text-xs w-full"
+            />
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => handleReview('approve')}
+                disabled={busy !== null || !proposal.current}
+                className="btn btn-primary py-1 px-3 text-xs disabled:opacity-50"
+              >
+                {busy === 'approve' ? <Loader2 size={12} className="animate-spin mr-1" /> : <Check size={12} className="mr-1" />}
+                Approve &amp; apply
+              </button>
+              <button
+                type="button"
+                onClick={() => handleReview('reject')}
+                disabled={busy !== null}
+                className="btn btn-outline py-1 px-3 text-xs disabled:opacity-50"
+              >
+                {busy === 'reject' ? <Loader2 size={12} className="animate-spin mr-1" /> : <X size={12} className="mr-1" />}
+                Reject
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-400">Your own suggestion — another reviewer needs to check it.</p>
+        )
+      )}
+    </div>
+  );
+};
+
+interface EditReviewDialogProps {
+  onClose: () => void;
+}
+
+const EditReviewDialog: React.FC<EditReviewDialogProps> = ({ onClose }) => {
+  const { fetchQueue, reviewEdit } = useTreeEditStore();
+  const user = useAuthStore((state) => state.user);
+  const [status, setStatus] = useState<TreeEditStatus>('pending');
+  const [proposals, setProposals] = useState<TreeEditProposal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (tab: TreeEditStatus) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProposals(await fetchQueue(tab));
+    } catch (err) {
+      setError(describeTreeEditError(err, 'Could not load the review queue'));
+      setProposals([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchQueue]);
+
+  useEffect(() => {
+    load(status);
+  }, [status, load]);
+
+  const handleReview = async (proposal: TreeEditProposal, decision: 'approve' | 'reject', note: string) => {
+    await reviewEdit(proposal.id, decision, note);
+    setProposals((prev) => prev.filter((p) => p.id !== proposal.id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col text-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100">
+          <h2 className="text-lg font-semibold flex items-center">
+            <ClipboardCheck size={18} className="mr-2 text-primary-600" /> Census Corrections
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-5 pt-3">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              onClick={() => setStatus(tab.value)}
+              className={`px-3 py-1 rounded-full text-xs font-medium ${
+                status === tab.value ? 'bg-primary-100 text-primary-700' : 'text-gray-500 hover:bg-gray-100'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="px-5 py-4 overflow-y-auto space-y-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {loading ? (
+            <div className="flex justify-center py-6"><Loader2 size={20} className="animate-spin text-gray-400" /></div>
+          ) : proposals.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">
+              {status === 'pending' ? 'Nothing waiting for review.' : `No ${status} corrections yet.`}
+            </p>
+          ) : (
+            proposals.map((proposal) => (
+              <ProposalCard
+                key={proposal.id}
+                proposal={proposal}
+                canReview={proposal.submitted_by !== user?.id || user?.role === 'admin'}
+                onReview={(decision, note) => handleReview(proposal, decision, note)}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditReviewDialog;
@@ -0,0 +1,4 @@
+// src/components/review/index.ts
+// Reviewer tools for suggested census corrections
+
+export { default as EditReviewDialog } from './EditReviewDialog';
@@ -12,20 +12,27 @@ import {
   Github,
   Linkedin,
   Globe,
+  Sprout,
 } from 'lucide-react';
 import CityOverview from './tabs/CityOverview';
 import TreeDetails from './tabs/TreeDetails';
 import PlantingAdvisor from './tabs/PlantingAdvisor';
 import MapLayers, { ShadowQuality } from './tabs/MapLayers';
 import GreenCoverMonitor from './tabs/GreenCoverMonitor';
+import SpeciesProfiles from './tabs/SpeciesProfiles';
 import { TreeFilterBar } from '../filters';
 import { ArchetypeData } from '../../store/TreeStore';
 import { LightConfig } from './tabs/LightAndShadowControl';
+import type { MapSnapshotFn } from '../../utils/mapSnapshot';
+import type { BuildingFootprintFn } from '../../utils/plantingLayout';
 
 interface SidebarProps {
   isOpen: boolean;
   toggleSidebar: () => void;
   selectedTreeId: string | null;
+  onTreeSelect?: (treeId: string) => void;
+  selectedSpecies?: string | null;
+  onSpeciesSelect?: (commonName: string | null) => void;
   activeTabIndex: number;
   setActiveTabIndex: (index: number) => void;
   baseMap: string;
@@ -102,12 +109,19 @@ interface SidebarProps {
     layer: 'tree_probability_2025' | 'tree_probability_2019' | 'tree_change' | 'tree_loss_gain' | 'ndvi' | 'landcover';
     opacity: number;
   }) => void;
+  // Map capture used by the area report
+  captureMapSnapshot?: MapSnapshotFn;
+  // Building footprints used by the Planting Advisor's site exclusion
+  queryBuildingFootprints?: BuildingFootprintFn;
 }
 
 const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
   isOpen,
   toggleSidebar,
   selectedTreeId,
+  onTreeSelect,
+  selectedSpecies = null,
+  onSpeciesSelect,
   activeTabIndex,
   setActiveTabIndex,
   baseMap,
@@ -143,13 +157,16 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
   onLandCoverConfigChange,
   rasterConfig,
   onRasterConfigChange,
+  captureMapSnapshot,
+  queryBuildingFootprints,
 }, ref) => {
   const tabs = [
     { id: 'city-overview', label: 'City Overview', icon: <BarChartBig size={18} /> },
     { id: 'tree-details', label: 'Tree Details', icon: <TreeIcon size={18} /> },
     { id: 'green-cover', label: 'Green Cover', icon: <MapAnalysisIcon size={18} />, tourId: 'tab-green-cover' },
     { id: 'planting-advisor', label: 'Planting Advisor', icon: <SeedlingIcon size={18} />, tourId: 'tab-planting-advisor' },
-    { id: 'map-layers', label: 'Map Layers', icon: <LayersIcon size={18} />, tourId: 'tab-map-layers' }
+    { id: 'map-layers', label: 'Map Layers', icon: <LayersIcon size={18} />, tourId: 'tab-map-layers' },
+    { id: 'species', label: 'Species', icon: <Sprout size={18} /> }
   ];
 
   const tabContainerRef = React.useRef<HTMLDivElement>(null);
@@ -163,8 +180,13 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
 
   const renderTabContent = () => {
     switch (activeTabIndex) {
-      case 0: return <CityOverview />;
-      case 1: return <TreeDetails treeId={selectedTreeId} />;
+      case 0: return (
+        <CityOverview
+          captureMapSnapshot={captureMapSnapshot}
+          hotspotLossThreshold={hotspotConfig?.lossThreshold}
+        />
+      );
+      case 1: return <TreeDetails treeId={selectedTreeId} onTreeSelect={onTreeSelect} onSpeciesSelect={onSpeciesSelect} />;
       case 2: return (
         <GreenCoverMonitor
           showWardBoundaries={showWardBoundaries}
@@ -181,12 +203,14 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
           onLandCoverConfigChange={onLandCoverConfigChange}
           rasterConfig={rasterConfig}
           onRasterConfigChange={onRasterConfigChange}
+          onSpeciesSelect={onSpeciesSelect}
         />
       );
       case 3:
         return <PlantingAdvisor
           setShowTemperatureChart={setShowTemperatureChart}
           onSpeciesChangeForChart={onActiveSpeciesChangeForChart}
+          queryBuildingFootprints={queryBuildingFootprints}
         />;
       case 4: return (
         <MapLayers
@@ -208,7 +232,13 @@ const Sidebar = forwardRef<HTMLDivElement, SidebarProps>(({
           onBuildingShadowsToggle={onBuildingShadowsToggle}
         />
       );
-      default: return <CityOverview />;
+      case 5: return (
+        <SpeciesProfiles
+          selectedSpecies={selectedSpecies}
+          onSpeciesSelect={(commonName) => onSpeciesSelect?.(commonName)}
+        />
+      );
+      default: return <CityOverview captureMapSnapshot={captureMapSnapshot} />;
     }
   };
 
@@ -0,0 +1,387 @@
+// src/components/sidebar/tabs/AreaWorkspace.tsx
+// Saved areas: keep several named polygons and compare them side by side
+
+import React, { useRef, useState } from 'react';
+import { Check, Download, Loader2, MapPin, Pencil, Plus, RefreshCw, Trash2, Upload, X } from 'lucide-react';
+import type { Feature } from 'geojson';
+import { PolygonStats, useTreeStore } from '../../../store/TreeStore';
+import { AreaGeometry, SavedArea, useAreaWorkspaceStore } from '../../../store/AreaWorkspaceStore';
+import { AreaRasterSummary, summariseAreaRasters } from '../../../utils/rasterZonalStats';
+import InfoPopover from '../../common/InfoPopover';
+
+interface AreaResult {
+  status: 'loading' | 'ready' | 'error';
+  stats: PolygonStats | null;
+  raster: AreaRasterSummary | null;
+}
+
+interface ComparisonRow {
+  label: string;
+  value: (result: AreaResult) => number | null;
+  format: (value: number) => string;
+  // Which end of the row is highlighted as best
+  better?: 'high' | 'low';
+}
+
+const fixed = (digits: number) => (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+const percent = (digits: number) => (value: number) => `${fixed(digits)(value)}%`;
+const signedPoints = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} pp`;
+
+const share = (part: number, total: number) => (total > 0 ? (part / total) * 100 : null);
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'Area (ha)', value: (r) => (r.stats ? r.stats.area_m2 / 10000 : null), format: fixed(1) },
+  { label: 'Trees', value: (r) => r.stats?.tree_count ?? null, format: fixed(0) },
+  { label: 'Trees per ha', value: (r) => r.stats?.tree_density_per_ha ?? null, format: fixed(1), better: 'high' },
+  { label: 'CO₂ sequestered (t)', value: (r) => (r.stats ? r.stats.co2_kg / 1000 : null), format: fixed(0) },
+  {
+    label: 'CO₂ per ha (t)',
+    value: (r) => (r.stats && r.stats.area_m2 > 0 ? r.stats.co2_kg / 1000 / (r.stats.area_m2 / 10000) : null),
+    format: fixed(1),
+    better: 'high',
+  },
+  { label: 'Canopy cover', value: (r) => r.stats?.canopy_cover_pct ?? null, format: percent(1), better: 'high' },
+  { label: 'Species', value: (r) => r.stats?.species.richness ?? null, format: fixed(0), better: 'high' },
+  { label: 'Shannon diversity', value: (r) => r.stats?.species.shannon ?? null, format: fixed(2), better: 'high' },
+  {
+    label: 'Street trees',
+    value: (r) => (r.stats ? share(r.stats.location.street, r.stats.tree_count) : null),
+    format: percent(0),
+  },
+  { label: 'Tree cover 2019', value: (r) => r.raster?.treeCover2019Pct ?? null, format: percent(1) },
+  { label: 'Tree cover 2025', value: (r) => r.raster?.treeCover2025Pct ?? null, format: percent(1), better: 'high' },
+  {
+    label: 'Cover change',
+    value: (r) =>
+      r.raster?.treeCover2019Pct != null && r.raster.treeCover2025Pct != null
+        ? r.raster.treeCover2025Pct - r.raster.treeCover2019Pct
+        : null,
+    format: signedPoints,
+    better: 'high',
+  },
+  { label: 'Area with tree loss', value: (r) => r.raster?.lossPct ?? null, format: percent(1), better: 'low' },
+  { label: 'Area with tree gain', value: (r) => r.raster?.gainPct ?? null, format: percent(1), better: 'high' },
+];
+
+const toFeature = (geometry: AreaGeometry): Feature<AreaGeometry> => ({ type: 'Feature', properties: {}, geometry });
+
+const AreaRow: React.FC<{
+  area: SavedArea;
+  isSelected: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ area, isSelected, onSelect, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(area.name);
+
+  const commitRename = () => {
+    if (draftName.trim()) onRename(draftName);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <li className="flex items-center gap-1 py-1">
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          maxLength={60}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <button type="button" onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded" title="Save name">
+          <Check size={14} />
+        </button>
+        <button type="button" onClick={() => setIsEditing(false)} className="p-1 text-gray-400 hover:bg-gray-100 rounded" title="Cancel">
+          <X size={14} />
+        </button>
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center gap-1 py-1">
+      <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: area.color }} />
+      <span className={`flex-1 min-w-0 truncate text-sm ${isSelected ? 'font-medium text-primary-700' : 'text-gray-700'}`}>
+        {area.name}
+      </span>
+      <div className="flex items-center opacity-60 group-hover:opacity-100 transition-opacity">
+        <button type="button" onClick={onSelect} className="p-1 text-gray-400 hover:text-primary-600 rounded" title="Use as the selected area">
+          <MapPin size={13} />
+        </button>
+        <button type="button" onClick={() => { setDraftName(area.name); setIsEditing(true); }} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Rename">
+          <Pencil size={13} />
+        </button>
+        <button type="button" onClick={onDelete} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Delete">
+          <Trash2 size={13} />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const AreaWorkspace: React.FC = () => {
+  const { selectedArea, setSelectedArea, getStatsForPolygon } = useTreeStore();
+  const { areas, addArea, renameArea, removeArea, exportGeoJSON, importGeoJSON } = useAreaWorkspaceStore();
+
+  const [newAreaName, setNewAreaName] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, AreaResult>>({});
+  const [showComparison, setShowComparison] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const drawnGeometry = selectedArea?.geojsonData?.geometry ?? null;
+
+  const loadResult = async (area: SavedArea) => {
+    setResults((prev) => ({ ...prev, [area.id]: { status: 'loading', stats: null, raster: null } }));
+    const [stats, raster] = await Promise.all([
+      getStatsForPolygon(toFeature(area.geometry)),
+      summariseAreaRasters(area.geometry).catch((error) => {
+        console.error(`Error reading rasters for area "${area.name}":`, error);
+        return null;
+      }),
+    ]);
+    setResults((prev) => ({
+      ...prev,
+      [area.id]: { status: stats || raster ? 'ready' : 'error', stats, raster },
+    }));
+  };
+
+  const handleCompare = (refresh = false) => {
+    setShowComparison(true);
+    areas
+      .filter((area) => refresh || !results[area.id] || results[area.id].status === 'error')
+      .forEach(loadResult);
+  };
+
+  const handleSave = () => {
+    if (!drawnGeometry) return;
+    const area = addArea(newAreaName.trim() || `Area ${areas.length + 1}`, drawnGeometry);
+    setNewAreaName('');
+    if (showComparison) loadResult(area);
+  };
+
+  const handleDelete = (area: SavedArea) => {
+    if (!window.confirm(`Delete area "${area.name}"?`)) return;
+    removeArea(area.id);
+    setResults((prev) => {
+      const next = { ...prev };
+      delete next[area.id];
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportGeoJSON()], { type: 'application/geo+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pune-saved-areas-${new Date().toISOString().slice(0, 10)}.geojson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      const count = importGeoJSON(await file.text());
+      setImportMessage(`Imported ${count} area${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error importing areas:', error);
+      setImportMessage('Could not read polygons from this file');
+    }
+    setTimeout(() => setImportMessage(null), 3000);
+  };
+
+  // Best value per row, highlighted when more than one area has data
+  const bestValue = (row: ComparisonRow): number | null => {
+    if (!row.better) return null;
+    const values = areas
+      .map((area) => (results[area.id]?.status === 'ready' ? row.value(results[area.id]) : null))
+      .filter((v): v is number => v != null);
+    if (values.length < 2) return null;
+    return row.better === 'high' ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="text-lg font-medium">Compare Areas</h3>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            title="Import areas from GeoJSON"
+          >
+            <Upload size={16} />
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={areas.length === 0}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Export areas as GeoJSON"
+          >
+            <Download size={16} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            className="hidden"
+            onChange={handleImport}
+          />
+          <InfoPopover titleContent="Comparing Areas">
+            <p>Draw an area on the map and save it under a name. Saved areas stay outlined on the map and are kept in this browser.</p>
+            <p className="mt-2">Compare shows census tree figures alongside satellite tree cover (Dynamic World, 2019 vs 2025) for every saved area. Export or import the list as GeoJSON to share it.</p>
+          </InfoPopover>
+        </div>
+      </div>
+      <div className="card-body space-y-3">
+        {/* Save the drawn area */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newAreaName}
+            onChange={(e) => setNewAreaName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={drawnGeometry ? `Area ${areas.length + 1}` : 'Draw an area on the map first'}
+            disabled={!drawnGeometry}
+            maxLength={60}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!drawnGeometry}
+            className="btn btn-outline py-1.5 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save the drawn area"
+          >
+            <Plus size={14} className="mr-1" /> Save
+          </button>
+        </div>
+
+        {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+
+        {areas.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">No saved areas yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {areas.map((area) => (
+              <AreaRow
+                key={area.id}
+                area={area}
+                isSelected={drawnGeometry === area.geometry}
+                onSelect={() => setSelectedArea({ type: 'geojson', geojsonData: toFeature(area.geometry) })}
+                onRename={(name) => renameArea(area.id, name)}
+                onDelete={() => handleDelete(area)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {areas.length > 0 && (
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleCompare()}
+              className="btn btn-primary flex-1 justify-center py-1.5 text-sm"
+            >
+              Compare {areas.length} area{areas.length === 1 ? '' : 's'}
+            </button>
+            {showComparison && (
+              <button
+                type="button"
+                onClick={() => handleCompare(true)}
+                className="btn btn-outline py-1.5 px-3"
+                title="Recalculate all areas"
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+          </div>
+        )}
+
+        {showComparison && areas.length > 0 && (
+          <div className="overflow-x-auto -mx-1">
+            <table className="min-w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-white px-2 py-2 text-left font-medium text-gray-500 border-b border-gray-200"></th>
+                  {areas.map((area) => (
+                    <th key={area.id} className="px-2 py-2 text-right font-medium text-gray-700 border-b border-gray-200 whitespace-nowrap">
+                      <span className="inline-block w-2 h-2 rounded-sm mr-1" style={{ backgroundColor: area.color }} />
+                      <span className="max-w-[100px] inline-block truncate align-bottom" title={area.name}>{area.name}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {COMPARISON_ROWS.map((row) => {
+                  const best = bestValue(row);
+                  return (
+                    <tr key={row.label} className="border-b border-gray-50">
+                      <td className="sticky left-0 bg-white px-2 py-1.5 text-gray-600 whitespace-nowrap">{row.label}</td>
+                      {areas.map((area) => {
+                        const result = results[area.id];
+                        if (!result || result.status === 'loading') {
+                          return (
+                            <td key={area.id} className="px-2 py-1.5 text-right text-gray-300">
+                              <Loader2 size={12} className="inline animate-spin" />
+                            </td>
+                          );
+                        }
+                        const value = row.value(result);
+                        return (
+                          <td
+                            key={area.id}
+                            className={`px-2 py-1.5 text-right tabular-nums ${
+                              value != null && value === best ? 'font-semibold text-primary-700' : 'text-gray-800'
+                            }`}
+                          >
+                            {value != null ? row.format(value) : '—'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+                <tr>
+                  <td className="sticky left-0 bg-white px-2 py-1.5 text-gray-600 whitespace-nowrap">Most common species</td>
+                  {areas.map((area) => {
+                    const top = results[area.id]?.stats?.species.top[0];
+                    const total = results[area.id]?.stats?.tree_count ?? 0;
+                    return (
+                      <td key={area.id} className="px-2 py-1.5 text-right text-gray-800">
+                        {top ? (
+                          <span title={top.name}>
+                            <span className="inline-block max-w-[90px] truncate align-bottom">{top.name}</span>{' '}
+                            <span className="text-gray-400">{fixed(0)(share(top.tree_count, total) ?? 0)}%</span>
+                          </span>
+                        ) : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-[11px] text-gray-400 mt-2 px-1">
+              Tree cover is the mean Dynamic World tree probability; loss and gain are shares of the area&apos;s pixels. Best values are highlighted.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AreaWorkspace;
@@ -1,13 +1,22 @@
 // src/components/sidebar/tabs/CityOverview.tsx
 import React, { useState, useEffect } from 'react';
 import { XCircle, Filter } from 'lucide-react';
-import { useTreeStore } from '../../../store/TreeStore';
+import { PolygonStats, useTreeStore } from '../../../store/TreeStore';
 import { useFilters } from '../../../store/FilterStore';
 import { ActiveFilterChips } from '../../filters';
 import InfoPopover from '../../common/InfoPopover';
-import { ChartSection, NeighbourhoodChart } from './charts';
+import AreaFileDrop from '../../common/AreaFileDrop';
+import { ChartSection, NeighbourhoodChart, NeighbourhoodStats } from './charts';
+import { ReportGenerator } from '../../report';
+import AreaWorkspace from './AreaWorkspace';
+import type { MapSnapshotFn } from '../../../utils/mapSnapshot';
 
-const CityOverview: React.FC = () => {
+interface CityOverviewProps {
+  captureMapSnapshot?: MapSnapshotFn;
+  hotspotLossThreshold?: number;
+}
+
+const CityOverview: React.FC<CityOverviewProps> = ({ captureMapSnapshot, hotspotLossThreshold }) => {
   const {
     cityStats,
     selectedArea,
@@ -27,12 +36,14 @@ const CityOverview: React.FC = () => {
   const [isCalculating, setIsCalculating] = useState(false);
   const [neighbourhoodTreeCount, setNeighbourhoodTreeCount] = useState(0);
   const [neighbourhoodCO2, setNeighbourhoodCO2] = useState(0);
+  const [neighbourhoodStats, setNeighbourhoodStats] = useState<PolygonStats | null>(null);
 
   useEffect(() => {
     const calculateStats = async () => {
         if (selectedArea && selectedArea.type === 'geojson' && selectedArea.geojsonData) {
             setIsCalculating(true);
             const polygonStats = await getStatsForPolygon(selectedArea.geojsonData);
+            setNeighbourhoodStats(polygonStats);
             if (polygonStats) {
                 setNeighbourhoodTreeCount(polygonStats.tree_count);
                 setNeighbourhoodCO2(polygonStats.co2_kg / 1000); // Convert kg to tons
@@ -50,6 +61,7 @@ const CityOverview: React.FC = () => {
     setSelectedArea(null); 
     setNeighbourhoodTreeCount(0);
     setNeighbourhoodCO2(0);
+    setNeighbourhoodStats(null);
   };
 
   // Determine display values - use filtered stats if filters are active
@@ -146,13 +158,15 @@ const CityOverview: React.FC = () => {
         <div className="card-header flex justify-between items-center">
           <h3 className="text-lg font-medium">Know Your Neighbourhood</h3>
           <InfoPopover titleContent="How to Use This Section">
-            <p>Use the drawing tools on the map (top-left) to select an area of interest. This section will then display pie charts comparing the tree count and CO₂ sequestration within your selected area against the rest of the city.</p>
+            <p>Use the drawing tools on the map (top-left) to select an area of interest, or upload an official boundary as GeoJSON, KML or a zipped Shapefile. This section will then display pie charts comparing the tree count and CO₂ sequestration within your selected area against the rest of the city.</p>
+            <p className="mt-2">Below the charts you'll find the area's canopy cover, street vs non-street split, species mix and diversity, size classes and the wards it covers.</p>
           </InfoPopover>
         </div>
         <div className="card-body">
           {!selectedArea?.geojsonData ? (
-            <div className="text-center py-4">
-              <p className="text-sm text-gray-500 mt-2">Use the drawing tools on the map to analyze a specific area.</p>
+            <div className="py-2 space-y-3">
+              <p className="text-sm text-gray-500 text-center">Use the drawing tools on the map to analyze a specific area.</p>
+              <AreaFileDrop />
             </div>
           ) : isCalculating ? (
             <div className="text-center py-4">
@@ -192,6 +206,11 @@ const CityOverview: React.FC = () => {
                   </div>
                 </div>
               </div>
+              {neighbourhoodStats && neighbourhoodStats.tree_count > 0 && (
+                <div className="pt-4 border-t border-gray-100">
+                  <NeighbourhoodStats stats={neighbourhoodStats} />
+                </div>
+              )}
               <div className="text-center mt-4">
                 <button className="btn btn-outline flex items-center mx-auto" onClick={clearDrawnSelection}>
                   <XCircle size={18} className="mr-2" /> Clear Selected Area
@@ -201,6 +220,13 @@ const CityOverview: React.FC = () => {
           )}
         </div>
       </div>
+
+      <AreaWorkspace />
+
+      <ReportGenerator
+        captureMapSnapshot={captureMapSnapshot}
+        hotspotLossThreshold={hotspotLossThreshold}
+      />
     </div>
   );
 };
@@ -44,75 +44,22 @@ import {
   Thermometer,
   Image,
   Leaf,
-  Loader2
+  Loader2,
+  SlidersHorizontal
 } from 'lucide-react';
 import { useGreenCoverStore } from '../../../store/GreenCoverStore';
+import { useActiveGreenScoreProfile } from '../../../store/GreenScoreProfileStore';
+import {
+  calculateGreenScore,
+  getScoreColor,
+  getScoreEmoji,
+  getScoreLabel,
+  wardGreenScoreInputs,
+} from '../../../utils/greenScore';
+import GreenScoreMethodology from './GreenScoreMethodology';
+import WardDetailPanel from './WardDetailPanel';
 import { useLayerLoadingStore, rasterLayerToStoreType } from '../../../store/LayerLoadingStore';
 
-// ============================================================================
-// GREEN SCORE CALCULATION
-// ============================================================================
-
-/**
- * Calculate Ward Green Score (0-100)
- * 
- * Formula combines:
- * - Tree cover % (40% weight) - higher is better
- * - Built-up % (30% weight) - lower is better (inverted)
- * - Change trend (20% weight) - positive change is better
- * - Census tree density (10% weight) - bonus for tree-rich areas
- */
-function calculateGreenScore(
-  treesPct: number,
-  builtPct: number,
-  netChangePct: number,
-  treeDensity: number // trees per hectare
-): number {
-  // Normalize tree cover (0-30% range typical for urban areas)
-  const treeScore = Math.min(100, (treesPct / 25) * 100);
-  
-  // Invert built-up (higher built = lower score)
-  const builtScore = Math.max(0, 100 - (builtPct / 90) * 100);
-  
-  // Change score (range roughly -10 to +10%)
-  const changeScore = 50 + (netChangePct * 5); // Center at 50, adjust by change
-  const normalizedChange = Math.max(0, Math.min(100, changeScore));
-  
-  // Tree density bonus (0-500 trees/ha is typical range)
-  const densityScore = Math.min(100, (treeDensity / 300) * 100);
-  
-  // Weighted combination
-  const score = (
-    treeScore * 0.40 +
-    builtScore * 0.30 +
-    normalizedChange * 0.20 +
-    densityScore * 0.10
-  );
-  
-  return Math.round(Math.max(0, Math.min(100, score)));
-}
-
-function getScoreColor(score: number): string {
-  if (score >= 70) return '#22c55e'; // Green - Good
-  if (score >= 50) return '#eab308'; // Yellow - Moderate
-  if (score >= 30) return '#f97316'; // Orange - At Risk
-  return '#ef4444'; // Red - Critical
-}
-
-function getScoreLabel(score: number): string {
-  if (score >= 70) return 'Good';
-  if (score >= 50) return 'Moderate';
-  if (score >= 30) return 'At Risk';
-  return 'Critical';
-}
-
-function getScoreEmoji(score: number): string {
-  if (score >= 70) return '🌳';
-  if (score >= 50) return '🌿';
-  if (score >= 30) return '⚠️';
-  return '🚨';
-}
-
 // ============================================================================
 // COMPONENTS
 // ============================================================================
@@ -598,7 +545,7 @@ const WardLeaderboard: React.FC<WardLeaderboardProps> = ({
       {/* Info footer */}
       <div className="px-3 py-2 bg-gradient-to-r from-blue-50 to-indigo-50 border-t text-xs text-gray-500 flex items-center gap-2">
         <Info size={12} />
-        <span>Click any row to fly to ward on map. Sort by clicking column headers.</span>
+        <span>Click any row for the ward&apos;s details and to fly to it on the map. Sort by clicking column headers.</span>
       </div>
     </div>
   );
@@ -656,6 +603,8 @@ interface GreenCoverMonitorProps {
   // Raster Overlay (continuous heatmap)
   rasterConfig?: RasterOverlayConfig;
   onRasterConfigChange?: (config: RasterOverlayConfig) => void;
+  // Opens a species profile from a ward's top species
+  onSpeciesSelect?: (commonName: string) => void;
 }
 
 const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
@@ -685,6 +634,7 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     opacity: 0.7
   },
   onRasterConfigChange,
+  onSpeciesSelect,
 }) => {
   // Use Zustand store for data (cached in localStorage)
   const {
@@ -695,7 +645,9 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     isLoading: loading,
     error,
     fetchAllData,
-    flyToWard
+    detailWardNumber,
+    openWardDetail,
+    closeWardDetail
   } = useGreenCoverStore();
   
   // Layer loading states for UI feedback
@@ -711,14 +663,14 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     fetchAllData();
   }, [fetchAllData]);
   
-  // Handle ward click - fly to ward on map and enable boundaries if needed
+  // Handle ward click - open its details, fly to it on the map and enable boundaries if needed
   const handleWardClick = (wardNumber: number) => {
     // Enable ward boundaries if not already visible
     if (!showWardBoundaries && onWardBoundariesToggle) {
       onWardBoundariesToggle(true);
     }
-    // Trigger map fly to ward
-    flyToWard(wardNumber);
+    // Show the drill-down panel and trigger map fly to ward
+    openWardDetail(wardNumber);
   };
   
   // UI State - use external year if provided, otherwise use internal state
@@ -757,6 +709,8 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     return () => clearInterval(interval);
   }, [playing, selectedYear]);
   
+  const greenScoreProfile = useActiveGreenScoreProfile();
+
   // Calculate city-wide green score
   const cityGreenScore = useMemo(() => {
     if (!timelineData?.years?.length) return 0;
@@ -765,19 +719,18 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     const treesPct = parseFloat(latestYear.avg_trees_pct);
     const builtPct = parseFloat(latestYear.avg_built_pct);
     
-    const netChange = timelineData.overall_2019_2025 
-      ? parseFloat(timelineData.overall_2019_2025.net_tree_change_ha) 
-      : 0;
     const totalArea = parseFloat(latestYear.total_trees_area_ha) + parseFloat(latestYear.total_built_area_ha);
-    const changePct = (netChange / totalArea) * 100;
+    const changePct = timelineData.overall_2019_2025 && totalArea > 0
+      ? (parseFloat(timelineData.overall_2019_2025.net_tree_change_ha) / totalArea) * 100
+      : null;
     
     // Safely handle wardStats - ensure it's an array
     const statsArray = Array.isArray(wardStats) ? wardStats : [];
     const totalTrees = statsArray.reduce((sum, w) => sum + (w.tree_count || 0), 0);
-    const treeDensity = totalArea > 0 ? totalTrees / (totalArea / 100) : 0; // trees per ha
+    const treeDensity = statsArray.length > 0 && totalArea > 0 ? totalTrees / totalArea : null; // trees per ha
     
-    return calculateGreenScore(treesPct, builtPct, changePct, treeDensity);
-  }, [timelineData, wardStats]);
+    return calculateGreenScore({ treesPct, builtPct, netChangePct: changePct, treeDensity }, greenScoreProfile);
+  }, [timelineData, wardStats, greenScoreProfile]);
   
   // Ward scores with rankings
   const wardScores = useMemo(() => {
@@ -793,43 +746,29 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
       const comparison = comparisonArray.find(c => c.ward_number === ward.ward_number);
       const census = statsArray.find(s => s.ward_number === ward.ward_number);
       
-      // Parse all values to numbers (API returns strings)
-      const treesPct = ward.trees_pct != null 
-        ? (typeof ward.trees_pct === 'string' ? parseFloat(ward.trees_pct) : ward.trees_pct)
-        : 0;
-      const builtPct = ward.built_pct != null
-        ? (typeof ward.built_pct === 'string' ? parseFloat(ward.built_pct) : ward.built_pct)
-        : 0;
-      const totalAreaM2 = ward.total_area_m2 != null
-        ? (typeof ward.total_area_m2 === 'string' ? parseFloat(ward.total_area_m2) : ward.total_area_m2)
-        : 1; // Avoid division by zero
+      const inputs = wardGreenScoreInputs(
+        ward,
+        comparison,
+        statsArray.length > 0 ? census?.tree_count ?? 0 : null
+      );
+      const score = calculateGreenScore(inputs, greenScoreProfile);
       
       const netChange = comparison ? parseFloat(comparison.net_tree_change_m2) / 10000 : 0;
       const builtChangeHa = comparison ? parseFloat(comparison.built_gained_m2) / 10000 : 0;
-      const totalArea = totalAreaM2 / 10000;
-      const changePct = (netChange / totalArea) * 100;
-      const treeDensity = census ? census.tree_count / totalArea : 0;
-      
-      const score = calculateGreenScore(
-        treesPct,
-        builtPct,
-        changePct,
-        treeDensity
-      );
       
       return {
         ...ward,
-        treesPct, // parsed number
-        builtPct, // parsed number
+        treesPct: inputs.treesPct, // parsed number
+        builtPct: inputs.builtPct, // parsed number
         score,
         netChangeHa: netChange,
         builtChangeHa, // built-up change in hectares
-        changePct,
+        changePct: inputs.netChangePct ?? 0,
         censusTreeCount: census?.tree_count || 0,
         censusSpecies: census?.species_count || 0
       };
     }).sort((a, b) => b.score - a.score);
-  }, [wardData, selectedYear, comparisonData, wardStats]);
+  }, [wardData, selectedYear, comparisonData, wardStats, greenScoreProfile]);
   
   // Tree cover trend values for sparkline
   const treesTrend = useMemo(() => {
@@ -955,6 +894,20 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
     );
   }
   
+  // Ward drill-down replaces the city view until closed
+  if (detailWardNumber != null) {
+    return (
+      <WardDetailPanel
+        wardNumber={detailWardNumber}
+        selectedYear={selectedYear}
+        hotspotLossThreshold={hotspotConfig.lossThreshold}
+        onNavigate={handleWardClick}
+        onClose={closeWardDetail}
+        onSpeciesSelect={onSpeciesSelect}
+      />
+    );
+  }
+  
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -1087,6 +1040,29 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
         selectedYear={selectedYear}
       />
       
+      {/* Score Methodology Section */}
+      <div className="border rounded-lg overflow-hidden">
+        <button
+          className="w-full p-3 flex items-center justify-between bg-gray-50 hover:bg-gray-100 transition-colors"
+          onClick={() => toggleSection('methodology')}
+        >
+          <span className="font-medium text-gray-700 flex items-center gap-2">
+            <SlidersHorizontal size={16} />
+            Score Methodology
+          </span>
+          <span className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 truncate max-w-[140px]">{greenScoreProfile.name}</span>
+            {expandedSection === 'methodology' ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </span>
+        </button>
+        
+        {expandedSection === 'methodology' && (
+          <div className="p-3">
+            <GreenScoreMethodology />
+          </div>
+        )}
+      </div>
+      
       {/* Advanced Mode */}
       {showAdvanced && (
         <div className="border rounded-lg p-3 bg-gray-50 space-y-3">
@@ -1126,7 +1102,7 @@ const GreenCoverMonitor: React.FC<GreenCoverMonitorProps> = ({
               <li>Land cover: Google Dynamic World V1 (10m resolution)</li>
               <li>Tree census: PMC Survey 2019 (1.79M trees)</li>
               <li>Ward boundaries: PMC Electoral Wards</li>
-              <li>Green Score: Composite of tree%, built%, change, density</li>
+              <li>Green Score: Weighted composite of tree%, built%, change, density (see Score Methodology)</li>
             </ul>
           </div>
         </div>
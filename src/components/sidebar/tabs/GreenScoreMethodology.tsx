@@ -0,0 +1,250 @@
+// src/components/sidebar/tabs/GreenScoreMethodology.tsx
+// Choose, tune, save and exchange the weights and normalisation behind the Green Score
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { useActiveGreenScoreProfile, useGreenScoreProfileStore } from '../../../store/GreenScoreProfileStore';
+import {
+  BUILT_IN_GREEN_SCORE_PROFILES,
+  GREEN_SCORE_FACTORS,
+  GREEN_SCORE_FACTOR_LABELS,
+  GreenScoreFactor,
+  GreenScoreNormalisation,
+  describeNormalisation,
+  isBuiltInGreenScoreProfile,
+} from '../../../utils/greenScore';
+
+// The normalisation setting that goes with each factor
+const NORMALISATION_FIELDS: Record<GreenScoreFactor, { key: keyof GreenScoreNormalisation; unit: string }> = {
+  treeCover: { key: 'treeCoverPct', unit: '%' },
+  builtUp: { key: 'builtUpPct', unit: '%' },
+  change: { key: 'changePct', unit: '±%' },
+  treeDensity: { key: 'treeDensityPerHa', unit: '/ha' },
+};
+
+interface NumberFieldProps {
+  value: number;
+  onCommit: (value: number) => void;
+  disabled: boolean;
+  /** Reject zero as well as negative values */
+  positive?: boolean;
+  label: string;
+}
+
+// Keeps its own text while typing so the field can be cleared; only valid numbers reach the profile
+const NumberField: React.FC<NumberFieldProps> = ({ value, onCommit, disabled, positive, label }) => {
+  const [text, setText] = useState(String(value));
+  useEffect(() => setText(String(value)), [value]);
+
+  return (
+    <input
+      type="number"
+      min={0}
+      value={text}
+      disabled={disabled}
+      aria-label={label}
+      onChange={(e) => {
+        setText(e.target.value);
+        const parsed = parseFloat(e.target.value);
+        if (Number.isFinite(parsed) && (positive ? parsed > 0 : parsed >= 0)) onCommit(parsed);
+      }}
+      onBlur={() => setText(String(value))}
+      className="input w-16 text-xs py-0.5 text-right disabled:bg-gray-50 disabled:text-gray-500"
+    />
+  );
+};
+
+const GreenScoreMethodology: React.FC = () => {
+  const {
+    profiles,
+    setActiveProfile,
+    saveProfile,
+    updateProfile,
+    deleteProfile,
+    exportProfiles,
+    importProfiles,
+  } = useGreenScoreProfileStore();
+  const profile = useActiveGreenScoreProfile();
+  const [newName, setNewName] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editable = !isBuiltInGreenScoreProfile(profile.id);
+  const totalWeight = GREEN_SCORE_FACTORS.reduce((sum, factor) => sum + profile.weights[factor], 0);
+
+  const handleSaveAs = () => {
+    if (!newName.trim()) return;
+    const { weights, normalisation } = profile;
+    saveProfile({ name: newName, description: `Based on ${profile.name}`, weights, normalisation });
+    setNewName('');
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pune-tree-green-score-profiles-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    try {
+      const count = importProfiles(await file.text());
+      setImportMessage(`Imported ${count} profile${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error importing score profiles:', error);
+      setImportMessage('Could not read profiles from this file');
+    }
+    setTimeout(() => setImportMessage(null), 3000);
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <select
+          value={profile.id}
+          onChange={(e) => setActiveProfile(e.target.value)}
+          className="input flex-1 text-sm py-1"
+          aria-label="Score profile"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_GREEN_SCORE_PROFILES.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </optgroup>
+          {profiles.length > 0 && (
+            <optgroup label="Saved">
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+          title="Import profiles from JSON"
+        >
+          <Upload size={14} />
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={profiles.length === 0}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Export saved profiles as JSON"
+        >
+          <Download size={14} />
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+      {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+
+      {editable ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => e.target.value.trim() && updateProfile(profile.id, { name: e.target.value })}
+            maxLength={80}
+            className="input flex-1 text-sm py-1"
+            aria-label="Profile name"
+          />
+          <button
+            type="button"
+            onClick={() => window.confirm(`Delete profile "${profile.name}"?`) && deleteProfile(profile.id)}
+            className="p-1 text-gray-400 hover:text-red-600 rounded"
+            title="Delete profile"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {profile.description} Built-in profiles can&apos;t be changed; save a copy to adjust it.
+        </p>
+      )}
+
+      {/* Weights and normalisation */}
+      <div className="space-y-2">
+        <div className="grid grid-cols-12 gap-1 text-[11px] font-medium text-gray-500">
+          <span className="col-span-5">Factor</span>
+          <span className="col-span-3 text-right">Weight</span>
+          <span className="col-span-4 text-right">Scale</span>
+        </div>
+        {GREEN_SCORE_FACTORS.map((factor) => {
+          const { key, unit } = NORMALISATION_FIELDS[factor];
+          const share = totalWeight > 0 ? (profile.weights[factor] / totalWeight) * 100 : 0;
+          return (
+            <div key={factor} className="border-b border-gray-100 pb-1.5">
+              <div className="grid grid-cols-12 gap-1 items-center">
+                <span className="col-span-5 text-gray-700 text-xs">{GREEN_SCORE_FACTOR_LABELS[factor]}</span>
+                <span className="col-span-3 flex items-center justify-end gap-1">
+                  <NumberField
+                    value={profile.weights[factor]}
+                    disabled={!editable}
+                    label={`${GREEN_SCORE_FACTOR_LABELS[factor]} weight`}
+                    onCommit={(value) => updateProfile(profile.id, { weights: { ...profile.weights, [factor]: value } })}
+                  />
+                </span>
+                <span className="col-span-4 flex items-center justify-end gap-1">
+                  <NumberField
+                    value={profile.normalisation[key]}
+                    disabled={!editable}
+                    positive
+                    label={`${GREEN_SCORE_FACTOR_LABELS[factor]} normalisation`}
+                    onCommit={(value) => updateProfile(profile.id, { normalisation: { ...profile.normalisation, [key]: value } })}
+                  />
+                  <span className="text-[10px] text-gray-500 w-6">{unit}</span>
+                </span>
+              </div>
+              <p className="text-[10px] text-gray-400 mt-0.5">
+                {Math.round(share)}% of the score · {describeNormalisation(factor, profile.normalisation)}
+              </p>
+            </div>
+          );
+        })}
+        {totalWeight === 0 && (
+          <p className="text-xs text-red-600">Give at least one factor a weight, or every ward scores 0.</p>
+        )}
+      </div>
+
+      {/* Save a copy */}
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSaveAs()}
+          placeholder="Name a copy of this profile..."
+          maxLength={80}
+          className="input flex-1 text-sm py-1"
+        />
+        <button
+          type="button"
+          onClick={handleSaveAs}
+          disabled={!newName.trim()}
+          className="btn btn-outline text-xs inline-flex items-center gap-1 disabled:opacity-40"
+        >
+          <Save size={14} />
+          Save as
+        </button>
+      </div>
+
+      <p className="text-[11px] text-gray-400">
+        Each factor is turned into a 0–100 sub-score, then the sub-scores are averaged using the weights
+        (weights are relative, so 2:1 works the same as 40:20). Factors with no data for a ward are left out.
+        The chosen profile is used for the leaderboard, the ward map and printed reports; export profiles to share
+        a methodology with other organisations.
+      </p>
+    </div>
+  );
+};
+
+export default GreenScoreMethodology;
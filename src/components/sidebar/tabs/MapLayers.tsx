@@ -3,6 +3,7 @@ import React, { useState } from 'react';
 import { Layers as LayersIcon, Thermometer, Zap } from 'lucide-react';
 import { LightConfig } from './LightAndShadowControl';
 import LightAndShadowControl from './LightAndShadowControl';
+import ObservationLayerControl from './ObservationLayerControl';
 
 export type ShadowQuality = 'low' | 'medium' | 'high' | 'ultra';
 
@@ -196,6 +197,9 @@ const MapLayers: React.FC<MapLayersProps> = ({
         </div></div>
       </div>
 
+      {/* Field Observations Card */}
+      <ObservationLayerControl is3D={is3D} />
+
       {/* Legend Card */}
       <div className="card">
         <div className="card-header"><h3 className="font-medium">Legend</h3></div>
@@ -0,0 +1,95 @@
+// src/components/sidebar/tabs/ObservationLayerControl.tsx
+// Map Layers card for the field observation layer: visibility, status and date filters
+
+import React from 'react';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import { ObservationWindow, useTreeObservationStore } from '../../../store/TreeObservationStore';
+import { TREE_STATUS_OPTIONS, TreeStatus } from '../../../types/observations';
+
+const WINDOW_OPTIONS: { value: ObservationWindow; label: string }[] = [
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+  { value: 365, label: 'Last year' },
+  { value: null, label: 'All time' },
+];
+
+const ObservationLayerControl: React.FC<{ is3D: boolean }> = ({ is3D }) => {
+  const {
+    showLayer, statusFilter, window, points, isLoadingPoints, pointsError,
+    setShowLayer, setStatusFilter, setWindow,
+  } = useTreeObservationStore();
+
+  const toggleStatus = (status: TreeStatus) => {
+    setStatusFilter(
+      statusFilter.includes(status) ? statusFilter.filter((s) => s !== status) : [...statusFilter, status]
+    );
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header"><h3 className="font-medium">Field Observations</h3></div>
+      <div className="card-body space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center">
+            <ClipboardList size={18} className="text-gray-500 mr-2" />
+            <div>
+              <div className="font-medium">Reported Condition</div>
+              <div className="text-xs text-gray-500">Latest volunteer report per tree</div>
+            </div>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input type="checkbox" className="sr-only peer" checked={showLayer} onChange={(e) => setShowLayer(e.target.checked)} />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-600"></div>
+          </label>
+        </div>
+
+        {showLayer && (
+          <>
+            <div className="flex flex-wrap gap-1.5">
+              {TREE_STATUS_OPTIONS.map((option) => {
+                const active = statusFilter.length === 0 || statusFilter.includes(option.value);
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleStatus(option.value)}
+                    className={`flex items-center px-2 py-1 rounded-full text-xs border transition-colors ${
+                      active ? 'border-gray-300 bg-white text-gray-800' : 'border-gray-200 bg-gray-50 text-gray-400'
+                    }`}
+                  >
+                    <span
+                      className="w-2.5 h-2.5 rounded-full mr-1.5 border-2"
+                      style={{ borderColor: option.color, backgroundColor: active ? `${option.color}40` : 'transparent' }}
+                    />
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+            <select
+              value={window ?? 'all'}
+              onChange={(e) => setWindow(e.target.value === 'all' ? null : (Number(e.target.value) as ObservationWindow))}
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500"
+            >
+              {WINDOW_OPTIONS.map((option) => (
+                <option key={option.label} value={option.value ?? 'all'}>{option.label}</option>
+              ))}
+            </select>
+            <div className="text-xs text-gray-500 flex items-center">
+              {isLoadingPoints ? (
+                <><Loader2 size={12} className="animate-spin mr-1" /> Loading reports...</>
+              ) : pointsError ? (
+                <span className="text-red-600">{pointsError}</span>
+              ) : points ? (
+                `${points.features.length.toLocaleString()} trees shown`
+              ) : null}
+            </div>
+            {is3D && <p className="text-xs text-amber-600">Switch to 2D view to see reported trees.</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ObservationLayerControl;
@@ -1,60 +1,36 @@
 // src/components/sidebar/tabs/PlantingAdvisor.tsx
-import React, { useState, useEffect, useMemo } from 'react';
-import { TreeDeciduous, Thermometer, Scaling, Bot, MapPin, PlayCircle, XCircle, CheckCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { TreeDeciduous, Thermometer, Scaling, Bot, MapPin, PlayCircle, XCircle, CheckCircle, Loader2 } from 'lucide-react';
 import { useTreeStore, TreeSpeciesData, ArchetypeData } from '../../../store/TreeStore';
-import * as turf from '@turf/turf';
 import type { Feature, Polygon, MultiPolygon } from 'geojson';
-
-// The generateTreeCentersJS helper function remains unchanged and is included here for completeness.
-const generateTreeCentersJS = (
-  polygonFeature: Feature<Polygon | MultiPolygon>,
-  canopyDiameterMeters: number,
-  boundaryBufferMeters: number,
-  treeSpacingBufferMeters: number
-): [number, number][] => {
-  if (!polygonFeature || !polygonFeature.geometry) return [];
-  const canopyRadiusMeters = canopyDiameterMeters / 2.0;
-  const effectiveRadiusMeters = canopyRadiusMeters + treeSpacingBufferMeters;
-  const totalInsetMeters = boundaryBufferMeters + effectiveRadiusMeters;
-  if (canopyDiameterMeters <= 0 || effectiveRadiusMeters <=0) return [];
-  let plantingZone: Feature<Polygon | MultiPolygon> | null | undefined = null;
-  try {
-    plantingZone = turf.buffer(polygonFeature, -Math.abs(totalInsetMeters), { units: 'meters' });
-  } catch (error) { return []; }
-  if (!plantingZone || !plantingZone.geometry || turf.area(plantingZone) === 0) return [];
-  const dxMeters = 2 * effectiveRadiusMeters;
-  const dyMeters = Math.sqrt(3) * effectiveRadiusMeters;
-  if (dxMeters <= 1e-6 || dyMeters <= 1e-6) return [];
-  const plantingZoneBounds = turf.bbox(plantingZone);
-  const treeCenters: [number, number][] = [];
-  const avgLat = (plantingZoneBounds[1] + plantingZoneBounds[3]) / 2;
-  const metersPerDegreeLat = 111132.954 - 559.822 * Math.cos(2 * avgLat * (Math.PI/180)) + 1.175 * Math.cos(4 * avgLat * (Math.PI/180));
-  const metersPerDegreeLon = (Math.PI/180) * 6378137 * Math.cos(avgLat * Math.PI/180);
-  const dxDeg = dxMeters / metersPerDegreeLon;
-  const dyDeg = dyMeters / metersPerDegreeLat;
-  if (!isFinite(dxDeg) || !isFinite(dyDeg) || dxDeg <= 1e-9 || dyDeg <= 1e-9 ) return [];
-  let row = 0;
-  for (let y = plantingZoneBounds[1]; y <= plantingZoneBounds[3]; y += dyDeg) {
-    const xOffsetInDegrees = (row % 2 === 0) ? 0 : (0.5 * dxDeg);
-    for (let x = plantingZoneBounds[0] + xOffsetInDegrees; x <= plantingZoneBounds[2]; x += dxDeg) {
-      if (turf.booleanPointInPolygon([x, y], plantingZone)) treeCenters.push([x, y]);
-    }
-    row++;
-  }
-  return treeCenters;
-};
-
+import AreaFileDrop from '../../common/AreaFileDrop';
+import {
+  BuildingFootprintFn,
+  DEFAULT_SITE_EXCLUSIONS,
+  PlantingSites,
+  SiteExclusionSettings,
+  planPlantingSites,
+} from '../../../utils/plantingLayout';
+import SpeciesMixPlanner from './SpeciesMixPlanner';
+import SiteExclusionControls, { SiteExclusionSummary } from './SiteExclusionControls';
+import PlantingScenarios from './PlantingScenarios';
+import GrowthProjection from '../../common/GrowthProjection';
+import { ScenarioParameters, ScenarioPlanting, ScenarioRun, toScenarioPlanting } from '../../../utils/plantingScenario';
 
 interface PlantingAdvisorProps {
   setShowTemperatureChart: (show: boolean) => void; 
   onSpeciesChangeForChart: (speciesDetails: ArchetypeData | null) => void;
+  queryBuildingFootprints?: BuildingFootprintFn;
 }
 
-const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureChart, onSpeciesChangeForChart }) => {
+const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureChart, onSpeciesChangeForChart, queryBuildingFootprints }) => {
   const { 
     treeSpeciesData, 
     selectedArea, 
-    setSimulatedPlantingPoints 
+    simulatedPlantingPoints,
+    simulatedPlantingGroups,
+    setSimulatedPlantingPoints,
+    setSimulatedPlantingGroups
   } = useTreeStore();
   
   const [selectedSpecies, setSelectedSpecies] = useState<TreeSpeciesData | null>(null);
@@ -63,13 +39,22 @@ const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureCha
   const [canopyDiameterInput, setCanopyDiameterInput] = useState<number>(8); 
   const [boundaryBufferInput, setBoundaryBufferInput] = useState<number>(2); 
   const [treeSpacingBufferInput, setTreeSpacingBufferInput] = useState<number>(1); 
+  const [siteExclusions, setSiteExclusions] = useState<SiteExclusionSettings>(DEFAULT_SITE_EXCLUSIONS);
   
   const [showSimulationResults, setShowSimulationResults] = useState(false);
   const [simulationCount, setSimulationCount] = useState(0);
+  const [simulationSites, setSimulationSites] = useState<PlantingSites | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [currentRun, setCurrentRun] = useState<ScenarioRun | null>(null);
 
   const isAreaDefinedForPlanting = useMemo(() => !!(selectedArea && selectedArea.type === 'geojson' && selectedArea.geojsonData), [selectedArea]);
   const topPerformers = useMemo(() => treeSpeciesData.slice(0, 3), [treeSpeciesData]);
 
+  // The run can only be saved while it is still what the map shows
+  const savableRun = currentRun && (currentRun.parameters.mode === 'mix'
+    ? simulatedPlantingGroups.length > 0
+    : simulatedPlantingPoints.length > 0) ? currentRun : null;
+
   // Effect to update the details displayed when an archetype is selected
   useEffect(() => {
     if (selectedArchetype) {
@@ -115,17 +100,47 @@ const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureCha
     setSelectedArchetype(species.representative_archetype);
   };
 
-  const handleSimulatePlanting = () => {
+  // Planting positions for a canopy size, with the site exclusions applied; shared with the species mix
+  const placeTrees = useCallback((canopyDiameter: number) => {
+    const polygonFeature = selectedArea?.geojsonData as Feature<Polygon | MultiPolygon>;
+    return planPlantingSites(polygonFeature, canopyDiameter, boundaryBufferInput, treeSpacingBufferInput, siteExclusions, queryBuildingFootprints);
+  }, [selectedArea, boundaryBufferInput, treeSpacingBufferInput, siteExclusions, queryBuildingFootprints]);
+
+  const runParameters = () => ({ boundaryBuffer: boundaryBufferInput, spacing: treeSpacingBufferInput, exclusions: siteExclusions });
+
+  const handleMixApplied = (plantings: ScenarioPlanting[], parameters: Pick<ScenarioParameters, 'canopyDiameter' | 'mix'>) => {
+    setCurrentRun({ parameters: { ...runParameters(), ...parameters, mode: 'mix' }, plantings });
+    setShowTemperatureChart(true);
+  };
+
+  // A saved scenario has replaced whatever was simulated
+  const handleScenarioShown = () => {
+    setCurrentRun(null);
+    setShowSimulationResults(false);
+    setSimulationCount(0);
+    setShowTemperatureChart(true);
+  };
+
+  const handleSimulatePlanting = async () => {
     if (!isAreaDefinedForPlanting || !selectedArea?.geojsonData) return alert("Please draw an area on the map.");
     if (!selectedArchetype) return alert("Please select a tree species and an archetype.");
     
-    const polygonFeature = selectedArea.geojsonData as Feature<Polygon | MultiPolygon>;
-    const centers = generateTreeCentersJS(polygonFeature, canopyDiameterInput, boundaryBufferInput, treeSpacingBufferInput);
-    
-    setSimulatedPlantingPoints(centers); 
-    setSimulationCount(centers.length); 
-    setShowSimulationResults(true);
-    if (centers.length > 0) setShowTemperatureChart(true);
+    setIsSimulating(true);
+    try {
+      const sites = await placeTrees(canopyDiameterInput);
+      setSimulatedPlantingGroups([]);
+      setSimulatedPlantingPoints(sites.spots); 
+      setSimulationCount(sites.spots.length); 
+      setSimulationSites(sites);
+      setShowSimulationResults(true);
+      setCurrentRun(sites.spots.length > 0 ? {
+        parameters: { ...runParameters(), mode: 'single', canopyDiameter: canopyDiameterInput, mix: null },
+        plantings: [toScenarioPlanting(selectedArchetype, sites.spots)],
+      } : null);
+      if (sites.spots.length > 0) setShowTemperatureChart(true);
+    } finally {
+      setIsSimulating(false);
+    }
   };
   
   const handleClearSimulation = () => {
@@ -209,6 +224,7 @@ const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureCha
                 <div className="bg-gray-50 p-2 rounded-md text-center"><p className="font-semibold text-gray-600">Canopy</p><p className="mt-0.5">{selectedArchetype.canopy_dia_m_min} - {selectedArchetype.canopy_dia_m_max} m</p></div>
             </div></div>
             <div><h4 className="font-medium text-gray-700 mb-2 flex items-center"><Bot size={18} className="mr-2 text-teal-500" /> CO₂ Sequestration</h4><div className="bg-teal-50 p-3 rounded-md"><p className="text-lg font-semibold text-teal-700 text-center">{selectedArchetype.co2_seq_kg_min.toFixed(1)} - {selectedArchetype.co2_seq_kg_max.toFixed(1)} kg/tree</p></div></div>
+            <div><h4 className="font-medium text-gray-700 mb-2">Growth of a New Planting</h4><GrowthProjection tree={{ common_name: selectedArchetype.common_name }} metrics={['co2_absorbed_kg', 'co2_annual_kg', 'height_m', 'canopy_dia_m']} /></div>
           </div>
         </div>
       )}
@@ -218,22 +234,34 @@ const PlantingAdvisor: React.FC<PlantingAdvisorProps> = ({ setShowTemperatureCha
         <div className="card-header flex justify-between items-center"><h3 className="text-lg font-medium flex items-center"><MapPin size={20} className="mr-2 text-green-600" />Planting Area Simulation</h3></div>
         <div className="card-body space-y-4">
           {!isAreaDefinedForPlanting && (<div className="p-4 bg-yellow-50 border border-yellow-300 rounded-md text-center"><p className="text-sm text-yellow-700">Please draw an area on the map to enable simulation.</p></div>)}
+          {!isAreaDefinedForPlanting && <AreaFileDrop />}
           {isAreaDefinedForPlanting && !selectedArchetype && (<div className="p-4 bg-orange-50 border border-orange-300 rounded-md text-center"><p className="text-sm text-orange-700">Please select a species and profile above.</p></div>)}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 items-start">
             <div className="flex flex-col"><label htmlFor="canopy-diameter" className="block text-xs font-medium text-gray-700 mb-0.5">Canopy Dia. (m)</label><input type="number" id="canopy-diameter" className="input text-sm w-full" value={canopyDiameterInput} onChange={e => setCanopyDiameterInput(parseFloat(e.target.value))} step="0.5" min="1" disabled={!selectedArchetype} /></div>
             <div className="flex flex-col"><label htmlFor="boundary-buffer" className="block text-xs font-medium text-gray-700 mb-0.5">Boundary (m)</label><input type="number" id="boundary-buffer" className="input text-sm w-full" value={boundaryBufferInput} onChange={e => setBoundaryBufferInput(parseFloat(e.target.value))} step="0.5" min="0" disabled={!selectedArchetype}/></div>
             <div className="flex flex-col"><label htmlFor="tree-spacing" className="block text-xs font-medium text-gray-700 mb-0.5">Spacing (m)</label><input type="number" id="tree-spacing" className="input text-sm w-full" value={treeSpacingBufferInput} onChange={e => setTreeSpacingBufferInput(parseFloat(e.target.value))} step="0.5" min="0" disabled={!selectedArchetype}/></div>
           </div>
-          <button className="btn btn-primary w-full flex items-center justify-center" onClick={handleSimulatePlanting} disabled={!isAreaDefinedForPlanting || !selectedArchetype}><PlayCircle size={18} className="mr-2" /> Simulate Planting</button>
+          <SiteExclusionControls value={siteExclusions} onChange={setSiteExclusions} disabled={!isAreaDefinedForPlanting} />
+          <button className="btn btn-primary w-full flex items-center justify-center" onClick={handleSimulatePlanting} disabled={!isAreaDefinedForPlanting || !selectedArchetype || isSimulating}>{isSimulating ? <Loader2 size={18} className="mr-2 animate-spin" /> : <PlayCircle size={18} className="mr-2" />} Simulate Planting</button>
           {showSimulationResults && (
             <div className="mt-4 p-4 bg-green-50 border border-green-300 rounded-md animate-fade-in">
               <h4 className="text-md font-semibold text-green-700 mb-2">Simulation Results:</h4>
               <p className="text-sm text-green-600">Based on the area and parameters, approximately <span className="font-bold">{simulationCount}</span> trees of <span className="font-bold">{selectedArchetype?.common_name || ''}</span> could be planted.</p>
+              {simulationSites && <div className="mt-2"><SiteExclusionSummary sites={simulationSites} /></div>}
               <button className="btn btn-outline btn-sm mt-3 text-xs" onClick={handleClearSimulation}><XCircle size={16} className="mr-1" /> Clear Simulation</button>
             </div>
           )}
         </div>
       </div>
+
+      <SpeciesMixPlanner
+        area={isAreaDefinedForPlanting ? selectedArea?.geojsonData as Feature<Polygon | MultiPolygon> : null}
+        placeTrees={placeTrees}
+        onBeforeApply={handleClearSimulation}
+        onApplied={handleMixApplied}
+      />
+
+      <PlantingScenarios currentRun={savableRun} onShow={handleScenarioShown} />
     </div>
   );
 };
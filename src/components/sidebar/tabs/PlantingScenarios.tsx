@@ -0,0 +1,364 @@
+// src/components/sidebar/tabs/PlantingScenarios.tsx
+// Saved planting scenarios: name a simulation, compare saved ones side by side and export tree positions
+
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Check, FileJson, FileSpreadsheet, Layers, Loader2, MapPin, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { Feature } from 'geojson';
+import { useTreeStore } from '../../../store/TreeStore';
+import { usePlantingScenarioStore } from '../../../store/PlantingScenarioStore';
+import { AREA_COLORS, AreaGeometry } from '../../../store/AreaWorkspaceStore';
+import { formatCo2 } from '../../../utils/growthProjection';
+import { getMixMarkerStyle, mixMarkerIconId } from '../../../utils/speciesMix';
+import {
+  PlantingScenario,
+  SCENARIO_CO2_YEARS,
+  ScenarioRun,
+  buildPlantingScenario,
+  scenarioToCSV,
+  scenarioToGeoJSON,
+} from '../../../utils/plantingScenario';
+import InfoPopover from '../../common/InfoPopover';
+
+interface ComparisonRow {
+  label: string;
+  value: (scenario: PlantingScenario) => number | null;
+  format: (value: number) => string;
+  // Which end of the row is highlighted as best
+  better?: 'high' | 'low';
+}
+
+const fixed = (digits: number) => (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+const celsius = (digits: number) => (value: number) => `${value.toFixed(digits)}°C`;
+
+const co2AtYear = (scenario: PlantingScenario, year: number) => {
+  const projection = scenario.summary.co2Projection;
+  const index = projection ? projection.years.indexOf(year) : -1;
+  return projection && index !== -1 ? projection.absorbedKg[index] : null;
+};
+
+const scenarioColor = (index: number) => AREA_COLORS[index % AREA_COLORS.length];
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'Area (ha)', value: (s) => s.summary.areaHa, format: fixed(2) },
+  { label: 'Trees', value: (s) => s.summary.treeCount, format: fixed(0), better: 'high' },
+  { label: 'Species', value: (s) => s.summary.speciesCount, format: fixed(0), better: 'high' },
+  { label: 'Canopy / slot (m)', value: (s) => s.parameters.canopyDiameter, format: fixed(1) },
+  { label: 'Spacing (m)', value: (s) => s.parameters.spacing, format: fixed(1) },
+  ...SCENARIO_CO2_YEARS.map((years): ComparisonRow => ({
+    label: `CO₂ absorbed, ${years} yr (t)`,
+    value: (s) => {
+      const kg = co2AtYear(s, years);
+      return kg != null ? kg / 1000 : null;
+    },
+    format: fixed(1),
+    better: 'high',
+  })),
+  { label: 'Mean cooling', value: (s) => s.summary.cooling?.meanCooling ?? null, format: celsius(2), better: 'high' },
+  { label: 'Hot spots after', value: (s) => s.summary.cooling?.hotSpotAfter ?? null, format: celsius(1), better: 'low' },
+  {
+    label: 'Area cooled ≥ 1°C',
+    value: (s) => (s.summary.cooling ? s.summary.cooling.shareCooled1C * 100 : null),
+    format: (v) => `${v.toFixed(0)}%`,
+    better: 'high',
+  },
+];
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+
+const describePlanting = (scenario: PlantingScenario) =>
+  scenario.parameters.mode === 'mix'
+    ? `${scenario.summary.speciesCount}-species mix`
+    : scenario.plantings[0]?.commonName ?? '—';
+
+const ScenarioRow: React.FC<{
+  scenario: PlantingScenario;
+  onShow: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}> = ({ scenario, onShow, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(scenario.name);
+
+  const commitRename = () => {
+    if (draftName.trim()) onRename(draftName);
+    setIsEditing(false);
+  };
+
+  const baseName = `pune-planting-${fileSlug(scenario.name)}-${scenario.createdAt.slice(0, 10)}`;
+
+  if (isEditing) {
+    return (
+      <li className="flex items-center gap-1 py-1">
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitRename();
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          maxLength={60}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <button type="button" onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded" title="Save name">
+          <Check size={14} />
+        </button>
+        <button type="button" onClick={() => setIsEditing(false)} className="p-1 text-gray-400 hover:bg-gray-100 rounded" title="Cancel">
+          <X size={14} />
+        </button>
+      </li>
+    );
+  }
+
+  return (
+    <li className="group flex items-center gap-1 py-1">
+      <div className="flex-1 min-w-0">
+        <p className="truncate text-sm text-gray-700">{scenario.name}</p>
+        <p className="truncate text-xs text-gray-400">{scenario.summary.treeCount} trees · {describePlanting(scenario)}</p>
+      </div>
+      <div className="flex items-center opacity-60 group-hover:opacity-100 transition-opacity">
+        <button type="button" onClick={onShow} className="p-1 text-gray-400 hover:text-primary-600 rounded" title="Show on the map">
+          <MapPin size={13} />
+        </button>
+        <button
+          type="button"
+          onClick={() => download(scenarioToGeoJSON(scenario), 'application/geo+json', `${baseName}.geojson`)}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+          title="Export tree positions as GeoJSON"
+        >
+          <FileJson size={13} />
+        </button>
+        <button
+          type="button"
+          onClick={() => download(scenarioToCSV(scenario), 'text/csv;charset=utf-8;', `${baseName}.csv`)}
+          className="p-1 text-gray-400 hover:text-gray-600 rounded"
+          title="Export tree positions as CSV"
+        >
+          <FileSpreadsheet size={13} />
+        </button>
+        <button type="button" onClick={() => { setDraftName(scenario.name); setIsEditing(true); }} className="p-1 text-gray-400 hover:text-gray-600 rounded" title="Rename">
+          <Pencil size={13} />
+        </button>
+        <button type="button" onClick={onDelete} className="p-1 text-gray-400 hover:text-red-600 rounded" title="Delete">
+          <Trash2 size={13} />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+interface PlantingScenariosProps {
+  /** The simulation on the map, or null when there is nothing to save */
+  currentRun: ScenarioRun | null;
+  /** Called after a saved scenario has been put on the map */
+  onShow: () => void;
+}
+
+const PlantingScenarios: React.FC<PlantingScenariosProps> = ({ currentRun, onShow }) => {
+  const { selectedArea, setSelectedArea, setSimulatedPlantingPoints, setSimulatedPlantingGroups } = useTreeStore();
+  const { scenarios, addScenario, renameScenario, removeScenario } = usePlantingScenarioStore();
+
+  const [newScenarioName, setNewScenarioName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const area = selectedArea?.geojsonData?.geometry ?? null;
+  const canSave = !!currentRun && !!area && !isSaving;
+
+  const handleSave = async () => {
+    if (!currentRun || !area) return;
+    setIsSaving(true);
+    try {
+      const scenario = await buildPlantingScenario(
+        newScenarioName.trim() || `Scenario ${scenarios.length + 1}`,
+        area,
+        currentRun.parameters,
+        currentRun.plantings
+      );
+      addScenario(scenario);
+      setNewScenarioName('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Every species goes on the map as its own marker group, whether the scenario was a mix or not
+  const handleShow = (scenario: PlantingScenario) => {
+    const feature: Feature<AreaGeometry> = { type: 'Feature', properties: {}, geometry: scenario.area };
+    setSelectedArea({ type: 'geojson', geojsonData: feature });
+    setSimulatedPlantingPoints([]);
+    setSimulatedPlantingGroups(
+      scenario.plantings.map((planting, index) => ({
+        label: planting.commonName,
+        icon: mixMarkerIconId(getMixMarkerStyle(index)),
+        points: planting.points,
+        cooling: planting.cooling,
+      }))
+    );
+    onShow();
+  };
+
+  const handleDelete = (scenario: PlantingScenario) => {
+    if (!window.confirm(`Delete scenario "${scenario.name}"?`)) return;
+    removeScenario(scenario.id);
+  };
+
+  // One row per projected year with each scenario's absorbed CO₂, for the comparison chart
+  const co2ChartData = useMemo(() => {
+    const years = [...new Set(scenarios.flatMap((s) => s.summary.co2Projection?.years ?? []))].sort((a, b) => a - b);
+    return years.map((year) => ({
+      year,
+      ...Object.fromEntries(scenarios.map((s) => [s.id, co2AtYear(s, year)])),
+    }));
+  }, [scenarios]);
+
+  // Best value per row, highlighted when more than one scenario has data
+  const bestValue = (row: ComparisonRow): number | null => {
+    if (!row.better) return null;
+    const values = scenarios.map(row.value).filter((v): v is number => v != null);
+    if (values.length < 2) return null;
+    return row.better === 'high' ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="text-lg font-medium flex items-center"><Layers size={20} className="mr-2 text-green-600" />Planting Scenarios</h3>
+        <InfoPopover titleContent="Planting Scenarios">
+          <p>Save the simulation on the map under a name to compare it with other species, spacing or clearance choices. Scenarios are kept in this browser.</p>
+          <p className="mt-2">CO₂ is projected over 50 years from growth curves fitted to each species&apos; census trees, assuming every tree survives. Cooling is the hot-day (P90) prediction for the area.</p>
+          <p className="mt-2">Export tree positions as GeoJSON or CSV (WGS84 longitude/latitude) to hand to planting contractors.</p>
+        </InfoPopover>
+      </div>
+      <div className="card-body space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newScenarioName}
+            onChange={(e) => setNewScenarioName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && canSave && handleSave()}
+            placeholder={currentRun ? `Scenario ${scenarios.length + 1}` : 'Simulate a planting first'}
+            disabled={!currentRun || !area}
+            maxLength={60}
+            className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50"
+          />
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="btn btn-outline py-1.5 px-3 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Save the simulation on the map"
+          >
+            {isSaving ? <Loader2 size={14} className="mr-1 animate-spin" /> : <Plus size={14} className="mr-1" />} Save
+          </button>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">No saved scenarios yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {scenarios.map((scenario) => (
+              <ScenarioRow
+                key={scenario.id}
+                scenario={scenario}
+                onShow={() => handleShow(scenario)}
+                onRename={(name) => renameScenario(scenario.id, name)}
+                onDelete={() => handleDelete(scenario)}
+              />
+            ))}
+          </ul>
+        )}
+
+        {scenarios.length > 0 && (
+          <div className="overflow-x-auto -mx-1">
+            <table className="min-w-full text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="sticky left-0 bg-white px-2 py-2 text-left font-medium text-gray-500 border-b border-gray-200"></th>
+                  {scenarios.map((scenario, index) => (
+                    <th key={scenario.id} className="px-2 py-2 text-right font-medium text-gray-700 border-b border-gray-200 whitespace-nowrap">
+                      <span className="inline-block w-2 h-2 rounded-sm mr-1" style={{ backgroundColor: scenarioColor(index) }} />
+                      <span className="max-w-[100px] inline-block truncate align-bottom" title={scenario.name}>{scenario.name}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-gray-50">
+                  <td className="sticky left-0 bg-white px-2 py-1.5 text-gray-600 whitespace-nowrap">Planting</td>
+                  {scenarios.map((scenario) => (
+                    <td key={scenario.id} className="px-2 py-1.5 text-right text-gray-800">
+                      <span className="inline-block max-w-[100px] truncate align-bottom" title={describePlanting(scenario)}>{describePlanting(scenario)}</span>
+                    </td>
+                  ))}
+                </tr>
+                {COMPARISON_ROWS.map((row) => {
+                  const best = bestValue(row);
+                  return (
+                    <tr key={row.label} className="border-b border-gray-50">
+                      <td className="sticky left-0 bg-white px-2 py-1.5 text-gray-600 whitespace-nowrap">{row.label}</td>
+                      {scenarios.map((scenario) => {
+                        const value = row.value(scenario);
+                        return (
+                          <td
+                            key={scenario.id}
+                            className={`px-2 py-1.5 text-right tabular-nums ${
+                              value != null && value === best ? 'font-semibold text-primary-700' : 'text-gray-800'
+                            }`}
+                          >
+                            {value != null ? row.format(value) : '—'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {co2ChartData.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs font-medium text-gray-600 px-1 mb-1">CO₂ absorbed over 50 years</p>
+                <ResponsiveContainer width="100%" height={180}>
+                  <LineChart data={co2ChartData} margin={{ top: 4, right: 8, bottom: 0, left: -8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                    <XAxis dataKey="year" tick={{ fontSize: 10 }} tickFormatter={(year) => `${year}y`} />
+                    <YAxis tick={{ fontSize: 10 }} tickFormatter={(kg: number) => `${kg / 1000}t`} />
+                    <Tooltip formatter={(kg) => formatCo2(Number(kg))} labelFormatter={(year) => `After ${year} years`} />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {scenarios.map((scenario, index) => (
+                      <Line
+                        key={scenario.id}
+                        dataKey={scenario.id}
+                        name={scenario.name}
+                        stroke={scenarioColor(index)}
+                        strokeWidth={2}
+                        dot={false}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <p className="text-[11px] text-gray-400 mt-2 px-1">
+              CO₂ is what the trees absorb from planting onwards, projected from each species&apos; census growth curves and assuming every tree survives. Cooling is the hot-day (P90) prediction; — means the area is outside the temperature image. Best values are highlighted.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlantingScenarios;
@@ -0,0 +1,108 @@
+// src/components/sidebar/tabs/SiteExclusionControls.tsx
+// Settings and results for keeping simulated plantings clear of existing trees, buildings and roads
+
+import React from 'react';
+import { AlertTriangle, Ban } from 'lucide-react';
+import {
+  SITE_EXCLUSION_LABELS,
+  PlantingSites,
+  SiteExclusionReason,
+  SiteExclusionSettings,
+} from '../../../utils/plantingLayout';
+
+const OBSTACLE_OPTIONS: { reason: SiteExclusionReason; label: string }[] = [
+  { reason: 'tree', label: 'Existing trees' },
+  { reason: 'building', label: 'Buildings' },
+  { reason: 'road', label: 'Roads' },
+];
+
+const UNAVAILABLE_MESSAGES: Record<SiteExclusionReason, string> = {
+  tree: 'Existing trees could not be loaded, so they were not checked.',
+  building: 'Building footprints are not available on this base map, so they were not checked.',
+  road: 'Road data could not be loaded, so roads were not checked.',
+};
+
+interface SiteExclusionControlsProps {
+  value: SiteExclusionSettings;
+  onChange: (value: SiteExclusionSettings) => void;
+  disabled?: boolean;
+}
+
+const SiteExclusionControls: React.FC<SiteExclusionControlsProps> = ({ value, onChange, disabled }) => {
+  const update = (reason: SiteExclusionReason, patch: Partial<SiteExclusionSettings[SiteExclusionReason]>) =>
+    onChange({ ...value, [reason]: { ...value[reason], ...patch } });
+
+  return (
+    <div>
+      <p className="block text-xs font-medium text-gray-700 mb-1">Keep clear of (m)</p>
+      <div className="grid grid-cols-3 gap-x-4 gap-y-2">
+        {OBSTACLE_OPTIONS.map(({ reason, label }) => (
+          <div key={reason} className="flex flex-col">
+            <label className="flex items-center text-xs text-gray-700 mb-0.5">
+              <input
+                type="checkbox"
+                className="mr-1.5"
+                checked={value[reason].enabled}
+                onChange={(e) => update(reason, { enabled: e.target.checked })}
+                disabled={disabled}
+              />
+              {label}
+            </label>
+            <input
+              type="number"
+              className="input text-sm w-full"
+              value={value[reason].clearance}
+              onChange={(e) => update(reason, { clearance: parseFloat(e.target.value) })}
+              step="0.5"
+              min="0"
+              disabled={disabled || !value[reason].enabled}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const SiteExclusionSummary: React.FC<{ sites: PlantingSites }> = ({ sites }) => {
+  const { exclusion, candidateCount } = sites;
+  if (!exclusion) return null;
+
+  const rejectedTotal = candidateCount - exclusion.kept.length;
+  const reasons = OBSTACLE_OPTIONS.filter(({ reason }) => exclusion.rejected[reason] > 0);
+
+  return (
+    <div className="text-xs space-y-1">
+      <p className="flex items-center text-gray-600">
+        <Ban size={12} className="mr-1 flex-shrink-0" />
+        {rejectedTotal === 0
+          ? `All ${candidateCount} spots are clear of the checked obstacles.`
+          : `${rejectedTotal} of ${candidateCount} spots rejected:`}
+      </p>
+      {reasons.length > 0 && (
+        <ul className="pl-5 list-disc text-gray-600">
+          {reasons.map(({ reason }) => (
+            <li key={reason}>{exclusion.rejected[reason]} {SITE_EXCLUSION_LABELS[reason]}</li>
+          ))}
+        </ul>
+      )}
+      {exclusion.unavailable.map((reason) => (
+        <p key={reason} className="flex items-start text-amber-700">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" /> {UNAVAILABLE_MESSAGES[reason]}
+        </p>
+      ))}
+      {exclusion.checked.includes('building') && !exclusion.unavailable.includes('building') && exclusion.buildingCount === 0 && (
+        <p className="flex items-start text-amber-700">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" /> No buildings were found. Footprints are read from the map, so zoom in on the area and simulate again.
+        </p>
+      )}
+      {exclusion.treesTruncated && (
+        <p className="flex items-start text-amber-700">
+          <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" /> The area has too many existing trees to check them all. Try a smaller area.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SiteExclusionControls;
@@ -0,0 +1,227 @@
+// src/components/sidebar/tabs/SpeciesMixPlanner.tsx
+// Optimised multi-species planting for the drawn area, shown on the map with one marker per species
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Shuffle, Sparkles, XCircle } from 'lucide-react';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import { SimulatedPlantingGroup, useTreeStore } from '../../../store/TreeStore';
+import type { PlantingSites } from '../../../utils/plantingLayout';
+import { SiteExclusionSummary } from './SiteExclusionControls';
+import { toTreeCooling } from '../../../utils/coolingSurface';
+import { ScenarioParameters, ScenarioPlanting, toScenarioPlanting } from '../../../utils/plantingScenario';
+import {
+  DEFAULT_MIX_CONSTRAINTS,
+  MIX_MARKER_PATHS,
+  MixMarkerStyle,
+  SpeciesMixLimit,
+  SpeciesMixResult,
+  getMixMarkerStyle,
+  mixMarkerIconId,
+  optimiseSpeciesMix,
+} from '../../../utils/speciesMix';
+
+const DIVERSITY_PRESETS = [
+  { label: '10-20-30 rule', species: 10, genus: 20 },
+  { label: 'Relaxed', species: 20, genus: 30 },
+];
+
+const LIMIT_MESSAGES: Record<SpeciesMixLimit, string> = {
+  site: 'Every available position in the area is used.',
+  'tree-cap': 'Limited by the maximum number of trees.',
+  budget: 'Limited by the budget.',
+  diversity: 'Fewer trees than positions, so that no species or genus goes over its cap; not enough distinct species fit the slot size. Relax the caps or increase the slot size to plant more.',
+  infeasible: 'No planting can meet the diversity caps with the species that fit this slot size. Relax the caps, increase the slot size or allow more trees.',
+};
+
+const MarkerSwatch: React.FC<{ style: MixMarkerStyle }> = ({ style }) => (
+  <svg width={14} height={14} viewBox="0 0 20 20" className="flex-shrink-0">
+    <path d={MIX_MARKER_PATHS[style.shape]} fill={style.color} stroke="#ffffff" strokeWidth={1.5} />
+  </svg>
+);
+
+// Empty number inputs mean "no limit"
+const parseOptional = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+interface SpeciesMixPlannerProps {
+  area: Feature<Polygon | MultiPolygon> | null;
+  /** Planting positions for a slot canopy size, after site exclusions */
+  placeTrees: (canopyDiameter: number) => Promise<PlantingSites>;
+  /** Called before the mix is drawn so the single-species simulation can be cleared */
+  onBeforeApply: () => void;
+  /** Called once the mix is on the map, with what was planted so it can be saved as a scenario */
+  onApplied: (plantings: ScenarioPlanting[], parameters: Pick<ScenarioParameters, 'canopyDiameter' | 'mix'>) => void;
+}
+
+const SpeciesMixPlanner: React.FC<SpeciesMixPlannerProps> = ({ area, placeTrees, onBeforeApply, onApplied }) => {
+  const { treeSpeciesData, simulatedPlantingGroups, setSimulatedPlantingGroups } = useTreeStore();
+
+  const [slotCanopy, setSlotCanopy] = useState(DEFAULT_MIX_CONSTRAINTS.maxCanopyDiameter);
+  const [speciesPct, setSpeciesPct] = useState(DEFAULT_MIX_CONSTRAINTS.maxSpeciesShare * 100);
+  const [genusPct, setGenusPct] = useState(DEFAULT_MIX_CONSTRAINTS.maxGenusShare * 100);
+  const [maxTreesInput, setMaxTreesInput] = useState('');
+  const [budgetInput, setBudgetInput] = useState('');
+  const [costPerTree, setCostPerTree] = useState(DEFAULT_MIX_CONSTRAINTS.costPerTree);
+  const [result, setResult] = useState<SpeciesMixResult | null>(null);
+  const [sites, setSites] = useState<PlantingSites | null>(null);
+  const [appliedGroups, setAppliedGroups] = useState<SimulatedPlantingGroup[] | null>(null);
+  const [isOptimising, setIsOptimising] = useState(false);
+
+  // Reset when the drawn area is cleared
+  useEffect(() => {
+    if (!area) {
+      setResult(null);
+      setSimulatedPlantingGroups([]);
+    }
+  }, [area, setSimulatedPlantingGroups]);
+
+  // A single-species simulation or a saved scenario replaces the mix on the map
+  const showResult = result !== null && (result.plantedCount === 0 || simulatedPlantingGroups === appliedGroups);
+
+  const handleOptimise = async () => {
+    if (!area) return alert('Please draw an area on the map.');
+    if (!treeSpeciesData.length) return alert('Species data is still loading.');
+
+    setIsOptimising(true);
+    let placed: PlantingSites;
+    try {
+      placed = await placeTrees(slotCanopy);
+    } finally {
+      setIsOptimising(false);
+    }
+    const constraints = {
+      maxSpeciesShare: speciesPct / 100,
+      maxGenusShare: Math.max(genusPct, speciesPct) / 100,
+      maxTrees: parseOptional(maxTreesInput),
+      budget: parseOptional(budgetInput),
+      costPerTree,
+    };
+    const mix = optimiseSpeciesMix(placed.spots, treeSpeciesData, { maxCanopyDiameter: slotCanopy, ...constraints });
+
+    onBeforeApply();
+    const groups = mix.allocations.map((allocation, index) => ({
+      label: allocation.species.common_name,
+      icon: mixMarkerIconId(getMixMarkerStyle(index)),
+      points: mix.positionsByAllocation[index],
+      cooling: toTreeCooling(allocation.archetype),
+    }));
+    setSimulatedPlantingGroups(groups);
+    setAppliedGroups(groups);
+    setSites(placed);
+    setResult(mix);
+    if (mix.plantedCount > 0) {
+      onApplied(
+        mix.allocations.map((allocation, index) => toScenarioPlanting(allocation.archetype, mix.positionsByAllocation[index])),
+        { canopyDiameter: slotCanopy, mix: constraints }
+      );
+    }
+  };
+
+  const handleClear = () => {
+    setSimulatedPlantingGroups([]);
+    setResult(null);
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h3 className="text-lg font-medium flex items-center"><Shuffle size={20} className="mr-2 text-green-600" />Optimised Species Mix</h3>
+      </div>
+      <div className="card-body space-y-4">
+        <p className="text-xs text-gray-500">
+          Picks the mix of species with the highest P90 cooling that fits the area, keeping any one species or genus below the diversity caps.
+        </p>
+
+        <div className="flex gap-2">
+          {DIVERSITY_PRESETS.map((preset) => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => { setSpeciesPct(preset.species); setGenusPct(preset.genus); }}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border ${
+                speciesPct === preset.species && genusPct === preset.genus
+                  ? 'bg-primary-100 text-primary-700 border-primary-200'
+                  : 'text-gray-600 border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {preset.label} ({preset.species}% / {preset.genus}%)
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-x-4 gap-y-2 items-start">
+          <div className="flex flex-col"><label htmlFor="mix-slot-canopy" className="block text-xs font-medium text-gray-700 mb-0.5">Slot canopy (m)</label><input type="number" id="mix-slot-canopy" className="input text-sm w-full" value={slotCanopy} onChange={e => setSlotCanopy(parseFloat(e.target.value))} step="0.5" min="1" /></div>
+          <div className="flex flex-col"><label htmlFor="mix-species-cap" className="block text-xs font-medium text-gray-700 mb-0.5">Max / species (%)</label><input type="number" id="mix-species-cap" className="input text-sm w-full" value={speciesPct} onChange={e => setSpeciesPct(parseFloat(e.target.value))} step="5" min="1" max="100" /></div>
+          <div className="flex flex-col"><label htmlFor="mix-genus-cap" className="block text-xs font-medium text-gray-700 mb-0.5">Max / genus (%)</label><input type="number" id="mix-genus-cap" className="input text-sm w-full" value={genusPct} onChange={e => setGenusPct(parseFloat(e.target.value))} step="5" min="1" max="100" /></div>
+          <div className="flex flex-col"><label htmlFor="mix-max-trees" className="block text-xs font-medium text-gray-700 mb-0.5">Max trees</label><input type="number" id="mix-max-trees" className="input text-sm w-full" value={maxTreesInput} onChange={e => setMaxTreesInput(e.target.value)} min="1" placeholder="No limit" /></div>
+          <div className="flex flex-col"><label htmlFor="mix-budget" className="block text-xs font-medium text-gray-700 mb-0.5">Budget (₹)</label><input type="number" id="mix-budget" className="input text-sm w-full" value={budgetInput} onChange={e => setBudgetInput(e.target.value)} min="0" step="1000" placeholder="No limit" /></div>
+          <div className="flex flex-col"><label htmlFor="mix-cost" className="block text-xs font-medium text-gray-700 mb-0.5">Cost / tree (₹)</label><input type="number" id="mix-cost" className="input text-sm w-full" value={costPerTree} onChange={e => setCostPerTree(parseFloat(e.target.value))} min="1" step="100" /></div>
+        </div>
+
+        <button className="btn btn-primary w-full flex items-center justify-center" onClick={handleOptimise} disabled={!area || !slotCanopy || !speciesPct || isOptimising}>
+          {isOptimising ? <Loader2 size={18} className="mr-2 animate-spin" /> : <Sparkles size={18} className="mr-2" />} Optimise Mix
+        </button>
+
+        {result && showResult && (
+          <div className="p-4 bg-green-50 border border-green-300 rounded-md animate-fade-in space-y-3">
+            {result.plantedCount === 0 ? (
+              <p className="text-sm text-green-700">
+                {result.slotCount === 0
+                  ? 'No clear planting spots in the area with this slot size, boundary, spacing and clearances.'
+                  : result.eligibleSpeciesCount === 0
+                    ? `None of the ${treeSpeciesData.length} species has a profile with a canopy of ${slotCanopy} m or less.`
+                    : result.limitedBy === 'infeasible'
+                      ? LIMIT_MESSAGES.infeasible
+                      : 'The budget does not cover a single tree.'}
+              </p>
+            ) : (
+              <>
+                <div className="grid grid-cols-3 gap-2 text-center">
+                  <div><p className="text-lg font-bold text-green-700">{result.plantedCount}</p><p className="text-xs text-gray-500">of {result.slotCount} positions</p></div>
+                  <div><p className="text-lg font-bold text-green-700">{result.allocations.length}</p><p className="text-xs text-gray-500">species</p></div>
+                  <div><p className="text-lg font-bold text-red-600">{result.meanP90.toFixed(1)}°C</p><p className="text-xs text-gray-500">mean P90 cooling</p></div>
+                </div>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-medium pb-1">Species</th>
+                      <th className="font-medium pb-1 text-right">Trees</th>
+                      <th className="font-medium pb-1 text-right">Share</th>
+                      <th className="font-medium pb-1 text-right">P90</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.allocations.map((allocation, index) => (
+                      <tr key={allocation.species.botanical_name} className="align-top">
+                        <td className="py-0.5 pr-2">
+                          <div className="flex items-center gap-1.5">
+                            <MarkerSwatch style={getMixMarkerStyle(index)} />
+                            <span className="text-gray-800">{allocation.species.common_name}</span>
+                          </div>
+                          <div className="pl-5 text-gray-400 italic">{allocation.archetype.archetype_name}</div>
+                        </td>
+                        <td className="py-0.5 text-right">{allocation.count}</td>
+                        <td className="py-0.5 text-right">{(allocation.share * 100).toFixed(0)}%</td>
+                        <td className="py-0.5 text-right">{allocation.archetype.p90_cooling_effect_celsius.toFixed(1)}°C</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-green-700">
+                  {LIMIT_MESSAGES[result.limitedBy]}
+                  {budgetInput && ` Estimated cost ₹${(result.plantedCount * costPerTree).toLocaleString('en-IN')}.`}
+                </p>
+              </>
+            )}
+            {sites && <SiteExclusionSummary sites={sites} />}
+            <button className="btn btn-outline btn-sm text-xs" onClick={handleClear}><XCircle size={16} className="mr-1" /> Clear Mix</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeciesMixPlanner;
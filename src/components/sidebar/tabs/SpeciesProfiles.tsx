@@ -0,0 +1,414 @@
+// src/components/sidebar/tabs/SpeciesProfiles.tsx
+// Species browser and profile: distribution, ward counts, size histograms, cooling archetypes and attributes
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, Filter, FilterX, Flower2, Loader2, MapPin, Ruler, Search, Sprout, Thermometer, TrendingUp } from 'lucide-react';
+import { useTreeStore } from '../../../store/TreeStore';
+import { useFilters } from '../../../store/FilterStore';
+import { DEFAULT_FILTERS } from '../../../types/filters';
+import {
+  HistogramBin,
+  SPECIES_SIZE_METRICS,
+  SpeciesProfile,
+  SpeciesSizeMetric,
+  SpeciesSummary,
+  ValueCount,
+} from '../../../types/species';
+import InfoPopover from '../../common/InfoPopover';
+import GrowthProjection from '../../common/GrowthProjection';
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('en-IN', { maximumFractionDigits: digits });
+
+// City extent used as the minimum frame, so maps of rare species stay comparable
+const CITY_BOUNDS = { minLon: 73.74, maxLon: 74.0, minLat: 18.41, maxLat: 18.65 };
+const MAP_WIDTH = 320;
+const WARD_PREVIEW_COUNT = 8;
+
+const SpeciesDistributionMap: React.FC<{ distribution: SpeciesProfile['distribution'] }> = ({ distribution }) => {
+  const { cells, cell_degrees: cellDegrees } = distribution;
+
+  const layout = useMemo(() => {
+    const minLon = Math.min(CITY_BOUNDS.minLon, ...cells.map((c) => c.lon - cellDegrees / 2));
+    const maxLon = Math.max(CITY_BOUNDS.maxLon, ...cells.map((c) => c.lon + cellDegrees / 2));
+    const minLat = Math.min(CITY_BOUNDS.minLat, ...cells.map((c) => c.lat - cellDegrees / 2));
+    const maxLat = Math.max(CITY_BOUNDS.maxLat, ...cells.map((c) => c.lat + cellDegrees / 2));
+    // Degrees of longitude are shorter than latitude at Pune's latitude
+    const lonScale = Math.cos(((minLat + maxLat) / 2) * (Math.PI / 180));
+    const scale = MAP_WIDTH / ((maxLon - minLon) * lonScale);
+    return {
+      height: (maxLat - minLat) * scale,
+      x: (lon: number) => (lon - minLon) * lonScale * scale,
+      y: (lat: number) => (maxLat - lat) * scale,
+      cellWidth: cellDegrees * lonScale * scale,
+      cellHeight: cellDegrees * scale,
+      maxCount: Math.max(1, ...cells.map((c) => c.tree_count)),
+    };
+  }, [cells, cellDegrees]);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${MAP_WIDTH} ${layout.height}`} className="w-full bg-gray-50 rounded border border-gray-100">
+        {cells.map((cell) => (
+          <rect
+            key={`${cell.lon},${cell.lat}`}
+            x={layout.x(cell.lon - cellDegrees / 2)}
+            y={layout.y(cell.lat + cellDegrees / 2)}
+            width={layout.cellWidth}
+            height={layout.cellHeight}
+            fill="#15803d"
+            // Square-root scale so a few dense cells don't wash out the rest
+            fillOpacity={0.15 + 0.85 * Math.sqrt(cell.tree_count / layout.maxCount)}
+          >
+            <title>{`${formatNumber(cell.tree_count)} trees`}</title>
+          </rect>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>Each square ≈ 1 km²</span>
+        <span className="flex items-center gap-1">
+          1 <span className="inline-block w-16 h-2 rounded bg-gradient-to-r from-green-700/20 to-green-700" /> {formatNumber(layout.maxCount)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const SizeHistogram: React.FC<{ bins: HistogramBin[]; unit: string }> = ({ bins, unit }) => {
+  const data = bins.map((bin) => ({
+    label: bin.max === null ? `${bin.min}+` : `${bin.min}–${bin.max}`,
+    tree_count: bin.tree_count,
+  }));
+  return (
+    <ResponsiveContainer width="100%" height={160}>
+      <BarChart data={data} margin={{ top: 4, right: 4, bottom: 0, left: -16 }}>
+        <XAxis dataKey="label" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+        <YAxis tick={{ fontSize: 10 }} allowDecimals={false} />
+        <Tooltip formatter={(value) => [formatNumber(Number(value)), 'Trees']} labelFormatter={(label) => `${label} ${unit}`} />
+        <Bar dataKey="tree_count" fill="#16a34a" radius={[2, 2, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+const BreakdownList: React.FC<{ items: ValueCount[]; total: number }> = ({ items, total }) => (
+  <ul className="space-y-1">
+    {items.map((item) => (
+      <li key={item.value} className="flex justify-between text-sm">
+        <span className="text-gray-700 truncate mr-2">{item.value}</span>
+        <span className="text-gray-500 whitespace-nowrap">
+          {formatNumber(item.tree_count)} ({formatNumber((item.tree_count / total) * 100, 1)}%)
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface SpeciesProfileViewProps {
+  commonName: string;
+  onBack: () => void;
+}
+
+const SpeciesProfileView: React.FC<SpeciesProfileViewProps> = ({ commonName, onBack }) => {
+  const { getSpeciesProfile, treeSpeciesData } = useTreeStore();
+  const { filters, setFilters } = useFilters();
+  const [profile, setProfile] = useState<SpeciesProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [metric, setMetric] = useState<SpeciesSizeMetric>('height_m');
+  const [showAllWards, setShowAllWards] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setProfile(null);
+    setShowAllWards(false);
+    getSpeciesProfile(commonName).then((data) => {
+      if (cancelled) return;
+      setProfile(data);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [commonName, getSpeciesProfile]);
+
+  // Archetypes are keyed by a truncated botanical name, so match on either name
+  const archetypeSpecies = useMemo(() => {
+    const name = commonName.toLowerCase();
+    const botanical = profile?.botanical_name?.toLowerCase();
+    return treeSpeciesData.find((species) =>
+      species.common_name.toLowerCase() === name ||
+      (!!botanical && botanical.startsWith(species.botanical_name.toLowerCase()))
+    );
+  }, [commonName, profile, treeSpeciesData]);
+
+  const isFilteredToSpecies = filters.species.length === 1 && filters.species[0] === commonName;
+
+  if (loading) {
+    return <div className="flex justify-center py-10"><Loader2 size={24} className="animate-spin text-gray-400" /></div>;
+  }
+
+  if (!profile) {
+    return (
+      <div className="space-y-3">
+        <button type="button" onClick={onBack} className="flex items-center text-sm text-primary-600 hover:underline">
+          <ArrowLeft size={14} className="mr-1" /> All species
+        </button>
+        <p className="text-sm text-gray-500">Could not load a profile for {commonName}.</p>
+      </div>
+    );
+  }
+
+  const metricInfo = SPECIES_SIZE_METRICS.find((m) => m.metric === metric) ?? SPECIES_SIZE_METRICS[0];
+  const wards = showAllWards ? profile.wards : profile.wards.slice(0, WARD_PREVIEW_COUNT);
+  const maxWardCount = Math.max(1, ...profile.wards.map((w) => w.tree_count));
+  const archetypes = archetypeSpecies?.archetypes ?? [];
+  const maxCooling = Math.max(0.1, ...archetypes.map((a) => a.p90_cooling_effect_celsius));
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <button type="button" onClick={onBack} className="flex items-center text-sm text-primary-600 hover:underline">
+        <ArrowLeft size={14} className="mr-1" /> All species
+      </button>
+
+      <div>
+        <h2 className="text-xl font-bold text-primary-800">{profile.common_name}</h2>
+        {profile.botanical_name && <p className="text-gray-600 italic">{profile.botanical_name}</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="bg-primary-50 rounded-md p-2">
+          <div className="text-lg font-semibold">{formatNumber(profile.tree_count)}</div>
+          <div className="text-xs text-gray-500">trees · {formatNumber(profile.city_share_pct, 1)}% of city</div>
+        </div>
+        <div className="bg-primary-50 rounded-md p-2">
+          <div className="text-lg font-semibold">{formatNumber(profile.total_co2_kg / 1000, 1)} t</div>
+          <div className="text-xs text-gray-500">CO₂ sequestered per year</div>
+        </div>
+        <div className="bg-primary-50 rounded-md p-2">
+          <div className="text-lg font-semibold">{formatNumber((profile.street_tree_count / profile.tree_count) * 100)}%</div>
+          <div className="text-xs text-gray-500">street trees</div>
+        </div>
+        <div className="bg-primary-50 rounded-md p-2">
+          <div className="text-lg font-semibold">{profile.wards.length}</div>
+          <div className="text-xs text-gray-500">wards</div>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setFilters(isFilteredToSpecies ? DEFAULT_FILTERS : { ...DEFAULT_FILTERS, species: [commonName] })}
+        className={`btn w-full justify-center py-1.5 text-sm ${isFilteredToSpecies ? 'btn-outline' : 'btn-primary'}`}
+      >
+        {isFilteredToSpecies
+          ? <><FilterX size={14} className="mr-1" /> Show all trees again</>
+          : <><Filter size={14} className="mr-1" /> Show only {commonName} on the map</>}
+      </button>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center"><MapPin size={18} className="mr-2 text-gray-500" /> Where It Grows</h3>
+        </div>
+        <div className="card-body">
+          <SpeciesDistributionMap distribution={profile.distribution} />
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium">Trees by Ward</h3>
+        </div>
+        <div className="card-body space-y-1.5">
+          {wards.map((ward) => (
+            <div key={ward.ward} className="flex items-center text-sm">
+              <span className="w-16 text-gray-600">Ward {ward.ward}</span>
+              <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden mx-2">
+                <div className="h-full bg-primary-500 rounded-full" style={{ width: `${(ward.tree_count / maxWardCount) * 100}%` }} />
+              </div>
+              <span className="w-14 text-right text-gray-500">{formatNumber(ward.tree_count)}</span>
+            </div>
+          ))}
+          {profile.wards.length > WARD_PREVIEW_COUNT && (
+            <button type="button" onClick={() => setShowAllWards(!showAllWards)} className="text-xs text-primary-600 hover:underline">
+              {showAllWards ? 'Show fewer' : `Show all ${profile.wards.length} wards`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center"><Ruler size={18} className="mr-2 text-gray-500" /> Size</h3>
+        </div>
+        <div className="card-body space-y-2">
+          <div className="flex gap-1">
+            {SPECIES_SIZE_METRICS.map((m) => (
+              <button
+                key={m.metric}
+                type="button"
+                onClick={() => setMetric(m.metric)}
+                className={`px-2 py-0.5 rounded-full text-xs border ${
+                  metric === m.metric ? 'bg-primary-100 border-primary-300 text-primary-700' : 'bg-white border-gray-200 text-gray-600'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <SizeHistogram bins={profile.histograms[metric]} unit={metricInfo.unit} />
+          <p className="text-xs text-gray-500">
+            Median {profile.size[metric].median !== null ? `${formatNumber(profile.size[metric].median ?? 0, 1)} ${metricInfo.unit}` : 'N/A'}
+            {' · '}
+            90% of trees are under {profile.size[metric].p90 !== null ? `${formatNumber(profile.size[metric].p90 ?? 0, 1)} ${metricInfo.unit}` : 'N/A'}
+          </p>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header flex justify-between items-center">
+          <h3 className="font-medium flex items-center"><TrendingUp size={18} className="mr-2 text-gray-500" /> Growth Over 50 Years</h3>
+          <InfoPopover titleContent="Projected growth">
+            <p>How a newly planted sapling of this species is expected to grow, from curves fitted to its census measurements.</p>
+            <p className="mt-1">CO₂ absorbed adds up what the tree takes up each year since planting, assuming it survives.</p>
+          </InfoPopover>
+        </div>
+        <div className="card-body">
+          <GrowthProjection tree={{ common_name: profile.common_name }} metrics={['co2_absorbed_kg', 'co2_annual_kg', 'girth_cm', 'height_m', 'canopy_dia_m']} />
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header flex justify-between items-center">
+          <h3 className="font-medium flex items-center"><Thermometer size={18} className="mr-2 text-gray-500" /> Summer Cooling</h3>
+          <InfoPopover titleContent="Cooling archetypes">
+            <p>Measured land-surface cooling under trees of this species, grouped by size class.</p>
+            <p className="mt-1">The bar runs from P10 (a typical low) to P90 (a typical high); the dot marks the mean.</p>
+          </InfoPopover>
+        </div>
+        <div className="card-body space-y-2">
+          {archetypes.length === 0 ? (
+            <p className="text-sm text-gray-500">No cooling archetypes have been modelled for this species yet.</p>
+          ) : (
+            archetypes.map((archetype) => (
+              <div key={archetype.id}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-700">{archetype.archetype_name}</span>
+                  <span className="text-gray-500 text-xs">
+                    {archetype.p10_cooling_effect_celsius.toFixed(1)} / {archetype.mean_cooling_effect_celsius.toFixed(1)} / {archetype.p90_cooling_effect_celsius.toFixed(1)} °C
+                  </span>
+                </div>
+                <div className="relative h-2 bg-gray-100 rounded-full mt-1">
+                  <div
+                    className="absolute h-full bg-sky-300 rounded-full"
+                    style={{
+                      left: `${(Math.max(0, archetype.p10_cooling_effect_celsius) / maxCooling) * 100}%`,
+                      width: `${(Math.max(0, archetype.p90_cooling_effect_celsius - Math.max(0, archetype.p10_cooling_effect_celsius)) / maxCooling) * 100}%`,
+                    }}
+                  />
+                  <div
+                    className="absolute -top-0.5 w-3 h-3 -ml-1.5 rounded-full bg-sky-700 border-2 border-white"
+                    style={{ left: `${(Math.max(0, archetype.mean_cooling_effect_celsius) / maxCooling) * 100}%` }}
+                  />
+                </div>
+                <div className="text-xs text-gray-400 mt-0.5">
+                  {archetype.height_m_min}–{archetype.height_m_max} m tall · {archetype.canopy_dia_m_min}–{archetype.canopy_dia_m_max} m canopy
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center"><Flower2 size={18} className="mr-2 text-gray-500" /> Flowering &amp; Uses</h3>
+        </div>
+        <div className="card-body space-y-3">
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-1">Flowering</div>
+            <BreakdownList items={profile.flowering} total={profile.tree_count} />
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-500 mb-1">Economic importance</div>
+            <BreakdownList items={profile.economic_importance} total={profile.tree_count} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface SpeciesProfilesProps {
+  selectedSpecies: string | null;
+  onSpeciesSelect: (commonName: string | null) => void;
+}
+
+const SpeciesProfiles: React.FC<SpeciesProfilesProps> = ({ selectedSpecies, onSpeciesSelect }) => {
+  const { listSpecies } = useTreeStore();
+  const [query, setQuery] = useState('');
+  const [species, setSpecies] = useState<SpeciesSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (selectedSpecies) return;
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(() => {
+      listSpecies(query.trim()).then((results) => {
+        if (cancelled) return;
+        setSpecies(results);
+        setLoading(false);
+      });
+    }, query ? 250 : 0);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [query, selectedSpecies, listSpecies]);
+
+  if (selectedSpecies) {
+    return <SpeciesProfileView commonName={selectedSpecies} onBack={() => onSpeciesSelect(null)} />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center">
+        <Sprout size={20} className="mr-2 text-primary-600" />
+        <h2 className="text-lg font-semibold text-gray-800">Species</h2>
+      </div>
+      <p className="text-sm text-gray-500">Pick a species to see where it grows, how big it gets and how much it cools.</p>
+      <div className="relative">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search common or botanical name"
+          className="input w-full pl-8 text-sm"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6"><Loader2 size={20} className="animate-spin text-gray-400" /></div>
+      ) : species.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">No species found.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {species.map((s) => (
+            <li key={s.common_name}>
+              <button
+                type="button"
+                onClick={() => onSpeciesSelect(s.common_name)}
+                className="w-full flex items-center justify-between py-2 px-1 text-left hover:bg-gray-50 rounded"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-800 truncate">{s.common_name}</div>
+                  {s.botanical_name && <div className="text-xs text-gray-500 italic truncate">{s.botanical_name}</div>}
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap ml-3">{formatNumber(s.tree_count)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SpeciesProfiles;
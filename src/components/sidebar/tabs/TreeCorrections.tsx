@@ -0,0 +1,282 @@
+// src/components/sidebar/tabs/TreeCorrections.tsx
+// Suggest corrections to a census record, see pending suggestions and the applied-change history
+
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, Clock, History, Loader2, PencilLine } from 'lucide-react';
+import { describeTreeEditError, useTreeEditStore } from '../../../store/TreeEditStore';
+import { useAuthStore } from '../../../store/AuthStore';
+import { hasPermission } from '../../../types/auth';
+import {
+  TREE_EDIT_FIELDS,
+  TreeAuditEntry,
+  TreeEditField,
+  TreeEditProposal,
+  TreeEditValues,
+  formatTreeEditValue,
+  getTreeEditLabel,
+} from '../../../types/treeEdits';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Form inputs hold strings; location is split into latitude and longitude
+type DraftValues = Record<Exclude<TreeEditField, 'location'> | 'lat' | 'lon', string>;
+
+const toDraft = (values: TreeEditValues): DraftValues => ({
+  common_name: values.common_name ?? '',
+  botanical_name: values.botanical_name ?? '',
+  height_m: values.height_m?.toString() ?? '',
+  girth_cm: values.girth_cm?.toString() ?? '',
+  canopy_dia_m: values.canopy_dia_m?.toString() ?? '',
+  lat: values.location?.lat.toFixed(7) ?? '',
+  lon: values.location?.lon.toFixed(7) ?? '',
+});
+
+// Only fields the user actually changed are sent
+function draftChanges(draft: DraftValues, current: TreeEditValues): TreeEditValues {
+  const original = toDraft(current);
+  const changes: TreeEditValues = {};
+  if (draft.common_name.trim() !== original.common_name) changes.common_name = draft.common_name.trim();
+  if (draft.botanical_name.trim() !== original.botanical_name) changes.botanical_name = draft.botanical_name.trim();
+  (['height_m', 'girth_cm', 'canopy_dia_m'] as const).forEach((field) => {
+    if (draft[field].trim() !== original[field]) changes[field] = parseFloat(draft[field]);
+  });
+  if (draft.lat.trim() !== original.lat || draft.lon.trim() !== original.lon) {
+    changes.location = { lat: parseFloat(draft.lat), lon: parseFloat(draft.lon) };
+  }
+  return changes;
+}
+
+const ChangeList: React.FC<{ changes: TreeEditValues; previous: TreeEditValues }> = ({ changes, previous }) => (
+  <ul className="space-y-0.5">
+    {(Object.keys(changes) as TreeEditField[]).map((field) => (
+      <li key={field} className="text-xs text-gray-700 flex flex-wrap items-center gap-1">
+        <span className="text-gray-500">{getTreeEditLabel(field)}:</span>
+        <span className="line-through text-gray-400">{formatTreeEditValue(field, previous[field])}</span>
+        <ArrowRight size={10} className="text-gray-400" />
+        <span className="font-medium">{formatTreeEditValue(field, changes[field])}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface CorrectionFormProps {
+  current: TreeEditValues;
+  onSubmit: (changes: TreeEditValues, reason: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const CorrectionForm: React.FC<CorrectionFormProps> = ({ current, onSubmit, onCancel }) => {
+  // Compare against the values the form opened with, even if the record reloads meanwhile
+  const [baseline] = useState(current);
+  const [draft, setDraft] = useState<DraftValues>(() => toDraft(current));
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changes = draftChanges(draft, baseline);
+  const changedCount = Object.keys(changes).length;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(changes, reason.trim());
+    } catch (err) {
+      setError(describeTreeEditError(err, 'Could not submit the correction'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setField = (key: keyof DraftValues) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft((prev) => ({ ...prev, [key]: e.target.value }));
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border border-gray-200 rounded-md p-3 bg-gray-50">
+      <p className="text-xs text-gray-500">Change only the values that are wrong. A reviewer checks every correction before the census is updated.</p>
+      <div className="grid grid-cols-2 gap-2">
+        {TREE_EDIT_FIELDS.filter(({ field }) => field !== 'location').map(({ field, label, unit, min, max }) => {
+          const key = field as Exclude<TreeEditField, 'location'>;
+          return (
+            <div key={field} className={unit ? '' : 'col-span-2'}>
+              <label className="block text-xs font-medium text-gray-700 mb-0.5">
+                {label}{unit ? ` (${unit})` : ''}
+              </label>
+              <input
+                type={unit ? 'number' : 'text'}
+                step="any"
+                min={min}
+                max={max}
+                maxLength={unit ? undefined : 200}
+                value={draft[key]}
+                onChange={setField(key)}
+                className="input text-sm w-full"
+              />
+            </div>
+          );
+        })}
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-0.5">Latitude</label>
+          <input type="number" step="any" value={draft.lat} onChange={setField('lat')} className="input text-sm w-full" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-0.5">Longitude</label>
+          <input type="number" step="any" value={draft.lon} onChange={setField('lon')} className="input text-sm w-full" />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-0.5">Why is the record wrong?</label>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          rows={2}
+          maxLength={1000}
+          required
+          className="input text-sm w-full"
+          placeholder="e.g. Measured on site 12 Oct; height was keyed as 85 m"
+        />
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSaving || changedCount === 0 || !reason.trim()}
+          className="btn btn-primary flex-1 justify-center py-1.5 text-sm disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={14} className="animate-spin mr-1" /> : null}
+          Submit {changedCount > 0 ? `${changedCount} change${changedCount > 1 ? 's' : ''}` : 'correction'}
+        </button>
+        <button type="button" onClick={onCancel} className="btn btn-outline py-1.5 px-3 text-sm">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+interface TreeCorrectionsProps {
+  treeId: string;
+  current: TreeEditValues;
+}
+
+const TreeCorrections: React.FC<TreeCorrectionsProps> = ({ treeId, current }) => {
+  const { fetchTreeEdits, fetchTreeHistory, proposeEdit } = useTreeEditStore();
+  const user = useAuthStore((state) => state.user);
+  const canPropose = hasPermission(user, 'edits:propose');
+  const [proposals, setProposals] = useState<TreeEditProposal[]>([]);
+  const [history, setHistory] = useState<TreeAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setShowForm(false);
+    Promise.all([fetchTreeEdits(treeId), fetchTreeHistory(treeId)])
+      .then(([edits, entries]) => {
+        if (cancelled) return;
+        setProposals(edits);
+        setHistory(entries);
+      })
+      .catch((err) => {
+        console.error(`Error fetching corrections for tree ${treeId}:`, err);
+        if (!cancelled) setError(describeTreeEditError(err, 'Could not load corrections'));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [treeId, fetchTreeEdits, fetchTreeHistory]);
+
+  const handlePropose: CorrectionFormProps['onSubmit'] = async (changes, reason) => {
+    const created = await proposeEdit(treeId, changes, reason);
+    setProposals((prev) => [created, ...prev]);
+    setShowForm(false);
+  };
+
+  const pending = proposals.filter((p) => p.status === 'pending');
+  const rejected = proposals.filter((p) => p.status === 'rejected').slice(0, 3);
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="font-medium flex items-center">
+          <PencilLine size={18} className="mr-2 text-gray-500" />
+          Record Corrections
+        </h3>
+        {pending.length > 0 && (
+          <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+            {pending.length} awaiting review
+          </span>
+        )}
+      </div>
+      <div className="card-body space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-2"><Loader2 size={18} className="animate-spin text-gray-400" /></div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <>
+            {pending.map((proposal) => (
+              <div key={proposal.id} className="border border-amber-200 bg-amber-50 rounded-md p-2 space-y-1">
+                <div className="flex items-center text-xs text-amber-800">
+                  <Clock size={12} className="mr-1" />
+                  Suggested by {proposal.submitted_by_name ?? 'a surveyor'} on {formatDate(proposal.submitted_at)}
+                </div>
+                <ChangeList changes={proposal.changes} previous={proposal.previous} />
+                <p className="text-xs text-gray-600 italic">{proposal.reason}</p>
+              </div>
+            ))}
+
+            {rejected.map((proposal) => (
+              <div key={proposal.id} className="border border-gray-200 rounded-md p-2 space-y-1">
+                <div className="text-xs text-gray-500">
+                  Not applied · {proposal.reviewed_by_name ?? 'reviewer'} on {formatDate(proposal.reviewed_at ?? proposal.submitted_at)}
+                </div>
+                <ChangeList changes={proposal.changes} previous={proposal.previous} />
+                {proposal.review_note && <p className="text-xs text-gray-600 italic">{proposal.review_note}</p>}
+              </div>
+            ))}
+
+            <div>
+              <div className="flex items-center text-xs font-medium text-gray-500 mb-1">
+                <History size={12} className="mr-1" /> Edit history
+              </div>
+              {history.length === 0 ? (
+                <p className="text-sm text-gray-500">This record matches the original census.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {history.map((entry) => (
+                    <li key={entry.id} className="text-xs">
+                      <ChangeList changes={{ [entry.field]: entry.new_value }} previous={{ [entry.field]: entry.old_value }} />
+                      <div className="text-gray-400">
+                        {formatDate(entry.changed_at)}
+                        {entry.proposed_by_name ? ` · by ${entry.proposed_by_name}` : ''}
+                        {entry.approved_by_name ? `, approved by ${entry.approved_by_name}` : ''}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+
+        {!canPropose ? (
+          <p className="text-xs text-gray-500">Spotted a wrong species, size or location? Sign in as a field surveyor to suggest a correction.</p>
+        ) : showForm ? (
+          <CorrectionForm current={current} onSubmit={handlePropose} onCancel={() => setShowForm(false)} />
+        ) : (
+          <button type="button" onClick={() => setShowForm(true)} className="btn btn-outline w-full justify-center py-1.5 text-sm">
+            <PencilLine size={14} className="mr-1" /> Suggest a correction
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TreeCorrections;
@@ -1,12 +1,66 @@
 // src/components/sidebar/tabs/TreeDetails.tsx
-import React, { useEffect, useState } from 'react';
-import { Info, Leaf, CircleDashed, Thermometer, TreePine } from 'lucide-react';
-import { useTreeStore } from '../../../store/TreeStore';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Info, Leaf, CircleDashed, Satellite, TreePine, Droplets, Wind, MapPin, BarChart3, TrendingUp } from 'lucide-react';
+import { TreeContextData, useTreeStore } from '../../../store/TreeStore';
+import { LANDCOVER_CLASSES } from '../../map/RasterOverlay';
+import { sampleRasterAtPoint } from '../../../utils/rasterZonalStats';
+import { estimateTreeBenefits } from '../../../utils/treeBenefits';
+import InfoPopover from '../../common/InfoPopover';
+import GrowthProjection from '../../common/GrowthProjection';
+import TreeObservationLog from './TreeObservationLog';
+import TreeCorrections from './TreeCorrections';
 
 interface TreeDetailsProps {
   treeId: string | null;
+  onTreeSelect?: (treeId: string) => void;
+  onSpeciesSelect?: (commonName: string) => void;
 }
 
+// Satellite values read from the COGs at the tree's location
+interface SiteRasterValues {
+  landCover: number | null;
+  ndvi: number | null;
+  treeProbability: number | null;
+}
+
+// Street trees are those within this distance of a road (matches the location filter)
+const STREET_TREE_MAX_DISTANCE_M = 15;
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: digits });
+
+const describeNdvi = (value: number) => {
+  if (value >= 0.6) return 'Very healthy, dense vegetation';
+  if (value >= 0.4) return 'Healthy vegetation';
+  if (value >= 0.2) return 'Moderate vegetation';
+  if (value >= 0) return 'Sparse or stressed vegetation';
+  return 'Built-up, bare or water';
+};
+
+const ordinal = (n: number) => {
+  const rounded = Math.round(n);
+  const suffix = rounded % 100 >= 11 && rounded % 100 <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[rounded % 10] || 'th';
+  return `${rounded}${suffix}`;
+};
+
+const RankBar: React.FC<{ label: string; percentile: number | null }> = ({ label, percentile }) => (
+  <div>
+    <div className="flex justify-between text-xs mb-0.5">
+      <span className="text-gray-600">{label}</span>
+      <span className="font-medium text-gray-800">
+        {percentile != null ? `${ordinal(percentile)} percentile` : 'Not measured'}
+      </span>
+    </div>
+    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+      {percentile != null && (
+        <div className="h-full bg-primary-500 rounded-full" style={{ width: `${Math.max(percentile, 2)}%` }} />
+      )}
+    </div>
+  </div>
+);
+
 // Define a type for the details to be displayed
 interface TreeDetailsData {
     id: string;
@@ -22,11 +76,13 @@ interface TreeDetailsData {
     wood_density: number;
 }
 
-const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId }) => {
-  const { getTreeDetails } = useTreeStore();
+const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId, onTreeSelect, onSpeciesSelect }) => {
+  const { getTreeDetails, getTreeContext } = useTreeStore();
   const [treeDetails, setTreeDetails] = useState<TreeDetailsData | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [context, setContext] = useState<TreeContextData | null>(null);
+  const [siteValues, setSiteValues] = useState<SiteRasterValues | null>(null);
 
   useEffect(() => {
     if (treeId) {
@@ -56,6 +112,38 @@ const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId }) => {
     }
   }, [treeId, getTreeDetails]);
 
+  // Neighbours, size ranking and satellite values load after the core details
+  useEffect(() => {
+    setContext(null);
+    setSiteValues(null);
+    if (!treeId) return;
+
+    let cancelled = false;
+    const fetchContext = async () => {
+      const treeContext = await getTreeContext(treeId);
+      if (cancelled || !treeContext) return;
+      setContext(treeContext);
+
+      const [landCover, ndvi, treeProbability] = await Promise.allSettled([
+        sampleRasterAtPoint('landcover', treeContext.lon, treeContext.lat),
+        sampleRasterAtPoint('ndvi', treeContext.lon, treeContext.lat),
+        sampleRasterAtPoint('tree_probability_2025', treeContext.lon, treeContext.lat),
+      ]);
+      if (cancelled) return;
+      const valueOf = (result: PromiseSettledResult<number | null>) =>
+        result.status === 'fulfilled' ? result.value : null;
+      setSiteValues({
+        landCover: valueOf(landCover),
+        ndvi: valueOf(ndvi),
+        treeProbability: valueOf(treeProbability),
+      });
+    };
+    fetchContext();
+    return () => { cancelled = true; };
+  }, [treeId, getTreeContext]);
+
+  const benefits = useMemo(() => (treeDetails ? estimateTreeBenefits(treeDetails) : null), [treeDetails]);
+
   if (!treeId) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-center p-6">
@@ -95,6 +183,15 @@ const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId }) => {
           <div>
             <h2 className="text-xl font-bold text-primary-800">{treeDetails.common_name}</h2>
             <p className="text-gray-600 italic">{treeDetails.botanical_name}</p>
+            {onSpeciesSelect && treeDetails.common_name && (
+              <button
+                type="button"
+                onClick={() => onSpeciesSelect(treeDetails.common_name)}
+                className="mt-1 text-xs text-primary-600 hover:underline"
+              >
+                About this species →
+              </button>
+            )}
           </div>
           <span className="bg-primary-100 text-primary-800 text-xs font-medium px-2.5 py-1 rounded-full">
             ID: {treeDetails.id}
@@ -126,28 +223,103 @@ const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId }) => {
         </div>
       </div>
 
-      {/* Environmental impact section */}
+      {/* Field reports */}
+      <TreeObservationLog treeId={treeId} />
+
+      <TreeCorrections
+        treeId={treeId}
+        current={{
+          common_name: treeDetails.common_name,
+          botanical_name: treeDetails.botanical_name,
+          height_m: treeDetails.height_m,
+          girth_cm: treeDetails.girth_cm,
+          canopy_dia_m: treeDetails.canopy_dia_m,
+          location: context ? { lon: context.lon, lat: context.lat } : null,
+        }}
+      />
+
+      {/* Annual benefits section */}
       <div className="card">
-        <div className="card-header">
+        <div className="card-header flex justify-between items-center">
           <h3 className="font-medium flex items-center">
             <Leaf size={18} className="mr-2 text-gray-500" />
-            Environmental Impact
+            What This Tree Does Each Year
           </h3>
+          <InfoPopover titleContent="How These Are Estimated">
+            <p>CO₂ is the census estimate, calculated from this tree's girth, height and its species' wood density.</p>
+            <p className="mt-2">Rain held on leaves and pollutants removed are scaled from the crown's leaf area using typical values for urban broadleaf trees and Pune's rainfall. Treat them as ballpark figures.</p>
+          </InfoPopover>
         </div>
-        <div className="card-body">
+        <div className="card-body space-y-3">
           <div className="flex items-center justify-between bg-green-50 p-3 rounded-md">
             <div>
               <div className="text-sm text-gray-500">CO₂ Sequestered</div>
               <div className="text-lg font-semibold text-green-700">
                 {treeDetails.co2_sequestered_kg?.toFixed(2) || 'N/A'} kg
               </div>
+              {benefits?.carKmEquivalent != null && benefits.carKmEquivalent >= 1 && (
+                <div className="text-xs text-gray-500">
+                  About the emissions of {formatNumber(benefits.carKmEquivalent)} km of car travel
+                </div>
+              )}
             </div>
-            {/* Using a simple leaf icon from lucide */}
             <Leaf size={36} className="text-green-600 opacity-80" />
           </div>
+          {benefits && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-blue-50 p-3 rounded-md">
+                <div className="flex items-center text-sm text-gray-500">
+                  <Droplets size={14} className="mr-1 text-blue-500" /> Rainwater Held
+                </div>
+                <div className="text-lg font-semibold text-blue-700">~{formatNumber(benefits.stormwaterLitres)} L</div>
+                <div className="text-xs text-gray-500">Slowing runoff into drains</div>
+              </div>
+              <div className="bg-purple-50 p-3 rounded-md">
+                <div className="flex items-center text-sm text-gray-500">
+                  <Wind size={14} className="mr-1 text-purple-500" /> Air Pollutants
+                </div>
+                <div className="text-lg font-semibold text-purple-700">~{formatNumber(benefits.pollutantRemovalG)} g</div>
+                <div className="text-xs text-gray-500">PM, NO₂, SO₂ and ozone</div>
+              </div>
+            </div>
+          )}
+          {benefits && (
+            <p className="text-xs text-gray-400">
+              Based on ~{formatNumber(benefits.canopyAreaM2)} m² of crown
+              {benefits.canopyEstimated ? ' (estimated from girth)' : ''}.
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Growth projection section */}
+      {treeDetails.common_name && treeDetails.girth_cm > 0 && (
+        <div className="card">
+          <div className="card-header flex justify-between items-center">
+            <h3 className="font-medium flex items-center">
+              <TrendingUp size={18} className="mr-2 text-gray-500" />
+              Growth Outlook
+            </h3>
+            <InfoPopover titleContent="How Growth Is Projected">
+              <p>Girth grows towards the size the largest {treeDetails.common_name} trees in Pune reach, slowing as it gets closer. Height, canopy and yearly CO₂ uptake follow from girth using curves fitted to the species' census measurements; CO₂ absorbed adds up each year's uptake from today.</p>
+              <p className="mt-2">Projections start from this tree's measurements and assume it stays healthy. Treat figures beyond a couple of decades as indicative.</p>
+            </InfoPopover>
+          </div>
+          <div className="card-body">
+            <GrowthProjection
+              tree={{
+                common_name: treeDetails.common_name,
+                girth_cm: treeDetails.girth_cm,
+                height_m: treeDetails.height_m,
+                canopy_dia_m: treeDetails.canopy_dia_m,
+                co2_annual_kg: treeDetails.co2_sequestered_kg,
+              }}
+              metrics={['co2_absorbed_kg', 'co2_annual_kg', 'girth_cm', 'height_m', 'canopy_dia_m']}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Additional information section */}
       <div className="card">
         <div className="card-header">
@@ -177,6 +349,126 @@ const TreeDetails: React.FC<TreeDetailsProps> = ({ treeId }) => {
           </div>
         </div>
       </div>
+
+      {/* Size ranking section */}
+      {context && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="font-medium flex items-center">
+              <BarChart3 size={18} className="mr-2 text-gray-500" />
+              How It Compares
+            </h3>
+          </div>
+          <div className="card-body space-y-3">
+            {context.ward_rank.tree_count > 0 && (
+              <>
+                <p className="text-xs text-gray-500">
+                  Against the {formatNumber(context.ward_rank.tree_count)} trees in Ward {parseInt(treeDetails.ward, 10)}
+                </p>
+                <RankBar label="Girth" percentile={context.ward_rank.girth_pct} />
+                <RankBar label="Height" percentile={context.ward_rank.height_pct} />
+                <RankBar label="Canopy" percentile={context.ward_rank.canopy_pct} />
+              </>
+            )}
+            {context.species_rank.tree_count > 1 && context.species_rank.girth_pct != null && (
+              <p className="text-sm text-gray-700 pt-2 border-t border-gray-100">
+                Thicker than {Math.round(context.species_rank.girth_pct)}% of the{' '}
+                {formatNumber(context.species_rank.tree_count)} {treeDetails.common_name || 'trees of this species'} recorded in Pune.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Site section */}
+      {context && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="font-medium flex items-center">
+              <Satellite size={18} className="mr-2 text-gray-500" />
+              Where It Grows
+            </h3>
+          </div>
+          <div className="card-body">
+            <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+              <div>
+                <div className="text-sm text-gray-500">Setting</div>
+                <div className="text-base">
+                  {context.distance_to_road_m == null
+                    ? 'N/A'
+                    : context.distance_to_road_m <= STREET_TREE_MAX_DISTANCE_M
+                      ? 'Street tree'
+                      : 'Away from roads'}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">Land Cover (2025)</div>
+                <div className="text-base">
+                  {siteValues?.landCover != null
+                    ? LANDCOVER_CLASSES[Math.round(siteValues.landCover)] ?? 'Unknown'
+                    : siteValues ? 'N/A' : '…'}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">NDVI (2025)</div>
+                <div className="text-base">
+                  {siteValues?.ndvi != null ? siteValues.ndvi.toFixed(2) : siteValues ? 'N/A' : '…'}
+                </div>
+                {siteValues?.ndvi != null && (
+                  <div className="text-xs text-gray-500">{describeNdvi(siteValues.ndvi)}</div>
+                )}
+              </div>
+              <div>
+                <div className="text-sm text-gray-500">Tree Cover Probability</div>
+                <div className="text-base">
+                  {siteValues?.treeProbability != null
+                    ? `${siteValues.treeProbability.toFixed(0)}%`
+                    : siteValues ? 'N/A' : '…'}
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-400 mt-3">
+              Satellite values are for the 10 m pixel under the tree (Dynamic World and Sentinel-2).
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Nearby trees section */}
+      {context && context.nearest.length > 0 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="font-medium flex items-center">
+              <MapPin size={18} className="mr-2 text-gray-500" />
+              Nearest Trees
+            </h3>
+          </div>
+          <div className="card-body p-0">
+            <ul className="divide-y divide-gray-100">
+              {context.nearest.map((neighbour) => (
+                <li key={neighbour.id}>
+                  <button
+                    type="button"
+                    onClick={() => onTreeSelect?.(neighbour.id)}
+                    disabled={!onTreeSelect}
+                    className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-gray-50 disabled:hover:bg-transparent"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-800 truncate">{neighbour.common_name || 'Unknown species'}</div>
+                      {neighbour.botanical_name && (
+                        <div className="text-xs text-gray-500 italic truncate">{neighbour.botanical_name}</div>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-500 whitespace-nowrap ml-3">
+                      {formatNumber(neighbour.distance_m)} m
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,312 @@
+// src/components/sidebar/tabs/TreeObservationLog.tsx
+// Condition timeline for one tree with a form for signed-in surveyors to add reports
+
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, ExternalLink, Image, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { describeObservationError, useTreeObservationStore } from '../../../store/TreeObservationStore';
+import { useAuthStore } from '../../../store/AuthStore';
+import { hasPermission } from '../../../types/auth';
+import {
+  CONDITION_ISSUE_LABELS,
+  ConditionIssue,
+  ObservationPhoto,
+  TREE_STATUS_OPTIONS,
+  TreeObservation,
+  TreeStatus,
+  getStatusOption,
+} from '../../../types/observations';
+
+const MAX_PHOTOS = 5;
+const today = () => new Date().toISOString().slice(0, 10);
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface ObservationFormProps {
+  onSubmit: (observation: {
+    status: TreeStatus;
+    condition: ConditionIssue[];
+    notes: string;
+    photos: ObservationPhoto[];
+    observer: string;
+    observed_at: string;
+  }) => Promise<void>;
+  onCancel: () => void;
+  defaultObserver?: string;
+}
+
+const ObservationForm: React.FC<ObservationFormProps> = ({ onSubmit, onCancel, defaultObserver }) => {
+  const [status, setStatus] = useState<TreeStatus>('healthy');
+  const [condition, setCondition] = useState<ConditionIssue[]>([]);
+  const [notes, setNotes] = useState('');
+  const [observer, setObserver] = useState(() => localStorage.getItem('pune-tree-observer') ?? defaultObserver ?? '');
+  const [observedAt, setObservedAt] = useState(today);
+  const [photos, setPhotos] = useState<ObservationPhoto[]>([]);
+  const [photoUrl, setPhotoUrl] = useState('');
+  const [photoCaption, setPhotoCaption] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleIssue = (issue: ConditionIssue) => {
+    setCondition((prev) => (prev.includes(issue) ? prev.filter((i) => i !== issue) : [...prev, issue]));
+  };
+
+  const addPhoto = () => {
+    if (!/^https?:\/\//i.test(photoUrl.trim())) {
+      setError('Photo links must start with http:// or https://');
+      return;
+    }
+    setPhotos((prev) => [...prev, { url: photoUrl.trim(), caption: photoCaption.trim() || null, taken_at: observedAt }]);
+    setPhotoUrl('');
+    setPhotoCaption('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (observer.trim()) localStorage.setItem('pune-tree-observer', observer.trim());
+      await onSubmit({ status, condition, notes, photos, observer, observed_at: observedAt });
+    } catch (err) {
+      setError(describeObservationError(err, 'Could not save the observation'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border border-gray-200 rounded-md p-3 bg-gray-50">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-0.5">Status</label>
+          <select value={status} onChange={(e) => setStatus(e.target.value as TreeStatus)} className="input text-sm w-full">
+            {TREE_STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-0.5">Observed on</label>
+          <input type="date" value={observedAt} max={today()} onChange={(e) => setObservedAt(e.target.value)} className="input text-sm w-full" required />
+        </div>
+      </div>
+
+      <div>
+        <div className="block text-xs font-medium text-gray-700 mb-1">Issues seen</div>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(CONDITION_ISSUE_LABELS) as ConditionIssue[]).map((issue) => (
+            <button
+              key={issue}
+              type="button"
+              onClick={() => toggleIssue(issue)}
+              className={`px-2 py-0.5 rounded-full text-xs border ${
+                condition.includes(issue)
+                  ? 'bg-amber-100 border-amber-300 text-amber-800'
+                  : 'bg-white border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {CONDITION_ISSUE_LABELS[issue]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-0.5">Notes</label>
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} maxLength={2000} className="input text-sm w-full" placeholder="What did you see?" />
+      </div>
+
+      <div>
+        <div className="block text-xs font-medium text-gray-700 mb-1">Photo links ({photos.length}/{MAX_PHOTOS})</div>
+        {photos.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {photos.map((photo, index) => (
+              <li key={photo.url} className="flex items-center text-xs text-gray-600">
+                <Image size={12} className="mr-1 flex-shrink-0" />
+                <span className="truncate flex-1">{photo.caption || photo.url}</span>
+                <button type="button" onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))} className="p-0.5 text-gray-400 hover:text-red-600">
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {photos.length < MAX_PHOTOS && (
+          <div className="flex gap-1">
+            <input type="url" value={photoUrl} onChange={(e) => setPhotoUrl(e.target.value)} placeholder="https://..." className="input text-sm flex-1 min-w-0" />
+            <input type="text" value={photoCaption} onChange={(e) => setPhotoCaption(e.target.value)} placeholder="Caption" maxLength={200} className="input text-sm w-24" />
+            <button type="button" onClick={addPhoto} disabled={!photoUrl.trim()} className="btn btn-outline px-2 py-1 disabled:opacity-50" title="Add photo link">
+              <Plus size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-0.5">Your name (optional)</label>
+        <input type="text" value={observer} onChange={(e) => setObserver(e.target.value)} maxLength={100} className="input text-sm w-full" />
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button type="submit" disabled={isSaving} className="btn btn-primary flex-1 justify-center py-1.5 text-sm disabled:opacity-50">
+          {isSaving ? <Loader2 size={14} className="animate-spin mr-1" /> : null} Save observation
+        </button>
+        <button type="button" onClick={onCancel} className="btn btn-outline py-1.5 px-3 text-sm">Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+const TreeObservationLog: React.FC<{ treeId: string }> = ({ treeId }) => {
+  const { fetchObservations, addObservation, deleteObservation } = useTreeObservationStore();
+  const user = useAuthStore((state) => state.user);
+  const canWrite = hasPermission(user, 'observations:write');
+  const canDelete = (observation: TreeObservation) =>
+    hasPermission(user, 'observations:delete') ||
+    (canWrite && !!user && observation.created_by === user.id);
+  const [observations, setObservations] = useState<TreeObservation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setShowForm(false);
+    fetchObservations(treeId)
+      .then((data) => { if (!cancelled) setObservations(data); })
+      .catch((err) => {
+        console.error(`Error fetching observations for tree ${treeId}:`, err);
+        if (!cancelled) setError(describeObservationError(err, 'Could not load the condition log'));
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [treeId, fetchObservations]);
+
+  const handleAdd: ObservationFormProps['onSubmit'] = async (input) => {
+    const created = await addObservation(treeId, {
+      ...input,
+      notes: input.notes.trim() || undefined,
+      observer: input.observer.trim() || undefined,
+    });
+    // Keep the newest-first order used by the server
+    setObservations((prev) =>
+      [created, ...prev].sort((a, b) => b.observed_at.localeCompare(a.observed_at) || Number(b.id) - Number(a.id))
+    );
+    setShowForm(false);
+  };
+
+  const handleDelete = async (observation: TreeObservation) => {
+    if (!window.confirm('Delete this observation?')) return;
+    try {
+      await deleteObservation(treeId, observation.id);
+      setObservations((prev) => prev.filter((o) => o.id !== observation.id));
+    } catch (err) {
+      console.error('Error deleting observation:', err);
+      setError(describeObservationError(err, 'Could not delete the observation'));
+    }
+  };
+
+  const latest = observations[0];
+
+  return (
+    <div className="card">
+      <div className="card-header flex justify-between items-center">
+        <h3 className="font-medium flex items-center">
+          <ClipboardList size={18} className="mr-2 text-gray-500" />
+          Condition Log
+        </h3>
+        {latest && (
+          <span
+            className="text-xs font-medium px-2 py-0.5 rounded-full text-white"
+            style={{ backgroundColor: getStatusOption(latest.status).color }}
+          >
+            {getStatusOption(latest.status).label}
+          </span>
+        )}
+      </div>
+      <div className="card-body space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-2"><Loader2 size={18} className="animate-spin text-gray-400" /></div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : observations.length === 0 ? (
+          <p className="text-sm text-gray-500">No field reports for this tree yet.</p>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-1.5">
+            {observations.map((observation) => {
+              const option = getStatusOption(observation.status);
+              return (
+                <li key={observation.id} className="group mb-4 ml-4 last:mb-0">
+                  <span
+                    className="absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 border-white"
+                    style={{ backgroundColor: option.color }}
+                  />
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm">
+                      <span className="font-medium" style={{ color: option.color }}>{option.label}</span>
+                      <span className="text-gray-400"> · {formatDate(observation.observed_at)}</span>
+                    </div>
+                    {canDelete(observation) && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(observation)}
+                        className="p-0.5 text-gray-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Delete observation"
+                      >
+                        <Trash2 size={12} />
+                      </button>
+                    )}
+                  </div>
+                  {observation.observer && <div className="text-xs text-gray-500">by {observation.observer}</div>}
+                  {observation.condition.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {observation.condition.map((issue) => (
+                        <span key={issue} className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-800 text-[11px]">
+                          {CONDITION_ISSUE_LABELS[issue] ?? issue}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {observation.notes && <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{observation.notes}</p>}
+                  {observation.photos.length > 0 && (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                      {observation.photos.map((photo) => (
+                        <a
+                          key={photo.url}
+                          href={photo.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center text-xs text-primary-600 hover:underline"
+                        >
+                          <ExternalLink size={11} className="mr-0.5" /> {photo.caption || 'Photo'}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {!canWrite ? (
+          <p className="text-xs text-gray-500">Sign in as a field surveyor to add a condition report.</p>
+        ) : showForm ? (
+          <ObservationForm onSubmit={handleAdd} onCancel={() => setShowForm(false)} defaultObserver={user?.name} />
+        ) : (
+          <button type="button" onClick={() => setShowForm(true)} className="btn btn-outline w-full justify-center py-1.5 text-sm">
+            <Plus size={14} className="mr-1" /> Add observation
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TreeObservationLog;
@@ -0,0 +1,447 @@
+// src/components/sidebar/tabs/WardDetailPanel.tsx
+// Drill-down for one ward: census, land-cover history and change, validation, species and how it ranks
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Flame,
+  Loader2,
+  MapPin,
+  SatelliteDish,
+  Sprout,
+  TrendingDown,
+  TrendingUp,
+  Trophy,
+} from 'lucide-react';
+import { useGreenCoverStore } from '../../../store/GreenCoverStore';
+import { useActiveGreenScoreProfile } from '../../../store/GreenScoreProfileStore';
+import type { WardDetail } from '../../../types/wards';
+import { fetchWardDetail, getWardHotspotStatus, rankWardsByGreenScore } from '../../../utils/wardDetail';
+import { getScoreColor, scoreGreenCover, wardGreenScoreInputs } from '../../../utils/greenScore';
+import { formatCo2 } from '../../../utils/growthProjection';
+import GreenScoreBreakdownCard from '../../common/GreenScoreBreakdownCard';
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('en-IN', { maximumFractionDigits: digits });
+
+const formatHa = (m2: number, digits = 1) => `${formatNumber(m2 / 10000, digits)} ha`;
+
+const formatSignedHa = (m2: number) => `${m2 > 0 ? '+' : m2 < 0 ? '−' : ''}${formatHa(Math.abs(m2), 2)}`;
+
+const SEVERITY_STYLES: Record<'severe' | 'moderate' | 'minor', string> = {
+  severe: 'bg-red-100 text-red-700',
+  moderate: 'bg-orange-100 text-orange-700',
+  minor: 'bg-yellow-100 text-yellow-700',
+};
+
+const Figure: React.FC<{ label: string; value: string; note?: string }> = ({ label, value, note }) => (
+  <div className="bg-gray-50 rounded-md p-2 text-center">
+    <div className="text-lg font-semibold text-gray-800">{value}</div>
+    <div className="text-xs text-gray-500">{label}</div>
+    {note && <div className="text-[10px] text-gray-400">{note}</div>}
+  </div>
+);
+
+interface WardDetailPanelProps {
+  wardNumber: number;
+  selectedYear: number;
+  hotspotLossThreshold: number;
+  onNavigate: (wardNumber: number) => void;
+  onClose: () => void;
+  onSpeciesSelect?: (commonName: string) => void;
+}
+
+const WardDetailPanel: React.FC<WardDetailPanelProps> = ({
+  wardNumber,
+  selectedYear,
+  hotspotLossThreshold,
+  onNavigate,
+  onClose,
+  onSpeciesSelect,
+}) => {
+  const { wardData, comparisonData, wardStats } = useGreenCoverStore();
+  const greenScoreProfile = useActiveGreenScoreProfile();
+  const [detail, setDetail] = useState<WardDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchWardDetail(wardNumber)
+      .then((data) => { if (!cancelled) setDetail(data); })
+      .catch((err) => {
+        console.error('[WardDetailPanel] Error fetching ward detail:', err);
+        if (!cancelled) {
+          setDetail(null);
+          setError(`Could not load details for Ward ${wardNumber}.`);
+        }
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [wardNumber]);
+
+  // Cached Green Cover data, so scores and ranks match the leaderboard and ward map
+  const cached = useMemo(() => ({
+    wardData: Array.isArray(wardData) ? wardData : [],
+    comparisonData: Array.isArray(comparisonData) ? comparisonData : [],
+    wardStats: Array.isArray(wardStats) ? wardStats : [],
+  }), [wardData, comparisonData, wardStats]);
+
+  const wardNumbers = useMemo(
+    () => [...new Set([...cached.wardData.map((w) => w.ward_number), ...cached.wardStats.map((w) => w.ward_number)])]
+      .sort((a, b) => a - b),
+    [cached]
+  );
+  const position = wardNumbers.indexOf(wardNumber);
+  const previousWard = position > 0 ? wardNumbers[position - 1] : null;
+  const nextWard = position >= 0 && position < wardNumbers.length - 1 ? wardNumbers[position + 1] : null;
+
+  const ranking = useMemo(
+    () => rankWardsByGreenScore(cached, selectedYear, greenScoreProfile),
+    [cached, selectedYear, greenScoreProfile]
+  );
+  const cityRank = ranking.find((r) => r.wardNumber === wardNumber) ?? null;
+
+  const breakdown = useMemo(() => {
+    const landCover = cached.wardData.find((w) => w.ward_number === wardNumber && w.year === selectedYear);
+    if (!landCover) return null;
+    const comparison = cached.comparisonData.find((c) => c.ward_number === wardNumber);
+    const census = cached.wardStats.length > 0
+      ? cached.wardStats.find((s) => s.ward_number === wardNumber)?.tree_count ?? 0
+      : null;
+    return scoreGreenCover(wardGreenScoreInputs(landCover, comparison, census), greenScoreProfile);
+  }, [cached, wardNumber, selectedYear, greenScoreProfile]);
+
+  const navigation = (
+    <div className="flex items-center justify-between">
+      <button type="button" onClick={onClose} className="flex items-center text-sm text-primary-600 hover:underline">
+        <ArrowLeft size={14} className="mr-1" /> All wards
+      </button>
+      <div className="flex items-center gap-1 text-xs text-gray-500">
+        <button
+          type="button"
+          onClick={() => previousWard != null && onNavigate(previousWard)}
+          disabled={previousWard == null}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+          title={previousWard != null ? `Ward ${previousWard}` : undefined}
+          aria-label="Previous ward"
+        >
+          <ChevronLeft size={16} />
+        </button>
+        {position >= 0 && <span>{position + 1} / {wardNumbers.length}</span>}
+        <button
+          type="button"
+          onClick={() => nextWard != null && onNavigate(nextWard)}
+          disabled={nextWard == null}
+          className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+          title={nextWard != null ? `Ward ${nextWard}` : undefined}
+          aria-label="Next ward"
+        >
+          <ChevronRight size={16} />
+        </button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {navigation}
+        <div className="flex justify-center py-10"><Loader2 size={24} className="animate-spin text-gray-400" /></div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-3">
+        {navigation}
+        <p className="text-sm text-gray-500">{error ?? `No data for Ward ${wardNumber}.`}</p>
+      </div>
+    );
+  }
+
+  const { boundary, census, land_cover: landCover } = detail;
+  const latest = landCover.length > 0 ? landCover[landCover.length - 1] : null;
+  const areaHa = boundary?.area_ha ?? (latest ? latest.total_area_m2 / 10000 : null);
+  const hotspot = getWardHotspotStatus(detail.overall_2019_2025, latest?.total_area_m2 ?? null, hotspotLossThreshold);
+
+  // This ward and the wards it borders, best score first
+  const neighbourhood = ranking
+    .filter((r) => r.wardNumber === wardNumber || detail.neighbours.includes(r.wardNumber))
+    .map((r, index) => ({ ...r, localRank: index + 1 }));
+  const localRank = neighbourhood.find((r) => r.wardNumber === wardNumber)?.localRank ?? null;
+
+  const timeline = landCover.map((row) => ({
+    year: row.year,
+    trees: row.trees_pct,
+    built: row.built_pct,
+    grass: row.grass_pct,
+  }));
+
+  // Satellite-vs-census fallback until point-level validation is imported
+  const censusCanopyHa = census.total_canopy_area_m2 != null ? census.total_canopy_area_m2 / 10000 : null;
+  const satelliteTreesHa = latest ? latest.trees_area_m2 / 10000 : null;
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      {navigation}
+
+      <div>
+        <h2 className="text-xl font-bold text-primary-800">Ward {wardNumber}</h2>
+        {boundary && (
+          <p className="text-sm text-gray-600">
+            {[boundary.prabhag_name, boundary.ward_office, boundary.zone != null ? `Zone ${boundary.zone}` : null]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Figure
+          label={`Green Score ${selectedYear}`}
+          value={breakdown ? String(breakdown.score) : '—'}
+          note={cityRank ? `#${cityRank.rank} of ${ranking.length} wards` : undefined}
+        />
+        <Figure label="Census trees" value={formatNumber(census.tree_count)} note={`${formatNumber(census.species_count)} species`} />
+        <Figure
+          label="Trees per ha"
+          value={areaHa ? formatNumber(census.tree_count / areaHa, 1) : '—'}
+          note={areaHa ? `${formatNumber(areaHa, 0)} ha ward` : undefined}
+        />
+        <Figure label="Tree cover" value={latest ? `${latest.trees_pct.toFixed(1)}%` : '—'} note={latest ? String(latest.year) : undefined} />
+        <Figure label="Built-up" value={latest ? `${latest.built_pct.toFixed(1)}%` : '—'} note={latest ? String(latest.year) : undefined} />
+        <Figure label="CO₂ per year" value={census.co2_kg != null ? `${formatCo2(census.co2_kg)}/yr` : '—'} note="Census estimate" />
+      </div>
+
+      {breakdown && (
+        <GreenScoreBreakdownCard title={`How Ward ${wardNumber}'s ${selectedYear} score is computed`} breakdown={breakdown} />
+      )}
+
+      {/* Hotspot status */}
+      {hotspot && (
+        <div className={`flex items-start gap-2 p-2 rounded-lg border text-sm ${
+          hotspot.isHotspot ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+        }`}>
+          {hotspot.isHotspot ? <Flame size={16} className="mt-0.5 flex-shrink-0" /> : <TrendingUp size={16} className="mt-0.5 flex-shrink-0" />}
+          <div>
+            {hotspot.isHotspot ? (
+              <>
+                Deforestation hotspot{' '}
+                <span className={`ml-1 px-1.5 py-0.5 rounded text-xs font-medium ${SEVERITY_STYLES[hotspot.severity]}`}>
+                  {hotspot.severity}
+                </span>
+              </>
+            ) : (
+              'Not a deforestation hotspot'
+            )}
+            <p className="text-xs opacity-80">
+              Net tree-cover change 2019–2025: {hotspot.netChangePct > 0 ? '+' : ''}{hotspot.netChangePct.toFixed(2)}% of ward area
+              (hotspot threshold −{hotspotLossThreshold}%).
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Rank among neighbours */}
+      {neighbourhood.length > 1 && (
+        <div className="card">
+          <div className="card-header">
+            <h3 className="font-medium flex items-center">
+              <Trophy size={18} className="mr-2 text-gray-500" /> Among Neighbouring Wards
+            </h3>
+          </div>
+          <div className="card-body space-y-1">
+            <p className="text-xs text-gray-500 mb-1">
+              {localRank != null && `#${localRank} of ${neighbourhood.length} — this ward and the ${neighbourhood.length - 1} it borders, by ${selectedYear} Green Score.`}
+            </p>
+            {neighbourhood.map((ward) => {
+              const isCurrent = ward.wardNumber === wardNumber;
+              return (
+                <button
+                  key={ward.wardNumber}
+                  type="button"
+                  onClick={() => !isCurrent && onNavigate(ward.wardNumber)}
+                  disabled={isCurrent}
+                  className={`w-full flex items-center text-sm rounded px-1 py-0.5 ${
+                    isCurrent ? 'bg-primary-50 font-semibold text-primary-800' : 'hover:bg-gray-50 text-gray-700'
+                  }`}
+                >
+                  <span className="w-6 text-xs text-gray-400">{ward.localRank}</span>
+                  <span className="w-20 text-left">Ward {ward.wardNumber}</span>
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden mx-2">
+                    <div className="h-full rounded-full" style={{ width: `${ward.score}%`, backgroundColor: getScoreColor(ward.score) }} />
+                  </div>
+                  <span className="w-8 text-right" style={{ color: getScoreColor(ward.score) }}>{ward.score}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Land cover timeline */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center">
+            <SatelliteDish size={18} className="mr-2 text-gray-500" /> Land Cover by Year
+          </h3>
+        </div>
+        <div className="card-body">
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-500">No land-cover data has been imported for this ward.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={timeline} margin={{ top: 4, right: 8, bottom: 0, left: -16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f3f4f6" />
+                <XAxis dataKey="year" tick={{ fontSize: 10 }} />
+                <YAxis tick={{ fontSize: 10 }} unit="%" />
+                <Tooltip formatter={(value) => `${Number(value).toFixed(1)}%`} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                <Line type="monotone" dataKey="trees" name="Trees" stroke="#16a34a" strokeWidth={2} dot={{ r: 2 }} />
+                <Line type="monotone" dataKey="built" name="Built-up" stroke="#6b7280" strokeWidth={2} dot={{ r: 2 }} />
+                <Line type="monotone" dataKey="grass" name="Grass" stroke="#a3e635" strokeWidth={1.5} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      {/* Year-over-year change */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium">Tree Cover Change</h3>
+        </div>
+        <div className="card-body">
+          {detail.year_over_year_changes.length === 0 && !detail.overall_2019_2025 ? (
+            <p className="text-sm text-gray-500">No change data has been imported for this ward.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-1 font-medium">Period</th>
+                  <th className="py-1 font-medium text-right">Lost</th>
+                  <th className="py-1 font-medium text-right">Gained</th>
+                  <th className="py-1 font-medium text-right">Net</th>
+                  <th className="py-1 font-medium text-right">Built gained</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...detail.year_over_year_changes, ...(detail.overall_2019_2025 ? [detail.overall_2019_2025] : [])].map((row) => {
+                  const isOverall = row === detail.overall_2019_2025;
+                  return (
+                    <tr key={`${row.from_year}-${row.to_year}`} className={`border-b border-gray-50 ${isOverall ? 'font-semibold' : ''}`}>
+                      <td className="py-1 text-gray-700">{row.from_year}–{row.to_year}</td>
+                      <td className="py-1 text-right text-red-600">{formatHa(row.trees_lost_m2, 2)}</td>
+                      <td className="py-1 text-right text-green-600">{formatHa(row.trees_gained_m2, 2)}</td>
+                      <td className={`py-1 text-right ${row.net_tree_change_m2 < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                        <span className="inline-flex items-center gap-0.5">
+                          {row.net_tree_change_m2 < 0 ? <TrendingDown size={10} /> : <TrendingUp size={10} />}
+                          {formatSignedHa(row.net_tree_change_m2)}
+                        </span>
+                      </td>
+                      <td className="py-1 text-right text-gray-600">{formatHa(row.built_gained_m2, 2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {/* Census vs satellite */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center">
+            <MapPin size={18} className="mr-2 text-gray-500" /> Census vs Satellite
+          </h3>
+        </div>
+        <div className="card-body space-y-2 text-sm">
+          {detail.validation ? (
+            <>
+              <p className="text-gray-700">
+                <strong>{formatNumber((detail.validation.confirmed_trees / detail.validation.total_trees) * 100, 1)}%</strong> of
+                {' '}{formatNumber(detail.validation.total_trees)} census trees sit on land the satellite classes as trees.
+              </p>
+              <div className="grid grid-cols-3 gap-2">
+                <Figure label="Now built-up" value={formatNumber(detail.validation.now_built)} />
+                <Figure label="Now bare" value={formatNumber(detail.validation.now_bare)} />
+                <Figure label="Unclassified" value={formatNumber(detail.validation.unclassified)} />
+              </div>
+              {detail.validation.now_built + detail.validation.now_bare > 0 && (
+                <p className="text-xs text-amber-700 flex items-start gap-1">
+                  <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+                  Trees on built-up or bare land may have been felled; flag them for field verification.
+                </p>
+              )}
+            </>
+          ) : censusCanopyHa != null && satelliteTreesHa ? (
+            <>
+              <p className="text-gray-700">
+                Census crowns cover about <strong>{formatNumber(censusCanopyHa, 1)} ha</strong>; the satellite sees{' '}
+                <strong>{formatNumber(satelliteTreesHa, 1)} ha</strong> of tree cover in {latest?.year}
+                {' '}({formatNumber((censusCanopyHa / satelliteTreesHa) * 100, 0)}%).
+              </p>
+              <p className="text-[11px] text-gray-400">
+                Area-level comparison only; tree-by-tree validation appears once land-cover point samples are imported.
+                Private and unsurveyed trees make the satellite figure larger; overlapping crowns make the census one larger.
+              </p>
+            </>
+          ) : (
+            <p className="text-gray-500">Not enough census or land-cover data to compare.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Top species */}
+      <div className="card">
+        <div className="card-header">
+          <h3 className="font-medium flex items-center">
+            <Sprout size={18} className="mr-2 text-gray-500" /> Top Species
+          </h3>
+        </div>
+        <div className="card-body space-y-1.5">
+          {detail.top_species.length === 0 ? (
+            <p className="text-sm text-gray-500">No census trees recorded in this ward.</p>
+          ) : (
+            detail.top_species.map((species) => (
+              <div key={species.common_name} className="flex items-center text-sm">
+                {onSpeciesSelect ? (
+                  <button
+                    type="button"
+                    onClick={() => onSpeciesSelect(species.common_name)}
+                    className="w-32 truncate text-left text-primary-700 hover:underline"
+                    title={species.botanical_name ?? undefined}
+                  >
+                    {species.common_name}
+                  </button>
+                ) : (
+                  <span className="w-32 truncate text-gray-700" title={species.botanical_name ?? undefined}>{species.common_name}</span>
+                )}
+                <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden mx-2">
+                  <div
+                    className="h-full bg-primary-500 rounded-full"
+                    style={{ width: `${(species.tree_count / detail.top_species[0].tree_count) * 100}%` }}
+                  />
+                </div>
+                <span className="w-20 text-right text-gray-500 whitespace-nowrap">
+                  {formatNumber(species.tree_count)} ({formatNumber(species.share_pct, 1)}%)
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WardDetailPanel;
@@ -3,6 +3,7 @@
 
 import React from 'react';
 import { 
+  ADDITIVE_METRICS,
   ChartConfig, 
   ChartType,
   GroupByField, 
@@ -11,6 +12,7 @@ import {
   SortOrder,
   GROUP_BY_LABELS,
   METRIC_LABELS,
+  METRIC_GROUPS,
   CHART_TYPE_LABELS
 } from '../../../../types/charts';
 
@@ -20,11 +22,10 @@ interface ChartBuilderProps {
 }
 
 const ChartBuilder: React.FC<ChartBuilderProps> = ({ config, onFieldChange }) => {
-  const chartTypes: ChartType[] = ['bar', 'line', 'pie', 'horizontalBar', 'area'];
+  const chartTypes: ChartType[] = ['bar', 'stackedBar', 'line', 'pie', 'horizontalBar', 'area', 'heatmap'];
   const groupByOptions: GroupByField[] = [
     'ward', 'species', 'economic_importance', 'flowering', 'location_type', 'height_category', 'canopy_category'
   ];
-  const metricOptions: MetricField[] = ['count', 'sum_co2', 'avg_height', 'avg_canopy', 'avg_girth'];
   const limitOptions = [
     { value: null, label: 'All' },
     { value: 5, label: 'Top 5' },
@@ -91,15 +92,46 @@ const ChartBuilder: React.FC<ChartBuilderProps> = ({ config, onFieldChange }) =>
             onChange={(e) => onFieldChange('metric', e.target.value as MetricField)}
             className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 bg-white"
           >
-            {metricOptions.map((option) => (
-              <option key={option} value={option}>
-                {METRIC_LABELS[option]}
-              </option>
+            {METRIC_GROUPS.map((group) => (
+              <optgroup key={group.label} label={group.label}>
+                {group.metrics.map((option) => (
+                  <option key={option} value={option}>
+                    {METRIC_LABELS[option]}
+                  </option>
+                ))}
+              </optgroup>
             ))}
           </select>
         </div>
       </div>
 
+      {/* Secondary dimension for cross-tab charts */}
+      <div className="space-y-1.5">
+        <label className="text-xs font-medium text-gray-600">
+          Break Down By (optional)
+        </label>
+        <select
+          value={config.secondaryGroupBy ?? ''}
+          onChange={(e) => onFieldChange('secondaryGroupBy', (e.target.value || null) as GroupByField | null)}
+          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-primary-500 focus:border-primary-500 bg-white"
+        >
+          <option value="">None</option>
+          {groupByOptions
+            .filter((option) => option !== config.groupBy)
+            .map((option) => (
+              <option key={option} value={option}>
+                {GROUP_BY_LABELS[option]}
+              </option>
+            ))}
+        </select>
+        {config.secondaryGroupBy && (
+          <p className="text-xs text-gray-500">
+            Use Bar (grouped), Stacked Bar or Heatmap Table to compare {GROUP_BY_LABELS[config.groupBy].toLowerCase()} × {GROUP_BY_LABELS[config.secondaryGroupBy].toLowerCase()}. Sort and limit apply to {GROUP_BY_LABELS[config.groupBy].toLowerCase()}.
+            {!ADDITIVE_METRICS.includes(config.metric) && ' This metric does not add up across groups, so it is shown side by side rather than stacked.'}
+          </p>
+        )}
+      </div>
+
       {/* Sort & Limit Row */}
       <div className="grid grid-cols-3 gap-3">
         {/* Sort By */}
@@ -2,16 +2,23 @@
 // Main chart section component with presets, builder, and chart display
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { BarChart3, Download, Settings2, ChevronDown, ChevronUp, Image, FileSpreadsheet } from 'lucide-react';
+import { BarChart3, Download, Settings2, ChevronDown, ChevronUp, Image, FileCode, FileSpreadsheet, Filter } from 'lucide-react';
 import axios from 'axios';
-import { toPng } from 'html-to-image';
+import { toPng, toSvg } from 'html-to-image';
 import ChartPresets from './ChartPresets';
 import ChartBuilder from './ChartBuilder';
 import DynamicChart from './DynamicChart';
+import { useFilters } from '../../../../store/FilterStore';
+import { useTreeStore } from '../../../../store/TreeStore';
 import { 
   ChartConfig, 
   ChartDataPoint, 
+  ChartDataRequest,
+  ChartDataResponse,
   CHART_PRESETS,
+  CHART_DATA_SOURCE,
+  CHART_DATA_DATE,
+  METRIC_LABELS,
   GroupByField,
   MetricField,
   SortBy,
@@ -30,13 +37,33 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
   const [activePresetId, setActivePresetId] = useState<string>('trees-by-ward');
   const [chartConfig, setChartConfig] = useState<ChartConfig>(CHART_PRESETS[0].config);
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const [chartSeries, setChartSeries] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isBuilderOpen, setIsBuilderOpen] = useState(false);
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [chartTotal, setChartTotal] = useState<number | null>(null);
+  const [dataRetrievedAt, setDataRetrievedAt] = useState<Date | null>(null);
+  const [clipToArea, setClipToArea] = useState(true);
   
   const chartRef = useRef<HTMLDivElement>(null);
   const exportMenuRef = useRef<HTMLDivElement>(null);
+  // Ignores responses that arrive after a newer request was sent
+  const latestRequestRef = useRef(0);
+  
+  // Charts follow the same filters (and drawn area) as the map
+  const { filters, hasActiveFilters, activeFiltersCount, activeFilterChips } = useFilters();
+  const { selectedArea } = useTreeStore();
+  const drawnGeometry = selectedArea?.geojsonData?.geometry ?? null;
+  const chartPolygon = clipToArea ? drawnGeometry : null;
+  
+  // Provenance shown under the chart and embedded in every export
+  const provenance = {
+    filters: hasActiveFilters ? activeFilterChips.map(chip => chip.label).join('; ') : 'None',
+    area: chartPolygon ? 'Drawn area only' : 'All of Pune',
+    trees: chartTotal,
+    retrievedAt: dataRetrievedAt ? dataRetrievedAt.toLocaleString() : '—',
+  };
 
   // Close export menu when clicking outside
   useEffect(() => {
@@ -49,29 +76,43 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Fetch chart data when config changes
+  // Fetch chart data when config, filters or drawn area change
   const fetchChartData = useCallback(async () => {
+    const requestId = ++latestRequestRef.current;
     setIsLoading(true);
     setError(null);
     
     try {
-      const response = await axios.post(`${API_BASE_URL}/api/chart-data`, {
+      const request: ChartDataRequest = {
         groupBy: chartConfig.groupBy,
+        secondaryGroupBy: chartConfig.secondaryGroupBy,
         metric: chartConfig.metric,
         sortBy: chartConfig.sortBy,
         sortOrder: chartConfig.sortOrder,
         limit: chartConfig.limit,
-      });
+        filters,
+        polygon: chartPolygon,
+      };
+      const response = await axios.post<ChartDataResponse>(`${API_BASE_URL}/api/chart-data`, request);
+      if (requestId !== latestRequestRef.current) return;
       
       setChartData(response.data.data || []);
+      setChartSeries(response.data.series || []);
+      setChartTotal(response.data.total ?? null);
+      setDataRetrievedAt(new Date());
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
       console.error('Error fetching chart data:', err);
       setError('Failed to load chart data. Please try again.');
       setChartData([]);
+      setChartSeries([]);
+      setChartTotal(null);
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setIsLoading(false);
+      }
     }
-  }, [chartConfig]);
+  }, [chartConfig, filters, chartPolygon]);
 
   useEffect(() => {
     fetchChartData();
@@ -90,7 +131,14 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
   // Handle custom config change from builder
   const handleConfigChange = (newConfig: Partial<ChartConfig>) => {
     setActivePresetId(''); // Clear preset when custom config is used
-    setChartConfig(prev => ({ ...prev, ...newConfig }));
+    setChartConfig(prev => {
+      const next = { ...prev, ...newConfig };
+      // A dimension cannot be crossed with itself
+      if (next.secondaryGroupBy === next.groupBy) {
+        next.secondaryGroupBy = null;
+      }
+      return next;
+    });
   };
 
   // Handle individual config field changes
@@ -98,32 +146,32 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
     handleConfigChange({ [field]: value });
   };
 
-  // Export to PNG - enterprise-grade with proper styling
-  const handleExportPNG = async () => {
+  // File name from the chart title and today's date
+  const buildExportFileName = (extension: string) =>
+    `${chartConfig.title.replace(/[^a-z0-9]/gi, '_')}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  // Export to PNG/SVG - captures the title, chart and provenance footer together
+  const handleExportImage = async (format: 'png' | 'svg') => {
     if (!chartRef.current) return;
     
     try {
       // Wait a brief moment to ensure SVG elements are fully rendered
       await new Promise(resolve => setTimeout(resolve, 100));
       
-      const dataUrl = await toPng(chartRef.current, {
+      const options = {
         backgroundColor: '#ffffff',
-        pixelRatio: 3, // High quality for print/presentations
         cacheBust: true, // Ensure fresh render
-        filter: (node) => {
-          // Include all nodes, don't filter anything out
-          return true;
-        },
-      });
+      };
+      const dataUrl = format === 'png'
+        ? await toPng(chartRef.current, { ...options, pixelRatio: 3 }) // High quality for print/presentations
+        : await toSvg(chartRef.current, options);
       
-      // Create timestamp for unique filename
-      const timestamp = new Date().toISOString().slice(0, 10);
       const link = document.createElement('a');
-      link.download = `${chartConfig.title.replace(/[^a-z0-9]/gi, '_')}_${timestamp}.png`;
+      link.download = buildExportFileName(format);
       link.href = dataUrl;
       link.click();
     } catch (err) {
-      console.error('Error exporting PNG:', err);
+      console.error(`Error exporting ${format.toUpperCase()}:`, err);
     }
     setIsExportMenuOpen(false);
   };
@@ -133,31 +181,34 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
     if (chartData.length === 0) return;
     
     // Get proper metric label
-    const metricLabel = chartConfig.metric === 'count' 
-      ? 'Number of Trees' 
-      : chartConfig.metric === 'sum_co2' 
-        ? 'CO2 Sequestered (tons)'
-        : chartConfig.metric === 'avg_height'
-          ? 'Average Height (m)'
-          : chartConfig.metric === 'avg_canopy'
-            ? 'Average Canopy (m)'
-            : chartConfig.metric === 'avg_girth'
-              ? 'Average Girth (cm)'
-              : 'Value';
+    const metricLabel = METRIC_LABELS[chartConfig.metric] ?? 'Value';
     
     // Build CSV with metadata header
     const timestamp = new Date().toLocaleString();
     const metadata = [
       `# Pune Tree Dashboard - Chart Export`,
       `# Title: ${chartConfig.title}`,
+      `# Source: ${CHART_DATA_SOURCE} (${CHART_DATA_DATE})`,
+      `# Filters: ${provenance.filters}`,
+      `# Area: ${provenance.area}`,
+      `# Trees in scope: ${provenance.trees ?? 'unknown'}`,
+      `# Data retrieved: ${provenance.retrievedAt}`,
       `# Generated: ${timestamp}`,
       `# Total Records: ${chartData.length}`,
       ``,
     ];
     
-    const headers = ['Category', metricLabel];
+    // Quote text fields, doubling embedded quotes (RFC 4180)
+    const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    
+    // Cross-tab charts export one column per secondary category plus the overall value
+    const isCrossTab = chartConfig.secondaryGroupBy !== null && chartSeries.length > 0;
+    const headers = isCrossTab
+      ? ['Category', ...chartSeries.map(s => csvText(`${s} - ${metricLabel}`)), csvText(`All - ${metricLabel}`)]
+      : ['Category', csvText(metricLabel)];
     const rows = chartData.map(d => [
-      `"${d.name}"`, // Quote to handle commas in names
+      csvText(d.name),
+      ...(isCrossTab ? chartSeries.map(s => (d.breakdown?.[s] ?? 0).toString()) : []),
       d.value.toString()
     ]);
     
@@ -168,12 +219,11 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
     ].join('\n');
     
     // Download with timestamp
-    const dateStr = new Date().toISOString().slice(0, 10);
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `${chartConfig.title.replace(/[^a-z0-9]/gi, '_')}_${dateStr}.csv`;
+    link.download = buildExportFileName('csv');
     link.click();
     URL.revokeObjectURL(url);
     setIsExportMenuOpen(false);
@@ -202,12 +252,19 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
           {isExportMenuOpen && (
             <div className="absolute right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-50 min-w-[140px] py-1">
               <button
-                onClick={handleExportPNG}
+                onClick={() => handleExportImage('png')}
                 className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
               >
                 <Image size={16} className="text-gray-500" />
                 Export as PNG
               </button>
+              <button
+                onClick={() => handleExportImage('svg')}
+                className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <FileCode size={16} className="text-gray-500" />
+                Export as SVG
+              </button>
               <button
                 onClick={handleExportCSV}
                 className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
@@ -227,6 +284,29 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
           onPresetSelect={handlePresetSelect}
         />
 
+        {/* Scope of the chart - mirrors the filtered map */}
+        {(hasActiveFilters || drawnGeometry) && (
+          <div className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 bg-primary-50 border border-primary-100 rounded-lg text-xs text-primary-800">
+            <span className="flex items-center gap-1.5">
+              <Filter size={12} />
+              {hasActiveFilters
+                ? `${activeFiltersCount} active filter${activeFiltersCount === 1 ? '' : 's'} applied`
+                : 'No filters applied'}
+            </span>
+            {drawnGeometry && (
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={clipToArea}
+                  onChange={(e) => setClipToArea(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Only the drawn area
+              </label>
+            )}
+          </div>
+        )}
+
         {/* Chart Display - Enterprise-grade container */}
         <div 
           ref={chartRef}
@@ -240,6 +320,9 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
             </h4>
             <p className="text-xs text-gray-500 text-center mt-1">
               Pune Urban Tree Census
+              {(hasActiveFilters || chartPolygon) && chartTotal !== null && (
+                <> · {chartTotal.toLocaleString()} trees{hasActiveFilters ? ' matching filters' : ''}{chartPolygon ? ' in drawn area' : ''}</>
+              )}
             </p>
           </div>
           
@@ -272,9 +355,26 @@ const ChartSection: React.FC<ChartSectionProps> = ({ className = '' }) => {
             <DynamicChart
               data={chartData}
               config={chartConfig}
+              series={chartSeries}
             />
           )}
           </div>
+
+          {/* Provenance footer - part of the exported image */}
+          <div className="px-5 py-3 border-t border-gray-100 text-[10px] leading-relaxed text-gray-500">
+            <p>
+              <span className="font-medium text-gray-600">Source:</span> {CHART_DATA_SOURCE} ({CHART_DATA_DATE})
+              {provenance.trees !== null && <> · {provenance.trees.toLocaleString()} trees in scope</>}
+            </p>
+            <p>
+              <span className="font-medium text-gray-600">Filters:</span> {provenance.filters}
+            </p>
+            <p>
+              <span className="font-medium text-gray-600">Area:</span> {provenance.area}
+              {' · '}
+              <span className="font-medium text-gray-600">Retrieved:</span> {provenance.retrievedAt}
+            </p>
+          </div>
         </div>
 
         {/* Advanced Builder Toggle */}
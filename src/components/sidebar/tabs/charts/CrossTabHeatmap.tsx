@@ -0,0 +1,96 @@
+// src/components/sidebar/tabs/charts/CrossTabHeatmap.tsx
+// Shaded cross-tab table for two-dimensional chart data (groupBy × secondaryGroupBy)
+
+import React from 'react';
+import { ChartDataPoint, GroupByField, GROUP_BY_LABELS } from '../../../../types/charts';
+
+interface CrossTabHeatmapProps {
+  data: ChartDataPoint[];
+  series: string[];
+  groupBy: GroupByField;
+  secondaryGroupBy: GroupByField | null;
+  formatValue: (value: number) => string;
+  showDataLabels: boolean;
+}
+
+// Brand green (CHART_COLORS.primary) as RGB for the cell shading
+const HEAT_RGB = '46, 125, 50';
+
+const CrossTabHeatmap: React.FC<CrossTabHeatmapProps> = ({
+  data,
+  series,
+  groupBy,
+  secondaryGroupBy,
+  formatValue,
+  showDataLabels,
+}) => {
+  // Shade relative to the largest cell so the pattern stands out
+  const maxValue = Math.max(
+    0,
+    ...data.flatMap((row) => series.map((s) => row.breakdown?.[s] ?? 0))
+  );
+
+  const cellStyle = (value: number): React.CSSProperties => {
+    const intensity = maxValue > 0 ? value / maxValue : 0;
+    const alpha = value > 0 ? 0.08 + intensity * 0.82 : 0;
+    return {
+      backgroundColor: `rgba(${HEAT_RGB}, ${alpha.toFixed(3)})`,
+      color: alpha > 0.5 ? '#ffffff' : '#374151',
+    };
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="sticky left-0 bg-white px-2 py-2 text-left font-medium text-gray-500 border-b border-gray-200">
+              {GROUP_BY_LABELS[groupBy]}
+              {secondaryGroupBy && <span className="text-gray-400"> × {GROUP_BY_LABELS[secondaryGroupBy]}</span>}
+            </th>
+            {series.map((s) => (
+              <th
+                key={s}
+                className="px-2 py-2 font-medium text-gray-600 border-b border-gray-200 whitespace-nowrap"
+                title={s}
+              >
+                {s.length > 14 ? `${s.slice(0, 13)}…` : s}
+              </th>
+            ))}
+            <th className="px-2 py-2 font-semibold text-gray-700 border-b border-gray-200">All</th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map((row) => (
+            <tr key={row.name}>
+              <td
+                className="sticky left-0 bg-white px-2 py-1.5 font-medium text-gray-700 whitespace-nowrap max-w-[140px] truncate"
+                title={row.name}
+              >
+                {row.name}
+              </td>
+              {series.map((s) => {
+                const value = row.breakdown?.[s] ?? 0;
+                return (
+                  <td
+                    key={s}
+                    className="px-2 py-1.5 text-center tabular-nums border border-white"
+                    style={cellStyle(value)}
+                    title={`${row.name} · ${s}: ${value.toLocaleString('en-US', { maximumFractionDigits: 2 })}`}
+                  >
+                    {showDataLabels && value > 0 ? formatValue(value) : ''}
+                  </td>
+                );
+              })}
+              <td className="px-2 py-1.5 text-center font-semibold text-gray-700 tabular-nums">
+                {formatValue(row.value)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default CrossTabHeatmap;
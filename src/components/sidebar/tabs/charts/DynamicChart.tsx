@@ -23,28 +23,29 @@ import {
   Label,
 } from 'recharts';
 import { 
+  ADDITIVE_METRICS,
   ChartConfig, 
   ChartDataPoint, 
   CHART_COLOR_PALETTE,
   METRIC_LABELS,
+  METRIC_UNITS,
   GROUP_BY_LABELS,
 } from '../../../../types/charts';
+import CrossTabHeatmap from './CrossTabHeatmap';
 
 interface DynamicChartProps {
   data: ChartDataPoint[];
   config: ChartConfig;
+  // Secondary categories for cross-tab charts (from /api/chart-data)
+  series?: string[];
 }
 
+// Neutral grey for the folded "Other" series
+const OTHER_SERIES_COLOR = '#9E9E9E';
+
 // Get unit suffix based on metric
 const getMetricUnit = (metric: string): string => {
-  switch (metric) {
-    case 'count': return ' trees';
-    case 'sum_co2': return ' tons';
-    case 'avg_height': return 'm';
-    case 'avg_canopy': return 'm';
-    case 'avg_girth': return 'cm';
-    default: return '';
-  }
+  return METRIC_UNITS[metric as keyof typeof METRIC_UNITS] ?? '';
 };
 
 // Get Y-axis label based on metric
@@ -135,6 +136,55 @@ const CustomTooltip = ({
   return null;
 };
 
+// Tooltip for cross-tab charts - one line per secondary category
+const CrossTabTooltip = ({
+  active,
+  payload,
+  label,
+  metric,
+  groupBy,
+}: {
+  active?: boolean;
+  payload?: { value: number; name: string; color?: string; payload?: ChartDataPoint }[];
+  label?: string;
+  metric: string;
+  groupBy: string;
+}) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const unit = getMetricUnit(metric);
+  const groupLabel = GROUP_BY_LABELS[groupBy as keyof typeof GROUP_BY_LABELS] || groupBy;
+  const total = payload[0].payload?.value;
+  const rows = payload.filter((entry) => entry.value > 0);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-md px-3 py-2.5 min-w-[160px] max-w-[260px]">
+      <p className="text-[11px] text-gray-500 uppercase tracking-wide font-medium">{groupLabel}</p>
+      <p className="text-sm font-semibold text-gray-900 mb-1.5">{label || payload[0].payload?.name}</p>
+      <div className="border-t border-gray-100 pt-1.5 space-y-0.5">
+        {rows.map((entry) => (
+          <div key={entry.name} className="flex items-center justify-between gap-3 text-xs">
+            <span className="flex items-center gap-1.5 min-w-0">
+              <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }} />
+              <span className="truncate text-gray-600">{entry.name}</span>
+            </span>
+            <span className="font-medium text-gray-800 tabular-nums">
+              {entry.value.toLocaleString('en-US', { maximumFractionDigits: 2 })}{unit}
+            </span>
+          </div>
+        ))}
+        {total !== undefined && (
+          <div className="flex justify-between gap-3 text-xs pt-1 mt-1 border-t border-gray-100">
+            <span className="text-gray-500">All</span>
+            <span className="font-semibold text-emerald-600 tabular-nums">
+              {total.toLocaleString('en-US', { maximumFractionDigits: 2 })}{unit}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // Custom pie label with better visibility
 const renderPieLabel = (props: {
   cx?: number;
@@ -171,8 +221,8 @@ const renderPieLabel = (props: {
   );
 };
 
-const DynamicChart: React.FC<DynamicChartProps> = ({ data, config }) => {
-  const { chartType, showDataLabels, metric, groupBy } = config;
+const DynamicChart: React.FC<DynamicChartProps> = ({ data, config, series = [] }) => {
+  const { chartType, showDataLabels, metric, groupBy, secondaryGroupBy } = config;
 
   // Add colors to data
   const coloredData = data.map((item, index) => ({
@@ -184,7 +234,8 @@ const DynamicChart: React.FC<DynamicChartProps> = ({ data, config }) => {
   const formatValue = (value: number) => {
     if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
     if (value >= 1000) return `${(value / 1000).toFixed(0)}K`;
-    return value.toLocaleString('en-US', { maximumFractionDigits: 0 });
+    // Keep decimals for small values such as diversity indices
+    return value.toLocaleString('en-US', { maximumFractionDigits: value < 10 ? 2 : 0 });
   };
 
   // Formatter for LabelList
@@ -217,9 +268,153 @@ const DynamicChart: React.FC<DynamicChartProps> = ({ data, config }) => {
     strokeOpacity: 0.8,
   };
 
+  // Cross-tab charts (groupBy × secondaryGroupBy)
+  const isCrossTab = secondaryGroupBy !== null && series.length > 0 && data.some((d) => d.breakdown);
+
+  // Averages keep a decimal in table cells; large counts are abbreviated
+  const formatCellValue = (value: number) =>
+    value < 100 ? value.toLocaleString('en-US', { maximumFractionDigits: 1 }) : formatValue(value);
+
+  if (chartType === 'heatmap') {
+    return (
+      <CrossTabHeatmap
+        data={data}
+        series={isCrossTab ? series : []}
+        groupBy={groupBy}
+        secondaryGroupBy={isCrossTab ? secondaryGroupBy : null}
+        formatValue={formatCellValue}
+        showDataLabels={showDataLabels}
+      />
+    );
+  }
+
+  if (isCrossTab && chartType !== 'pie') {
+    const seriesColor = (name: string, index: number) =>
+      name === 'Other' ? OTHER_SERIES_COLOR : CHART_COLOR_PALETTE[index % CHART_COLOR_PALETTE.length];
+    const seriesValue = (name: string) => (row: ChartDataPoint) => row.breakdown?.[name] ?? 0;
+    const isHorizontal = chartType === 'horizontalBar';
+    const isStacked = (chartType === 'stackedBar' || chartType === 'horizontalBar' || chartType === 'area')
+      && ADDITIVE_METRICS.includes(metric);
+    const tooltip = <Tooltip content={<CrossTabTooltip metric={metric} groupBy={groupBy} />} cursor={{ fill: 'rgba(0, 0, 0, 0.04)' }} />;
+    const legend = (
+      <Legend
+        verticalAlign="top"
+        iconType="circle"
+        iconSize={8}
+        wrapperStyle={{ paddingBottom: '8px' }}
+        formatter={(value: string) => (
+          <span style={{ fontSize: '11px', color: '#374151' }}>{truncateLabel(value, 16)}</span>
+        )}
+      />
+    );
+    const categoryAxis = (
+      <XAxis
+        dataKey="name"
+        {...axisStyle}
+        angle={-45}
+        textAnchor="end"
+        height={60}
+        tickFormatter={(value) => truncateLabel(String(value), 10)}
+        interval={data.length > 20 ? Math.floor(data.length / 12) : 0}
+      />
+    );
+    const valueAxis = (
+      <YAxis {...axisStyle} tickFormatter={formatValue} width={55}>
+        <Label
+          value={getYAxisLabel(metric)}
+          angle={-90}
+          position="insideLeft"
+          style={{ textAnchor: 'middle', fontSize: '11px', fill: '#6B7280', fontWeight: 500 }}
+          offset={-5}
+        />
+      </YAxis>
+    );
+
+    if (chartType === 'line' || chartType === 'area') {
+      const ChartComponent = chartType === 'line' ? LineChart : AreaChart;
+      return (
+        <ResponsiveContainer width="100%" height={320}>
+          <ChartComponent data={data} margin={{ top: 10, right: 20, left: 20, bottom: 60 }}>
+            <CartesianGrid {...gridStyle} />
+            {legend}
+            {categoryAxis}
+            {valueAxis}
+            {tooltip}
+            {series.map((name, index) =>
+              chartType === 'line' ? (
+                <Line
+                  key={name}
+                  type="monotone"
+                  name={name}
+                  dataKey={seriesValue(name)}
+                  stroke={seriesColor(name, index)}
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              ) : (
+                <Area
+                  key={name}
+                  type="monotone"
+                  name={name}
+                  dataKey={seriesValue(name)}
+                  stackId={isStacked ? 'stack' : undefined}
+                  stroke={seriesColor(name, index)}
+                  fill={seriesColor(name, index)}
+                  fillOpacity={isStacked ? 0.6 : 0.2}
+                />
+              )
+            )}
+          </ChartComponent>
+        </ResponsiveContainer>
+      );
+    }
+
+    return (
+      <ResponsiveContainer width="100%" height={isHorizontal ? Math.max(320, data.length * (isStacked ? 32 : Math.max(32, series.length * 10))) : 320}>
+        <BarChart
+          data={data}
+          layout={isHorizontal ? 'vertical' : 'horizontal'}
+          margin={isHorizontal ? { top: 10, right: 30, left: 10, bottom: 10 } : { top: 10, right: 20, left: 20, bottom: 60 }}
+        >
+          <CartesianGrid {...gridStyle} vertical={isHorizontal} horizontal={!isHorizontal} />
+          {legend}
+          {isHorizontal ? (
+            <>
+              <XAxis type="number" {...axisStyle} tickFormatter={formatValue} />
+              <YAxis
+                type="category"
+                dataKey="name"
+                {...axisStyle}
+                width={90}
+                tickFormatter={(value) => truncateLabel(String(value), 14)}
+              />
+            </>
+          ) : (
+            <>
+              {categoryAxis}
+              {valueAxis}
+            </>
+          )}
+          {tooltip}
+          {series.map((name, index) => (
+            <Bar
+              key={name}
+              name={name}
+              dataKey={seriesValue(name)}
+              stackId={isStacked ? 'stack' : undefined}
+              fill={seriesColor(name, index)}
+              maxBarSize={isStacked ? 45 : 18}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  }
+
   // Render based on chart type
   switch (chartType) {
     case 'bar':
+    case 'stackedBar':
       return (
         <ResponsiveContainer width="100%" height={280}>
           <BarChart 
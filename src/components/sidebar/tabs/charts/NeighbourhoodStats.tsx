@@ -0,0 +1,188 @@
+// src/components/sidebar/tabs/charts/NeighbourhoodStats.tsx
+// Detailed breakdown of the trees inside a drawn area (species, size classes, location, wards)
+
+import React, { useState } from 'react';
+import { PolygonSizeClass, PolygonStats } from '../../../../store/TreeStore';
+import InfoPopover from '../../../common/InfoPopover';
+
+interface NeighbourhoodStatsProps {
+  stats: PolygonStats;
+}
+
+type SizeClassKey = keyof PolygonStats['size_classes'];
+
+const SIZE_CLASS_LABELS: Record<SizeClassKey, string> = {
+  height: 'Height',
+  girth: 'Girth',
+  canopy: 'Canopy',
+};
+
+// Category labels carry a sort prefix ("1. Short (<5m)") - strip it for display
+const stripSortPrefix = (label: string) => label.replace(/^\d+\.\s*/, '');
+
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: digits });
+
+const StatTile: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-gray-50 rounded-md p-2.5">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-lg font-semibold text-gray-800" title={hint}>{value}</div>
+  </div>
+);
+
+const ShareBar: React.FC<{ label: string; count: number; total: number; color?: string }> = ({
+  label,
+  count,
+  total,
+  color = 'bg-primary-500',
+}) => {
+  const pct = total > 0 ? (count / total) * 100 : 0;
+  return (
+    <div className="text-xs">
+      <div className="flex justify-between mb-0.5">
+        <span className="text-gray-700 truncate pr-2" title={label}>{label}</span>
+        <span className="text-gray-500 tabular-nums whitespace-nowrap">
+          {formatNumber(count)} · {pct.toFixed(pct >= 10 ? 0 : 1)}%
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded">
+        <div className={`h-1.5 rounded ${color}`} style={{ width: `${pct}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const NeighbourhoodStats: React.FC<NeighbourhoodStatsProps> = ({ stats }) => {
+  const [sizeClass, setSizeClass] = useState<SizeClassKey>('height');
+
+  const areaHa = stats.area_m2 / 10000;
+  const { location, species } = stats;
+  const classes: PolygonSizeClass[] = stats.size_classes[sizeClass];
+
+  return (
+    <div className="space-y-5">
+      {/* Area overview */}
+      <div className="grid grid-cols-2 gap-2">
+        <StatTile label="Area" value={`${formatNumber(areaHa, areaHa < 10 ? 2 : 1)} ha`} />
+        <StatTile label="Tree density" value={`${formatNumber(stats.tree_density_per_ha, 1)} /ha`} />
+        <StatTile
+          label="Canopy area"
+          value={`${formatNumber(stats.canopy_area_m2 / 10000, 2)} ha`}
+          hint="Sum of crown projections, treating each canopy as a circle"
+        />
+        <StatTile
+          label="Canopy cover"
+          value={`${formatNumber(stats.canopy_cover_pct, 1)}%`}
+          hint="Upper bound: overlapping crowns are counted twice"
+        />
+      </div>
+
+      {/* Street vs non-street */}
+      <div>
+        <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Location</h5>
+        <div className="space-y-2">
+          <ShareBar label="Street trees (≤15 m from road)" count={location.street} total={stats.tree_count} />
+          <ShareBar label="Non-street trees" count={location.non_street} total={stats.tree_count} color="bg-accent-500" />
+          {location.unknown > 0 && (
+            <ShareBar label="Unknown" count={location.unknown} total={stats.tree_count} color="bg-gray-400" />
+          )}
+        </div>
+      </div>
+
+      {/* Species and diversity */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Species</h5>
+          <InfoPopover titleContent="Diversity indices">
+            <p><strong>Shannon (H′)</strong> grows with both the number of species and how evenly trees are spread across them.</p>
+            <p className="mt-1"><strong>Simpson</strong> is the chance that two trees picked at random are different species.</p>
+            <p className="mt-1"><strong>Evenness</strong> (0–1) compares H′ with the most even mix possible for this many species.</p>
+          </InfoPopover>
+        </div>
+        <div className="grid grid-cols-4 gap-2 mb-3">
+          <StatTile label="Species" value={formatNumber(species.richness)} />
+          <StatTile label="Shannon" value={species.shannon.toFixed(2)} />
+          <StatTile label="Simpson" value={species.simpson.toFixed(2)} />
+          <StatTile label="Evenness" value={species.evenness.toFixed(2)} />
+        </div>
+        <div className="space-y-2">
+          {species.top.map((row) => (
+            <ShareBar key={row.name} label={row.name} count={row.tree_count} total={stats.tree_count} />
+          ))}
+          {species.other_count > 0 && (
+            <ShareBar label="All other species" count={species.other_count} total={stats.tree_count} color="bg-gray-400" />
+          )}
+          {species.unrecorded_count > 0 && (
+            <ShareBar label="Species not recorded" count={species.unrecorded_count} total={stats.tree_count} color="bg-gray-300" />
+          )}
+        </div>
+      </div>
+
+      {/* Size-class distributions */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wide">Size classes</h5>
+          <div className="flex rounded-md border border-gray-200 overflow-hidden">
+            {(Object.keys(SIZE_CLASS_LABELS) as SizeClassKey[]).map((key) => (
+              <button
+                key={key}
+                onClick={() => setSizeClass(key)}
+                className={`px-2 py-0.5 text-xs font-medium transition-colors ${
+                  sizeClass === key ? 'bg-primary-50 text-primary-700' : 'bg-white text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                {SIZE_CLASS_LABELS[key]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          {classes.map((row) => (
+            <ShareBar
+              key={row.label}
+              label={stripSortPrefix(row.label)}
+              count={row.tree_count}
+              total={stats.tree_count}
+              color={row.label === 'Unknown' ? 'bg-gray-400' : 'bg-primary-500'}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-2">
+          Average height {formatNumber(stats.averages.height_m, 1)} m · girth {formatNumber(stats.averages.girth_cm)} cm ·
+          canopy {formatNumber(stats.averages.canopy_dia_m, 1)} m
+        </p>
+      </div>
+
+      {/* Wards */}
+      {stats.wards.length > 0 && (
+        <div>
+          <h5 className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+            Wards ({stats.wards.length})
+          </h5>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-1 font-medium">Ward</th>
+                <th className="py-1 font-medium text-right">Trees</th>
+                <th className="py-1 font-medium text-right">Share of area</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.wards.map((ward) => (
+                <tr key={ward.ward_number} className="border-b border-gray-50">
+                  <td className="py-1 text-gray-700">Ward {ward.ward_number}</td>
+                  <td className="py-1 text-right tabular-nums">{formatNumber(ward.tree_count)}</td>
+                  <td className="py-1 text-right tabular-nums">
+                    {ward.area_share_pct != null ? `${ward.area_share_pct.toFixed(1)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NeighbourhoodStats;
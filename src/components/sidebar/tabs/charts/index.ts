@@ -6,3 +6,4 @@ export { default as ChartPresets } from './ChartPresets';
 export { default as ChartBuilder } from './ChartBuilder';
 export { default as DynamicChart } from './DynamicChart';
 export { default as NeighbourhoodChart } from './NeighbourhoodChart';
+export { default as NeighbourhoodStats } from './NeighbourhoodStats';
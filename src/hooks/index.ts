@@ -19,3 +19,7 @@ export type {
 // Sun position hook
 export { useSunPosition, getSunTimes, isDaytime, getTimeOfDay } from './useSunPosition';
 export type { SunPosition } from './useSunPosition';
+
+// URL state sync hook (shareable deep links)
+export { useUrlStateSync } from './useUrlStateSync';
+export type { SyncedViewState } from './useUrlStateSync';
@@ -0,0 +1,88 @@
+// src/hooks/useUrlStateSync.ts
+import { useCallback, useEffect, useRef } from 'react';
+import { useFilterStore } from '../store/FilterStore';
+import {
+  MapCamera,
+  UrlViewState,
+  getInitialUrlState,
+  serializeUrlState,
+} from '../utils/urlState';
+
+// View state owned by App (filters come from the filter store, camera from the map)
+export type SyncedViewState = Omit<UrlViewState, 'camera' | 'filters'>;
+
+const URL_WRITE_DEBOUNCE_MS = 300;
+
+/**
+ * Keeps the browser URL in sync with the shareable view state.
+ *
+ * Filters from a shared link are applied once on mount (they take precedence over
+ * the filters persisted in localStorage). The URL is rewritten with replaceState,
+ * so panning the map does not flood the browser history.
+ *
+ * @example
+ * const { updateCamera, getShareUrl } = useUrlStateSync({ is3D, activeTabIndex, selectedTreeId });
+ * <MapView onCameraChange={updateCamera} />
+ */
+export const useUrlStateSync = (state: SyncedViewState) => {
+  const filters = useFilterStore((s) => s.filters);
+  const setFilters = useFilterStore((s) => s.setFilters);
+
+  const cameraRef = useRef<MapCamera | undefined>(getInitialUrlState().camera);
+  const latestStateRef = useRef<UrlViewState>({});
+  const writeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  latestStateRef.current = { ...state, filters, camera: cameraRef.current };
+
+  // Apply filters from the shared link once
+  useEffect(() => {
+    const urlFilters = getInitialUrlState().filters;
+    if (urlFilters) {
+      setFilters(urlFilters);
+    }
+  }, [setFilters]);
+
+  const buildShareUrl = useCallback(() => {
+    const { origin, pathname, hash } = window.location;
+    return `${origin}${pathname}${serializeUrlState(latestStateRef.current)}${hash}`;
+  }, []);
+
+  const scheduleWrite = useCallback(() => {
+    if (writeTimerRef.current) {
+      clearTimeout(writeTimerRef.current);
+    }
+    writeTimerRef.current = setTimeout(() => {
+      const url = buildShareUrl();
+      if (url !== window.location.href) {
+        window.history.replaceState(window.history.state, '', url);
+      }
+    }, URL_WRITE_DEBOUNCE_MS);
+  }, [buildShareUrl]);
+
+  const { is3D, activeTabIndex, selectedTreeId, selectedSpecies, rasterConfig, greenCoverYear } = state;
+
+  useEffect(() => {
+    scheduleWrite();
+  }, [scheduleWrite, filters, is3D, activeTabIndex, selectedTreeId, selectedSpecies, rasterConfig, greenCoverYear]);
+
+  useEffect(() => {
+    return () => {
+      if (writeTimerRef.current) {
+        clearTimeout(writeTimerRef.current);
+      }
+    };
+  }, []);
+
+  const updateCamera = useCallback((camera: MapCamera) => {
+    cameraRef.current = camera;
+    latestStateRef.current = { ...latestStateRef.current, camera };
+    scheduleWrite();
+  }, [scheduleWrite]);
+
+  return {
+    /** Report the map camera after each move */
+    updateCamera,
+    /** Full URL for the current view, including changes not yet written to the address bar */
+    getShareUrl: buildShareUrl,
+  };
+};
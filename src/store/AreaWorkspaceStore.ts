@@ -0,0 +1,146 @@
+// src/store/AreaWorkspaceStore.ts
+/**
+ * AREA WORKSPACE STORE
+ * ====================
+ *
+ * Named areas kept alongside the single drawn selection so several sites
+ * can be compared side by side.
+ *
+ * Features:
+ * - Saved areas persisted to localStorage
+ * - Rename, recolour and delete
+ * - Import/export as a GeoJSON FeatureCollection
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+
+export type AreaGeometry = Polygon | MultiPolygon;
+
+export interface SavedArea {
+  id: string;
+  name: string;
+  color: string;
+  geometry: AreaGeometry;
+  createdAt: string;
+}
+
+// Distinct outline colours, cycled as areas are added
+export const AREA_COLORS = ['#2563eb', '#db2777', '#ea580c', '#7c3aed', '#0891b2', '#65a30d', '#ca8a04', '#dc2626'];
+
+interface AreaWorkspaceState {
+  areas: SavedArea[];
+
+  addArea: (name: string, geometry: AreaGeometry) => SavedArea;
+  renameArea: (id: string, name: string) => void;
+  setAreaColor: (id: string, color: string) => void;
+  removeArea: (id: string) => void;
+  clearAreas: () => void;
+  exportGeoJSON: (ids?: string[]) => string;
+  importGeoJSON: (json: string) => number;
+}
+
+const generateAreaId = () =>
+  `area-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const nextColor = (areas: SavedArea[]) => AREA_COLORS[areas.length % AREA_COLORS.length];
+
+function isAreaGeometry(value: unknown): value is AreaGeometry {
+  const geometry = value as { type?: unknown; coordinates?: unknown } | null;
+  return !!geometry
+    && (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon')
+    && Array.isArray(geometry.coordinates)
+    && geometry.coordinates.length > 0;
+}
+
+export const useAreaWorkspaceStore = create<AreaWorkspaceState>()(
+  persist(
+    (set, get) => ({
+      areas: [],
+
+      addArea: (name, geometry) => {
+        const area: SavedArea = {
+          id: generateAreaId(),
+          name: name.trim(),
+          color: nextColor(get().areas),
+          geometry,
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ areas: [...state.areas, area] }));
+        return area;
+      },
+
+      renameArea: (id, name) => {
+        set((state) => ({
+          areas: state.areas.map((a) => (a.id === id ? { ...a, name: name.trim() } : a)),
+        }));
+      },
+
+      setAreaColor: (id, color) => {
+        set((state) => ({
+          areas: state.areas.map((a) => (a.id === id ? { ...a, color } : a)),
+        }));
+      },
+
+      removeArea: (id) => {
+        set((state) => ({ areas: state.areas.filter((a) => a.id !== id) }));
+      },
+
+      clearAreas: () => set({ areas: [] }),
+
+      exportGeoJSON: (ids) => {
+        const selected = ids ? get().areas.filter((a) => ids.includes(a.id)) : get().areas;
+        const collection: FeatureCollection<AreaGeometry> = {
+          type: 'FeatureCollection',
+          features: selected.map((area) => ({
+            type: 'Feature',
+            properties: { name: area.name, color: area.color, createdAt: area.createdAt },
+            geometry: area.geometry,
+          })),
+        };
+        return JSON.stringify(collection, null, 2);
+      },
+
+      importGeoJSON: (json) => {
+        const parsed = JSON.parse(json);
+        // Accept a FeatureCollection, a single Feature or a bare geometry
+        const rawFeatures: unknown[] = parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features)
+          ? parsed.features
+          : parsed?.type === 'Feature'
+            ? [parsed]
+            : [{ type: 'Feature', properties: {}, geometry: parsed }];
+
+        const imported: SavedArea[] = [];
+        const existing = get().areas;
+        rawFeatures.forEach((raw, index) => {
+          const feature = raw as Partial<Feature> | null;
+          if (!feature || !isAreaGeometry(feature.geometry)) return;
+          const props = (feature.properties ?? {}) as Record<string, unknown>;
+          const name = typeof props.name === 'string' && props.name.trim()
+            ? props.name.trim()
+            : `Imported area ${index + 1}`;
+          imported.push({
+            id: generateAreaId(),
+            name,
+            color: typeof props.color === 'string' && /^#[0-9a-f]{6}$/i.test(props.color)
+              ? props.color
+              : nextColor([...existing, ...imported]),
+            geometry: feature.geometry,
+            createdAt: new Date().toISOString(),
+          });
+        });
+
+        if (imported.length === 0) {
+          throw new Error('No polygon features found in file');
+        }
+        set((state) => ({ areas: [...state.areas, ...imported] }));
+        return imported.length;
+      },
+    }),
+    {
+      name: 'pune-tree-saved-areas',
+      partialize: (state) => ({ areas: state.areas }),
+    }
+  )
+);
@@ -0,0 +1,143 @@
+// src/store/AuthStore.ts
+/**
+ * AUTH STORE
+ * ==========
+ *
+ * Signed-in user and session token for the write features.
+ *
+ * Features:
+ * - Sign in/out against /api/auth/login; token persisted to localStorage
+ * - Bearer token attached to every dashboard API request via axios interceptors
+ * - Expired or revoked sessions are dropped on the first 401
+ * - Admin user management via /api/users
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import axios from 'axios';
+import { AuthUser, UserRole } from '../types/auth';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+interface LoginResponse {
+  token: string;
+  expires_at: string;
+  user: AuthUser;
+}
+
+export interface UserInput {
+  email: string;
+  name: string;
+  role: UserRole;
+  password: string;
+}
+
+export type UserUpdate = Partial<Pick<UserInput, 'name' | 'role' | 'password'>> & { active?: boolean };
+
+interface AuthState {
+  token: string | null;
+  expiresAt: string | null;
+  user: AuthUser | null;
+  // Set when a stored session stops working, so the UI can explain the sign-out
+  sessionMessage: string | null;
+
+  login: (email: string, password: string) => Promise<void>;
+  logout: (message?: string) => void;
+  refreshUser: () => Promise<void>;
+
+  // Admin
+  fetchUsers: () => Promise<AuthUser[]>;
+  createUser: (input: UserInput) => Promise<AuthUser>;
+  updateUser: (id: string, update: UserUpdate) => Promise<AuthUser>;
+}
+
+export function describeAuthError(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+export const useAuthStore = create<AuthState>()(
+  persist(
+    (set, get) => ({
+      token: null,
+      expiresAt: null,
+      user: null,
+      sessionMessage: null,
+
+      login: async (email, password) => {
+        const response = await axios.post<LoginResponse>(`${API_BASE_URL}/api/auth/login`, { email, password });
+        set({
+          token: response.data.token,
+          expiresAt: response.data.expires_at,
+          user: response.data.user,
+          sessionMessage: null,
+        });
+      },
+
+      logout: (message) => {
+        set({ token: null, expiresAt: null, user: null, sessionMessage: message ?? null });
+      },
+
+      refreshUser: async () => {
+        const { token, expiresAt } = get();
+        if (!token) return;
+        if (expiresAt && new Date(expiresAt).getTime() < Date.now()) {
+          get().logout('Your session has expired. Please sign in again.');
+          return;
+        }
+        try {
+          const response = await axios.get<AuthUser>(`${API_BASE_URL}/api/auth/me`);
+          set({ user: response.data });
+        } catch (error) {
+          // 401s are handled by the response interceptor; keep the session on network errors
+          console.error('[AuthStore] Error refreshing user:', error);
+        }
+      },
+
+      fetchUsers: async () => {
+        const response = await axios.get<{ data: AuthUser[] }>(`${API_BASE_URL}/api/users`);
+        return response.data.data;
+      },
+
+      createUser: async (input) => {
+        const response = await axios.post<AuthUser>(`${API_BASE_URL}/api/users`, input);
+        return response.data;
+      },
+
+      updateUser: async (id, update) => {
+        const response = await axios.patch<AuthUser>(`${API_BASE_URL}/api/users/${id}`, update);
+        if (id === get().user?.id) set({ user: response.data });
+        return response.data;
+      },
+    }),
+    {
+      name: 'pune-tree-auth',
+      partialize: (state) => ({ token: state.token, expiresAt: state.expiresAt, user: state.user }),
+    }
+  )
+);
+
+// Only our own API receives the token
+const isApiRequest = (url?: string) => !!url && url.startsWith(`${API_BASE_URL}/api/`);
+
+axios.interceptors.request.use((config) => {
+  const { token } = useAuthStore.getState();
+  if (token && isApiRequest(config.url)) {
+    config.headers.set('Authorization', `Bearer ${token}`);
+  }
+  return config;
+});
+
+axios.interceptors.response.use(undefined, (error) => {
+  if (
+    axios.isAxiosError(error) &&
+    error.response?.status === 401 &&
+    error.config?.headers?.Authorization &&
+    !error.config.url?.endsWith('/api/auth/login')
+  ) {
+    useAuthStore.getState().logout('Your session has ended. Please sign in again.');
+  }
+  return Promise.reject(error);
+});
@@ -0,0 +1,265 @@
+// src/store/FilterPresetStore.ts
+/**
+ * FILTER PRESET STORE
+ * ===================
+ *
+ * Named, reusable TreeFilters combinations.
+ *
+ * Features:
+ * - Local presets persisted to localStorage
+ * - Rename, overwrite and delete
+ * - Import/export as JSON files for sharing between analysts
+ * - Optional server-side sharing via /api/filter-presets
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import axios from 'axios';
+import { DEFAULT_FILTERS, FilterPreset, TreeFilters, sanitizeFilters } from '../types/filters';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+// Version tag written into exported files so future formats can be migrated
+const PRESET_EXPORT_VERSION = 1;
+
+interface PresetExportFile {
+  type: 'pune-tree-filter-presets';
+  version: number;
+  exportedAt: string;
+  presets: Pick<FilterPreset, 'name' | 'description' | 'filters'>[];
+}
+
+// Shape returned by /api/filter-presets
+interface ServerPreset {
+  id: string;
+  name: string;
+  description: string | null;
+  filters: unknown;
+  author: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FilterPresetState {
+  // Presets saved in this browser
+  presets: FilterPreset[];
+
+  // Presets shared on the server (not persisted locally)
+  sharedPresets: FilterPreset[];
+  isLoadingShared: boolean;
+  sharedError: string | null;
+
+  // Local actions
+  savePreset: (name: string, filters: TreeFilters, description?: string) => FilterPreset;
+  renamePreset: (id: string, name: string) => void;
+  updatePresetFilters: (id: string, filters: TreeFilters) => void;
+  deletePreset: (id: string) => void;
+  exportPresets: (ids?: string[]) => string;
+  importPresets: (json: string) => number;
+
+  // Server actions
+  fetchSharedPresets: () => Promise<void>;
+  sharePreset: (id: string, author?: string) => Promise<void>;
+  renameSharedPreset: (serverId: string, name: string) => Promise<void>;
+  deleteSharedPreset: (serverId: string) => Promise<void>;
+}
+
+const generatePresetId = () =>
+  `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+function fromServerPreset(row: ServerPreset): FilterPreset | null {
+  const filters = sanitizeFilters(row.filters);
+  if (!filters) return null;
+  return {
+    id: `server-${row.id}`,
+    serverId: row.id,
+    name: row.name,
+    description: row.description,
+    filters,
+    author: row.author,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function describeError(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+export const useFilterPresetStore = create<FilterPresetState>()(
+  persist(
+    (set, get) => ({
+      presets: [],
+      sharedPresets: [],
+      isLoadingShared: false,
+      sharedError: null,
+
+      savePreset: (name, filters, description) => {
+        const now = new Date().toISOString();
+        const preset: FilterPreset = {
+          id: generatePresetId(),
+          name: name.trim(),
+          description: description?.trim() || null,
+          filters,
+          createdAt: now,
+          updatedAt: now,
+          serverId: null,
+        };
+        set((state) => ({ presets: [preset, ...state.presets] }));
+        return preset;
+      },
+
+      renamePreset: (id, name) => {
+        set((state) => ({
+          presets: state.presets.map((p) =>
+            p.id === id ? { ...p, name: name.trim(), updatedAt: new Date().toISOString() } : p
+          ),
+        }));
+      },
+
+      updatePresetFilters: (id, filters) => {
+        set((state) => ({
+          presets: state.presets.map((p) =>
+            p.id === id ? { ...p, filters, updatedAt: new Date().toISOString() } : p
+          ),
+        }));
+      },
+
+      deletePreset: (id) => {
+        set((state) => ({ presets: state.presets.filter((p) => p.id !== id) }));
+      },
+
+      exportPresets: (ids) => {
+        const selected = ids ? get().presets.filter((p) => ids.includes(p.id)) : get().presets;
+        const file: PresetExportFile = {
+          type: 'pune-tree-filter-presets',
+          version: PRESET_EXPORT_VERSION,
+          exportedAt: new Date().toISOString(),
+          presets: selected.map(({ name, description, filters }) => ({ name, description, filters })),
+        };
+        return JSON.stringify(file, null, 2);
+      },
+
+      importPresets: (json) => {
+        const parsed = JSON.parse(json);
+        // Accept our export file, a bare array of presets, or a single preset
+        const rawPresets: unknown[] = Array.isArray(parsed)
+          ? parsed
+          : Array.isArray(parsed?.presets)
+            ? parsed.presets
+            : [parsed];
+
+        const now = new Date().toISOString();
+        const imported: FilterPreset[] = [];
+        rawPresets.forEach((raw) => {
+          const candidate = raw as { name?: unknown; description?: unknown; filters?: unknown };
+          const filters = sanitizeFilters(candidate?.filters);
+          if (!filters || typeof candidate.name !== 'string' || !candidate.name.trim()) return;
+          imported.push({
+            id: generatePresetId(),
+            name: candidate.name.trim(),
+            description: typeof candidate.description === 'string' ? candidate.description : null,
+            filters,
+            createdAt: now,
+            updatedAt: now,
+            serverId: null,
+          });
+        });
+
+        if (imported.length === 0) {
+          throw new Error('No valid presets found in file');
+        }
+        set((state) => ({ presets: [...imported, ...state.presets] }));
+        return imported.length;
+      },
+
+      fetchSharedPresets: async () => {
+        set({ isLoadingShared: true, sharedError: null });
+        try {
+          const response = await axios.get<{ data: ServerPreset[] }>(`${API_BASE_URL}/api/filter-presets`);
+          const sharedPresets = response.data.data
+            .map(fromServerPreset)
+            .filter((p): p is FilterPreset => p !== null);
+          set({ sharedPresets });
+        } catch (error) {
+          console.error('[FilterPresetStore] Error fetching shared presets:', error);
+          set({ sharedError: describeError(error, 'Could not load shared presets') });
+        } finally {
+          set({ isLoadingShared: false });
+        }
+      },
+
+      sharePreset: async (id, author) => {
+        const preset = get().presets.find((p) => p.id === id);
+        if (!preset) return;
+        set({ sharedError: null });
+        try {
+          const response = await axios.post<ServerPreset>(`${API_BASE_URL}/api/filter-presets`, {
+            name: preset.name,
+            description: preset.description,
+            filters: preset.filters,
+            author: author ?? null,
+          });
+          const shared = fromServerPreset(response.data);
+          set((state) => ({
+            presets: state.presets.map((p) => (p.id === id ? { ...p, serverId: response.data.id } : p)),
+            sharedPresets: shared ? [shared, ...state.sharedPresets] : state.sharedPresets,
+          }));
+        } catch (error) {
+          console.error('[FilterPresetStore] Error sharing preset:', error);
+          set({ sharedError: describeError(error, 'Could not share preset') });
+        }
+      },
+
+      renameSharedPreset: async (serverId, name) => {
+        set({ sharedError: null });
+        try {
+          const response = await axios.put<ServerPreset>(`${API_BASE_URL}/api/filter-presets/${serverId}`, { name });
+          const updated = fromServerPreset(response.data);
+          if (!updated) return;
+          set((state) => ({
+            sharedPresets: state.sharedPresets.map((p) => (p.serverId === serverId ? updated : p)),
+          }));
+        } catch (error) {
+          console.error('[FilterPresetStore] Error renaming shared preset:', error);
+          set({ sharedError: describeError(error, 'Could not rename shared preset') });
+        }
+      },
+
+      deleteSharedPreset: async (serverId) => {
+        set({ sharedError: null });
+        try {
+          await axios.delete(`${API_BASE_URL}/api/filter-presets/${serverId}`);
+          set((state) => ({
+            sharedPresets: state.sharedPresets.filter((p) => p.serverId !== serverId),
+            // Local copies are no longer shared
+            presets: state.presets.map((p) => (p.serverId === serverId ? { ...p, serverId: null } : p)),
+          }));
+        } catch (error) {
+          console.error('[FilterPresetStore] Error deleting shared preset:', error);
+          set({ sharedError: describeError(error, 'Could not delete shared preset') });
+        }
+      },
+    }),
+    {
+      name: 'pune-tree-filter-presets',
+      // Shared presets always come fresh from the server
+      partialize: (state) => ({ presets: state.presets }),
+      // v1 added exclusion lists and OR groups to TreeFilters
+      version: 1,
+      migrate: (persistedState) => {
+        const state = persistedState as { presets?: FilterPreset[] } | undefined;
+        const presets = (state?.presets ?? []).map((preset) => ({
+          ...preset,
+          filters: sanitizeFilters(preset.filters) ?? DEFAULT_FILTERS,
+        }));
+        return { presets } as FilterPresetState;
+      },
+    }
+  )
+);
@@ -5,6 +5,7 @@ import React, { createContext, useContext, ReactNode, useCallback, useEffect, us
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import axios from 'axios';
+import { Polygon, MultiPolygon } from 'geojson';
 import {
   TreeFilters,
   FilterMetadata,
@@ -16,6 +17,8 @@ import {
   ActiveFilter,
   RangeFilter,
   LocationFilterType,
+  TreeExportFormat,
+  sanitizeFilters,
 } from '../types/filters';
 
 const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
@@ -76,6 +79,15 @@ export const useFilterStore = create<FilterState>()(
           case 'economicImportance':
             newFilters.economicImportance = null;
             break;
+          case 'excludeSpecies':
+            newFilters.excludeSpecies = filters.excludeSpecies.filter((s) => s !== chip.value);
+            break;
+          case 'excludeWards':
+            newFilters.excludeWards = filters.excludeWards.filter((w) => w !== chip.value);
+            break;
+          case 'orGroups':
+            newFilters.orGroups = filters.orGroups.filter((_, index) => index !== chip.value);
+            break;
         }
         
         set({ filters: newFilters });
@@ -83,6 +95,12 @@ export const useFilterStore = create<FilterState>()(
     }),
     {
       name: 'pune-tree-filters',
+      // v1 added exclusion lists and OR groups - fill them in for older saved filters
+      version: 1,
+      migrate: (persistedState) => {
+        const state = persistedState as { filters?: unknown } | undefined;
+        return { filters: sanitizeFilters(state?.filters) ?? DEFAULT_FILTERS } as FilterState;
+      },
     }
   )
 );
@@ -115,6 +133,11 @@ interface FilterContextType {
   
   // Refresh functions
   refreshFilteredStats: () => Promise<void>;
+  
+  // Export of the trees matching the current filters (optionally clipped to a polygon)
+  exportTrees: (format: TreeExportFormat, polygon?: Polygon | MultiPolygon | null) => Promise<void>;
+  isExporting: boolean;
+  exportError: string | null;
 }
 
 const FilterContext = createContext<FilterContextType | undefined>(undefined);
@@ -132,6 +155,9 @@ export const FilterProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [filteredStats, setFilteredStats] = useState<FilteredStats | null>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
   
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  
   // Fetch filter metadata on mount
   // No retry logic needed - Vercel CDN caches responses globally
   // After first request, all users get instant cached response
@@ -201,6 +227,39 @@ export const FilterProvider: React.FC<{ children: ReactNode }> = ({ children })
     refreshFilteredStats();
   }, [filters, refreshFilteredStats]);
   
+  // Download trees matching the current filters. The server streams its response in batches, but the
+  // browser collects it into a blob before saving, so the whole file is held in memory here.
+  const exportTrees = useCallback(async (format: TreeExportFormat, polygon?: Polygon | MultiPolygon | null) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/api/trees/export`,
+        { filters, polygon: polygon ?? null, format },
+        { responseType: 'blob', timeout: 300000 } // Full-city exports can take a few minutes
+      );
+      
+      // Use the server-provided filename when available
+      const disposition: string = response.headers['content-disposition'] || '';
+      const filenameMatch = disposition.match(/filename="?([^";]+)"?/);
+      const filename = filenameMatch ? filenameMatch[1] : `pune-trees.${format === 'geojsonseq' ? 'geojsonl' : format}`;
+      
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting trees:', error);
+      setExportError('Export failed. Please try again or narrow your filters.');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [filters]);
+  
   const contextValue: FilterContextType = {
     filters,
     setFilters,
@@ -217,6 +276,9 @@ export const FilterProvider: React.FC<{ children: ReactNode }> = ({ children })
     filteredStats,
     isLoadingStats,
     refreshFilteredStats,
+    exportTrees,
+    isExporting,
+    exportError,
   };
   
   return (
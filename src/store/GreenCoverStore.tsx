@@ -96,6 +96,7 @@ interface GreenCoverState {
   // Map interaction state
   selectedWardNumber: number | null;
   flyToWardTrigger: number; // Increments to trigger map flyTo
+  detailWardNumber: number | null; // Ward open in the drill-down panel
   
   // Loading states
   isLoading: boolean;
@@ -109,6 +110,8 @@ interface GreenCoverState {
   clearCache: () => void;
   flyToWard: (wardNumber: number) => void;
   clearSelectedWard: () => void;
+  openWardDetail: (wardNumber: number) => void;
+  closeWardDetail: () => void;
 }
 
 // Cache duration: 5 minutes
@@ -128,6 +131,7 @@ export const useGreenCoverStore = create<GreenCoverState>()(
       wardStats: [],
       selectedWardNumber: null,
       flyToWardTrigger: 0,
+      detailWardNumber: null,
       isLoading: false,
       isInitialized: false,
       error: null,
@@ -218,6 +222,19 @@ export const useGreenCoverStore = create<GreenCoverState>()(
       clearSelectedWard: () => {
         set({ selectedWardNumber: null });
       },
+      
+      // Open a ward's drill-down panel and fly the map to it
+      openWardDetail: (wardNumber: number) => {
+        set((state) => ({
+          detailWardNumber: wardNumber,
+          selectedWardNumber: wardNumber,
+          flyToWardTrigger: state.flyToWardTrigger + 1,
+        }));
+      },
+      
+      closeWardDetail: () => {
+        set({ detailWardNumber: null });
+      },
     }),
     {
       name: 'pune-green-cover-cache',
@@ -239,58 +256,13 @@ export const useGreenCoverStore = create<GreenCoverState>()(
 // ============================================================================
 
 /**
- * Calculate Green Score for a ward
- */
-export function calculateGreenScore(
-  treesPct: number,
-  builtPct: number,
-  netChangePct: number,
-  treeDensity: number
-): number {
-  const treeScore = Math.min(100, (treesPct / 25) * 100);
-  const builtScore = Math.max(0, 100 - (builtPct / 90) * 100);
-  const changeScore = 50 + (netChangePct * 5);
-  const normalizedChange = Math.max(0, Math.min(100, changeScore));
-  const densityScore = Math.min(100, (treeDensity / 300) * 100);
-  
-  const score = (
-    treeScore * 0.40 +
-    builtScore * 0.30 +
-    normalizedChange * 0.20 +
-    densityScore * 0.10
-  );
-  
-  return Math.round(Math.max(0, Math.min(100, score)));
-}
-
-/**
- * Get color for a Green Score
- */
-export function getScoreColor(score: number): string {
-  if (score >= 70) return '#22c55e';
-  if (score >= 50) return '#eab308';
-  if (score >= 30) return '#f97316';
-  return '#ef4444';
-}
-
-/**
- * Get label for a Green Score
- */
-export function getScoreLabel(score: number): string {
-  if (score >= 70) return 'Good';
-  if (score >= 50) return 'Moderate';
-  if (score >= 30) return 'Poor';
-  return 'Critical';
-}
-
-/**
- * Get emoji for a Green Score
+ * Get deforestation hotspot severity from a ward's net tree-cover change (% of ward area)
  */
-export function getScoreEmoji(score: number): string {
-  if (score >= 70) return '🌳';
-  if (score >= 50) return '🌿';
-  if (score >= 30) return '⚠️';
-  return '🚨';
+export function getSeverityLevel(netChangePct: number): 'severe' | 'moderate' | 'minor' {
+  const severity = Math.abs(netChangePct);
+  if (severity >= 0.25) return 'severe';
+  if (severity >= 0.15) return 'moderate';
+  return 'minor';
 }
 
 // ============================================================================
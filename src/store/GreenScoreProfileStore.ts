@@ -0,0 +1,124 @@
+// src/store/GreenScoreProfileStore.ts
+/**
+ * GREEN SCORE PROFILE STORE
+ * =========================
+ *
+ * Alternative Green Score methodologies (weights and normalisation) and the
+ * one currently used across the monitor, ward map and reports.
+ *
+ * Features:
+ * - Built-in profiles are read-only; saved profiles persisted to localStorage
+ * - Import/export as JSON files so organisations can exchange and agree a methodology
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import {
+  DEFAULT_GREEN_SCORE_PROFILE,
+  GreenScoreProfile,
+  NewGreenScoreProfile,
+  findGreenScoreProfile,
+  sanitizeGreenScoreProfile,
+} from '../utils/greenScore';
+
+// Version tag written into exported files so future formats can be migrated
+const PROFILE_EXPORT_VERSION = 1;
+
+interface ProfileExportFile {
+  type: 'pune-tree-green-score-profiles';
+  version: number;
+  exportedAt: string;
+  profiles: NewGreenScoreProfile[];
+}
+
+interface GreenScoreProfileState {
+  // Profiles saved in this browser (built-ins are not stored)
+  profiles: GreenScoreProfile[];
+  activeProfileId: string;
+
+  setActiveProfile: (id: string) => void;
+  /** Saves a new profile and makes it the active one */
+  saveProfile: (profile: NewGreenScoreProfile) => GreenScoreProfile;
+  updateProfile: (id: string, changes: Partial<NewGreenScoreProfile>) => void;
+  deleteProfile: (id: string) => void;
+  exportProfiles: (ids?: string[]) => string;
+  importProfiles: (json: string) => number;
+}
+
+const generateProfileId = () =>
+  `score-profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useGreenScoreProfileStore = create<GreenScoreProfileState>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      activeProfileId: DEFAULT_GREEN_SCORE_PROFILE.id,
+
+      setActiveProfile: (id) => set({ activeProfileId: id }),
+
+      saveProfile: (profile) => {
+        const saved: GreenScoreProfile = {
+          ...profile,
+          id: generateProfileId(),
+          name: profile.name.trim(),
+          description: profile.description?.trim() || null,
+        };
+        set((state) => ({ profiles: [...state.profiles, saved], activeProfileId: saved.id }));
+        return saved;
+      },
+
+      updateProfile: (id, changes) => {
+        set((state) => ({
+          profiles: state.profiles.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+        }));
+      },
+
+      deleteProfile: (id) => {
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          activeProfileId: state.activeProfileId === id ? DEFAULT_GREEN_SCORE_PROFILE.id : state.activeProfileId,
+        }));
+      },
+
+      exportProfiles: (ids) => {
+        const selected = ids ? get().profiles.filter((p) => ids.includes(p.id)) : get().profiles;
+        const file: ProfileExportFile = {
+          type: 'pune-tree-green-score-profiles',
+          version: PROFILE_EXPORT_VERSION,
+          exportedAt: new Date().toISOString(),
+          profiles: selected.map(({ name, description, weights, normalisation }) => ({ name, description, weights, normalisation })),
+        };
+        return JSON.stringify(file, null, 2);
+      },
+
+      importProfiles: (json) => {
+        const parsed = JSON.parse(json);
+        // Accept our export file, a bare array of profiles, or a single profile
+        const rawProfiles: unknown[] = Array.isArray(parsed)
+          ? parsed
+          : Array.isArray(parsed?.profiles)
+            ? parsed.profiles
+            : [parsed];
+
+        const imported = rawProfiles
+          .map(sanitizeGreenScoreProfile)
+          .filter((p): p is NewGreenScoreProfile => p !== null)
+          .map((p) => ({ ...p, id: generateProfileId() }));
+
+        if (imported.length === 0) {
+          throw new Error('No valid profiles found in file');
+        }
+        set((state) => ({ profiles: [...state.profiles, ...imported] }));
+        return imported.length;
+      },
+    }),
+    {
+      name: 'pune-tree-green-score-profiles',
+      partialize: (state) => ({ profiles: state.profiles, activeProfileId: state.activeProfileId }),
+    }
+  )
+);
+
+/** The profile scores are currently computed with */
+export const useActiveGreenScoreProfile = () =>
+  useGreenScoreProfileStore((state) => findGreenScoreProfile(state.profiles, state.activeProfileId));
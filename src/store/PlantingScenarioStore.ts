@@ -0,0 +1,74 @@
+// src/store/PlantingScenarioStore.ts
+/**
+ * PLANTING SCENARIO STORE
+ * =======================
+ *
+ * Named Planting Advisor runs, kept so different species, spacing and
+ * clearance choices for a site can be compared and handed on.
+ *
+ * Features:
+ * - Scenarios persisted to localStorage, including every tree position
+ * - Rename and delete
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NewPlantingScenario, PlantingScenario } from '../utils/plantingScenario';
+
+interface PlantingScenarioState {
+  scenarios: PlantingScenario[];
+
+  addScenario: (scenario: NewPlantingScenario) => PlantingScenario;
+  renameScenario: (id: string, name: string) => void;
+  removeScenario: (id: string) => void;
+  clearScenarios: () => void;
+}
+
+const generateScenarioId = () =>
+  `scenario-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const usePlantingScenarioStore = create<PlantingScenarioState>()(
+  persist(
+    (set) => ({
+      scenarios: [],
+
+      addScenario: (scenario) => {
+        const saved: PlantingScenario = {
+          ...scenario,
+          id: generateScenarioId(),
+          name: scenario.name.trim(),
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ scenarios: [...state.scenarios, saved] }));
+        return saved;
+      },
+
+      renameScenario: (id, name) => {
+        set((state) => ({
+          scenarios: state.scenarios.map((s) => (s.id === id ? { ...s, name: name.trim() } : s)),
+        }));
+      },
+
+      removeScenario: (id) => {
+        set((state) => ({ scenarios: state.scenarios.filter((s) => s.id !== id) }));
+      },
+
+      clearScenarios: () => set({ scenarios: [] }),
+    }),
+    {
+      name: 'pune-tree-planting-scenarios',
+      partialize: (state) => ({ scenarios: state.scenarios }),
+      // v1 replaced the straight-line CO₂ estimate with the growth model's projection;
+      // v2 projects CO₂ absorbed since planting, so earlier stored-CO₂ projections are dropped
+      version: 2,
+      migrate: (persistedState, version) => {
+        const state = persistedState as { scenarios?: PlantingScenario[] } | undefined;
+        const scenarios = (state?.scenarios ?? []).map((scenario) => ({
+          ...scenario,
+          summary: { ...scenario.summary, co2Projection: version >= 2 ? scenario.summary.co2Projection ?? null : null },
+        }));
+        return { scenarios } as PlantingScenarioState;
+      },
+    }
+  )
+);
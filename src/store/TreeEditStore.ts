@@ -0,0 +1,97 @@
+// src/store/TreeEditStore.ts
+/**
+ * TREE EDIT STORE
+ * ===============
+ *
+ * Suggested corrections to census records and the reviewer queue.
+ *
+ * Features:
+ * - Propose corrections and read a tree's proposals via /api/trees/:id/edits
+ * - Applied-change history from the audit log via /api/trees/:id/history
+ * - Review queue with pending count for the account menu badge
+ */
+
+import { create } from 'zustand';
+import axios from 'axios';
+import { TreeAuditEntry, TreeEditProposal, TreeEditStatus, TreeEditValues } from '../types/treeEdits';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+interface TreeEditState {
+  pendingCount: number | null;
+
+  // Per tree
+  fetchTreeEdits: (treeId: string) => Promise<TreeEditProposal[]>;
+  fetchTreeHistory: (treeId: string) => Promise<TreeAuditEntry[]>;
+  proposeEdit: (treeId: string, changes: TreeEditValues, reason: string) => Promise<TreeEditProposal>;
+
+  // Review queue
+  fetchQueue: (status?: TreeEditStatus) => Promise<TreeEditProposal[]>;
+  fetchPendingCount: () => Promise<void>;
+  reviewEdit: (proposalId: string, decision: 'approve' | 'reject', note?: string) => Promise<TreeEditProposal>;
+}
+
+export function describeTreeEditError(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+export const useTreeEditStore = create<TreeEditState>()((set, get) => ({
+  pendingCount: null,
+
+  fetchTreeEdits: async (treeId) => {
+    const response = await axios.get<{ data: TreeEditProposal[] }>(
+      `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/edits`
+    );
+    return response.data.data;
+  },
+
+  fetchTreeHistory: async (treeId) => {
+    const response = await axios.get<{ data: TreeAuditEntry[] }>(
+      `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/history`
+    );
+    return response.data.data;
+  },
+
+  proposeEdit: async (treeId, changes, reason) => {
+    const response = await axios.post<TreeEditProposal>(
+      `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/edits`,
+      { changes, reason }
+    );
+    // Reviewers proposing edits see their own badge update
+    if (get().pendingCount !== null) set({ pendingCount: (get().pendingCount ?? 0) + 1 });
+    return response.data;
+  },
+
+  fetchQueue: async (status = 'pending') => {
+    const response = await axios.get<{ data: TreeEditProposal[]; total: number }>(`${API_BASE_URL}/api/tree-edits`, {
+      params: { status },
+    });
+    if (status === 'pending') set({ pendingCount: response.data.total });
+    return response.data.data;
+  },
+
+  fetchPendingCount: async () => {
+    try {
+      const response = await axios.get<{ total: number }>(`${API_BASE_URL}/api/tree-edits`, {
+        params: { status: 'pending', limit: 1 },
+      });
+      set({ pendingCount: response.data.total });
+    } catch (error) {
+      console.error('[TreeEditStore] Error fetching pending edit count:', error);
+      set({ pendingCount: null });
+    }
+  },
+
+  reviewEdit: async (proposalId, decision, note) => {
+    const response = await axios.post<TreeEditProposal>(`${API_BASE_URL}/api/tree-edits/${proposalId}/review`, {
+      decision,
+      note: note?.trim() || undefined,
+    });
+    const { pendingCount } = get();
+    if (pendingCount) set({ pendingCount: pendingCount - 1 });
+    return response.data;
+  },
+}));
@@ -0,0 +1,151 @@
+// src/store/TreeObservationStore.ts
+/**
+ * TREE OBSERVATION STORE
+ * ======================
+ *
+ * Field and citizen condition reports logged against census trees.
+ *
+ * Features:
+ * - Per-tree observation log via /api/trees/:id/observations
+ * - Latest status per tree for the map layer, filterable by status and date
+ * - Layer visibility and filter choices persisted to localStorage
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import axios from 'axios';
+import type { FeatureCollection, Point } from 'geojson';
+import { NewTreeObservation, TreeObservation, TreeStatus } from '../types/observations';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+export interface ObservationPointProperties {
+  observation_id: string;
+  tree_id: string;
+  status: TreeStatus;
+  condition_count: number;
+  observed_at: string;
+  common_name: string | null;
+}
+
+export type ObservationPoints = FeatureCollection<Point, ObservationPointProperties>;
+
+// How far back the map layer looks; null shows every tree's latest report
+export type ObservationWindow = 30 | 90 | 365 | null;
+
+interface TreeObservationState {
+  // Map layer
+  showLayer: boolean;
+  statusFilter: TreeStatus[];
+  window: ObservationWindow;
+  points: ObservationPoints | null;
+  isLoadingPoints: boolean;
+  pointsError: string | null;
+
+  setShowLayer: (show: boolean) => void;
+  setStatusFilter: (statuses: TreeStatus[]) => void;
+  setWindow: (window: ObservationWindow) => void;
+  fetchPoints: () => Promise<void>;
+
+  // Per-tree log
+  fetchObservations: (treeId: string) => Promise<TreeObservation[]>;
+  addObservation: (treeId: string, observation: NewTreeObservation) => Promise<TreeObservation>;
+  deleteObservation: (treeId: string, observationId: string) => Promise<void>;
+}
+
+export function describeObservationError(error: unknown, fallback: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback;
+}
+
+// Incremented per fetchPoints call so a slow response for an older filter can't overwrite a newer one
+let latestPointsRequest = 0;
+
+const windowStartDate = (window: ObservationWindow) =>
+  window === null ? undefined : new Date(Date.now() - window * 86400000).toISOString().slice(0, 10);
+
+export const useTreeObservationStore = create<TreeObservationState>()(
+  persist(
+    (set, get) => ({
+      showLayer: false,
+      statusFilter: [],
+      window: null,
+      points: null,
+      isLoadingPoints: false,
+      pointsError: null,
+
+      setShowLayer: (show) => {
+        set({ showLayer: show });
+        if (show) get().fetchPoints();
+      },
+
+      setStatusFilter: (statuses) => {
+        set({ statusFilter: statuses });
+        if (get().showLayer) get().fetchPoints();
+      },
+
+      setWindow: (window) => {
+        set({ window });
+        if (get().showLayer) get().fetchPoints();
+      },
+
+      fetchPoints: async () => {
+        const { statusFilter, window } = get();
+        const requestId = ++latestPointsRequest;
+        set({ isLoadingPoints: true, pointsError: null });
+        try {
+          const response = await axios.get<ObservationPoints>(`${API_BASE_URL}/api/tree-observations/latest`, {
+            params: {
+              status: statusFilter.length > 0 ? statusFilter.join(',') : undefined,
+              since: windowStartDate(window),
+            },
+          });
+          if (requestId !== latestPointsRequest) return;
+          set({ points: response.data });
+        } catch (error) {
+          if (requestId !== latestPointsRequest) return;
+          console.error('[TreeObservationStore] Error fetching observation points:', error);
+          set({ points: null, pointsError: describeObservationError(error, 'Could not load observations') });
+        } finally {
+          if (requestId === latestPointsRequest) {
+            set({ isLoadingPoints: false });
+          }
+        }
+      },
+
+      fetchObservations: async (treeId) => {
+        const response = await axios.get<{ data: TreeObservation[] }>(
+          `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/observations`
+        );
+        return response.data.data;
+      },
+
+      addObservation: async (treeId, observation) => {
+        const response = await axios.post<TreeObservation>(
+          `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/observations`,
+          observation
+        );
+        // Keep the map layer in step with the new report
+        if (get().showLayer) get().fetchPoints();
+        return response.data;
+      },
+
+      deleteObservation: async (treeId, observationId) => {
+        await axios.delete(
+          `${API_BASE_URL}/api/trees/${encodeURIComponent(treeId)}/observations/${observationId}`
+        );
+        if (get().showLayer) get().fetchPoints();
+      },
+    }),
+    {
+      name: 'pune-tree-observation-layer',
+      partialize: (state) => ({
+        showLayer: state.showLayer,
+        statusFilter: state.statusFilter,
+        window: state.window,
+      }),
+    }
+  )
+);
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode, useEffect } from 'react';
 import { Feature, Polygon, MultiPolygon } from 'geojson';
 import axios from 'axios';
+import { SpeciesProfile, SpeciesSummary } from '../types/species';
 
 const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
 
@@ -38,6 +39,28 @@ export interface TreeSpeciesData {
   archetypes: ArchetypeData[];
 }
 
+// Cooling figures (°C) and mature canopy used to model a simulated tree's effect on LST
+export interface SimulatedTreeCooling {
+  p10: number;
+  mean: number;
+  p90: number;
+  canopyDiameter: number;
+}
+
+// One species in a mixed simulated planting; icon is a map image id for its marker
+export interface SimulatedPlantingGroup {
+  label: string;
+  icon: string;
+  points: Position[];
+  cooling: SimulatedTreeCooling;
+}
+
+// Predicted temperature surface drawn over the planting area
+export interface CoolingOverlay {
+  url: string;
+  coordinates: [[number, number], [number, number], [number, number], [number, number]];
+}
+
 // --- Unchanged Data Structures for Existing Features ---
 interface CityStats {
   total_trees: number;
@@ -63,15 +86,83 @@ interface TreeDetailsData {
     wood_density: number;
 }
 
+// Result row from /api/trees/search
+export interface TreeSearchResult {
+  id: string;
+  common_name: string | null;
+  botanical_name: string | null;
+  ward: string | null;
+  height_m: number | null;
+  girth_cm: number | null;
+  lon: number;
+  lat: number;
+  score: number;
+}
+
+// Result of /api/trees/:id/context; percentiles are the share of trees smaller than this one
+export interface TreeContextData {
+  lon: number;
+  lat: number;
+  distance_to_road_m: number | null;
+  ward_rank: { tree_count: number; girth_pct: number | null; height_pct: number | null; canopy_pct: number | null };
+  species_rank: { tree_count: number; girth_pct: number | null; height_pct: number | null };
+  nearest: {
+    id: string;
+    common_name: string | null;
+    botanical_name: string | null;
+    height_m: number | null;
+    girth_cm: number | null;
+    distance_m: number;
+  }[];
+}
+
+// Result of /api/stats-in-polygon for a drawn area
+export interface PolygonSizeClass {
+  label: string;
+  tree_count: number;
+}
+
+export interface PolygonStats {
+  tree_count: number;
+  co2_kg: number;
+  area_m2: number;
+  canopy_area_m2: number;
+  canopy_cover_pct: number; // Upper bound: overlapping crowns are counted twice
+  tree_density_per_ha: number;
+  averages: { height_m: number; girth_cm: number; canopy_dia_m: number };
+  location: { street: number; non_street: number; unknown: number };
+  species: {
+    richness: number;
+    recorded_trees: number;
+    top: { name: string; tree_count: number }[];
+    other_count: number;
+    unrecorded_count: number;
+    shannon: number;
+    simpson: number;
+    evenness: number;
+  };
+  size_classes: {
+    height: PolygonSizeClass[];
+    girth: PolygonSizeClass[];
+    canopy: PolygonSizeClass[];
+  };
+  // area_share_pct is null when ward boundaries aren't available
+  wards: { ward_number: number; tree_count: number; area_share_pct: number | null }[];
+}
+
 // --- Context Interface ---
 interface TreeStoreContextType {
   getTreeDetails: (id: string) => Promise<TreeDetailsData | null>;
+  getTreeContext: (id: string) => Promise<TreeContextData | null>;
+  searchTrees: (query: string) => Promise<TreeSearchResult[]>;
+  listSpecies: (query?: string) => Promise<SpeciesSummary[]>;
+  getSpeciesProfile: (commonName: string) => Promise<SpeciesProfile | null>;
   wardCO2Data: { ward: string; co2_kg: number }[];
   wardTreeCountData: { ward: string; tree_count: number }[];
   cityStats: CityStats | null;
   fetchCityStats: () => void;
   fetchWardData: () => void;
-  getStatsForPolygon: (polygon: DrawnGeoJson) => Promise<{ tree_count: number; co2_kg: number } | null>;
+  getStatsForPolygon: (polygon: DrawnGeoJson) => Promise<PolygonStats | null>;
 
   // --- UPDATED FOR REAL DATA ---
   treeSpeciesData: TreeSpeciesData[]; // This now holds the grouped species data
@@ -82,6 +173,10 @@ interface TreeStoreContextType {
   setSelectedArea: (area: { type: 'geojson', geojsonData: DrawnGeoJson } | null) => void;
   simulatedPlantingPoints: Position[];
   setSimulatedPlantingPoints: (points: Position[]) => void;
+  simulatedPlantingGroups: SimulatedPlantingGroup[];
+  setSimulatedPlantingGroups: (groups: SimulatedPlantingGroup[]) => void;
+  coolingOverlay: CoolingOverlay | null;
+  setCoolingOverlay: (overlay: CoolingOverlay | null) => void;
 }
 
 // --- Context Creation ---
@@ -98,6 +193,8 @@ export const TreeStoreProvider: React.FC<{ children: ReactNode }> = ({ children
   
   const [selectedArea, setSelectedArea] = useState<{ type: 'geojson', geojsonData: DrawnGeoJson } | null>(null);
   const [simulatedPlantingPoints, setSimulatedPlantingPoints] = useState<Position[]>([]);
+  const [simulatedPlantingGroups, setSimulatedPlantingGroups] = useState<SimulatedPlantingGroup[]>([]);
+  const [coolingOverlay, setCoolingOverlay] = useState<CoolingOverlay | null>(null);
 
   // --- UPDATED: Fetch real species data from the new backend endpoint ---
   const fetchTreeSpeciesData = useCallback(async () => {
@@ -122,6 +219,54 @@ export const TreeStoreProvider: React.FC<{ children: ReactNode }> = ({ children
     }
   }, []);
 
+  const getTreeContext = useCallback(async (id: string): Promise<TreeContextData | null> => {
+    try {
+      const response = await axios.get<TreeContextData>(`${API_BASE_URL}/api/trees/${id}/context`, {
+        params: { neighbours: 5 },
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching context for tree ${id}:`, error);
+      return null;
+    }
+  }, []);
+
+  const searchTrees = useCallback(async (query: string): Promise<TreeSearchResult[]> => {
+    try {
+      const response = await axios.get<{ results: TreeSearchResult[] }>(`${API_BASE_URL}/api/trees/search`, {
+        params: { q: query, limit: 20 },
+      });
+      return response.data.results;
+    } catch (error) {
+      console.error(`Error searching trees for "${query}":`, error);
+      return [];
+    }
+  }, []);
+
+  const listSpecies = useCallback(async (query?: string): Promise<SpeciesSummary[]> => {
+    try {
+      const response = await axios.get<{ data: SpeciesSummary[] }>(`${API_BASE_URL}/api/species`, {
+        params: { q: query || undefined, limit: query ? 50 : 500 },
+      });
+      return response.data.data;
+    } catch (error) {
+      console.error('Error fetching species list:', error);
+      return [];
+    }
+  }, []);
+
+  const getSpeciesProfile = useCallback(async (commonName: string): Promise<SpeciesProfile | null> => {
+    try {
+      const response = await axios.get<SpeciesProfile>(
+        `${API_BASE_URL}/api/species/${encodeURIComponent(commonName)}/profile`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching profile for species "${commonName}":`, error);
+      return null;
+    }
+  }, []);
+
   const fetchCityStats = useCallback(async () => {
     try {
       const response = await axios.get(`${API_BASE_URL}/api/city-stats`);
@@ -148,16 +293,13 @@ export const TreeStoreProvider: React.FC<{ children: ReactNode }> = ({ children
     }
   }, []);
 
-  const getStatsForPolygon = useCallback(async (polygonFeature: DrawnGeoJson) => {
+  const getStatsForPolygon = useCallback(async (polygonFeature: DrawnGeoJson): Promise<PolygonStats | null> => {
     if (!polygonFeature) return null;
     try {
-        const response = await axios.post(`${API_BASE_URL}/api/stats-in-polygon`, {
+        const response = await axios.post<PolygonStats>(`${API_BASE_URL}/api/stats-in-polygon`, {
             polygon: polygonFeature.geometry 
         });
-        return {
-            tree_count: parseInt(response.data.tree_count, 10),
-            co2_kg: parseFloat(response.data.co2_kg)
-        };
+        return response.data;
     } catch (error) {
         console.error('Error fetching stats for polygon:', error);
         return null;
@@ -175,6 +317,10 @@ export const TreeStoreProvider: React.FC<{ children: ReactNode }> = ({ children
     <TreeStoreContext.Provider
       value={{
         getTreeDetails,
+        getTreeContext,
+        searchTrees,
+        listSpecies,
+        getSpeciesProfile,
         wardCO2Data,
         wardTreeCountData,
         cityStats,
@@ -186,7 +332,11 @@ export const TreeStoreProvider: React.FC<{ children: ReactNode }> = ({ children
         selectedArea, 
         setSelectedArea, 
         simulatedPlantingPoints, 
-        setSimulatedPlantingPoints 
+        setSimulatedPlantingPoints,
+        simulatedPlantingGroups,
+        setSimulatedPlantingGroups,
+        coolingOverlay,
+        setCoolingOverlay
       }}
     >
       {children}
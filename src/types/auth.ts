@@ -0,0 +1,44 @@
+// src/types/auth.ts
+// Type definitions for user accounts and role-based permissions
+
+export type UserRole = 'viewer' | 'surveyor' | 'analyst' | 'admin';
+
+export type Permission =
+  | 'observations:write'   // Add field reports (and delete your own)
+  | 'observations:delete'  // Delete anyone's field reports
+  | 'edits:propose'        // Suggest corrections to census records
+  | 'edits:review'         // Approve or reject suggested corrections
+  | 'presets:write'        // Share, rename and delete team filter presets
+  | 'users:manage';        // Create accounts and change roles
+
+// Keep in sync with ROLE_PERMISSIONS in api/server.js
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  surveyor: ['observations:write', 'edits:propose'],
+  analyst: ['observations:write', 'edits:propose', 'edits:review', 'presets:write'],
+  admin: ['observations:write', 'observations:delete', 'edits:propose', 'edits:review', 'presets:write', 'users:manage'],
+};
+
+export const ROLE_OPTIONS: { value: UserRole; label: string; description: string }[] = [
+  { value: 'viewer', label: 'Viewer', description: 'Explore the dashboard' },
+  { value: 'surveyor', label: 'Field Surveyor', description: 'Log condition reports and suggest census corrections' },
+  { value: 'analyst', label: 'Analyst', description: 'Review corrections and share team presets' },
+  { value: 'admin', label: 'Admin', description: 'Everything, including user accounts' },
+];
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  active: boolean;
+  permissions: Permission[];
+  last_login_at: string | null;
+  created_at: string;
+}
+
+export const getRoleLabel = (role: UserRole) =>
+  ROLE_OPTIONS.find((option) => option.value === role)?.label ?? role;
+
+export const hasPermission = (user: AuthUser | null, permission: Permission) =>
+  !!user && ROLE_PERMISSIONS[user.role]?.includes(permission);
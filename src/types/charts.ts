@@ -1,7 +1,13 @@
 // src/types/charts.ts
 // Type definitions for the chart builder system
 
-export type ChartType = 'bar' | 'line' | 'pie' | 'horizontalBar' | 'area';
+import { Polygon, MultiPolygon } from 'geojson';
+import { TreeFilters } from './filters';
+
+// With a secondary grouping, 'bar' draws grouped bars, 'stackedBar'/'horizontalBar'/'area' stack
+// the series (for additive metrics only; see ADDITIVE_METRICS), 'line' draws one line per series
+// and 'heatmap' renders a shaded cross-tab table
+export type ChartType = 'bar' | 'stackedBar' | 'line' | 'pie' | 'horizontalBar' | 'area' | 'heatmap';
 
 export type GroupByField = 
   | 'ward' 
@@ -15,9 +21,22 @@ export type GroupByField =
 export type MetricField = 
   | 'count' 
   | 'sum_co2' 
+  | 'canopy_area'
   | 'avg_height' 
   | 'avg_canopy' 
-  | 'avg_girth';
+  | 'avg_girth'
+  | 'median_height'
+  | 'p10_height'
+  | 'p90_height'
+  | 'median_girth'
+  | 'p10_girth'
+  | 'p90_girth'
+  | 'median_canopy'
+  | 'p10_canopy'
+  | 'p90_canopy'
+  | 'species_richness'
+  | 'shannon_diversity'
+  | 'simpson_diversity';
 
 export type SortBy = 'label' | 'value';
 export type SortOrder = 'asc' | 'desc';
@@ -25,6 +44,8 @@ export type SortOrder = 'asc' | 'desc';
 export interface ChartConfig {
   chartType: ChartType;
   groupBy: GroupByField;
+  // Optional second dimension for cross-tab charts (e.g. species × height category)
+  secondaryGroupBy: GroupByField | null;
   metric: MetricField;
   sortBy: SortBy;
   sortOrder: SortOrder;
@@ -37,6 +58,8 @@ export interface ChartDataPoint {
   name: string;
   value: number;
   fill?: string;
+  // Metric per secondary category, present for cross-tab requests
+  breakdown?: Record<string, number>;
 }
 
 export interface ChartPreset {
@@ -48,19 +71,33 @@ export interface ChartPreset {
 
 export interface ChartDataRequest {
   groupBy: GroupByField;
+  secondaryGroupBy?: GroupByField | null;
   metric: MetricField;
   sortBy: SortBy;
   sortOrder: SortOrder;
   limit: number | null;
+  // Active filters - charts aggregate the same trees as the filtered map
+  filters?: TreeFilters;
+  // Optional drawn area to restrict the chart to
+  polygon?: Polygon | MultiPolygon | null;
 }
 
 export interface ChartDataResponse {
   data: ChartDataPoint[];
+  // Number of trees in the (filtered) set the chart was built from
   total: number;
   groupBy: string;
   metric: string;
+  filtered: boolean;
+  // Cross-tab only: secondary categories in display order (long tails folded into "Other")
+  secondaryGroupBy?: string;
+  series?: string[];
 }
 
+// Provenance stamped on chart exports (image footer and CSV header)
+export const CHART_DATA_SOURCE = 'Pune Municipal Corporation Tree Census';
+export const CHART_DATA_DATE = 'PMC Survey 2019';
+
 // Color palette for charts
 export const CHART_COLORS = {
   primary: '#2E7D32',    // Green - primary brand
@@ -93,6 +130,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'bar',
       groupBy: 'ward',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -108,6 +146,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'bar',
       groupBy: 'ward',
+      secondaryGroupBy: null,
       metric: 'sum_co2',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -123,6 +162,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'horizontalBar',
       groupBy: 'species',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -138,6 +178,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'pie',
       groupBy: 'economic_importance',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -153,6 +194,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'bar',
       groupBy: 'height_category',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'label',
       sortOrder: 'asc',
@@ -168,6 +210,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'pie',
       groupBy: 'location_type',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -183,6 +226,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'pie',
       groupBy: 'flowering',
+      secondaryGroupBy: null,
       metric: 'count',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -198,6 +242,7 @@ export const CHART_PRESETS: ChartPreset[] = [
     config: {
       chartType: 'horizontalBar',
       groupBy: 'species',
+      secondaryGroupBy: null,
       metric: 'sum_co2',
       sortBy: 'value',
       sortOrder: 'desc',
@@ -206,6 +251,54 @@ export const CHART_PRESETS: ChartPreset[] = [
       title: 'Top 10 CO₂ Contributing Species (tons)',
     },
   },
+  {
+    id: 'diversity-by-ward',
+    name: 'Diversity',
+    icon: '🧬',
+    config: {
+      chartType: 'bar',
+      groupBy: 'ward',
+      secondaryGroupBy: null,
+      metric: 'shannon_diversity',
+      sortBy: 'value',
+      sortOrder: 'desc',
+      limit: null,
+      showDataLabels: false,
+      title: 'Species Diversity by Ward (Shannon index)',
+    },
+  },
+  {
+    id: 'species-by-height',
+    name: 'Species × Height',
+    icon: '🧮',
+    config: {
+      chartType: 'heatmap',
+      groupBy: 'species',
+      secondaryGroupBy: 'height_category',
+      metric: 'count',
+      sortBy: 'value',
+      sortOrder: 'desc',
+      limit: 15,
+      showDataLabels: true,
+      title: 'Top 15 Species by Height Category',
+    },
+  },
+  {
+    id: 'ward-by-location',
+    name: 'Ward × Location',
+    icon: '🏙️',
+    config: {
+      chartType: 'stackedBar',
+      groupBy: 'ward',
+      secondaryGroupBy: 'location_type',
+      metric: 'count',
+      sortBy: 'value',
+      sortOrder: 'desc',
+      limit: null,
+      showDataLabels: false,
+      title: 'Street vs Non-Street Trees by Ward',
+    },
+  },
 ];
 
 // Labels for UI
@@ -222,15 +315,71 @@ export const GROUP_BY_LABELS: Record<GroupByField, string> = {
 export const METRIC_LABELS: Record<MetricField, string> = {
   count: 'Number of Trees',
   sum_co2: 'Total CO₂ (tons)',
+  canopy_area: 'Total Canopy Area (m²)',
   avg_height: 'Avg Height (m)',
   avg_canopy: 'Avg Canopy (m)',
   avg_girth: 'Avg Girth (cm)',
+  median_height: 'Median Height (m)',
+  p10_height: 'Height P10 (m)',
+  p90_height: 'Height P90 (m)',
+  median_girth: 'Median Girth (cm)',
+  p10_girth: 'Girth P10 (cm)',
+  p90_girth: 'Girth P90 (cm)',
+  median_canopy: 'Median Canopy (m)',
+  p10_canopy: 'Canopy P10 (m)',
+  p90_canopy: 'Canopy P90 (m)',
+  species_richness: 'Species Richness',
+  shannon_diversity: 'Shannon Diversity (H′)',
+  simpson_diversity: 'Simpson Diversity (1 − D)',
+};
+
+// Metrics whose per-series values add up to the category's value, so they can be stacked.
+// Averages, percentiles and diversity indices are drawn side by side or overlaid instead.
+export const ADDITIVE_METRICS: MetricField[] = ['count', 'sum_co2', 'canopy_area'];
+
+// Metric options grouped for the chart builder
+export const METRIC_GROUPS: { label: string; metrics: MetricField[] }[] = [
+  { label: 'Totals', metrics: ['count', 'sum_co2', 'canopy_area'] },
+  { label: 'Averages', metrics: ['avg_height', 'avg_canopy', 'avg_girth'] },
+  {
+    label: 'Distribution',
+    metrics: [
+      'median_height', 'p10_height', 'p90_height',
+      'median_canopy', 'p10_canopy', 'p90_canopy',
+      'median_girth', 'p10_girth', 'p90_girth',
+    ],
+  },
+  { label: 'Diversity', metrics: ['species_richness', 'shannon_diversity', 'simpson_diversity'] },
+];
+
+// Unit suffix shown after metric values (indices are unitless)
+export const METRIC_UNITS: Record<MetricField, string> = {
+  count: ' trees',
+  sum_co2: ' tons',
+  canopy_area: ' m²',
+  avg_height: 'm',
+  avg_canopy: 'm',
+  avg_girth: 'cm',
+  median_height: 'm',
+  p10_height: 'm',
+  p90_height: 'm',
+  median_girth: 'cm',
+  p10_girth: 'cm',
+  p90_girth: 'cm',
+  median_canopy: 'm',
+  p10_canopy: 'm',
+  p90_canopy: 'm',
+  species_richness: ' species',
+  shannon_diversity: '',
+  simpson_diversity: '',
 };
 
 export const CHART_TYPE_LABELS: Record<ChartType, string> = {
   bar: 'Bar Chart',
+  stackedBar: 'Stacked Bar',
   line: 'Line Chart',
   pie: 'Pie Chart',
   horizontalBar: 'Horizontal Bar',
   area: 'Area Chart',
+  heatmap: 'Heatmap Table',
 };
@@ -3,9 +3,15 @@
 
 export type LocationFilterType = 'all' | 'street' | 'non-street';
 
+// How trees with no recorded value are treated by a range filter:
+// 'exclude' (default) drops them once a bound is set, 'include' keeps them alongside
+// the range, 'only' matches just the trees with a missing value (bounds are ignored)
+export type UnknownValueMode = 'exclude' | 'include' | 'only';
+
 export interface RangeFilter {
   min: number | null;
   max: number | null;
+  unknown?: UnknownValueMode;
 }
 
 export interface TreeFilters {
@@ -35,8 +41,24 @@ export interface TreeFilters {
   
   // Economic importance filter
   economicImportance: string | null;
+  
+  // Species to leave out ("all species except Gulmohar")
+  excludeSpecies: string[];
+  
+  // Wards to leave out
+  excludeWards: string[];
+  
+  // OR groups - a tree must match at least one clause of every group,
+  // on top of the fields above (e.g. [[{ species: [...] }, { height: { min: 15, max: null } }]])
+  orGroups: FilterClause[][];
 }
 
+// Every TreeFilters field that can appear inside an OR clause
+export type FilterCriteria = Omit<TreeFilters, 'orGroups'>;
+
+// One alternative within an OR group - unset fields do not constrain the clause
+export type FilterClause = Partial<FilterCriteria>;
+
 export const DEFAULT_FILTERS: TreeFilters = {
   locationType: 'all',
   species: [],
@@ -47,6 +69,9 @@ export const DEFAULT_FILTERS: TreeFilters = {
   wards: [],
   flowering: null,
   economicImportance: null,
+  excludeSpecies: [],
+  excludeWards: [],
+  orGroups: [],
 };
 
 // Active filter representation for chips
@@ -81,56 +106,162 @@ export interface FilteredStats {
   appliedFiltersCount: number;
 }
 
-// Helper function to check if any filters are active
-export function hasActiveFilters(filters: TreeFilters): boolean {
+// Named, reusable filter combination
+export interface FilterPreset {
+  id: string;
+  name: string;
+  description?: string | null;
+  filters: TreeFilters;
+  createdAt: string;
+  updatedAt: string;
+  author?: string | null;
+  // Set when the preset is stored server-side via /api/filter-presets
+  serverId?: string | null;
+  // Id of the user who shared it; only they and admins can change the server copy
+  createdBy?: string | null;
+}
+
+// Download formats supported by /api/trees/export
+// 'geojsonseq' is newline-delimited GeoJSON (RFC 8142) - opens directly in QGIS/GDAL
+export type TreeExportFormat = 'csv' | 'geojson' | 'geojsonseq';
+
+const UNKNOWN_VALUE_MODES: UnknownValueMode[] = ['exclude', 'include', 'only'];
+
+// Range fields shared by chips, counting and sanitising
+const RANGE_FIELDS: { key: 'height' | 'canopyDiameter' | 'girth' | 'co2Sequestered'; label: string; unit: string }[] = [
+  { key: 'height', label: 'Height', unit: 'm' },
+  { key: 'canopyDiameter', label: 'Canopy', unit: 'm' },
+  { key: 'girth', label: 'Girth', unit: 'cm' },
+  { key: 'co2Sequestered', label: 'CO₂', unit: 'kg' },
+];
+
+function isRangeFilter(value: unknown): value is RangeFilter {
+  if (!value || typeof value !== 'object') return false;
+  const { min, max, unknown } = value as RangeFilter;
   return (
-    filters.locationType !== 'all' ||
-    filters.species.length > 0 ||
-    filters.height.min !== null ||
-    filters.height.max !== null ||
-    filters.canopyDiameter.min !== null ||
-    filters.canopyDiameter.max !== null ||
-    filters.girth.min !== null ||
-    filters.girth.max !== null ||
-    filters.co2Sequestered.min !== null ||
-    filters.co2Sequestered.max !== null ||
-    filters.wards.length > 0 ||
-    filters.flowering !== null ||
-    filters.economicImportance !== null
+    (min === null || typeof min === 'number') &&
+    (max === null || typeof max === 'number') &&
+    (unknown === undefined || UNKNOWN_VALUE_MODES.includes(unknown))
   );
 }
 
-// Helper function to count active filters
-export function countActiveFilters(filters: TreeFilters): number {
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+// Helper function to check if a range constrains anything
+export function isRangeActive(range: RangeFilter | undefined): boolean {
+  if (!range) return false;
+  return range.min !== null || range.max !== null || range.unknown === 'only';
+}
+
+// Keeps only the well-formed fields of an untrusted filter object
+function sanitizeCriteria(input: Record<string, unknown>): FilterClause {
+  const criteria: FilterClause = {};
+  
+  if (input.locationType === 'all' || input.locationType === 'street' || input.locationType === 'non-street') {
+    criteria.locationType = input.locationType;
+  }
+  if (isStringArray(input.species)) criteria.species = input.species;
+  if (isStringArray(input.wards)) criteria.wards = input.wards;
+  if (isStringArray(input.excludeSpecies)) criteria.excludeSpecies = input.excludeSpecies;
+  if (isStringArray(input.excludeWards)) criteria.excludeWards = input.excludeWards;
+  RANGE_FIELDS.forEach(({ key }) => {
+    const range = input[key];
+    if (isRangeFilter(range)) criteria[key] = range;
+  });
+  if (typeof input.flowering === 'boolean') criteria.flowering = input.flowering;
+  if (typeof input.economicImportance === 'string') criteria.economicImportance = input.economicImportance;
+  
+  return criteria;
+}
+
+function sanitizeOrGroups(value: unknown): FilterClause[][] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(Array.isArray)
+    .map((group: unknown[]) =>
+      group
+        .filter((clause): clause is Record<string, unknown> => !!clause && typeof clause === 'object' && !Array.isArray(clause))
+        .map(sanitizeCriteria)
+    )
+    .filter((group) => group.length > 0);
+}
+
+// Helper function to build TreeFilters from untrusted input (URLs, imported files, API responses).
+// Missing or malformed fields fall back to their defaults; returns null if input is not an object.
+export function sanitizeFilters(raw: unknown): TreeFilters | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const input = raw as Record<string, unknown>;
+  
+  return {
+    ...DEFAULT_FILTERS,
+    ...sanitizeCriteria(input),
+    orGroups: sanitizeOrGroups(input.orGroups),
+  };
+}
+
+// Number of active conditions in a set of criteria (top-level filters or an OR clause)
+function countCriteria(criteria: FilterClause): number {
   let count = 0;
   
-  if (filters.locationType !== 'all') count++;
-  count += filters.species.length;
-  if (filters.height.min !== null || filters.height.max !== null) count++;
-  if (filters.canopyDiameter.min !== null || filters.canopyDiameter.max !== null) count++;
-  if (filters.girth.min !== null || filters.girth.max !== null) count++;
-  if (filters.co2Sequestered.min !== null || filters.co2Sequestered.max !== null) count++;
-  count += filters.wards.length;
-  if (filters.flowering !== null) count++;
-  if (filters.economicImportance !== null) count++;
+  if (criteria.locationType && criteria.locationType !== 'all') count++;
+  count += criteria.species?.length ?? 0;
+  count += criteria.excludeSpecies?.length ?? 0;
+  RANGE_FIELDS.forEach(({ key }) => {
+    if (isRangeActive(criteria[key])) count++;
+  });
+  count += criteria.wards?.length ?? 0;
+  count += criteria.excludeWards?.length ?? 0;
+  if (criteria.flowering !== null && criteria.flowering !== undefined) count++;
+  if (criteria.economicImportance) count++;
   
   return count;
 }
 
-// Helper function to get active filters as chip data
-export function getActiveFilterChips(filters: TreeFilters): ActiveFilter[] {
+// Helper function to check if an OR group narrows the results.
+// A group containing an unconstrained clause matches every tree.
+export function isOrGroupActive(group: FilterClause[]): boolean {
+  return group.length > 0 && group.every((clause) => countCriteria(clause) > 0);
+}
+
+// Helper function to check if any filters are active
+export function hasActiveFilters(filters: TreeFilters): boolean {
+  return countActiveFilters(filters) > 0;
+}
+
+// Helper function to count active filters
+export function countActiveFilters(filters: TreeFilters): number {
+  return countCriteria(filters) + filters.orGroups.filter(isOrGroupActive).length;
+}
+
+function formatRangeLabel(label: string, range: RangeFilter, unit: string): string {
+  if (range.unknown === 'only') return `${label}: unknown`;
+  
+  let bounds: string;
+  if (range.min !== null && range.max !== null) {
+    bounds = `${range.min}-${range.max}${unit}`;
+  } else if (range.min !== null) {
+    bounds = `≥${range.min}${unit}`;
+  } else {
+    bounds = `≤${range.max}${unit}`;
+  }
+  return `${label}: ${bounds}${range.unknown === 'include' ? ' or unknown' : ''}`;
+}
+
+function getCriteriaChips(criteria: FilterClause): ActiveFilter[] {
   const chips: ActiveFilter[] = [];
   
-  if (filters.locationType !== 'all') {
+  if (criteria.locationType && criteria.locationType !== 'all') {
     chips.push({
       id: 'locationType',
       type: 'locationType',
-      label: filters.locationType === 'street' ? 'Street Trees' : 'Non-Street Trees',
-      value: filters.locationType,
+      label: criteria.locationType === 'street' ? 'Street Trees' : 'Non-Street Trees',
+      value: criteria.locationType,
     });
   }
   
-  filters.species.forEach((species, index) => {
+  criteria.species?.forEach((species, index) => {
     chips.push({
       id: `species-${index}`,
       type: 'species',
@@ -139,51 +270,28 @@ export function getActiveFilterChips(filters: TreeFilters): ActiveFilter[] {
     });
   });
   
-  if (filters.height.min !== null || filters.height.max !== null) {
-    const min = filters.height.min ?? 0;
-    const max = filters.height.max ?? '∞';
-    chips.push({
-      id: 'height',
-      type: 'height',
-      label: `Height: ${min}-${max}m`,
-      value: filters.height,
-    });
-  }
-  
-  if (filters.canopyDiameter.min !== null || filters.canopyDiameter.max !== null) {
-    const min = filters.canopyDiameter.min ?? 0;
-    const max = filters.canopyDiameter.max ?? '∞';
+  criteria.excludeSpecies?.forEach((species, index) => {
     chips.push({
-      id: 'canopyDiameter',
-      type: 'canopyDiameter',
-      label: `Canopy: ${min}-${max}m`,
-      value: filters.canopyDiameter,
-    });
-  }
-  
-  if (filters.girth.min !== null || filters.girth.max !== null) {
-    const min = filters.girth.min ?? 0;
-    const max = filters.girth.max ?? '∞';
-    chips.push({
-      id: 'girth',
-      type: 'girth',
-      label: `Girth: ${min}-${max}cm`,
-      value: filters.girth,
+      id: `excludeSpecies-${index}`,
+      type: 'excludeSpecies',
+      label: `Not ${species}`,
+      value: species,
     });
-  }
+  });
   
-  if (filters.co2Sequestered.min !== null || filters.co2Sequestered.max !== null) {
-    const min = filters.co2Sequestered.min ?? 0;
-    const max = filters.co2Sequestered.max ?? '∞';
-    chips.push({
-      id: 'co2Sequestered',
-      type: 'co2Sequestered',
-      label: `CO₂: ${min}-${max}kg`,
-      value: filters.co2Sequestered,
-    });
-  }
+  RANGE_FIELDS.forEach(({ key, label, unit }) => {
+    const range = criteria[key];
+    if (range && isRangeActive(range)) {
+      chips.push({
+        id: key,
+        type: key,
+        label: formatRangeLabel(label, range, unit),
+        value: range,
+      });
+    }
+  });
   
-  filters.wards.forEach((ward, index) => {
+  criteria.wards?.forEach((ward, index) => {
     chips.push({
       id: `ward-${index}`,
       type: 'wards',
@@ -192,23 +300,69 @@ export function getActiveFilterChips(filters: TreeFilters): ActiveFilter[] {
     });
   });
   
-  if (filters.flowering !== null) {
+  criteria.excludeWards?.forEach((ward, index) => {
+    chips.push({
+      id: `excludeWard-${index}`,
+      type: 'excludeWards',
+      label: `Not Ward ${ward}`,
+      value: ward,
+    });
+  });
+  
+  if (criteria.flowering !== null && criteria.flowering !== undefined) {
     chips.push({
       id: 'flowering',
       type: 'flowering',
-      label: filters.flowering ? 'Flowering' : 'Non-Flowering',
-      value: filters.flowering,
+      label: criteria.flowering ? 'Flowering' : 'Non-Flowering',
+      value: criteria.flowering,
     });
   }
   
-  if (filters.economicImportance !== null) {
+  if (criteria.economicImportance) {
     chips.push({
       id: 'economicImportance',
       type: 'economicImportance',
-      label: `Economic: ${filters.economicImportance}`,
-      value: filters.economicImportance,
+      label: `Economic: ${criteria.economicImportance}`,
+      value: criteria.economicImportance,
     });
   }
   
   return chips;
 }
+
+// Helper function to describe one OR clause, e.g. "(Neem & Height: ≥15m)"
+export function describeFilterClause(clause: FilterClause): string {
+  const labels = getCriteriaChips(clause).map((chip) => chip.label);
+  if (labels.length === 0) return 'Any tree';
+  return labels.length > 1 ? `(${labels.join(' & ')})` : labels[0];
+}
+
+// Helper function to get active filters as chip data
+// Each OR group becomes a single chip; its value is the group index
+export function getActiveFilterChips(filters: TreeFilters): ActiveFilter[] {
+  const chips = getCriteriaChips(filters);
+  
+  filters.orGroups.forEach((group, index) => {
+    if (!isOrGroupActive(group)) return;
+    chips.push({
+      id: `orGroup-${index}`,
+      type: 'orGroups',
+      label: group.map(describeFilterClause).join(' or '),
+      value: index,
+    });
+  });
+  
+  return chips;
+}
+
+// Helper function to turn the top-level filters into an OR clause (only fields that differ from the defaults)
+export function toFilterClause(filters: TreeFilters): FilterClause {
+  const clause: Record<string, unknown> = {};
+  (Object.keys(DEFAULT_FILTERS) as (keyof TreeFilters)[]).forEach((key) => {
+    if (key === 'orGroups') return;
+    if (JSON.stringify(filters[key]) !== JSON.stringify(DEFAULT_FILTERS[key])) {
+      clause[key] = filters[key];
+    }
+  });
+  return clause as FilterClause;
+}
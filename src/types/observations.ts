@@ -0,0 +1,69 @@
+// src/types/observations.ts
+// Type definitions for the tree condition log (api/server.js TREE OBSERVATION ENDPOINTS)
+
+export type TreeStatus = 'healthy' | 'diseased' | 'fallen' | 'felled';
+
+// Issue codes a volunteer can tick; must match OBSERVATION_CONDITIONS on the server
+export type ConditionIssue =
+  | 'pest'
+  | 'fungal'
+  | 'bark_damage'
+  | 'dead_branches'
+  | 'leaning'
+  | 'root_damage'
+  | 'concreted_base'
+  | 'lopped'
+  | 'nails_or_ads'
+  | 'wires';
+
+// Photos are stored elsewhere (e.g. a shared drive); only their metadata is logged
+export interface ObservationPhoto {
+  url: string;
+  caption: string | null;
+  taken_at: string | null;
+}
+
+export interface TreeObservation {
+  id: string;
+  tree_id: string;
+  status: TreeStatus;
+  condition: ConditionIssue[];
+  notes: string | null;
+  photos: ObservationPhoto[];
+  observer: string | null;
+  observed_at: string; // YYYY-MM-DD
+  created_by: string | null; // app_users id of the account that logged it
+  created_at: string;
+}
+
+export interface NewTreeObservation {
+  status: TreeStatus;
+  condition: ConditionIssue[];
+  notes?: string;
+  photos?: ObservationPhoto[];
+  observer?: string;
+  observed_at?: string;
+}
+
+export const TREE_STATUS_OPTIONS: { value: TreeStatus; label: string; color: string }[] = [
+  { value: 'healthy', label: 'Healthy', color: '#16a34a' },
+  { value: 'diseased', label: 'Diseased', color: '#d97706' },
+  { value: 'fallen', label: 'Fallen', color: '#dc2626' },
+  { value: 'felled', label: 'Felled', color: '#6b7280' },
+];
+
+export const CONDITION_ISSUE_LABELS: Record<ConditionIssue, string> = {
+  pest: 'Pest infestation',
+  fungal: 'Fungal growth',
+  bark_damage: 'Bark damage',
+  dead_branches: 'Dead branches',
+  leaning: 'Leaning',
+  root_damage: 'Root damage',
+  concreted_base: 'Concreted around base',
+  lopped: 'Heavily lopped',
+  nails_or_ads: 'Nails or ad boards',
+  wires: 'Wires or cables',
+};
+
+export const getStatusOption = (status: TreeStatus) =>
+  TREE_STATUS_OPTIONS.find((option) => option.value === status) ?? TREE_STATUS_OPTIONS[0];
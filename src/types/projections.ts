@@ -0,0 +1,57 @@
+// src/types/projections.ts
+// Type definitions for growth and CO₂ projections (/api/projections)
+
+/** A tree to project; without a girth it is treated as a newly planted sapling */
+export interface ProjectionTreeInput {
+  common_name: string;
+  count?: number;
+  girth_cm?: number | null;
+  height_m?: number | null;
+  canopy_dia_m?: number | null;
+  /** Measured CO₂ sequestration, kg per year (the census "CO2_sequestered_kg") */
+  co2_annual_kg?: number | null;
+}
+
+export interface ProjectionPoint {
+  year: number;
+  girth_cm: number;
+  height_m: number;
+  canopy_dia_m: number;
+  /** CO₂ one tree takes up per year at this size */
+  co2_annual_kg: number;
+  /** CO₂ one tree has taken up since year 0 */
+  co2_absorbed_kg: number;
+}
+
+export interface TreeProjection {
+  common_name: string;
+  count: number;
+  model: {
+    /** 'city' when the species has too few measured trees and the city-wide fit was used */
+    basis: 'species' | 'city';
+    fit_tree_count: number;
+    mature_girth_cm: number;
+    sapling_girth_increment_cm: number;
+  };
+  series: ProjectionPoint[];
+}
+
+export interface ProjectionResponse {
+  years: number[];
+  projections: TreeProjection[];
+  /** Yearly CO₂ sequestration of all the trees, counts included, for each year */
+  total_co2_annual_kg: number[];
+  /** CO₂ all the trees have taken up since year 0, counts included, for each year */
+  total_co2_absorbed_kg: number[];
+  sapling_girth_cm: number;
+}
+
+export type GrowthMetric = 'co2_absorbed_kg' | 'co2_annual_kg' | 'girth_cm' | 'height_m' | 'canopy_dia_m';
+
+export const GROWTH_METRICS: { metric: GrowthMetric; label: string; unit: string }[] = [
+  { metric: 'co2_absorbed_kg', label: 'CO₂ absorbed', unit: 'kg' },
+  { metric: 'co2_annual_kg', label: 'CO₂ per year', unit: 'kg/yr' },
+  { metric: 'girth_cm', label: 'Girth', unit: 'cm' },
+  { metric: 'height_m', label: 'Height', unit: 'm' },
+  { metric: 'canopy_dia_m', label: 'Canopy', unit: 'm' },
+];
@@ -0,0 +1,12 @@
+// src/types/shpjs.d.ts
+// shpjs ships without type definitions; only the zip entry point is used here
+
+declare module 'shpjs' {
+  import type { FeatureCollection } from 'geojson';
+
+  type ShapefileCollection = FeatureCollection & { fileName?: string };
+
+  export default function shp(
+    input: string | ArrayBuffer
+  ): Promise<ShapefileCollection | ShapefileCollection[]>;
+}
@@ -0,0 +1,45 @@
+// src/types/species.ts
+// Type definitions for species profiles (/api/species and /api/species/:name/profile)
+
+export interface SpeciesSummary {
+  common_name: string;
+  botanical_name: string | null;
+  tree_count: number;
+}
+
+export interface HistogramBin {
+  min: number;
+  max: number | null; // null for the open-ended last bin
+  tree_count: number;
+}
+
+export type SpeciesSizeMetric = 'height_m' | 'girth_cm' | 'canopy_dia_m';
+
+export interface ValueCount {
+  value: string;
+  tree_count: number;
+}
+
+export interface SpeciesProfile {
+  common_name: string;
+  botanical_name: string | null;
+  tree_count: number;
+  city_share_pct: number;
+  street_tree_count: number;
+  total_co2_kg: number;
+  size: Record<SpeciesSizeMetric, { median: number | null; p90: number | null }>;
+  histograms: Record<SpeciesSizeMetric, HistogramBin[]>;
+  wards: { ward: string; tree_count: number }[];
+  flowering: ValueCount[];
+  economic_importance: ValueCount[];
+  distribution: {
+    cell_degrees: number;
+    cells: { lon: number; lat: number; tree_count: number }[];
+  };
+}
+
+export const SPECIES_SIZE_METRICS: { metric: SpeciesSizeMetric; label: string; unit: string }[] = [
+  { metric: 'height_m', label: 'Height', unit: 'm' },
+  { metric: 'girth_cm', label: 'Girth', unit: 'cm' },
+  { metric: 'canopy_dia_m', label: 'Canopy diameter', unit: 'm' },
+];
@@ -0,0 +1,76 @@
+// src/types/treeEdits.ts
+// Type definitions for census corrections (api/server.js TREE CENSUS CORRECTIONS)
+
+export type TreeEditField = 'common_name' | 'botanical_name' | 'height_m' | 'girth_cm' | 'canopy_dia_m' | 'location';
+
+export interface TreeLocation {
+  lon: number;
+  lat: number;
+}
+
+export interface TreeEditValues {
+  common_name?: string | null;
+  botanical_name?: string | null;
+  height_m?: number | null;
+  girth_cm?: number | null;
+  canopy_dia_m?: number | null;
+  location?: TreeLocation | null;
+}
+
+export type TreeEditStatus = 'pending' | 'approved' | 'rejected';
+
+export interface TreeEditProposal {
+  id: string;
+  tree_id: string;
+  changes: TreeEditValues;
+  previous: TreeEditValues;
+  reason: string;
+  status: TreeEditStatus;
+  submitted_by: string;
+  submitted_by_name: string | null;
+  submitted_at: string;
+  reviewed_by: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+  // Review queue only: the live record and whether it changed since the proposal was made
+  tree_common_name?: string | null;
+  current?: TreeEditValues | null;
+  stale?: boolean;
+}
+
+export interface TreeAuditEntry {
+  id: string;
+  tree_id: string;
+  field: TreeEditField;
+  old_value: TreeEditValues[TreeEditField];
+  new_value: TreeEditValues[TreeEditField];
+  proposal_id: string | null;
+  reason: string | null;
+  proposed_by_name: string | null;
+  approved_by_name: string | null;
+  changed_at: string;
+}
+
+// Limits must match TREE_EDIT_FIELDS on the server
+export const TREE_EDIT_FIELDS: { field: TreeEditField; label: string; unit?: string; min?: number; max?: number }[] = [
+  { field: 'common_name', label: 'Common name' },
+  { field: 'botanical_name', label: 'Botanical name' },
+  { field: 'height_m', label: 'Height', unit: 'm', min: 0.1, max: 80 },
+  { field: 'girth_cm', label: 'Girth', unit: 'cm', min: 1, max: 2000 },
+  { field: 'canopy_dia_m', label: 'Canopy diameter', unit: 'm', min: 0.1, max: 60 },
+  { field: 'location', label: 'Location' },
+];
+
+export const getTreeEditLabel = (field: TreeEditField) =>
+  TREE_EDIT_FIELDS.find((option) => option.field === field)?.label ?? field;
+
+export const formatTreeEditValue = (field: TreeEditField, value: TreeEditValues[TreeEditField]): string => {
+  if (value == null) return '—';
+  if (field === 'location') {
+    const { lon, lat } = value as TreeLocation;
+    return `${lat.toFixed(6)}, ${lon.toFixed(6)}`;
+  }
+  const unit = TREE_EDIT_FIELDS.find((option) => option.field === field)?.unit;
+  return unit ? `${value} ${unit}` : String(value);
+};
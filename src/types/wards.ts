@@ -0,0 +1,73 @@
+// src/types/wards.ts
+// Type definitions for the ward drill-down (/api/wards/:wardNumber)
+
+export interface WardCensusSummary {
+  tree_count: number;
+  species_count: number;
+  avg_canopy_m: number | null;
+  avg_girth_cm: number | null;
+  avg_height_m: number | null;
+  /** Sum of canopy discs from the census crown diameters */
+  total_canopy_area_m2: number | null;
+  /** Census CO₂ sequestration, kg per year */
+  co2_kg: number | null;
+}
+
+export interface WardSpeciesCount {
+  common_name: string;
+  botanical_name: string | null;
+  tree_count: number;
+  share_pct: number;
+}
+
+export interface WardLandCoverYear {
+  year: number;
+  total_area_m2: number;
+  trees_area_m2: number;
+  built_area_m2: number;
+  grass_area_m2: number;
+  bare_area_m2: number;
+  trees_pct: number;
+  built_pct: number;
+  grass_pct: number;
+  bare_pct: number;
+}
+
+export interface WardChangePeriod {
+  from_year: number;
+  to_year: number;
+  period: string | null;
+  trees_lost_m2: number;
+  trees_gained_m2: number;
+  net_tree_change_m2: number;
+  built_gained_m2: number;
+  trees_to_built_m2: number | null;
+}
+
+/** Census trees checked against the satellite land-cover class at their location */
+export interface WardCensusValidation {
+  total_trees: number;
+  confirmed_trees: number;
+  now_built: number;
+  now_bare: number;
+  unclassified: number;
+}
+
+export interface WardDetail {
+  ward_number: number;
+  boundary: {
+    ward_office: string | null;
+    prabhag_name: string | null;
+    zone: number | null;
+    area_ha: number | null;
+  } | null;
+  /** Wards sharing a boundary with this one */
+  neighbours: number[];
+  census: WardCensusSummary;
+  top_species: WardSpeciesCount[];
+  land_cover: WardLandCoverYear[];
+  year_over_year_changes: WardChangePeriod[];
+  overall_2019_2025: WardChangePeriod | null;
+  /** Null until land_cover_points has been imported */
+  validation: WardCensusValidation | null;
+}
@@ -0,0 +1,139 @@
+// src/utils/areaFileImport.ts
+// Read boundary files (GeoJSON, KML, zipped Shapefile) into polygon features
+
+import * as turf from '@turf/turf';
+import { kml } from '@tmcw/togeojson';
+import shp from 'shpjs';
+import type { Feature, FeatureCollection, Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+
+export type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+export interface ImportedAreaFeature {
+  label: string;
+  feature: AreaFeature;
+}
+
+export const AREA_FILE_ACCEPT = '.geojson,.json,.kml,.zip';
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Property keys tried, in order, when labelling a feature
+const LABEL_KEYS = ['name', 'title', 'label', 'prabhag_na', 'ward_name', 'ward_no', 'id'];
+
+function featureLabel(properties: Record<string, unknown> | null, index: number): string {
+  if (properties) {
+    const entries = Object.entries(properties);
+    for (const key of LABEL_KEYS) {
+      const match = entries.find(([k, v]) => k.toLowerCase() === key && v != null && String(v).trim());
+      if (match) return String(match[1]).trim();
+    }
+  }
+  return `Feature ${index + 1}`;
+}
+
+// KML coordinates carry an altitude; PostGIS and turf expect 2D rings
+const to2D = (rings: Position[][]): Position[][] => rings.map((ring) => ring.map(([lng, lat]) => [lng, lat]));
+
+/** Polygon parts of any geometry, dropping points and lines. */
+function polygonParts(geometry: Geometry | null): Position[][][] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'Polygon':
+      return [to2D(geometry.coordinates)];
+    case 'MultiPolygon':
+      return geometry.coordinates.map(to2D);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(polygonParts);
+    default:
+      return [];
+  }
+}
+
+function toAreaFeatures(collection: FeatureCollection): ImportedAreaFeature[] {
+  const areas: ImportedAreaFeature[] = [];
+  collection.features.forEach((feature, index) => {
+    const parts = polygonParts(feature.geometry);
+    if (parts.length === 0) return;
+    areas.push({
+      label: featureLabel(feature.properties, index),
+      feature: {
+        type: 'Feature',
+        properties: feature.properties ?? {},
+        geometry: parts.length === 1
+          ? { type: 'Polygon', coordinates: parts[0] }
+          : { type: 'MultiPolygon', coordinates: parts },
+      },
+    });
+  });
+  return areas;
+}
+
+function asFeatureCollection(value: unknown): FeatureCollection {
+  const parsed = value as { type?: unknown; features?: unknown } | null;
+  if (parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features)) return parsed as FeatureCollection;
+  if (parsed?.type === 'Feature') return { type: 'FeatureCollection', features: [parsed as Feature] };
+  if (typeof parsed?.type === 'string') {
+    return { type: 'FeatureCollection', features: [{ type: 'Feature', properties: {}, geometry: parsed as Geometry }] };
+  }
+  throw new Error('File is not valid GeoJSON');
+}
+
+/**
+ * Parse an uploaded boundary file into polygon features.
+ * Shapefiles must be zipped with their .shp, .dbf and .prj so shpjs can
+ * reproject them to WGS84; GeoJSON and KML are assumed to be WGS84 already.
+ */
+export async function parseAreaFile(file: File): Promise<ImportedAreaFeature[]> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('File is larger than 20 MB');
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let collection: FeatureCollection;
+
+  if (extension === 'geojson' || extension === 'json') {
+    collection = asFeatureCollection(JSON.parse(await file.text()));
+  } else if (extension === 'kml') {
+    const doc = new DOMParser().parseFromString(await file.text(), 'text/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('File is not valid KML');
+    }
+    collection = kml(doc) as FeatureCollection;
+  } else if (extension === 'zip') {
+    const result = await shp(await file.arrayBuffer());
+    // A zip with several layers yields one collection per layer
+    const layers = Array.isArray(result) ? result : [result];
+    collection = { type: 'FeatureCollection', features: layers.flatMap((layer) => layer.features) };
+  } else {
+    throw new Error('Unsupported file type. Use .geojson, .kml or a zipped Shapefile');
+  }
+
+  const areas = toAreaFeatures(collection);
+  if (areas.length === 0) {
+    throw new Error('No polygon features found in file');
+  }
+  return areas;
+}
+
+/** Merge the picked features into one selection, dissolving overlaps. */
+export function combineAreaFeatures(features: AreaFeature[]): AreaFeature {
+  if (features.length === 1) {
+    return { type: 'Feature', properties: {}, geometry: features[0].geometry };
+  }
+  try {
+    const merged = turf.union(turf.featureCollection(features));
+    if (merged) return { type: 'Feature', properties: {}, geometry: merged.geometry };
+  } catch (error) {
+    console.warn('[areaFileImport] Union failed, keeping parts separate:', error);
+  }
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: features.flatMap((f) =>
+        f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates
+      ),
+    },
+  };
+}
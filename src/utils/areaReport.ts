@@ -0,0 +1,290 @@
+// src/utils/areaReport.ts
+// Data gathering for the printable ward / drawn-area report
+
+import axios from 'axios';
+import * as turf from '@turf/turf';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import {
+  getSeverityLevel,
+  WardComparison,
+  WardLandCover,
+  WardStats,
+} from '../store/GreenCoverStore';
+import { GreenScoreBreakdown, GreenScoreProfile, scoreGreenCover } from './greenScore';
+import type { ChartDataResponse } from '../types/charts';
+import type { MapBounds } from './mapSnapshot';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+const SPECIES_MIX_LIMIT = 10;
+
+export type AreaGeometry = Polygon | MultiPolygon;
+
+export interface WardBoundaryProperties {
+  ward_number: number;
+  ward_office?: string;
+  prabhag_name?: string;
+  zone?: number;
+}
+
+export type WardBoundaryCollection = FeatureCollection<AreaGeometry, WardBoundaryProperties>;
+
+export type ReportSubject =
+  | { kind: 'ward'; wardNumber: number; label: string; geometry: AreaGeometry }
+  | { kind: 'area'; label: string; geometry: AreaGeometry };
+
+export interface ReportSpeciesRow {
+  name: string;
+  count: number;
+  share: number; // % of trees in the area
+}
+
+export interface ReportLandCoverYear {
+  year: number;
+  treesPct: number;
+  builtPct: number;
+  grassPct: number;
+  barePct: number;
+}
+
+export interface ReportLandCoverChange {
+  treesLostHa: number;
+  treesGainedHa: number;
+  netChangeHa: number;
+  builtGainedHa: number;
+  netChangePct: number;
+}
+
+export interface ReportHotspotStatus {
+  wardNumber: number;
+  netChangePct: number;
+  isHotspot: boolean;
+  severity: 'severe' | 'moderate' | 'minor';
+}
+
+export interface AreaReportData {
+  subject: ReportSubject;
+  generatedAt: Date;
+  areaHa: number;
+  mapImage: string | null;
+  treeCount: number | null;
+  co2Kg: number | null;
+  cityTreeCount: number | null;
+  species: ReportSpeciesRow[];
+  otherSpeciesCount: number;
+  // Ward numbers the land-cover figures are aggregated over
+  landCoverWards: number[];
+  landCover: ReportLandCoverYear[];
+  change: ReportLandCoverChange | null;
+  greenScore: GreenScoreBreakdown | null;
+  hotspots: ReportHotspotStatus[];
+  hotspotLossThreshold: number;
+}
+
+export interface GreenCoverSnapshot {
+  wardData: WardLandCover[];
+  comparisonData: WardComparison[];
+  wardStats: WardStats[];
+}
+
+const toNumber = (value: string | number | null | undefined): number => {
+  if (value == null) return 0;
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+export async function fetchWardBoundaries(): Promise<WardBoundaryCollection> {
+  const response = await axios.get<WardBoundaryCollection>(`${API_BASE_URL}/api/ward-boundaries`);
+  return response.data;
+}
+
+export function getWardLabel(properties: WardBoundaryProperties): string {
+  return properties.prabhag_name
+    ? `Ward ${properties.ward_number} – ${properties.prabhag_name}`
+    : `Ward ${properties.ward_number}`;
+}
+
+export function getGeometryBounds(geometry: AreaGeometry): MapBounds {
+  const [west, south, east, north] = turf.bbox(geometry);
+  return [[west, south], [east, north]];
+}
+
+/**
+ * Wards whose boundary overlaps the geometry. Land-cover data only exists per
+ * ward, so a drawn area is described by the wards it touches.
+ */
+export function findOverlappingWards(geometry: AreaGeometry, boundaries: WardBoundaryCollection | null): number[] {
+  if (!boundaries) return [];
+  const area: Feature<AreaGeometry> = turf.feature(geometry);
+  return boundaries.features
+    .filter((ward) => ward.geometry && turf.booleanIntersects(ward, area))
+    .map((ward) => ward.properties.ward_number)
+    .sort((a, b) => a - b);
+}
+
+async function fetchPolygonStats(geometry: AreaGeometry): Promise<{ tree_count: number; co2_kg: number } | null> {
+  try {
+    const response = await axios.post(`${API_BASE_URL}/api/stats-in-polygon`, { polygon: geometry });
+    return {
+      tree_count: parseInt(response.data.tree_count, 10),
+      co2_kg: parseFloat(response.data.co2_kg),
+    };
+  } catch (error) {
+    console.error('Error fetching stats for report area:', error);
+    return null;
+  }
+}
+
+async function fetchSpeciesMix(geometry: AreaGeometry): Promise<{ rows: ReportSpeciesRow[]; other: number }> {
+  try {
+    const response = await axios.post<ChartDataResponse>(`${API_BASE_URL}/api/chart-data`, {
+      groupBy: 'species',
+      metric: 'count',
+      sortBy: 'value',
+      sortOrder: 'desc',
+      limit: SPECIES_MIX_LIMIT,
+      polygon: geometry,
+    });
+    const { data, total } = response.data;
+    const rows = data.map((point) => ({
+      name: point.name,
+      count: point.value,
+      share: total > 0 ? (point.value / total) * 100 : 0,
+    }));
+    const listed = rows.reduce((sum, row) => sum + row.count, 0);
+    return { rows, other: Math.max(0, total - listed) };
+  } catch (error) {
+    console.error('Error fetching species mix for report area:', error);
+    return { rows: [], other: 0 };
+  }
+}
+
+// Area-weighted land cover per year across the given wards
+function aggregateLandCover(wardNumbers: number[], wardData: WardLandCover[]): ReportLandCoverYear[] {
+  const wards = new Set(wardNumbers);
+  const byYear = new Map<number, { total: number; trees: number; built: number; grass: number; bare: number }>();
+
+  wardData
+    .filter((row) => wards.has(row.ward_number))
+    .forEach((row) => {
+      const total = toNumber(row.total_area_m2);
+      if (total <= 0) return;
+      const entry = byYear.get(row.year) ?? { total: 0, trees: 0, built: 0, grass: 0, bare: 0 };
+      entry.total += total;
+      entry.trees += (toNumber(row.trees_pct) / 100) * total;
+      entry.built += (toNumber(row.built_pct) / 100) * total;
+      entry.grass += (toNumber(row.grass_pct) / 100) * total;
+      entry.bare += (toNumber(row.bare_pct) / 100) * total;
+      byYear.set(row.year, entry);
+    });
+
+  return [...byYear.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([year, entry]) => ({
+      year,
+      treesPct: (entry.trees / entry.total) * 100,
+      builtPct: (entry.built / entry.total) * 100,
+      grassPct: (entry.grass / entry.total) * 100,
+      barePct: (entry.bare / entry.total) * 100,
+    }));
+}
+
+/**
+ * Assemble everything the report prints. Requests that fail leave their
+ * section empty rather than failing the whole report.
+ */
+export async function buildAreaReport(options: {
+  subject: ReportSubject;
+  boundaries: WardBoundaryCollection | null;
+  greenCover: GreenCoverSnapshot;
+  cityTreeCount: number | null;
+  hotspotLossThreshold: number;
+  greenScoreProfile: GreenScoreProfile;
+  captureMap?: (bounds: MapBounds) => Promise<string | null>;
+}): Promise<AreaReportData> {
+  const { subject, boundaries, greenCover, cityTreeCount, hotspotLossThreshold, greenScoreProfile, captureMap } = options;
+
+  const [stats, speciesMix, mapImage] = await Promise.all([
+    fetchPolygonStats(subject.geometry),
+    fetchSpeciesMix(subject.geometry),
+    captureMap ? captureMap(getGeometryBounds(subject.geometry)) : Promise.resolve(null),
+  ]);
+
+  const landCoverWards = subject.kind === 'ward'
+    ? [subject.wardNumber]
+    : findOverlappingWards(subject.geometry, boundaries);
+  const landCover = aggregateLandCover(landCoverWards, greenCover.wardData);
+
+  // Ward areas from the latest land-cover year, used for change % and tree density
+  const latestYear = landCover.length > 0 ? landCover[landCover.length - 1].year : null;
+  const wardAreaM2 = new Map(
+    greenCover.wardData
+      .filter((row) => row.year === latestYear && landCoverWards.includes(row.ward_number))
+      .map((row) => [row.ward_number, toNumber(row.total_area_m2)])
+  );
+  const totalAreaM2 = [...wardAreaM2.values()].reduce((sum, value) => sum + value, 0);
+
+  const comparisons = greenCover.comparisonData.filter((row) => landCoverWards.includes(row.ward_number));
+  let change: ReportLandCoverChange | null = null;
+  if (comparisons.length > 0 && totalAreaM2 > 0) {
+    const lostM2 = comparisons.reduce((sum, row) => sum + toNumber(row.trees_lost_m2), 0);
+    const gainedM2 = comparisons.reduce((sum, row) => sum + toNumber(row.trees_gained_m2), 0);
+    const builtM2 = comparisons.reduce((sum, row) => sum + toNumber(row.built_gained_m2), 0);
+    change = {
+      treesLostHa: lostM2 / 10000,
+      treesGainedHa: gainedM2 / 10000,
+      netChangeHa: (gainedM2 - lostM2) / 10000,
+      builtGainedHa: builtM2 / 10000,
+      netChangePct: ((gainedM2 - lostM2) / totalAreaM2) * 100,
+    };
+  }
+
+  let greenScore: GreenScoreBreakdown | null = null;
+  if (landCover.length > 0 && totalAreaM2 > 0) {
+    const latest = landCover[landCover.length - 1];
+    const censusTrees = greenCover.wardStats
+      .filter((row) => landCoverWards.includes(row.ward_number))
+      .reduce((sum, row) => sum + row.tree_count, 0);
+    greenScore = scoreGreenCover(
+      {
+        treesPct: latest.treesPct,
+        builtPct: latest.builtPct,
+        netChangePct: change?.netChangePct ?? null,
+        treeDensity: greenCover.wardStats.length > 0 ? censusTrees / (totalAreaM2 / 10000) : null,
+      },
+      greenScoreProfile
+    );
+  }
+
+  const hotspots: ReportHotspotStatus[] = comparisons
+    .filter((row) => (wardAreaM2.get(row.ward_number) ?? 0) > 0)
+    .map((row) => {
+      const netChangeM2 = toNumber(row.trees_gained_m2) - toNumber(row.trees_lost_m2);
+      const netChangePct = (netChangeM2 / (wardAreaM2.get(row.ward_number) ?? 1)) * 100;
+      return {
+        wardNumber: row.ward_number,
+        netChangePct,
+        isHotspot: netChangePct < -hotspotLossThreshold,
+        severity: getSeverityLevel(netChangePct),
+      };
+    })
+    .sort((a, b) => a.netChangePct - b.netChangePct);
+
+  return {
+    subject,
+    generatedAt: new Date(),
+    areaHa: turf.area(subject.geometry) / 10000,
+    mapImage,
+    treeCount: stats?.tree_count ?? null,
+    co2Kg: stats?.co2_kg ?? null,
+    cityTreeCount,
+    species: speciesMix.rows,
+    otherSpeciesCount: speciesMix.other,
+    landCoverWards,
+    landCover,
+    change,
+    greenScore,
+    hotspots,
+    hotspotLossThreshold,
+  };
+}
@@ -0,0 +1,242 @@
+// src/utils/coolingSurface.ts
+// Before/after land surface temperature for a simulated planting.
+//
+// Baseline temperatures come from the LST image. Each simulated tree cools the surface by its
+// archetype's cooling value under its mature canopy, fading exponentially with distance beyond
+// the canopy edge. Overlapping trees add up, but no spot is cooled by more than the strongest
+// tree covering it could manage on its own.
+
+import * as turf from '@turf/turf';
+import type { Feature, MultiPolygon, Polygon } from 'geojson';
+import type { ArchetypeData, Position, SimulatedTreeCooling } from '../store/TreeStore';
+import { LstRaster, sampleLst, turboColor } from './lstRaster';
+import { metersPerDegree } from './plantingLayout';
+
+export type CoolingScenario = 'p10' | 'mean' | 'p90';
+
+export const COOLING_SCENARIO_LABELS: Record<CoolingScenario, string> = {
+  p90: 'Hot day (P90)',
+  mean: 'Typical (mean)',
+  p10: 'Mild (P10)',
+};
+
+export const toTreeCooling = (archetype: ArchetypeData): SimulatedTreeCooling => ({
+  p10: archetype.p10_cooling_effect_celsius,
+  mean: archetype.mean_cooling_effect_celsius,
+  p90: archetype.p90_cooling_effect_celsius,
+  canopyDiameter: archetype.canopy_dia_m_max,
+});
+
+export interface CoolingSource {
+  position: Position;
+  cooling: SimulatedTreeCooling;
+}
+
+export interface CoolingSurface {
+  width: number;
+  height: number;
+  /** West, south, east, north of the grid */
+  bbox: [number, number, number, number];
+  before: Float32Array;
+  after: Float32Array;
+  /** 1 where the cell centre is inside the planting area */
+  inside: Uint8Array;
+  stats: CoolingStats;
+}
+
+export interface CoolingStats {
+  treeCount: number;
+  cellSizeM: number;
+  meanBefore: number;
+  meanAfter: number;
+  meanCooling: number;
+  maxCooling: number;
+  /** 90th percentile temperature inside the area: how hot the hot spots are */
+  hotSpotBefore: number;
+  hotSpotAfter: number;
+  /** Share of the area cooled by at least 1 °C */
+  shareCooled1C: number;
+}
+
+// Cooling falls to 1/e one canopy radius beyond the canopy edge, and is ignored more than this many radii beyond it
+const DECAY_CUTOFF_RADII = 5;
+const MAX_GRID_CELLS_PER_SIDE = 160;
+const MIN_CELL_SIZE_M = 2;
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length ? sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] : NaN;
+
+/** Null when the area lies outside the LST image */
+export function computeCoolingSurface(
+  area: Feature<Polygon | MultiPolygon>,
+  sources: CoolingSource[],
+  raster: LstRaster,
+  scenario: CoolingScenario
+): CoolingSurface | null {
+  const maxRadius = Math.max(0, ...sources.map((s) => s.cooling.canopyDiameter / 2));
+  const padM = maxRadius * (1 + DECAY_CUTOFF_RADII);
+
+  const [minX, minY, maxX, maxY] = turf.bbox(area);
+  const midLat = (minY + maxY) / 2;
+  const { lat: mPerLat, lon: mPerLon } = metersPerDegree(midLat);
+
+  // Grid over the area plus the reach of trees near its edge, in metres from the south-west corner
+  const west = minX - padM / mPerLon;
+  const south = minY - padM / mPerLat;
+  const widthM = (maxX - minX) * mPerLon + 2 * padM;
+  const heightM = (maxY - minY) * mPerLat + 2 * padM;
+  const cellSizeM = Math.max(MIN_CELL_SIZE_M, Math.max(widthM, heightM) / MAX_GRID_CELLS_PER_SIDE);
+  const width = Math.max(1, Math.ceil(widthM / cellSizeM));
+  const height = Math.max(1, Math.ceil(heightM / cellSizeM));
+  const bbox: CoolingSurface['bbox'] = [west, south, west + (width * cellSizeM) / mPerLon, south + (height * cellSizeM) / mPerLat];
+
+  const before = new Float32Array(width * height);
+  const inside = new Uint8Array(width * height);
+  const cellCenter = (col: number, row: number): Position => [
+    west + ((col + 0.5) * cellSizeM) / mPerLon,
+    bbox[3] - ((row + 0.5) * cellSizeM) / mPerLat,
+  ];
+
+  let sampled = 0;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const [lng, lat] = cellCenter(col, row);
+      const value = sampleLst(raster, lng, lat);
+      const i = row * width + col;
+      before[i] = value ?? NaN;
+      if (value !== null && turf.booleanPointInPolygon([lng, lat], area)) {
+        inside[i] = 1;
+        sampled++;
+      }
+    }
+  }
+  if (sampled === 0) return null;
+
+  // Summed cooling and the strongest single-tree cooling at each cell
+  const summed = new Float32Array(width * height);
+  const strongest = new Float32Array(width * height);
+  for (const { position, cooling } of sources) {
+    const peak = cooling[scenario];
+    const radius = Math.max(cooling.canopyDiameter / 2, 0.5);
+    if (peak <= 0) continue;
+    const tx = (position[0] - west) * mPerLon;
+    const ty = (bbox[3] - position[1]) * mPerLat;
+    const reach = radius * (1 + DECAY_CUTOFF_RADII);
+    const c0 = Math.max(0, Math.floor((tx - reach) / cellSizeM));
+    const c1 = Math.min(width - 1, Math.floor((tx + reach) / cellSizeM));
+    const r0 = Math.max(0, Math.floor((ty - reach) / cellSizeM));
+    const r1 = Math.min(height - 1, Math.floor((ty + reach) / cellSizeM));
+    for (let row = r0; row <= r1; row++) {
+      for (let col = c0; col <= c1; col++) {
+        const d = Math.hypot((col + 0.5) * cellSizeM - tx, (row + 0.5) * cellSizeM - ty);
+        if (d > reach) continue;
+        const effect = d <= radius ? peak : peak * Math.exp(-(d - radius) / radius);
+        const i = row * width + col;
+        summed[i] += effect;
+        if (peak > strongest[i]) strongest[i] = peak;
+      }
+    }
+  }
+
+  const after = new Float32Array(width * height);
+  const beforeInside: number[] = [];
+  const afterInside: number[] = [];
+  let coolingTotal = 0;
+  let maxCooling = 0;
+  let cooled1C = 0;
+  for (let i = 0; i < before.length; i++) {
+    const delta = Math.min(summed[i], strongest[i]);
+    after[i] = before[i] - delta;
+    if (!inside[i]) continue;
+    beforeInside.push(before[i]);
+    afterInside.push(after[i]);
+    coolingTotal += delta;
+    if (delta > maxCooling) maxCooling = delta;
+    if (delta >= 1) cooled1C++;
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  beforeInside.sort((a, b) => a - b);
+  afterInside.sort((a, b) => a - b);
+
+  return {
+    width,
+    height,
+    bbox,
+    before,
+    after,
+    inside,
+    stats: {
+      treeCount: sources.length,
+      cellSizeM,
+      meanBefore: mean(beforeInside),
+      meanAfter: mean(afterInside),
+      meanCooling: coolingTotal / sampled,
+      maxCooling,
+      hotSpotBefore: percentile(beforeInside, 0.9),
+      hotSpotAfter: percentile(afterInside, 0.9),
+      shareCooled1C: cooled1C / sampled,
+    },
+  };
+}
+
+export type SurfaceView = 'before' | 'after' | 'cooling';
+
+/** Value range for a view: temperatures share one range so before and after compare directly */
+export function getSurfaceRange(surface: CoolingSurface, view: SurfaceView): [number, number] {
+  if (view === 'cooling') return [0, Math.max(surface.stats.maxCooling, 0.1)];
+  let low = Infinity;
+  let high = -Infinity;
+  for (let i = 0; i < surface.inside.length; i++) {
+    if (!surface.inside[i]) continue;
+    low = Math.min(low, surface.after[i]);
+    high = Math.max(high, surface.before[i]);
+  }
+  return high - low < 0.5 ? [low - 0.25, high + 0.25] : [low, high];
+}
+
+// White to blue
+const coolingColor = (t: number): [number, number, number] => [
+  Math.round(255 - 225 * t),
+  Math.round(255 - 155 * t),
+  Math.round(255 - 75 * t),
+];
+
+/**
+ * PNG data URL of one view of the surface, coloured over `range`. Temperatures use the LST
+ * overlay's Turbo ramp. Cells outside the area are drawn faded when `includeSurroundings`
+ * is set and left transparent otherwise.
+ */
+export function renderSurface(
+  surface: CoolingSurface,
+  view: SurfaceView,
+  [low, high]: [number, number],
+  includeSurroundings = false
+): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = surface.width;
+  canvas.height = surface.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const image = ctx.createImageData(surface.width, surface.height);
+  const span = high - low || 1;
+
+  for (let i = 0; i < surface.before.length; i++) {
+    if (Number.isNaN(surface.before[i]) || (!surface.inside[i] && !includeSurroundings)) continue;
+    const value =
+      view === 'cooling' ? surface.before[i] - surface.after[i] : view === 'before' ? surface.before[i] : surface.after[i];
+    const t = Math.max(0, Math.min(1, (value - low) / span));
+    const rgb = view === 'cooling' ? coolingColor(t) : turboColor(t);
+    image.data.set([...rgb, surface.inside[i] ? 255 : 90], i * 4);
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+/** CSS gradient matching a view's colours, for legends */
+export const getSurfaceLegendGradient = (view: SurfaceView) => {
+  const color = view === 'cooling' ? coolingColor : turboColor;
+  const stops = [0, 0.25, 0.5, 0.75, 1].map((t) => `rgb(${color(t).join(',')})`);
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+};
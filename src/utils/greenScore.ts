@@ -0,0 +1,256 @@
+// src/utils/greenScore.ts
+// Green Score (0-100): tree cover, built-up share, 2019-2025 change and census tree density, each
+// normalised to a 0-100 sub-score and blended with a profile's weights.
+//
+// Factors with no data (e.g. census counts not loaded) are left out and the remaining weights
+// scaled up, so a missing input never reads as a zero.
+
+import type { WardComparison, WardLandCover } from '../store/GreenCoverStore';
+
+export type GreenScoreFactor = 'treeCover' | 'builtUp' | 'change' | 'treeDensity';
+
+export const GREEN_SCORE_FACTORS: GreenScoreFactor[] = ['treeCover', 'builtUp', 'change', 'treeDensity'];
+
+export const GREEN_SCORE_FACTOR_LABELS: Record<GreenScoreFactor, string> = {
+  treeCover: 'Tree cover',
+  builtUp: 'Built-up share',
+  change: 'Change since 2019',
+  treeDensity: 'Census tree density',
+};
+
+export interface GreenScoreNormalisation {
+  /** Tree cover (% of area) that scores 100 */
+  treeCoverPct: number;
+  /** Built-up share (% of area) that scores 0 */
+  builtUpPct: number;
+  /** Net tree-cover gain (% of area) that scores 100; the same loss scores 0 and no change 50 */
+  changePct: number;
+  /** Census trees per hectare that score 100 */
+  treeDensityPerHa: number;
+}
+
+export interface GreenScoreProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  /** Relative weights; each is divided by the total, so they need not add up to 100 */
+  weights: Record<GreenScoreFactor, number>;
+  normalisation: GreenScoreNormalisation;
+}
+
+export type NewGreenScoreProfile = Omit<GreenScoreProfile, 'id'>;
+
+export const DEFAULT_GREEN_SCORE_PROFILE: GreenScoreProfile = {
+  id: 'balanced',
+  name: 'Balanced (default)',
+  description: 'Tree cover first, then how built-up the ward is, its recent trend and census tree density.',
+  weights: { treeCover: 40, builtUp: 30, change: 20, treeDensity: 10 },
+  normalisation: { treeCoverPct: 25, builtUpPct: 90, changePct: 10, treeDensityPerHa: 300 },
+};
+
+export const BUILT_IN_GREEN_SCORE_PROFILES: GreenScoreProfile[] = [
+  DEFAULT_GREEN_SCORE_PROFILE,
+  {
+    id: 'land-cover',
+    name: 'Land cover only',
+    description: 'Current satellite land cover alone, ignoring the trend and the census.',
+    weights: { treeCover: 60, builtUp: 40, change: 0, treeDensity: 0 },
+    normalisation: DEFAULT_GREEN_SCORE_PROFILE.normalisation,
+  },
+];
+
+export const isBuiltInGreenScoreProfile = (id: string) =>
+  BUILT_IN_GREEN_SCORE_PROFILES.some((profile) => profile.id === id);
+
+/** Looks a profile up among the built-in and saved ones, falling back to the default */
+export function findGreenScoreProfile(saved: GreenScoreProfile[], id: string): GreenScoreProfile {
+  return [...BUILT_IN_GREEN_SCORE_PROFILES, ...saved].find((profile) => profile.id === id)
+    ?? DEFAULT_GREEN_SCORE_PROFILE;
+}
+
+export interface GreenScoreInputs {
+  treesPct: number;
+  builtPct: number;
+  /** Net tree-cover change since 2019, % of area; null when unknown */
+  netChangePct: number | null;
+  /** Census trees per hectare; null when unknown */
+  treeDensity: number | null;
+}
+
+export interface GreenScoreComponent {
+  factor: GreenScoreFactor;
+  /** Measured value in the factor's own unit; null when not available */
+  value: number | null;
+  subScore: number | null;
+  /** Share of the final score this factor carries (0-1), after unavailable factors are left out */
+  weight: number;
+  points: number;
+}
+
+export interface GreenScoreBreakdown {
+  score: number;
+  profileId: string;
+  profileName: string;
+  components: GreenScoreComponent[];
+}
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, value));
+
+function factorSubScore(factor: GreenScoreFactor, value: number, n: GreenScoreNormalisation): number {
+  switch (factor) {
+    case 'treeCover':
+      return clampScore((value / n.treeCoverPct) * 100);
+    case 'builtUp':
+      return clampScore(100 - (value / n.builtUpPct) * 100);
+    case 'change':
+      return clampScore(50 + (value / n.changePct) * 50);
+    case 'treeDensity':
+      return clampScore((value / n.treeDensityPerHa) * 100);
+  }
+}
+
+const factorValue = (factor: GreenScoreFactor, inputs: GreenScoreInputs): number | null => {
+  switch (factor) {
+    case 'treeCover': return inputs.treesPct;
+    case 'builtUp': return inputs.builtPct;
+    case 'change': return inputs.netChangePct;
+    case 'treeDensity': return inputs.treeDensity;
+  }
+};
+
+/** The score and how each factor contributed to it */
+export function scoreGreenCover(inputs: GreenScoreInputs, profile: GreenScoreProfile): GreenScoreBreakdown {
+  const measured = GREEN_SCORE_FACTORS.map((factor) => {
+    const value = factorValue(factor, inputs);
+    const available = value != null && Number.isFinite(value);
+    return {
+      factor,
+      value: available ? value : null,
+      subScore: available ? factorSubScore(factor, value, profile.normalisation) : null,
+      rawWeight: Math.max(0, profile.weights[factor] || 0),
+    };
+  });
+
+  const totalWeight = measured.reduce((sum, m) => sum + (m.subScore != null ? m.rawWeight : 0), 0);
+  const components = measured.map(({ factor, value, subScore, rawWeight }) => {
+    const weight = subScore != null && totalWeight > 0 ? rawWeight / totalWeight : 0;
+    return { factor, value, subScore, weight, points: subScore != null ? subScore * weight : 0 };
+  });
+
+  return {
+    score: Math.round(clampScore(components.reduce((sum, c) => sum + c.points, 0))),
+    profileId: profile.id,
+    profileName: profile.name,
+    components,
+  };
+}
+
+export const calculateGreenScore = (inputs: GreenScoreInputs, profile: GreenScoreProfile): number =>
+  scoreGreenCover(inputs, profile).score;
+
+const toNumber = (value: string | number | null | undefined): number | null => {
+  if (value == null) return null;
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Score inputs for one ward from the land-cover API rows. Pass a census count of null when the
+ * census figures are not loaded; a ward missing from loaded figures has no census trees.
+ */
+export function wardGreenScoreInputs(
+  landCover: Pick<WardLandCover, 'trees_pct' | 'built_pct' | 'total_area_m2'>,
+  comparison: Pick<WardComparison, 'net_tree_change_m2'> | null | undefined,
+  censusTreeCount: number | null
+): GreenScoreInputs {
+  const areaHa = (toNumber(landCover.total_area_m2) ?? 0) / 10000;
+  const netChangeM2 = comparison ? toNumber(comparison.net_tree_change_m2) : null;
+  return {
+    treesPct: toNumber(landCover.trees_pct) ?? 0,
+    builtPct: toNumber(landCover.built_pct) ?? 0,
+    netChangePct: netChangeM2 != null && areaHa > 0 ? (netChangeM2 / 10000 / areaHa) * 100 : null,
+    treeDensity: censusTreeCount != null && areaHa > 0 ? censusTreeCount / areaHa : null,
+  };
+}
+
+// --- Presentation ---
+
+export function formatFactorValue(factor: GreenScoreFactor, value: number): string {
+  switch (factor) {
+    case 'change':
+      return `${value > 0 ? '+' : ''}${value.toFixed(2)}% of area`;
+    case 'treeDensity':
+      return `${Math.round(value).toLocaleString()} trees/ha`;
+    default:
+      return `${value.toFixed(1)}%`;
+  }
+}
+
+/** How a factor's value is turned into its 0-100 sub-score under a profile */
+export function describeNormalisation(factor: GreenScoreFactor, n: GreenScoreNormalisation): string {
+  switch (factor) {
+    case 'treeCover':
+      return `0% scores 0, ${n.treeCoverPct}% or more scores 100`;
+    case 'builtUp':
+      return `0% scores 100, ${n.builtUpPct}% or more scores 0`;
+    case 'change':
+      return `No change scores 50; +${n.changePct}% of area scores 100, −${n.changePct}% scores 0`;
+    case 'treeDensity':
+      return `0 scores 0, ${n.treeDensityPerHa} trees/ha or more scores 100`;
+  }
+}
+
+export function getScoreColor(score: number): string {
+  if (score >= 70) return '#22c55e'; // Green - Good
+  if (score >= 50) return '#eab308'; // Yellow - Moderate
+  if (score >= 30) return '#f97316'; // Orange - At Risk
+  return '#ef4444'; // Red - Critical
+}
+
+export function getScoreLabel(score: number): string {
+  if (score >= 70) return 'Good';
+  if (score >= 50) return 'Moderate';
+  if (score >= 30) return 'At Risk';
+  return 'Critical';
+}
+
+export function getScoreEmoji(score: number): string {
+  if (score >= 70) return '🌳';
+  if (score >= 50) return '🌿';
+  if (score >= 30) return '⚠️';
+  return '🚨';
+}
+
+// --- Validation (imported files) ---
+
+const NORMALISATION_KEYS: (keyof GreenScoreNormalisation)[] = ['treeCoverPct', 'builtUpPct', 'changePct', 'treeDensityPerHa'];
+
+/** A profile read from an imported file, or null when it is not usable */
+export function sanitizeGreenScoreProfile(raw: unknown): NewGreenScoreProfile | null {
+  const candidate = raw as Partial<Record<keyof GreenScoreProfile, unknown>> | null;
+  if (!candidate || typeof candidate.name !== 'string' || !candidate.name.trim()) return null;
+  const rawWeights = (candidate.weights ?? {}) as Record<string, unknown>;
+  const rawNormalisation = (candidate.normalisation ?? {}) as Record<string, unknown>;
+
+  const weights = {} as GreenScoreProfile['weights'];
+  for (const factor of GREEN_SCORE_FACTORS) {
+    const value = rawWeights[factor];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null;
+    weights[factor] = value;
+  }
+  if (GREEN_SCORE_FACTORS.every((factor) => weights[factor] === 0)) return null;
+
+  const normalisation = {} as GreenScoreNormalisation;
+  for (const key of NORMALISATION_KEYS) {
+    const value = rawNormalisation[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return null;
+    normalisation[key] = value;
+  }
+
+  return {
+    name: candidate.name.trim(),
+    description: typeof candidate.description === 'string' ? candidate.description : null,
+    weights,
+    normalisation,
+  };
+}
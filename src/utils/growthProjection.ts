@@ -0,0 +1,28 @@
+// src/utils/growthProjection.ts
+// Requests growth and CO₂ uptake projections from the server's allometric model
+
+import axios from 'axios';
+import type { ProjectionResponse, ProjectionTreeInput } from '../types/projections';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+export const PROJECTION_MAX_YEARS = 50;
+
+export async function fetchGrowthProjections(
+  trees: ProjectionTreeInput[],
+  options: { years?: number; step?: number } = {}
+): Promise<ProjectionResponse> {
+  const response = await axios.post<ProjectionResponse>(`${API_BASE_URL}/api/projections`, {
+    trees,
+    years: options.years ?? PROJECTION_MAX_YEARS,
+    step: options.step ?? 5,
+  });
+  return response.data;
+}
+
+
+/** CO₂ in kg, switching to tonnes once it reaches one */
+export const formatCo2 = (kg: number) =>
+  kg >= 1000
+    ? `${(kg / 1000).toLocaleString('en-IN', { maximumFractionDigits: 1 })} t`
+    : `${kg.toLocaleString('en-IN', { maximumFractionDigits: 0 })} kg`;
@@ -0,0 +1,110 @@
+// src/utils/lstRaster.ts
+// Land surface temperature read back from the colour-mapped LST overlay image
+
+/** Georeference of public/lst_pune.png (west, south, east, north) */
+export const LST_IMAGE_URL = './lst_pune.png';
+export const LST_IMAGE_BBOX: [number, number, number, number] = [73.7606651, 18.41668612, 73.96308303, 18.62786903];
+
+/** Temperatures (°C) at the two ends of the image's colour ramp */
+export const LST_MIN_C = 22.5;
+export const LST_MAX_C = 43.0;
+
+/** Corner coordinates in the order MapLibre image sources expect (NW, NE, SE, SW) */
+export const LST_IMAGE_COORDINATES: [[number, number], [number, number], [number, number], [number, number]] = [
+  [LST_IMAGE_BBOX[0], LST_IMAGE_BBOX[3]], [LST_IMAGE_BBOX[2], LST_IMAGE_BBOX[3]],
+  [LST_IMAGE_BBOX[2], LST_IMAGE_BBOX[1]], [LST_IMAGE_BBOX[0], LST_IMAGE_BBOX[1]],
+];
+
+// Polynomial fit of Google's Turbo colormap, t in [0, 1]
+export function turboColor(t: number): [number, number, number] {
+  const x = Math.max(0, Math.min(1, t));
+  const r = 0.13572138 + x * (4.6153926 + x * (-42.66032258 + x * (132.13108234 + x * (-152.94239396 + x * 59.28637943))));
+  const g = 0.09140261 + x * (2.19418839 + x * (4.84296658 + x * (-14.18503333 + x * (4.27729857 + x * 2.82956604))));
+  const b = 0.1066733 + x * (12.64194608 + x * (-60.58204836 + x * (110.36276771 + x * (-89.90310912 + x * 27.34824973))));
+  return [r, g, b].map((v) => Math.round(255 * Math.max(0, Math.min(1, v)))) as [number, number, number];
+}
+
+export interface LstRaster {
+  width: number;
+  height: number;
+  /** Row-major temperatures in °C, north row first */
+  values: Float32Array;
+}
+
+const RAMP_STEPS = 256;
+
+// The image has one colour per ramp step, so each distinct colour is matched to the
+// nearest Turbo step once; the fit is within about two steps (~0.2 °C)
+function decodeTemperatures(pixels: Uint8ClampedArray): Float32Array {
+  const ramp = Array.from({ length: RAMP_STEPS }, (_, i) => turboColor(i / (RAMP_STEPS - 1)));
+  const lookup = new Map<number, number>();
+  const values = new Float32Array(pixels.length / 4);
+
+  for (let i = 0; i < values.length; i++) {
+    const r = pixels[i * 4];
+    const g = pixels[i * 4 + 1];
+    const b = pixels[i * 4 + 2];
+    const key = (r << 16) | (g << 8) | b;
+    let step = lookup.get(key);
+    if (step === undefined) {
+      let bestDistance = Infinity;
+      step = 0;
+      ramp.forEach(([rr, rg, rb], index) => {
+        const distance = (rr - r) ** 2 + (rg - g) ** 2 + (rb - b) ** 2;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          step = index;
+        }
+      });
+      lookup.set(key, step);
+    }
+    values[i] = LST_MIN_C + (step / (RAMP_STEPS - 1)) * (LST_MAX_C - LST_MIN_C);
+  }
+  return values;
+}
+
+let rasterPromise: Promise<LstRaster> | null = null;
+
+export function loadLstRaster(): Promise<LstRaster> {
+  if (!rasterPromise) {
+    rasterPromise = new Promise<LstRaster>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = image.naturalWidth;
+        canvas.height = image.naturalHeight;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return reject(new Error('Canvas 2D context is not available'));
+        ctx.drawImage(image, 0, 0);
+        const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        resolve({ width: canvas.width, height: canvas.height, values: decodeTemperatures(data) });
+      };
+      image.onerror = () => reject(new Error(`Could not load ${LST_IMAGE_URL}`));
+      image.src = LST_IMAGE_URL;
+    });
+    // Let a failed load be retried next time
+    rasterPromise.catch(() => { rasterPromise = null; });
+  }
+  return rasterPromise;
+}
+
+/** Bilinear LST at a coordinate, or null outside the image */
+export function sampleLst(raster: LstRaster, lng: number, lat: number): number | null {
+  const [west, south, east, north] = LST_IMAGE_BBOX;
+  if (lng < west || lng > east || lat < south || lat > north) return null;
+
+  // Pixel-centre coordinates
+  const fx = Math.max(0, Math.min(raster.width - 1, ((lng - west) / (east - west)) * raster.width - 0.5));
+  const fy = Math.max(0, Math.min(raster.height - 1, ((north - lat) / (north - south)) * raster.height - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(raster.width - 1, x0 + 1);
+  const y1 = Math.min(raster.height - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const at = (x: number, y: number) => raster.values[y * raster.width + x];
+
+  const top = at(x0, y0) * (1 - tx) + at(x1, y0) * tx;
+  const bottom = at(x0, y1) * (1 - tx) + at(x1, y1) * tx;
+  return top * (1 - ty) + bottom * ty;
+}
@@ -0,0 +1,71 @@
+// src/utils/mapSnapshot.ts
+// Capture the current map view as a PNG data URL (used by the area report)
+
+import type maplibregl from 'maplibre-gl';
+
+export type MapBounds = [[number, number], [number, number]];
+
+/** Captures the map, optionally fitted to `bounds` first; resolves null if the canvas can't be read */
+export type MapSnapshotFn = (bounds?: MapBounds) => Promise<string | null>;
+
+const IDLE_TIMEOUT_MS = 8000;
+
+// Resolve once the map has finished loading tiles, or after the timeout so a
+// slow tile server never blocks the report
+function waitForIdle(map: maplibregl.Map, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timer);
+      map.off('idle', done);
+      resolve();
+    }
+    map.on('idle', done);
+    map.triggerRepaint();
+  });
+}
+
+// The WebGL drawing buffer is cleared after each frame, so the canvas must be
+// read inside a render callback rather than at an arbitrary time
+function readCanvasOnNextRender(map: maplibregl.Map): Promise<string | null> {
+  return new Promise((resolve) => {
+    map.once('render', () => {
+      try {
+        resolve(map.getCanvas().toDataURL('image/png'));
+      } catch (error) {
+        console.warn('Map snapshot failed:', error);
+        resolve(null);
+      }
+    });
+    map.triggerRepaint();
+  });
+}
+
+/**
+ * Snapshot the map. When bounds are given the camera is fitted to them for the
+ * capture and restored afterwards, so the user's view is left untouched.
+ */
+export async function captureMapSnapshot(
+  map: maplibregl.Map,
+  bounds?: MapBounds,
+  padding = 40
+): Promise<string | null> {
+  const camera = {
+    center: map.getCenter(),
+    zoom: map.getZoom(),
+    bearing: map.getBearing(),
+    pitch: map.getPitch(),
+  };
+
+  try {
+    if (bounds) {
+      map.fitBounds(bounds, { padding, duration: 0, bearing: 0, pitch: 0 });
+    }
+    await waitForIdle(map, IDLE_TIMEOUT_MS);
+    return await readCanvasOnNextRender(map);
+  } finally {
+    if (bounds) {
+      map.jumpTo(camera);
+    }
+  }
+}
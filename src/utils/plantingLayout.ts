@@ -0,0 +1,337 @@
+// src/utils/plantingLayout.ts
+// Hexagonal packing of planting positions inside a drawn area, and removal of positions
+// that clash with existing trees, buildings or roads
+
+import axios from 'axios';
+import * as turf from '@turf/turf';
+import type { BBox, Feature, FeatureCollection, LineString, MultiLineString, Point, Polygon, MultiPolygon } from 'geojson';
+import type { Map as MaplibreMap } from 'maplibre-gl';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+type Position = [number, number];
+type AreaFeature = Feature<Polygon | MultiPolygon>;
+
+// Local metres-per-degree, accurate enough for site-scale distances
+export const metersPerDegree = (lat: number) => ({
+  lat: 111132.954 - 559.822 * Math.cos(2 * lat * (Math.PI/180)) + 1.175 * Math.cos(4 * lat * (Math.PI/180)),
+  lon: (Math.PI/180) * 6378137 * Math.cos(lat * Math.PI/180),
+});
+
+export const generateTreeCentersJS = (
+  polygonFeature: Feature<Polygon | MultiPolygon>,
+  canopyDiameterMeters: number,
+  boundaryBufferMeters: number,
+  treeSpacingBufferMeters: number
+): [number, number][] => {
+  if (!polygonFeature || !polygonFeature.geometry) return [];
+  const canopyRadiusMeters = canopyDiameterMeters / 2.0;
+  const effectiveRadiusMeters = canopyRadiusMeters + treeSpacingBufferMeters;
+  const totalInsetMeters = boundaryBufferMeters + effectiveRadiusMeters;
+  if (canopyDiameterMeters <= 0 || effectiveRadiusMeters <=0) return [];
+  let plantingZone: Feature<Polygon | MultiPolygon> | null | undefined = null;
+  try {
+    plantingZone = turf.buffer(polygonFeature, -Math.abs(totalInsetMeters), { units: 'meters' });
+  } catch { return []; }
+  if (!plantingZone || !plantingZone.geometry || turf.area(plantingZone) === 0) return [];
+  const dxMeters = 2 * effectiveRadiusMeters;
+  const dyMeters = Math.sqrt(3) * effectiveRadiusMeters;
+  if (dxMeters <= 1e-6 || dyMeters <= 1e-6) return [];
+  const plantingZoneBounds = turf.bbox(plantingZone);
+  const treeCenters: [number, number][] = [];
+  const avgLat = (plantingZoneBounds[1] + plantingZoneBounds[3]) / 2;
+  const scale = metersPerDegree(avgLat);
+  const dxDeg = dxMeters / scale.lon;
+  const dyDeg = dyMeters / scale.lat;
+  if (!isFinite(dxDeg) || !isFinite(dyDeg) || dxDeg <= 1e-9 || dyDeg <= 1e-9 ) return [];
+  let row = 0;
+  for (let y = plantingZoneBounds[1]; y <= plantingZoneBounds[3]; y += dyDeg) {
+    const xOffsetInDegrees = (row % 2 === 0) ? 0 : (0.5 * dxDeg);
+    for (let x = plantingZoneBounds[0] + xOffsetInDegrees; x <= plantingZoneBounds[2]; x += dxDeg) {
+      if (turf.booleanPointInPolygon([x, y], plantingZone)) treeCenters.push([x, y]);
+    }
+    row++;
+  }
+  return treeCenters;
+};
+
+// --- Site exclusion ---
+
+export type SiteExclusionReason = 'building' | 'tree' | 'road';
+
+/** Minimum distance (m) from each kind of obstacle; a reason left out is not checked */
+export type SiteClearances = Partial<Record<SiteExclusionReason, number>>;
+
+export interface SiteObstacles {
+  trees: Position[];
+  buildings: AreaFeature[];
+  roads: Feature<LineString | MultiLineString>[];
+  /** Obstacle kinds that were requested but could not be loaded */
+  unavailable: SiteExclusionReason[];
+  /** True when the tree lookup hit its row limit, so some trees may be missing */
+  treesTruncated: boolean;
+}
+
+export interface SiteExclusionResult {
+  kept: Position[];
+  rejected: Record<SiteExclusionReason, number>;
+  /** Obstacle kinds that were enabled */
+  checked: SiteExclusionReason[];
+  unavailable: SiteExclusionReason[];
+  treesTruncated: boolean;
+  buildingCount: number;
+}
+
+/** Reads building footprints for a bbox; null when the map or its building layer isn't available */
+export type BuildingFootprintFn = (bbox: BBox) => AreaFeature[] | null;
+
+export const SITE_EXCLUSION_LABELS: Record<SiteExclusionReason, string> = {
+  building: 'on or next to buildings',
+  tree: 'near existing trees',
+  road: 'near roads',
+};
+
+/** UI settings for each obstacle kind */
+export type SiteExclusionSettings = Record<SiteExclusionReason, { enabled: boolean; clearance: number }>;
+
+export const DEFAULT_SITE_EXCLUSIONS: SiteExclusionSettings = {
+  building: { enabled: true, clearance: 3 },
+  tree: { enabled: true, clearance: 4 },
+  road: { enabled: true, clearance: 5 },
+};
+
+export const toSiteClearances = (settings: SiteExclusionSettings): SiteClearances =>
+  Object.fromEntries(
+    Object.entries(settings)
+      .filter(([, setting]) => setting.enabled && setting.clearance >= 0)
+      .map(([reason, setting]) => [reason, setting.clearance])
+  );
+
+export interface PlantingSites {
+  spots: Position[];
+  /** Positions packed into the area before exclusion */
+  candidateCount: number;
+  /** Null when no exclusions were enabled */
+  exclusion: SiteExclusionResult | null;
+}
+
+const MAX_OBSTACLE_TREES = 20000;
+
+// Same vector source and layer as the 3D buildings layer in MapView
+const BUILDING_SOURCE = 'maptiler';
+const BUILDING_SOURCE_LAYER = 'building';
+
+// Only tiles the map has loaded are searched, so the area should be in view
+export function queryBuildingFootprints(map: MaplibreMap, bbox: BBox): AreaFeature[] | null {
+  if (!map.getSource(BUILDING_SOURCE)) return null;
+  const [minX, minY, maxX, maxY] = bbox;
+  return map
+    .querySourceFeatures(BUILDING_SOURCE, { sourceLayer: BUILDING_SOURCE_LAYER })
+    .filter((f) => f.geometry.type === 'Polygon' || f.geometry.type === 'MultiPolygon')
+    .map((f): AreaFeature => ({ type: 'Feature', properties: {}, geometry: f.geometry as Polygon | MultiPolygon }))
+    .filter((f) => {
+      const [fMinX, fMinY, fMaxX, fMaxY] = turf.bbox(f);
+      return fMinX <= maxX && fMaxX >= minX && fMinY <= maxY && fMaxY >= minY;
+    });
+}
+
+/** Loads the obstacles around an area; failures are reported in `unavailable` rather than thrown */
+export async function fetchSiteObstacles(
+  area: AreaFeature,
+  clearances: SiteClearances,
+  queryBuildings?: BuildingFootprintFn
+): Promise<SiteObstacles> {
+  // Pad the search box so obstacles just outside the boundary still count
+  const [minX, minY, maxX, maxY] = turf.bbox(area);
+  const pad = Math.max(0, ...Object.values(clearances).map((c) => c ?? 0)) + 10;
+  const scale = metersPerDegree((minY + maxY) / 2);
+  const bbox: BBox = [minX - pad / scale.lon, minY - pad / scale.lat, maxX + pad / scale.lon, maxY + pad / scale.lat];
+  const bounds = { sw: [bbox[0], bbox[1]], ne: [bbox[2], bbox[3]] };
+
+  const obstacles: SiteObstacles = { trees: [], buildings: [], roads: [], unavailable: [], treesTruncated: false };
+
+  const loadTrees = async () => {
+    try {
+      const response = await axios.post<FeatureCollection<Point>>(`${API_BASE_URL}/api/trees-in-bounds`, {
+        bounds,
+        limit: MAX_OBSTACLE_TREES,
+      });
+      const features = response.data.features ?? [];
+      obstacles.trees = features.map((f) => f.geometry.coordinates as Position);
+      obstacles.treesTruncated = features.length >= MAX_OBSTACLE_TREES;
+    } catch (error) {
+      console.error('[plantingLayout] Error loading existing trees:', error);
+      obstacles.unavailable.push('tree');
+    }
+  };
+
+  const loadRoads = async () => {
+    try {
+      const response = await axios.post<FeatureCollection<LineString | MultiLineString>>(
+        `${API_BASE_URL}/api/roads-in-bounds`,
+        { bounds }
+      );
+      obstacles.roads = response.data.features ?? [];
+    } catch (error) {
+      console.error('[plantingLayout] Error loading roads:', error);
+      obstacles.unavailable.push('road');
+    }
+  };
+
+  await Promise.all([
+    clearances.tree !== undefined ? loadTrees() : null,
+    clearances.road !== undefined ? loadRoads() : null,
+  ]);
+
+  if (clearances.building !== undefined) {
+    const buildings = queryBuildings?.(bbox) ?? null;
+    if (buildings) obstacles.buildings = buildings;
+    else obstacles.unavailable.push('building');
+  }
+
+  return obstacles;
+}
+
+// Planar coordinates in metres around the site
+type XY = [number, number];
+
+const distanceToSegment = ([px, py]: XY, [ax, ay]: XY, [bx, by]: XY) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// Even-odd rule across all rings, so holes (courtyards) are outside
+const insideRings = ([px, py]: XY, rings: XY[][]) => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Uniform grid so each spot is only tested against nearby obstacles
+function buildGrid<T>(entries: { item: T; points: XY[] }[], pad: number) {
+  const size = Math.max(25, pad * 2);
+  const cells = new Map<string, T[]>();
+  for (const { item, points } of entries) {
+    const xs = points.map((p) => p[0]);
+    const ys = points.map((p) => p[1]);
+    for (let cx = Math.floor((Math.min(...xs) - pad) / size); cx <= Math.floor((Math.max(...xs) + pad) / size); cx++) {
+      for (let cy = Math.floor((Math.min(...ys) - pad) / size); cy <= Math.floor((Math.max(...ys) + pad) / size); cy++) {
+        const key = `${cx}:${cy}`;
+        const cell = cells.get(key);
+        if (cell) cell.push(item);
+        else cells.set(key, [item]);
+      }
+    }
+  }
+  return ([x, y]: XY) => cells.get(`${Math.floor(x / size)}:${Math.floor(y / size)}`) ?? [];
+}
+
+/**
+ * Drops planting spots closer than the clearance to an obstacle. Each rejected spot is
+ * counted once, under the first reason that applies (buildings, then trees, then roads).
+ */
+export function excludeObstructedSpots(
+  spots: Position[],
+  obstacles: SiteObstacles,
+  clearances: SiteClearances
+): SiteExclusionResult {
+  const rejected: Record<SiteExclusionReason, number> = { building: 0, tree: 0, road: 0 };
+  const result = {
+    rejected,
+    checked: Object.keys(clearances) as SiteExclusionReason[],
+    unavailable: obstacles.unavailable,
+    treesTruncated: obstacles.treesTruncated,
+    buildingCount: obstacles.buildings.length,
+  };
+  if (spots.length === 0) return { kept: [], ...result };
+
+  const scale = metersPerDegree(spots[0][1]);
+  const project = ([lon, lat]: number[]): XY => [lon * scale.lon, lat * scale.lat];
+
+  const checks: { reason: SiteExclusionReason; test: (p: XY) => boolean }[] = [];
+
+  if (clearances.building !== undefined && obstacles.buildings.length > 0) {
+    const clearance = clearances.building;
+    const polygons = obstacles.buildings.flatMap((f) =>
+      f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates
+    );
+    const lookup = buildGrid(
+      polygons.map((rings) => {
+        const projected = rings.map((ring) => ring.map(project));
+        return { item: projected, points: projected[0] };
+      }),
+      clearance
+    );
+    checks.push({
+      reason: 'building',
+      test: (p) =>
+        lookup(p).some(
+          (rings) =>
+            insideRings(p, rings) ||
+            rings.some((ring) => ring.some((a, i) => i > 0 && distanceToSegment(p, ring[i - 1], a) < clearance))
+        ),
+    });
+  }
+
+  if (clearances.tree !== undefined && obstacles.trees.length > 0) {
+    const clearance = clearances.tree;
+    const lookup = buildGrid(obstacles.trees.map((t) => { const xy = project(t); return { item: xy, points: [xy] }; }), clearance);
+    checks.push({
+      reason: 'tree',
+      test: (p) => lookup(p).some(([x, y]) => Math.hypot(p[0] - x, p[1] - y) < clearance),
+    });
+  }
+
+  if (clearances.road !== undefined && obstacles.roads.length > 0) {
+    const clearance = clearances.road;
+    const lines = obstacles.roads.flatMap((f) =>
+      f.geometry.type === 'LineString' ? [f.geometry.coordinates] : f.geometry.coordinates
+    );
+    const segments = lines.flatMap((line) => {
+      const projected = line.map(project);
+      return projected.slice(1).map((b, i) => [projected[i], b] as [XY, XY]);
+    });
+    const lookup = buildGrid(segments.map((segment) => ({ item: segment, points: segment })), clearance);
+    checks.push({
+      reason: 'road',
+      test: (p) => lookup(p).some(([a, b]) => distanceToSegment(p, a, b) < clearance),
+    });
+  }
+
+  const kept = spots.filter((spot) => {
+    const p = project(spot);
+    const clash = checks.find((check) => check.test(p));
+    if (clash) rejected[clash.reason]++;
+    return !clash;
+  });
+
+  return { kept, ...result };
+}
+
+/** Packs positions into the area, then removes those that clash with enabled obstacle kinds */
+export async function planPlantingSites(
+  area: AreaFeature,
+  canopyDiameterMeters: number,
+  boundaryBufferMeters: number,
+  treeSpacingBufferMeters: number,
+  exclusions: SiteExclusionSettings,
+  queryBuildings?: BuildingFootprintFn
+): Promise<PlantingSites> {
+  const candidates = generateTreeCentersJS(area, canopyDiameterMeters, boundaryBufferMeters, treeSpacingBufferMeters);
+  const clearances = toSiteClearances(exclusions);
+  if (candidates.length === 0 || Object.keys(clearances).length === 0) {
+    return { spots: candidates, candidateCount: candidates.length, exclusion: null };
+  }
+  const obstacles = await fetchSiteObstacles(area, clearances, queryBuildings);
+  const exclusion = excludeObstructedSpots(candidates, obstacles, clearances);
+  return { spots: exclusion.kept, candidateCount: candidates.length, exclusion };
+}
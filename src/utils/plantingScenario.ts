@@ -0,0 +1,170 @@
+// src/utils/plantingScenario.ts
+// Saved Planting Advisor runs: what goes where, its projected CO₂ and cooling, and exports for contractors
+
+import * as turf from '@turf/turf';
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import type { ArchetypeData, Position, SimulatedTreeCooling } from '../store/TreeStore';
+import type { AreaGeometry } from '../store/AreaWorkspaceStore';
+import type { SiteExclusionSettings } from './plantingLayout';
+import type { SpeciesMixConstraints } from './speciesMix';
+import { CoolingStats, computeCoolingSurface, toTreeCooling } from './coolingSurface';
+import { loadLstRaster } from './lstRaster';
+import { fetchGrowthProjections } from './growthProjection';
+
+export const SCENARIO_CO2_YEARS = [10, 20, 30, 50];
+
+/** One species in a scenario and where it is planted */
+export interface ScenarioPlanting {
+  commonName: string;
+  botanicalName: string;
+  archetypeName: string;
+  cooling: SimulatedTreeCooling;
+  points: Position[];
+}
+
+export interface ScenarioParameters {
+  mode: 'single' | 'mix';
+  /** Canopy used to space the planting grid (the slot size for a mix) */
+  canopyDiameter: number;
+  boundaryBuffer: number;
+  spacing: number;
+  exclusions: SiteExclusionSettings;
+  mix: Omit<SpeciesMixConstraints, 'maxCanopyDiameter'> | null;
+}
+
+export interface ScenarioSummary {
+  treeCount: number;
+  speciesCount: number;
+  areaHa: number;
+  /** CO₂ the whole planting has absorbed since planting, by year; null when the projection could not be loaded */
+  co2Projection: { years: number[]; absorbedKg: number[] } | null;
+  /** P90 cooling surface stats; null when the area is outside the LST image or it could not be loaded */
+  cooling: CoolingStats | null;
+}
+
+export interface PlantingScenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  area: AreaGeometry;
+  parameters: ScenarioParameters;
+  plantings: ScenarioPlanting[];
+  summary: ScenarioSummary;
+}
+
+export type NewPlantingScenario = Omit<PlantingScenario, 'id' | 'createdAt'>;
+
+/** The simulation currently on the map, before it is named and saved */
+export type ScenarioRun = Pick<PlantingScenario, 'parameters' | 'plantings'>;
+
+export const toScenarioPlanting = (archetype: ArchetypeData, points: Position[]): ScenarioPlanting => ({
+  commonName: archetype.common_name,
+  botanicalName: archetype.botanical_name,
+  archetypeName: archetype.archetype_name,
+  cooling: toTreeCooling(archetype),
+  points,
+});
+
+/** Works out the summary figures for a run so it can be saved */
+export async function buildPlantingScenario(
+  name: string,
+  area: AreaGeometry,
+  parameters: ScenarioParameters,
+  plantings: ScenarioPlanting[]
+): Promise<NewPlantingScenario> {
+  const feature: Feature<AreaGeometry> = { type: 'Feature', properties: {}, geometry: area };
+  const sources = plantings.flatMap((p) => p.points.map((position) => ({ position, cooling: p.cooling })));
+
+  const planted = plantings.filter((p) => p.points.length > 0);
+
+  let cooling: CoolingStats | null = null;
+  let co2Projection: ScenarioSummary['co2Projection'] = null;
+  if (sources.length > 0) {
+    try {
+      const raster = await loadLstRaster();
+      cooling = computeCoolingSurface(feature, sources, raster, 'p90')?.stats ?? null;
+    } catch (error) {
+      console.error('[plantingScenario] Error computing cooling:', error);
+    }
+    try {
+      const projection = await fetchGrowthProjections(
+        planted.map((p) => ({ common_name: p.commonName, count: p.points.length }))
+      );
+      co2Projection = { years: projection.years, absorbedKg: projection.total_co2_absorbed_kg };
+    } catch (error) {
+      console.error('[plantingScenario] Error projecting CO₂:', error);
+    }
+  }
+
+  return {
+    name,
+    area,
+    parameters,
+    plantings,
+    summary: {
+      treeCount: sources.length,
+      speciesCount: planted.length,
+      areaHa: turf.area(feature) / 10000,
+      co2Projection,
+      cooling,
+    },
+  };
+}
+
+// --- Exports ---
+
+// ~1 cm, plenty for setting out on site
+const round = (value: number) => Math.round(value * 1e7) / 1e7;
+
+interface ScenarioTreeRow {
+  id: string;
+  planting: ScenarioPlanting;
+  position: Position;
+}
+
+// Trees numbered T0001, T0002… in planting order, so the GeoJSON and CSV agree
+function scenarioTrees(scenario: PlantingScenario): ScenarioTreeRow[] {
+  const rows: ScenarioTreeRow[] = [];
+  const width = Math.max(4, String(scenario.summary.treeCount).length);
+  scenario.plantings.forEach((planting) => {
+    planting.points.forEach((position) => {
+      rows.push({ id: `T${String(rows.length + 1).padStart(width, '0')}`, planting, position });
+    });
+  });
+  return rows;
+}
+
+export function scenarioToGeoJSON(scenario: PlantingScenario): string {
+  const collection: FeatureCollection<Point> = {
+    type: 'FeatureCollection',
+    features: scenarioTrees(scenario).map(({ id, planting, position }) => ({
+      type: 'Feature',
+      properties: {
+        id,
+        scenario: scenario.name,
+        species: planting.commonName,
+        botanical_name: planting.botanicalName,
+        profile: planting.archetypeName,
+        canopy_dia_m: planting.cooling.canopyDiameter,
+      },
+      geometry: { type: 'Point', coordinates: [round(position[0]), round(position[1])] },
+    })),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+const csvText = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export function scenarioToCSV(scenario: PlantingScenario): string {
+  const header = ['id', 'species', 'botanical_name', 'profile', 'longitude', 'latitude', 'canopy_dia_m'];
+  const rows = scenarioTrees(scenario).map(({ id, planting, position }) => [
+    id,
+    csvText(planting.commonName),
+    csvText(planting.botanicalName),
+    csvText(planting.archetypeName),
+    round(position[0]),
+    round(position[1]),
+    planting.cooling.canopyDiameter,
+  ].join(','));
+  return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,120 @@
+// src/utils/rasterZonalStats.ts
+// Read the land-cover COGs at a point or summarised inside a polygon
+
+import * as GeoTIFF from 'geotiff';
+import * as turf from '@turf/turf';
+import type { MultiPolygon, Polygon } from 'geojson';
+import { LAYER_CONFIGS, RasterLayerType } from '../components/map/RasterOverlay';
+
+// Above this many pixels in the polygon's bounding box, sample on a coarser grid
+const MAX_SAMPLED_PIXELS = 200_000;
+
+const imageCache = new Map<string, Promise<GeoTIFF.GeoTIFFImage>>();
+
+function getRasterImage(layer: RasterLayerType): Promise<GeoTIFF.GeoTIFFImage> {
+  const { url } = LAYER_CONFIGS[layer];
+  let image = imageCache.get(url);
+  if (!image) {
+    image = GeoTIFF.fromUrl(url, { allowFullFile: false }).then((tiff) => tiff.getImage());
+    // Let a failed load be retried next time
+    image.catch(() => imageCache.delete(url));
+    imageCache.set(url, image);
+  }
+  return image;
+}
+
+/**
+ * Raster values whose pixel centre falls inside the geometry.
+ * NaN and the layer's no-data value are dropped unless `keepNoDataValue` is set
+ * (the loss/gain raster uses its no-data value 0 for "no change").
+ */
+export async function sampleRasterInPolygon(
+  layer: RasterLayerType,
+  geometry: Polygon | MultiPolygon,
+  keepNoDataValue = false
+): Promise<number[]> {
+  const image = await getRasterImage(layer);
+  const [west, south, east, north] = image.getBoundingBox();
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const pixelW = (east - west) / width;
+  const pixelH = (north - south) / height;
+
+  const [minX, minY, maxX, maxY] = turf.bbox(geometry);
+  const x0 = Math.max(0, Math.floor((minX - west) / pixelW));
+  const x1 = Math.min(width, Math.ceil((maxX - west) / pixelW));
+  const y0 = Math.max(0, Math.floor((north - maxY) / pixelH));
+  const y1 = Math.min(height, Math.ceil((north - minY) / pixelH));
+  if (x1 <= x0 || y1 <= y0) return [];
+
+  const rasters = await image.readRasters({ window: [x0, y0, x1, y1] });
+  const data = rasters[0] as ArrayLike<number>;
+  const windowWidth = x1 - x0;
+  const step = Math.max(1, Math.ceil(Math.sqrt(((x1 - x0) * (y1 - y0)) / MAX_SAMPLED_PIXELS)));
+  const { noDataValue } = LAYER_CONFIGS[layer];
+
+  const values: number[] = [];
+  for (let row = 0; row < y1 - y0; row += step) {
+    const lat = north - (y0 + row + 0.5) * pixelH;
+    for (let col = 0; col < windowWidth; col += step) {
+      const value = data[row * windowWidth + col];
+      if (Number.isNaN(value) || (!keepNoDataValue && value === noDataValue)) continue;
+      const lng = west + (x0 + col + 0.5) * pixelW;
+      if (turf.booleanPointInPolygon([lng, lat], geometry)) {
+        values.push(value);
+      }
+    }
+  }
+  return values;
+}
+
+/** Raster value at a coordinate, or null outside the raster or on no-data. */
+export async function sampleRasterAtPoint(layer: RasterLayerType, lng: number, lat: number): Promise<number | null> {
+  const image = await getRasterImage(layer);
+  const [west, south, east, north] = image.getBoundingBox();
+  const col = Math.floor(((lng - west) / (east - west)) * image.getWidth());
+  const row = Math.floor(((north - lat) / (north - south)) * image.getHeight());
+  if (col < 0 || row < 0 || col >= image.getWidth() || row >= image.getHeight()) return null;
+
+  const rasters = await image.readRasters({ window: [col, row, col + 1, row + 1] });
+  const value = (rasters[0] as ArrayLike<number>)[0];
+  if (value === undefined || Number.isNaN(value) || value === LAYER_CONFIGS[layer].noDataValue) return null;
+  return value;
+}
+
+export interface AreaRasterSummary {
+  treeCover2019Pct: number | null; // Mean Dynamic World tree probability
+  treeCover2025Pct: number | null;
+  lossPct: number | null; // Share of the area that lost tree cover 2019-2025
+  gainPct: number | null;
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Tree-cover probability in 2019 and 2025 plus loss/gain shares from the
+ * change rasters. Layers that fail to load come back as null.
+ */
+export async function summariseAreaRasters(geometry: Polygon | MultiPolygon): Promise<AreaRasterSummary> {
+  const [cover2019, cover2025, lossGain] = await Promise.allSettled([
+    sampleRasterInPolygon('tree_probability_2019', geometry),
+    sampleRasterInPolygon('tree_probability_2025', geometry),
+    sampleRasterInPolygon('tree_loss_gain', geometry, true),
+  ]);
+
+  [cover2019, cover2025, lossGain].forEach((result) => {
+    if (result.status === 'rejected') console.error('[rasterZonalStats] Raster read failed:', result.reason);
+  });
+
+  const lossGainValues = lossGain.status === 'fulfilled' ? lossGain.value : [];
+  const share = (predicate: (v: number) => boolean) =>
+    lossGainValues.length > 0 ? (lossGainValues.filter(predicate).length / lossGainValues.length) * 100 : null;
+
+  return {
+    treeCover2019Pct: cover2019.status === 'fulfilled' ? mean(cover2019.value) : null,
+    treeCover2025Pct: cover2025.status === 'fulfilled' ? mean(cover2025.value) : null,
+    lossPct: share((v) => v < -0.5),
+    gainPct: share((v) => v > 0.5),
+  };
+}
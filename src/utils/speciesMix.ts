@@ -0,0 +1,217 @@
+// src/utils/speciesMix.ts
+// Multi-species planting mix: maximise P90 cooling under canopy-fit, diversity and count/budget caps.
+//
+// Each species contributes its best-fitting archetype's P90 per tree. The diversity caps are nested
+// (species within genus, as in the 10-20-30 rule), so filling the highest-P90 species first is optimal.
+// Caps are shares of the trees actually planted, so when too few species fit, fewer trees are planted
+// rather than letting any species or genus go over its share.
+
+import type { ArchetypeData, Position, TreeSpeciesData } from '../store/TreeStore';
+
+export interface SpeciesMixConstraints {
+  /** Largest mature canopy diameter (m) a slot can hold */
+  maxCanopyDiameter: number;
+  /** Maximum share of the planting for any one species (0-1) */
+  maxSpeciesShare: number;
+  /** Maximum share of the planting for any one genus (0-1) */
+  maxGenusShare: number;
+  /** Maximum number of trees, or null for no cap */
+  maxTrees: number | null;
+  /** Total budget, or null for no budget */
+  budget: number | null;
+  /** Cost per planted tree, in the same currency as the budget */
+  costPerTree: number;
+}
+
+export interface SpeciesMixAllocation {
+  species: TreeSpeciesData;
+  archetype: ArchetypeData;
+  genus: string;
+  count: number;
+  share: number;
+}
+
+// 'diversity': fewer trees than the positions allow, to keep within the caps;
+// 'infeasible': no planting size satisfies the caps with the species that fit
+export type SpeciesMixLimit = 'site' | 'tree-cap' | 'budget' | 'diversity' | 'infeasible';
+
+export interface SpeciesMixResult {
+  allocations: SpeciesMixAllocation[];
+  /** Planted positions, grouped in the same order as allocations */
+  positionsByAllocation: Position[][];
+  slotCount: number;
+  plantedCount: number;
+  eligibleSpeciesCount: number;
+  totalP90: number;
+  meanP90: number;
+  /** Which constraint stopped the planting from growing */
+  limitedBy: SpeciesMixLimit;
+}
+
+export const DEFAULT_MIX_CONSTRAINTS: SpeciesMixConstraints = {
+  maxCanopyDiameter: 8,
+  maxSpeciesShare: 0.2,
+  maxGenusShare: 0.3,
+  maxTrees: null,
+  budget: null,
+  costPerTree: 1500,
+};
+
+export const getGenus = (botanicalName: string) => {
+  const genus = botanicalName.trim().split(/\s+/)[0] ?? '';
+  return genus.charAt(0).toUpperCase() + genus.slice(1).toLowerCase();
+};
+
+// Best-cooling archetype whose mature canopy fits the slot, if any
+function bestFittingArchetype(species: TreeSpeciesData, maxCanopyDiameter: number): ArchetypeData | null {
+  return species.archetypes
+    .filter((a) => a.canopy_dia_m_max <= maxCanopyDiameter && a.p90_cooling_effect_celsius > 0)
+    .reduce<ArchetypeData | null>(
+      (best, a) => (!best || a.p90_cooling_effect_celsius > best.p90_cooling_effect_celsius ? a : best),
+      null
+    );
+}
+
+// Most trees a share allows in a planting of `total`, rounded down so the share is never exceeded
+const shareCap = (share: number, total: number) => Math.floor(share * total + 1e-9);
+
+type MixCandidate = { species: TreeSpeciesData; archetype: ArchetypeData };
+
+// Fills a planting of exactly `total` trees, best P90 first; null when the caps cannot be met
+function allocateWithinCaps(
+  candidates: MixCandidate[],
+  total: number,
+  maxSpeciesShare: number,
+  maxGenusShare: number
+): SpeciesMixAllocation[] | null {
+  const speciesCap = shareCap(maxSpeciesShare, total);
+  const genusCap = shareCap(maxGenusShare, total);
+  const genusUsed = new Map<string, number>();
+  const allocations: SpeciesMixAllocation[] = [];
+  let planted = 0;
+
+  for (const { species, archetype } of candidates) {
+    if (planted >= total) break;
+    const genus = getGenus(species.botanical_name);
+    const count = Math.min(speciesCap, genusCap - (genusUsed.get(genus) ?? 0), total - planted);
+    if (count <= 0) continue;
+    genusUsed.set(genus, (genusUsed.get(genus) ?? 0) + count);
+    allocations.push({ species, archetype, genus, count, share: count / total });
+    planted += count;
+  }
+  return planted === total ? allocations : null;
+}
+
+/**
+ * Interleave species across the slots so each species is spread over the whole area
+ * instead of planted in blocks: each slot goes to the species furthest behind its target.
+ */
+function spreadAcrossSlots(slots: Position[], counts: number[]): Position[][] {
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  const groups: Position[][] = counts.map(() => []);
+  if (total === 0) return groups;
+
+  const placed = counts.map(() => 0);
+  for (let k = 0; k < total; k++) {
+    // Evenly spaced slots when fewer trees than slots are planted
+    const slot = slots[Math.floor((k * slots.length) / total)];
+    let pick = -1;
+    let largestDeficit = -Infinity;
+    counts.forEach((count, i) => {
+      if (placed[i] >= count) return;
+      const deficit = (count * (k + 1)) / total - placed[i];
+      if (deficit > largestDeficit) {
+        largestDeficit = deficit;
+        pick = i;
+      }
+    });
+    groups[pick].push(slot);
+    placed[pick]++;
+  }
+  return groups;
+}
+
+export function optimiseSpeciesMix(
+  slots: Position[],
+  speciesData: TreeSpeciesData[],
+  constraints: SpeciesMixConstraints
+): SpeciesMixResult {
+  const { maxCanopyDiameter, maxSpeciesShare, maxGenusShare, maxTrees, budget, costPerTree } = constraints;
+
+  const candidates = speciesData
+    .map((species) => ({ species, archetype: bestFittingArchetype(species, maxCanopyDiameter) }))
+    .filter((c): c is MixCandidate => c.archetype !== null)
+    .sort((a, b) => b.archetype.p90_cooling_effect_celsius - a.archetype.p90_cooling_effect_celsius);
+
+  const budgetCap = budget !== null && costPerTree > 0 ? Math.floor(budget / costPerTree) : Infinity;
+  const target = Math.max(0, Math.min(slots.length, maxTrees ?? Infinity, budgetCap));
+
+  // Largest planting up to the target that every species and genus share can be kept within
+  let allocations: SpeciesMixAllocation[] = [];
+  for (let total = target; total > 0; total--) {
+    const attempt = allocateWithinCaps(candidates, total, maxSpeciesShare, maxGenusShare);
+    if (attempt) {
+      allocations = attempt;
+      break;
+    }
+  }
+  const planted = allocations.reduce((sum, a) => sum + a.count, 0);
+  const totalP90 = allocations.reduce((sum, a) => sum + a.count * a.archetype.p90_cooling_effect_celsius, 0);
+
+  let limitedBy: SpeciesMixLimit;
+  if (planted === 0 && target > 0 && candidates.length > 0) limitedBy = 'infeasible';
+  else if (planted < target) limitedBy = 'diversity';
+  else if (target === slots.length) limitedBy = 'site';
+  else if (maxTrees !== null && target === maxTrees) limitedBy = 'tree-cap';
+  else limitedBy = 'budget';
+
+  return {
+    allocations,
+    positionsByAllocation: spreadAcrossSlots(slots, allocations.map((a) => a.count)),
+    slotCount: slots.length,
+    plantedCount: planted,
+    eligibleSpeciesCount: candidates.length,
+    totalP90,
+    meanP90: planted > 0 ? totalP90 / planted : 0,
+    limitedBy,
+  };
+}
+
+// --- Map markers ---
+// One colour and shape per species so mixed plantings can be told apart on the map and in print
+
+export type MixMarkerShape = 'circle' | 'square' | 'triangle' | 'diamond' | 'star' | 'hexagon';
+
+// SVG paths in a 20x20 box, shared by the map icons (via Path2D) and the legend swatches
+export const MIX_MARKER_PATHS: Record<MixMarkerShape, string> = {
+  circle: 'M10 2a8 8 0 1 0 0.001 0Z',
+  square: 'M3 3h14v14H3Z',
+  triangle: 'M10 2L18.5 17H1.5Z',
+  diamond: 'M10 1L19 10L10 19L1 10Z',
+  star: 'M10 1l2.6 5.6 6.1.7-4.5 4.2 1.2 6.1L10 14.6l-5.4 3 1.2-6.1L1.3 7.3l6.1-.7Z',
+  hexagon: 'M10 1.5l7.4 4.25v8.5L10 18.5l-7.4-4.25v-8.5Z',
+};
+
+const MIX_MARKER_SHAPES = Object.keys(MIX_MARKER_PATHS) as MixMarkerShape[];
+const MIX_MARKER_COLORS = ['#16a34a', '#2563eb', '#d97706', '#db2777', '#7c3aed', '#0891b2', '#dc2626', '#65a30d', '#475569', '#ca8a04'];
+
+export interface MixMarkerStyle {
+  shape: MixMarkerShape;
+  color: string;
+}
+
+// Colours cycle faster than shapes, so neighbours in the legend differ in both
+export const getMixMarkerStyle = (index: number): MixMarkerStyle => ({
+  shape: MIX_MARKER_SHAPES[index % MIX_MARKER_SHAPES.length],
+  color: MIX_MARKER_COLORS[index % MIX_MARKER_COLORS.length],
+});
+
+const MIX_ICON_PREFIX = 'sim-mix-marker';
+
+export const mixMarkerIconId = ({ shape, color }: MixMarkerStyle) => `${MIX_ICON_PREFIX}:${shape}:${color.replace('#', '')}`;
+
+export const parseMixMarkerIconId = (id: string): MixMarkerStyle | null => {
+  const [prefix, shape, color] = id.split(':');
+  if (prefix !== MIX_ICON_PREFIX || !(shape in MIX_MARKER_PATHS) || !/^[0-9a-f]{6}$/i.test(color ?? '')) return null;
+  return { shape: shape as MixMarkerShape, color: `#${color}` };
+};
@@ -0,0 +1,79 @@
+// src/utils/treeBenefits.ts
+/**
+ * TREE BENEFIT ESTIMATES
+ * ======================
+ *
+ * Rough annual ecosystem-service figures for a single tree, for the tree
+ * details panel. These are order-of-magnitude estimates, not measurements:
+ *
+ * - CO₂: the census value, which is already species-specific (wood density
+ *   feeds the allometric biomass equation).
+ * - Stormwater: rain held on leaves and evaporated, from leaf area × storage
+ *   per event × rain days, capped at the rain falling on the crown.
+ * - Air pollutants: dry deposition per m² of leaf area (PM, NO₂, SO₂, O₃).
+ */
+
+// Pune climate (IMD normals)
+const ANNUAL_RAINFALL_MM = 720;
+const RAIN_DAYS_PER_YEAR = 45;
+
+// Leaf area index of an urban broadleaf crown
+const LEAF_AREA_INDEX = 3.5;
+// Water held per m² of leaf surface in one rain event (mm)
+const LEAF_STORAGE_MM = 0.2;
+// Pollutant removal per m² of leaf area per year (g); scaled from canopy rates for Indian cities
+const POLLUTANT_REMOVAL_G_PER_M2_LEAF = 2.5;
+
+// Average petrol car emissions, used for the "equivalent to" comparison (kg CO₂ per km)
+const CAR_CO2_KG_PER_KM = 0.17;
+
+export interface TreeBenefitInput {
+  girth_cm: number | null;
+  height_m: number | null;
+  canopy_dia_m: number | null;
+  co2_sequestered_kg: number | null;
+}
+
+export interface TreeBenefits {
+  canopyAreaM2: number;
+  canopyEstimated: boolean; // true when the crown was estimated from girth
+  leafAreaM2: number;
+  /** CO₂ sequestered per year (the census "CO2_sequestered_kg") */
+  co2Kg: number | null;
+  carKmEquivalent: number | null;
+  stormwaterLitres: number;
+  pollutantRemovalG: number;
+}
+
+/** Crown diameter from trunk girth when the census has no canopy measurement. */
+function estimateCrownDiameter(girthCm: number, heightM: number | null): number {
+  const dbhCm = girthCm / Math.PI;
+  const fromGirth = 1.5 + 0.2 * dbhCm;
+  // Crowns rarely spread much wider than the tree is tall
+  return heightM && heightM > 0 ? Math.min(fromGirth, heightM * 1.2) : fromGirth;
+}
+
+export function estimateTreeBenefits(tree: TreeBenefitInput): TreeBenefits | null {
+  const measured = tree.canopy_dia_m != null && tree.canopy_dia_m > 0;
+  if (!measured && !(tree.girth_cm && tree.girth_cm > 0)) return null;
+
+  const crownDiameter = measured ? tree.canopy_dia_m! : estimateCrownDiameter(tree.girth_cm!, tree.height_m);
+  const canopyAreaM2 = Math.PI * (crownDiameter / 2) ** 2;
+  const leafAreaM2 = canopyAreaM2 * LEAF_AREA_INDEX;
+
+  // mm over m² is litres
+  const intercepted = leafAreaM2 * LEAF_STORAGE_MM * RAIN_DAYS_PER_YEAR;
+  const stormwaterLitres = Math.min(intercepted, canopyAreaM2 * ANNUAL_RAINFALL_MM);
+
+  const co2Kg = tree.co2_sequestered_kg != null ? tree.co2_sequestered_kg : null;
+
+  return {
+    canopyAreaM2,
+    canopyEstimated: !measured,
+    leafAreaM2,
+    co2Kg,
+    carKmEquivalent: co2Kg != null ? co2Kg / CAR_CO2_KG_PER_KM : null,
+    stormwaterLitres,
+    pollutantRemovalG: leafAreaM2 * POLLUTANT_REMOVAL_G_PER_M2_LEAF,
+  };
+}
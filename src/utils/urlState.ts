@@ -0,0 +1,185 @@
+/**
+ * URL State Encoding
+ *
+ * Serialises the shareable parts of the dashboard view into the query string
+ * so a copied link reproduces the same map, filters and sidebar state.
+ *
+ * Parameters (all optional):
+ *   c      camera as "lat,lon,zoom,pitch,bearing"
+ *   3d     "1" when the 3D view is active
+ *   tab    active sidebar tab index
+ *   tree   selected tree id
+ *   sp     species open in the Species tab (common name)
+ *   f      TreeFilters that differ from DEFAULT_FILTERS, as JSON
+ *   raster visible raster layer id, with "ro" for its opacity
+ *   gcy    Green Cover Monitor year
+ */
+
+import { TreeFilters, DEFAULT_FILTERS, sanitizeFilters } from '../types/filters';
+import type { RasterLayerType, RasterOverlayConfig } from '../components/map/RasterOverlay';
+
+/**
+ * Map camera position
+ */
+export interface MapCamera {
+  longitude: number;
+  latitude: number;
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+/**
+ * Everything a shared link can carry
+ */
+export interface UrlViewState {
+  camera?: MapCamera;
+  is3D?: boolean;
+  activeTabIndex?: number;
+  selectedTreeId?: string | null;
+  selectedSpecies?: string | null;
+  filters?: TreeFilters;
+  rasterConfig?: RasterOverlayConfig;
+  greenCoverYear?: number;
+}
+
+const RASTER_LAYERS: RasterLayerType[] = [
+  'tree_probability_2025',
+  'tree_probability_2019',
+  'tree_change',
+  'tree_loss_gain',
+  'ndvi',
+  'landcover',
+];
+
+const SIDEBAR_TAB_COUNT = 6;
+// Latest year is the Green Cover Monitor default, so it is left out of links
+const GREEN_COVER_YEARS = { min: 2019, max: 2025 };
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+function parseCamera(value: string | null): MapCamera | undefined {
+  if (!value) return undefined;
+  const [lat, lon, zoom, pitch = 0, bearing = 0] = value.split(',').map(Number);
+  if ([lat, lon, zoom, pitch, bearing].some(n => !Number.isFinite(n))) return undefined;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return undefined;
+  return { latitude: lat, longitude: lon, zoom, pitch, bearing };
+}
+
+/**
+ * Filters from the URL, dropping anything malformed
+ */
+function parseFilters(value: string | null): TreeFilters | undefined {
+  if (!value) return undefined;
+  try {
+    return sanitizeFilters(JSON.parse(value)) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Only the filter keys that differ from the defaults, to keep links short
+ */
+function diffFilters(filters: TreeFilters): Partial<TreeFilters> {
+  const diff: Partial<TreeFilters> = {};
+  (Object.keys(DEFAULT_FILTERS) as (keyof TreeFilters)[]).forEach((key) => {
+    if (JSON.stringify(filters[key]) !== JSON.stringify(DEFAULT_FILTERS[key])) {
+      (diff as Record<string, unknown>)[key] = filters[key];
+    }
+  });
+  return diff;
+}
+
+/**
+ * Parse a query string (e.g. window.location.search) into view state
+ */
+export function parseUrlState(search: string): UrlViewState {
+  const params = new URLSearchParams(search);
+  const state: UrlViewState = {};
+
+  const camera = parseCamera(params.get('c'));
+  if (camera) state.camera = camera;
+
+  if (params.get('3d') === '1') state.is3D = true;
+
+  const tab = parseInt(params.get('tab') ?? '', 10);
+  if (Number.isInteger(tab) && tab >= 0 && tab < SIDEBAR_TAB_COUNT) state.activeTabIndex = tab;
+
+  const tree = params.get('tree');
+  if (tree) state.selectedTreeId = tree;
+
+  const species = params.get('sp');
+  if (species) state.selectedSpecies = species;
+
+  const filters = parseFilters(params.get('f'));
+  if (filters) state.filters = filters;
+
+  const raster = params.get('raster') as RasterLayerType | null;
+  if (raster && RASTER_LAYERS.includes(raster)) {
+    const opacity = parseFloat(params.get('ro') ?? '');
+    state.rasterConfig = {
+      visible: true,
+      layer: raster,
+      opacity: Number.isFinite(opacity) ? Math.min(1, Math.max(0, opacity)) : 0.7,
+    };
+  }
+
+  const year = parseInt(params.get('gcy') ?? '', 10);
+  if (year >= GREEN_COVER_YEARS.min && year <= GREEN_COVER_YEARS.max) state.greenCoverYear = year;
+
+  return state;
+}
+
+/**
+ * Serialise view state into a query string (including the leading "?", or "" when empty)
+ */
+export function serializeUrlState(state: UrlViewState): string {
+  const params = new URLSearchParams();
+
+  if (state.camera) {
+    const { latitude, longitude, zoom, pitch, bearing } = state.camera;
+    params.set('c', [round(latitude, 5), round(longitude, 5), round(zoom, 2), round(pitch, 0), round(bearing, 0)].join(','));
+  }
+  if (state.is3D) params.set('3d', '1');
+  if (state.activeTabIndex !== undefined && state.activeTabIndex > 0) params.set('tab', String(state.activeTabIndex));
+  if (state.selectedTreeId) params.set('tree', state.selectedTreeId);
+  if (state.selectedSpecies) params.set('sp', state.selectedSpecies);
+
+  if (state.filters) {
+    const diff = diffFilters(state.filters);
+    if (Object.keys(diff).length > 0) params.set('f', JSON.stringify(diff));
+  }
+
+  if (state.rasterConfig?.visible) {
+    params.set('raster', state.rasterConfig.layer);
+    params.set('ro', String(round(state.rasterConfig.opacity, 2)));
+  }
+
+  if (state.greenCoverYear !== undefined && state.greenCoverYear !== GREEN_COVER_YEARS.max) {
+    params.set('gcy', String(state.greenCoverYear));
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+// Parsed once per page load - later URL rewrites must not change the initial state
+let initialUrlState: UrlViewState | null = null;
+
+/**
+ * View state encoded in the URL the page was opened with
+ */
+export function getInitialUrlState(): UrlViewState {
+  if (initialUrlState === null) {
+    initialUrlState = typeof window !== 'undefined' ? parseUrlState(window.location.search) : {};
+  }
+  return initialUrlState;
+}
+
+/**
+ * True when the page was opened from a shared link carrying view state
+ */
+export function hasInitialUrlState(): boolean {
+  return Object.keys(getInitialUrlState()).length > 0;
+}
@@ -0,0 +1,57 @@
+// src/utils/wardDetail.ts
+// Data for the ward drill-down panel: the ward's own figures from the server, plus how it ranks
+// by Green Score against the city and its neighbouring wards
+
+import axios from 'axios';
+import { getSeverityLevel, WardComparison, WardLandCover, WardStats } from '../store/GreenCoverStore';
+import type { WardChangePeriod, WardDetail } from '../types/wards';
+import { GreenScoreProfile, calculateGreenScore, wardGreenScoreInputs } from './greenScore';
+
+const API_BASE_URL = import.meta.env.DEV ? 'http://localhost:3001' : '';
+
+export async function fetchWardDetail(wardNumber: number): Promise<WardDetail> {
+  const response = await axios.get<WardDetail>(`${API_BASE_URL}/api/wards/${wardNumber}`);
+  return response.data;
+}
+
+export interface WardRanking {
+  wardNumber: number;
+  score: number;
+  /** 1 = highest Green Score */
+  rank: number;
+}
+
+/** Every ward with land cover for `year`, best Green Score first */
+export function rankWardsByGreenScore(
+  data: { wardData: WardLandCover[]; comparisonData: WardComparison[]; wardStats: WardStats[] },
+  year: number,
+  profile: GreenScoreProfile
+): WardRanking[] {
+  const scored = data.wardData
+    .filter((ward) => ward.year === year)
+    .map((ward) => {
+      const comparison = data.comparisonData.find((c) => c.ward_number === ward.ward_number);
+      const census = data.wardStats.length > 0
+        ? data.wardStats.find((s) => s.ward_number === ward.ward_number)?.tree_count ?? 0
+        : null;
+      const inputs = wardGreenScoreInputs(ward, comparison, census);
+      return { wardNumber: ward.ward_number, score: calculateGreenScore(inputs, profile) };
+    })
+    .sort((a, b) => b.score - a.score);
+  return scored.map((ward, index) => ({ ...ward, rank: index + 1 }));
+}
+
+/** Whether the ward's 2019-2025 loss crosses the hotspot threshold (% of ward area), and how badly */
+export function getWardHotspotStatus(
+  overall: WardChangePeriod | null,
+  areaM2: number | null,
+  lossThreshold: number
+): { netChangePct: number; isHotspot: boolean; severity: 'severe' | 'moderate' | 'minor' } | null {
+  if (!overall || !areaM2) return null;
+  const netChangePct = (overall.net_tree_change_m2 / areaM2) * 100;
+  return {
+    netChangePct,
+    isHotspot: netChangePct < -lossThreshold,
+    severity: getSeverityLevel(netChangePct),
+  };
+}